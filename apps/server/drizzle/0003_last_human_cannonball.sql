@@ -0,0 +1,96 @@
+CREATE TABLE IF NOT EXISTS "device_link_codes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"code_hash" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "device_link_codes_code_hash_unique" UNIQUE("code_hash")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "devices" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"signing_key_public" text NOT NULL,
+	"identity_key_public" text NOT NULL,
+	"signed_prekey_public" text NOT NULL,
+	"signed_prekey_signature" text NOT NULL,
+	"last_seen_at" timestamp DEFAULT now() NOT NULL,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+-- Existing keys become each user's first device
+INSERT INTO "devices" ("user_id", "name", "signing_key_public", "identity_key_public", "signed_prekey_public", "signed_prekey_signature")
+SELECT "id", 'Original device', "signing_key_public", "identity_key_public", "signed_prekey_public", "signed_prekey_signature"
+FROM "users"
+WHERE "signing_key_public" IS NOT NULL
+  AND "identity_key_public" IS NOT NULL
+  AND "signed_prekey_public" IS NOT NULL
+  AND "signed_prekey_signature" IS NOT NULL;--> statement-breakpoint
+-- Challenges and sessions are short-lived; users sign in again
+DELETE FROM "auth_challenges";--> statement-breakpoint
+DELETE FROM "sessions";--> statement-breakpoint
+ALTER TABLE "auth_challenges" ADD COLUMN "device_id" uuid NOT NULL;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "device_id" uuid NOT NULL;--> statement-breakpoint
+ALTER TABLE "prekeys" ADD COLUMN "device_id" uuid;--> statement-breakpoint
+UPDATE "prekeys" SET "device_id" = "devices"."id" FROM "devices" WHERE "devices"."user_id" = "prekeys"."user_id";--> statement-breakpoint
+DELETE FROM "prekeys" WHERE "device_id" IS NULL;--> statement-breakpoint
+ALTER TABLE "prekeys" ALTER COLUMN "device_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "sender_keys" ADD COLUMN "device_id" uuid;--> statement-breakpoint
+ALTER TABLE "sender_keys" ADD COLUMN "for_device_id" uuid;--> statement-breakpoint
+UPDATE "sender_keys" SET "device_id" = "devices"."id" FROM "devices" WHERE "devices"."user_id" = "sender_keys"."user_id";--> statement-breakpoint
+UPDATE "sender_keys" SET "for_device_id" = "devices"."id" FROM "devices" WHERE "devices"."user_id" = "sender_keys"."for_user_id";--> statement-breakpoint
+DELETE FROM "sender_keys" WHERE "device_id" IS NULL OR "for_device_id" IS NULL;--> statement-breakpoint
+ALTER TABLE "sender_keys" ALTER COLUMN "device_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "sender_keys" ALTER COLUMN "for_device_id" SET NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "device_link_codes" ADD CONSTRAINT "device_link_codes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "devices" ADD CONSTRAINT "devices_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "devices_user_idx" ON "devices" USING btree ("user_id");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "auth_challenges" ADD CONSTRAINT "auth_challenges_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "prekeys" ADD CONSTRAINT "prekeys_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "sender_keys" ADD CONSTRAINT "sender_keys_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "sender_keys" ADD CONSTRAINT "sender_keys_for_device_id_devices_id_fk" FOREIGN KEY ("for_device_id") REFERENCES "public"."devices"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "sessions" ADD CONSTRAINT "sessions_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "prekeys_device_idx" ON "prekeys" USING btree ("device_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sender_keys_channel_device_idx" ON "sender_keys" USING btree ("channel_id","for_device_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sessions_device_idx" ON "sessions" USING btree ("device_id");--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN IF EXISTS "signing_key_public";--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN IF EXISTS "identity_key_public";--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN IF EXISTS "signed_prekey_public";--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN IF EXISTS "signed_prekey_signature";
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS "key_backups" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"encrypted_data" text NOT NULL,
+	"wrapped_key" text NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "key_backups_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "key_backups" ADD CONSTRAINT "key_backups_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
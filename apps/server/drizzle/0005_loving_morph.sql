@@ -0,0 +1,2 @@
+ALTER TABLE "devices" ADD COLUMN "signed_prekey_id" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "prekeys_device_key_idx" ON "prekeys" USING btree ("device_id","key_id");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "channels" ADD COLUMN "epoch" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "epoch" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "sender_keys" ADD COLUMN "epoch" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "messages" ADD COLUMN "client_message_id" text;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "messages_client_message_idx" ON "messages" USING btree ("sender_id","client_message_id");
\ No newline at end of file
@@ -0,0 +1,86 @@
+CREATE TABLE IF NOT EXISTS "dm_conversations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"pair_key" text,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "dm_conversations_pair_key_unique" UNIQUE("pair_key")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "dm_message_ciphertexts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"message_id" uuid NOT NULL,
+	"for_device_id" uuid NOT NULL,
+	"ciphertext" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "dm_messages" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"conversation_id" uuid NOT NULL,
+	"sender_id" uuid NOT NULL,
+	"sender_device_id" uuid NOT NULL,
+	"client_message_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "dm_participants" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"conversation_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"joined_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "dm_conversations" ADD CONSTRAINT "dm_conversations_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "dm_message_ciphertexts" ADD CONSTRAINT "dm_message_ciphertexts_message_id_dm_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."dm_messages"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "dm_message_ciphertexts" ADD CONSTRAINT "dm_message_ciphertexts_for_device_id_devices_id_fk" FOREIGN KEY ("for_device_id") REFERENCES "public"."devices"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "dm_messages" ADD CONSTRAINT "dm_messages_conversation_id_dm_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."dm_conversations"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "dm_messages" ADD CONSTRAINT "dm_messages_sender_id_users_id_fk" FOREIGN KEY ("sender_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "dm_messages" ADD CONSTRAINT "dm_messages_sender_device_id_devices_id_fk" FOREIGN KEY ("sender_device_id") REFERENCES "public"."devices"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "dm_participants" ADD CONSTRAINT "dm_participants_conversation_id_dm_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."dm_conversations"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "dm_participants" ADD CONSTRAINT "dm_participants_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "dm_message_ciphertexts_message_device_idx" ON "dm_message_ciphertexts" USING btree ("message_id","for_device_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "dm_message_ciphertexts_device_idx" ON "dm_message_ciphertexts" USING btree ("for_device_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "dm_messages_conversation_idx" ON "dm_messages" USING btree ("conversation_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "dm_messages_client_message_idx" ON "dm_messages" USING btree ("sender_id","client_message_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "dm_messages_created_at_idx" ON "dm_messages" USING btree ("created_at");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "dm_participants_conversation_user_idx" ON "dm_participants" USING btree ("conversation_id","user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "dm_participants_user_idx" ON "dm_participants" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1,14 @@
+ALTER TABLE "sender_keys" ALTER COLUMN "channel_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "dm_conversations" ADD COLUMN "is_group" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "dm_conversations" ADD COLUMN "name" text;--> statement-breakpoint
+ALTER TABLE "dm_conversations" ADD COLUMN "epoch" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "dm_messages" ADD COLUMN "ciphertext" text;--> statement-breakpoint
+ALTER TABLE "dm_messages" ADD COLUMN "epoch" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "sender_keys" ADD COLUMN "conversation_id" uuid;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "sender_keys" ADD CONSTRAINT "sender_keys_conversation_id_dm_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."dm_conversations"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sender_keys_conversation_device_idx" ON "sender_keys" USING btree ("conversation_id","for_device_id");
\ No newline at end of file
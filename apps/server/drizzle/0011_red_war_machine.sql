@@ -0,0 +1,5 @@
+ALTER TABLE "messages" ALTER COLUMN "ciphertext" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "channels" ADD COLUMN "retention_seconds" integer;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "notice" jsonb;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "expires_at" timestamp;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "messages_expires_at_idx" ON "messages" USING btree ("expires_at");
\ No newline at end of file
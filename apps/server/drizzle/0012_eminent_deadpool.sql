@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "message_edits" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"message_id" uuid NOT NULL,
+	"ciphertext" text NOT NULL,
+	"epoch" integer NOT NULL,
+	"edited_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "edited_at" timestamp;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "message_edits" ADD CONSTRAINT "message_edits_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "message_edits_message_idx" ON "message_edits" USING btree ("message_id");
\ No newline at end of file
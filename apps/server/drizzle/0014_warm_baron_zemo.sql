@@ -0,0 +1,31 @@
+CREATE TABLE IF NOT EXISTS "message_reactions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"message_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"emoji" text,
+	"emoji_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "message_reactions" ADD CONSTRAINT "message_reactions_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "message_reactions" ADD CONSTRAINT "message_reactions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "message_reactions" ADD CONSTRAINT "message_reactions_emoji_id_emojis_id_fk" FOREIGN KEY ("emoji_id") REFERENCES "public"."emojis"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "message_reactions_message_idx" ON "message_reactions" USING btree ("message_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "message_reactions_emoji_idx" ON "message_reactions" USING btree ("emoji_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "message_reactions_unicode_idx" ON "message_reactions" USING btree ("message_id","user_id","emoji");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "message_reactions_custom_idx" ON "message_reactions" USING btree ("message_id","user_id","emoji_id");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "messages" ADD COLUMN "mentioned_user_ids" uuid[];--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "mentions_everyone" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "messages_mentioned_user_ids_idx" ON "messages" USING gin ("mentioned_user_ids");
\ No newline at end of file
@@ -0,0 +1,13 @@
+ALTER TABLE "sender_keys" ADD COLUMN "shared_by_user_id" uuid;--> statement-breakpoint
+ALTER TABLE "sender_keys" ADD COLUMN "shared_by_device_id" uuid;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "sender_keys" ADD CONSTRAINT "sender_keys_shared_by_user_id_users_id_fk" FOREIGN KEY ("shared_by_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "sender_keys" ADD CONSTRAINT "sender_keys_shared_by_device_id_devices_id_fk" FOREIGN KEY ("shared_by_device_id") REFERENCES "public"."devices"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
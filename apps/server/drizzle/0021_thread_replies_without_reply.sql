@@ -0,0 +1,2 @@
+-- Thread replies used to be stored as replies to their thread's root
+UPDATE "messages" SET "reply_to_id" = NULL WHERE "thread_id" IS NOT NULL AND "reply_to_id" = "thread_id";
@@ -0,0 +1,51 @@
+import { createHash, randomInt } from "crypto";
+import { db, deviceLinkCodes } from "../db/index.js";
+import { and, eq, gt, lt } from "drizzle-orm";
+
+const LINK_CODE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const LINK_CODE_LENGTH = 8;
+// No 0/O or 1/I, so codes can be read off one screen and typed into another
+const LINK_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+function hashLinkCode(code: string): string {
+  return createHash("sha256").update(code.toUpperCase()).digest("hex");
+}
+
+/**
+ * Create a one-time code that lets a new device join the user's account
+ */
+export async function createLinkCode(userId: string): Promise<{ code: string; expiresAt: Date }> {
+  let code = "";
+  for (let i = 0; i < LINK_CODE_LENGTH; i++) {
+    code += LINK_CODE_ALPHABET[randomInt(LINK_CODE_ALPHABET.length)];
+  }
+
+  const expiresAt = new Date(Date.now() + LINK_CODE_TTL_MS);
+
+  // Drop codes that were never used
+  await db.delete(deviceLinkCodes).where(lt(deviceLinkCodes.expiresAt, new Date()));
+
+  await db.insert(deviceLinkCodes).values({
+    userId,
+    codeHash: hashLinkCode(code),
+    expiresAt,
+  });
+
+  return { code, expiresAt };
+}
+
+/**
+ * Consume a link code for a user. Returns false if the code is unknown,
+ * expired or belongs to someone else.
+ */
+export async function consumeLinkCode(userId: string, code: string): Promise<boolean> {
+  const [consumed] = await db.delete(deviceLinkCodes)
+    .where(and(
+      eq(deviceLinkCodes.codeHash, hashLinkCode(code)),
+      eq(deviceLinkCodes.userId, userId),
+      gt(deviceLinkCodes.expiresAt, new Date())
+    ))
+    .returning();
+
+  return !!consumed;
+}
@@ -0,0 +1,36 @@
+/**
+ * In-memory fixed-window rate limiter.
+ * Counts are per process, which is fine for a single server instance.
+ */
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }) {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    /**
+     * Record a hit for a key. Returns the number of seconds to wait if the
+     * key is over its limit, or 0 if the hit is allowed.
+     */
+    hit(key: string): number {
+      const now = Date.now();
+
+      // Drop finished windows so the map doesn't grow without bound
+      if (windows.size > 10000) {
+        for (const [k, w] of windows) {
+          if (w.resetAt <= now) windows.delete(k);
+        }
+      }
+
+      let window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+
+      window.count++;
+      if (window.count > limit) {
+        return Math.ceil((window.resetAt - now) / 1000);
+      }
+      return 0;
+    },
+  };
+}
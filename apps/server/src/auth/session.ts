@@ -0,0 +1,191 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { db, sessions, devices } from "../db/index.js";
+import { and, eq, gt, isNull } from "drizzle-orm";
+
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000; // 15 minutes
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+const secret = process.env.SESSION_SECRET || (() => {
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  return "vibechat-dev-session-secret";
+})();
+
+declare module "fastify" {
+  interface FastifyRequest {
+    userId: string;
+    deviceId: string;
+    sessionId: string;
+  }
+}
+
+interface AccessTokenPayload {
+  sub: string; // userId
+  did: string; // deviceId
+  sid: string; // sessionId
+  exp: number; // expiry (ms since epoch)
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  accessTokenExpiresAt: string;
+  refreshToken: string;
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+function hashRefreshToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function createAccessToken(userId: string, deviceId: string, sessionId: string) {
+  const exp = Date.now() + ACCESS_TOKEN_TTL_MS;
+  const payload: AccessTokenPayload = { sub: userId, did: deviceId, sid: sessionId, exp };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+
+  return {
+    accessToken: `${encoded}.${sign(encoded)}`,
+    accessTokenExpiresAt: new Date(exp).toISOString(),
+  };
+}
+
+/**
+ * Verify an access token and return its payload, or null if it is
+ * malformed, tampered with or expired
+ */
+export function verifyAccessToken(token: string): AccessTokenPayload | null {
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, "base64url").toString()) as AccessTokenPayload;
+    if (typeof payload.sub !== "string" || typeof payload.sid !== "string") return null;
+    if (typeof payload.did !== "string") return null;
+    if (typeof payload.exp !== "number" || payload.exp <= Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Start a new session for a user's device and issue its first token pair
+ */
+export async function createSession(userId: string, deviceId: string): Promise<SessionTokens> {
+  const refreshToken = randomBytes(32).toString("base64url");
+
+  const [session] = await db.insert(sessions).values({
+    userId,
+    deviceId,
+    refreshTokenHash: hashRefreshToken(refreshToken),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+  }).returning();
+
+  return { ...createAccessToken(userId, deviceId, session.id), refreshToken };
+}
+
+/**
+ * Exchange a refresh token for a new token pair. The refresh token is
+ * rotated, so each one can only be used once.
+ */
+export async function refreshSession(refreshToken: string): Promise<SessionTokens | null> {
+  const nextRefreshToken = randomBytes(32).toString("base64url");
+
+  const [session] = await db.update(sessions)
+    .set({
+      refreshTokenHash: hashRefreshToken(nextRefreshToken),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    })
+    .where(and(
+      eq(sessions.refreshTokenHash, hashRefreshToken(refreshToken)),
+      isNull(sessions.revokedAt),
+      gt(sessions.expiresAt, new Date())
+    ))
+    .returning();
+
+  if (!session) return null;
+
+  return {
+    ...createAccessToken(session.userId, session.deviceId, session.id),
+    refreshToken: nextRefreshToken,
+  };
+}
+
+/**
+ * Revoke a session so its refresh token can no longer be used
+ */
+export async function revokeSession(sessionId: string): Promise<void> {
+  await db.update(sessions)
+    .set({ revokedAt: new Date() })
+    .where(eq(sessions.id, sessionId));
+}
+
+/**
+ * Revoke every session of a device (used when the device is revoked)
+ */
+export async function revokeDeviceSessions(deviceId: string): Promise<void> {
+  await db.update(sessions)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(sessions.deviceId, deviceId), isNull(sessions.revokedAt)));
+}
+
+/**
+ * Read the bearer token from the Authorization header, falling back to a
+ * `token` query parameter (browsers cannot set headers on WebSocket upgrades).
+ * The request logger redacts the parameter.
+ */
+function extractToken(request: FastifyRequest): string | null {
+  const header = request.headers.authorization;
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length);
+  }
+
+  const { token } = request.query as { token?: string };
+  return token || null;
+}
+
+/**
+ * Whether an access token's session and device are still active. Access
+ * tokens outlive logouts and device revocations, so each use is checked.
+ */
+async function isSessionActive(payload: AccessTokenPayload): Promise<boolean> {
+  const [active] = await db.select({ id: sessions.id })
+    .from(sessions)
+    .innerJoin(devices, eq(devices.id, sessions.deviceId))
+    .where(and(
+      eq(sessions.id, payload.sid),
+      eq(sessions.deviceId, payload.did),
+      isNull(sessions.revokedAt),
+      isNull(devices.revokedAt)
+    ));
+
+  return !!active;
+}
+
+/**
+ * preHandler hook that rejects unauthenticated requests and attaches the
+ * caller's userId, deviceId and sessionId to the request. Also guards the
+ * WebSocket upgrade.
+ */
+export async function requireAuth(request: FastifyRequest, reply: FastifyReply) {
+  const token = extractToken(request);
+  const payload = token ? verifyAccessToken(token) : null;
+
+  if (!payload || !await isSessionActive(payload)) {
+    return reply.status(401).send({ error: "Unauthorized" });
+  }
+
+  request.userId = payload.sub;
+  request.deviceId = payload.did;
+  request.sessionId = payload.sid;
+}
@@ -0,0 +1,51 @@
+import { createPublicKey, verify } from "crypto";
+
+/**
+ * Build the message a client signs to answer a login challenge. The prefix
+ * keeps login signatures from being replayed in any other context.
+ */
+export function loginChallengeMessage(challengeId: string, nonce: string): Buffer {
+  return Buffer.from(`vibechat-login:${challengeId}:${nonce}`);
+}
+
+/**
+ * Build the message a device's signing key signs to vouch for its signed
+ * prekey. Covering the identity key too binds the prekey to that identity.
+ * Must match signedPreKeyMessage() on the client.
+ */
+export function signedPreKeyMessage(identityKeyPublic: string, signedPreKeyPublic: string): Buffer {
+  return Buffer.concat([
+    Buffer.from("vibechat-signed-prekey:"),
+    Buffer.from(identityKeyPublic, "base64"),
+    Buffer.from(signedPreKeyPublic, "base64"),
+  ]);
+}
+
+/**
+ * Verify an ECDSA P-256 / SHA-256 signature produced by WebCrypto.
+ * Public keys are base64 SPKI and signatures are base64 raw (r || s),
+ * which is what `crypto.subtle.sign` emits.
+ */
+export function verifySignature(
+  publicKeyBase64: string,
+  data: Buffer,
+  signatureBase64: string
+): boolean {
+  try {
+    const publicKey = createPublicKey({
+      key: Buffer.from(publicKeyBase64, "base64"),
+      format: "der",
+      type: "spki",
+    });
+
+    return verify(
+      "sha256",
+      data,
+      { key: publicKey, dsaEncoding: "ieee-p1363" },
+      Buffer.from(signatureBase64, "base64")
+    );
+  } catch {
+    // Malformed key or signature
+    return false;
+  }
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, timestamp, uuid, boolean, index } from "drizzle-orm/pg-core";
+import { pgTable, text, timestamp, uuid, boolean, integer, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 
 // Users
 export const users = pgTable("users", {
@@ -6,22 +6,88 @@ export const users = pgTable("users", {
   email: text("email").unique().notNull(),
   displayName: text("display_name").notNull(),
   avatarUrl: text("avatar_url"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Devices - each browser holds its own identity keys
+export const devices = pgTable("devices", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  // ECDSA P-256 public key used to prove possession of the device at login
+  signingKeyPublic: text("signing_key_public").notNull(),
   // Signal Protocol keys (stored as base64)
-  identityKeyPublic: text("identity_key_public"),
-  signedPreKeyPublic: text("signed_prekey_public"),
-  signedPreKeySignature: text("signed_prekey_signature"),
+  identityKeyPublic: text("identity_key_public").notNull(),
+  // The signed prekey is rotated periodically; the id tells senders which one they used
+  signedPreKeyId: integer("signed_prekey_id").default(0).notNull(),
+  signedPreKeyPublic: text("signed_prekey_public").notNull(),
+  signedPreKeySignature: text("signed_prekey_signature").notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("devices_user_idx").on(table.userId),
+}));
+
+// Passphrase-encrypted backups of a user's local keys.
+// Both fields are opaque to the server: encryptedData is encrypted with a random
+// backup key, and wrappedKey is that backup key encrypted with the passphrase.
+export const keyBackups = pgTable("key_backups", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").references(() => users.id).unique().notNull(),
+  encryptedData: text("encrypted_data").notNull(),
+  wrappedKey: text("wrapped_key").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// One-time codes that let a signed-in device add a new device to the account
+export const deviceLinkCodes = pgTable("device_link_codes", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  codeHash: text("code_hash").unique().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Pending login challenges (nonce must be signed with the device's signing key)
+export const authChallenges = pgTable("auth_challenges", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  deviceId: uuid("device_id").references(() => devices.id).notNull(),
+  nonce: text("nonce").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("auth_challenges_user_idx").on(table.userId),
+}));
+
+// Login sessions (refresh tokens are stored hashed)
+export const sessions = pgTable("sessions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  deviceId: uuid("device_id").references(() => devices.id).notNull(),
+  refreshTokenHash: text("refresh_token_hash").unique().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("sessions_user_idx").on(table.userId),
+  deviceIdx: index("sessions_device_idx").on(table.deviceId),
+}));
+
 // One-time prekeys for Signal Protocol
 export const preKeys = pgTable("prekeys", {
   id: uuid("id").primaryKey().defaultRandom(),
   userId: uuid("user_id").references(() => users.id).notNull(),
+  deviceId: uuid("device_id").references(() => devices.id).notNull(),
   keyId: text("key_id").notNull(),
   publicKey: text("public_key").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   userIdx: index("prekeys_user_idx").on(table.userId),
+  deviceIdx: index("prekeys_device_idx").on(table.deviceId),
+  deviceKeyIdx: uniqueIndex("prekeys_device_key_idx").on(table.deviceId, table.keyId),
 }));
 
 // Communities (like Discord servers)
@@ -45,28 +111,47 @@ export const communityMembers = pgTable("community_members", {
   userIdx: index("community_members_user_idx").on(table.userId),
 }));
 
+// System notices in a channel's history, stored in the clear
+export type MessageNotice =
+  | { type: "retention_changed"; retentionSeconds: number | null };
+
 // Channels within communities
 export const channels = pgTable("channels", {
   id: uuid("id").primaryKey().defaultRandom(),
   communityId: uuid("community_id").references(() => communities.id).notNull(),
   name: text("name").notNull(),
+  // Bumped whenever the community's membership changes; senders start new chains per epoch
+  epoch: integer("epoch").default(0).notNull(),
+  // Disappearing messages: new messages are deleted this long after they are sent. Null keeps them.
+  retentionSeconds: integer("retention_seconds"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   communityIdx: index("channels_community_idx").on(table.communityId),
 }));
 
-// Sender keys for channel encryption
+// Sender keys for channel and group conversation encryption (one of the two is set)
 export const senderKeys = pgTable("sender_keys", {
   id: uuid("id").primaryKey().defaultRandom(),
-  channelId: uuid("channel_id").references(() => channels.id).notNull(),
+  channelId: uuid("channel_id").references(() => channels.id),
+  conversationId: uuid("conversation_id").references(() => dmConversations.id),
   userId: uuid("user_id").references(() => users.id).notNull(),
+  deviceId: uuid("device_id").references(() => devices.id).notNull(),
   distributionId: text("distribution_id").notNull(),
-  // Encrypted sender key (encrypted to each recipient)
+  // Channel epoch the sending chain belongs to
+  epoch: integer("epoch").default(0).notNull(),
+  // Encrypted sender key (encrypted to each recipient device)
   encryptedKey: text("encrypted_key").notNull(),
   forUserId: uuid("for_user_id").references(() => users.id).notNull(),
+  forDeviceId: uuid("for_device_id").references(() => devices.id).notNull(),
+  // Set when another device holding the chain shared it in answer to a key
+  // request; the key is then encrypted by that device rather than the owner
+  sharedByUserId: uuid("shared_by_user_id").references(() => users.id),
+  sharedByDeviceId: uuid("shared_by_device_id").references(() => devices.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   channelUserIdx: index("sender_keys_channel_user_idx").on(table.channelId, table.forUserId),
+  channelDeviceIdx: index("sender_keys_channel_device_idx").on(table.channelId, table.forDeviceId),
+  conversationDeviceIdx: index("sender_keys_conversation_device_idx").on(table.conversationId, table.forDeviceId),
 }));
 
 // Messages (encrypted)
@@ -74,12 +159,157 @@ export const messages = pgTable("messages", {
   id: uuid("id").primaryKey().defaultRandom(),
   channelId: uuid("channel_id").references(() => channels.id).notNull(),
   senderId: uuid("sender_id").references(() => users.id).notNull(),
-  ciphertext: text("ciphertext").notNull(),
+  ciphertext: text("ciphertext"), // Null for system notices
+  // Channel epoch whose sender chain encrypted this message
+  epoch: integer("epoch").default(0).notNull(),
+  // Sender-chosen id, so a message resent after a lost acknowledgement is stored once
+  clientMessageId: text("client_message_id"),
   replyToId: uuid("reply_to_id"),
+  // Root message of the thread this reply was posted in; null for messages in the channel itself
+  threadId: uuid("thread_id"),
+  // Plaintext notice posted by the server on behalf of the sender, e.g. a timer change
+  notice: jsonb("notice").$type<MessageNotice>(),
+  // Who the sender says the message mentions; the server can't read the content.
+  // @here is stored as the members who were online.
+  mentionedUserIds: uuid("mentioned_user_ids").array(),
+  mentionsEveryone: boolean("mentions_everyone").default(false).notNull(),
+  // Set in channels with disappearing messages; the purge job deletes the message after this
+  expiresAt: timestamp("expires_at"),
+  editedAt: timestamp("edited_at"), // When the current ciphertext replaced an earlier one
+  // Deleted messages stay as tombstones without ciphertext, so replies can still point at them
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: uuid("deleted_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   channelIdx: index("messages_channel_idx").on(table.channelId),
+  clientMessageIdx: uniqueIndex("messages_client_message_idx").on(table.senderId, table.clientMessageId),
   createdAtIdx: index("messages_created_at_idx").on(table.createdAt),
+  expiresAtIdx: index("messages_expires_at_idx").on(table.expiresAt),
+  threadIdx: index("messages_thread_idx").on(table.threadId, table.createdAt),
+  mentionedUserIdsIdx: index("messages_mentioned_user_ids_idx").using("gin", table.mentionedUserIds),
+}));
+
+// Threads started from channel messages, keyed by their root message. Replies
+// are messages with the thread's id as their threadId.
+export const threads = pgTable("threads", {
+  id: uuid("id").primaryKey().references(() => messages.id, { onDelete: "cascade" }),
+  channelId: uuid("channel_id").references(() => channels.id).notNull(),
+  lastReplyAt: timestamp("last_reply_at").notNull(),
+  // Set by the archive job after a while without replies; the next reply reopens the thread
+  archivedAt: timestamp("archived_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  lastReplyAtIdx: index("threads_last_reply_at_idx").on(table.lastReplyAt),
+}));
+
+// Earlier versions of edited messages, still encrypted as they were sent
+export const messageEdits = pgTable("message_edits", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  messageId: uuid("message_id").references(() => messages.id, { onDelete: "cascade" }).notNull(),
+  ciphertext: text("ciphertext").notNull(),
+  epoch: integer("epoch").notNull(),
+  // The message's editedAt while this version was current; null for the original
+  editedAt: timestamp("edited_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(), // When it was replaced
+}, (table) => ({
+  messageIdx: index("message_edits_message_idx").on(table.messageId),
+}));
+
+// Reactions to channel messages: a Unicode emoji, or one of the community's custom emojis
+export const messageReactions = pgTable("message_reactions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  messageId: uuid("message_id").references(() => messages.id, { onDelete: "cascade" }).notNull(),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  emoji: text("emoji"), // Null for custom emojis
+  emojiId: uuid("emoji_id").references(() => emojis.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  messageIdx: index("message_reactions_message_idx").on(table.messageId),
+  emojiIdx: index("message_reactions_emoji_idx").on(table.emojiId),
+  // Nulls are distinct, so each index covers one kind of reaction
+  unicodeIdx: uniqueIndex("message_reactions_unicode_idx").on(table.messageId, table.userId, table.emoji),
+  customIdx: uniqueIndex("message_reactions_custom_idx").on(table.messageId, table.userId, table.emojiId),
+}));
+
+// Messages pinned by moderators, at most one pin per message
+export const pinnedMessages = pgTable("pinned_messages", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  channelId: uuid("channel_id").references(() => channels.id).notNull(),
+  messageId: uuid("message_id").references(() => messages.id, { onDelete: "cascade" }).unique().notNull(),
+  pinnedBy: uuid("pinned_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  channelIdx: index("pinned_messages_channel_idx").on(table.channelId, table.createdAt),
+}));
+
+// How far each member has read each channel
+export const channelReadStates = pgTable("channel_read_states", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  channelId: uuid("channel_id").references(() => channels.id).notNull(),
+  // Null once the message has expired; lastReadAt still marks the position
+  lastReadMessageId: uuid("last_read_message_id").references(() => messages.id, { onDelete: "set null" }),
+  lastReadAt: timestamp("last_read_at").notNull(), // createdAt of the last message read
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  userChannelIdx: uniqueIndex("channel_read_states_user_channel_idx").on(table.userId, table.channelId),
+}));
+
+// Direct message conversations. A one-to-one conversation has a pair key
+// (both user ids, sorted) so each pair of users shares a single conversation.
+// Group conversations are encrypted with sender keys like channels.
+export const dmConversations = pgTable("dm_conversations", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  pairKey: text("pair_key").unique(),
+  isGroup: boolean("is_group").default(false).notNull(),
+  name: text("name"),
+  // Groups only: bumped whenever the participants change, like channel epochs
+  epoch: integer("epoch").default(0).notNull(),
+  createdBy: uuid("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Users taking part in a direct message conversation
+export const dmParticipants = pgTable("dm_participants", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  conversationId: uuid("conversation_id").references(() => dmConversations.id).notNull(),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  joinedAt: timestamp("joined_at").defaultNow().notNull(),
+}, (table) => ({
+  conversationUserIdx: uniqueIndex("dm_participants_conversation_user_idx").on(table.conversationId, table.userId),
+  userIdx: index("dm_participants_user_idx").on(table.userId),
+}));
+
+// Direct messages. In one-to-one conversations the content is encrypted
+// separately for each recipient device (see dmMessageCiphertexts) and the
+// sending device keeps its own copy. Group messages have a single sender key
+// ciphertext.
+export const dmMessages = pgTable("dm_messages", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  conversationId: uuid("conversation_id").references(() => dmConversations.id).notNull(),
+  senderId: uuid("sender_id").references(() => users.id).notNull(),
+  senderDeviceId: uuid("sender_device_id").references(() => devices.id).notNull(),
+  ciphertext: text("ciphertext"),
+  // Group epoch whose sender chain encrypted this message
+  epoch: integer("epoch").default(0).notNull(),
+  // Sender-chosen id, so a message resent after a lost acknowledgement is stored once
+  clientMessageId: text("client_message_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  conversationIdx: index("dm_messages_conversation_idx").on(table.conversationId),
+  clientMessageIdx: uniqueIndex("dm_messages_client_message_idx").on(table.senderId, table.clientMessageId),
+  createdAtIdx: index("dm_messages_created_at_idx").on(table.createdAt),
+}));
+
+// A direct message encrypted for one device with that device's Double Ratchet session
+export const dmMessageCiphertexts = pgTable("dm_message_ciphertexts", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  messageId: uuid("message_id").references(() => dmMessages.id).notNull(),
+  forDeviceId: uuid("for_device_id").references(() => devices.id).notNull(),
+  ciphertext: text("ciphertext").notNull(),
+}, (table) => ({
+  messageDeviceIdx: uniqueIndex("dm_message_ciphertexts_message_device_idx").on(table.messageId, table.forDeviceId),
+  deviceIdx: index("dm_message_ciphertexts_device_idx").on(table.forDeviceId),
 }));
 
 // Custom emojis
@@ -94,3 +324,19 @@ export const emojis = pgTable("emojis", {
 }, (table) => ({
   communityIdx: index("emojis_community_idx").on(table.communityId),
 }));
+
+// Encrypted attachment blobs, stored by the blob store under their id. The
+// server never sees the keys; they travel inside the encrypted messages.
+export const attachments = pgTable("attachments", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  uploadedBy: uuid("uploaded_by").references(() => users.id).notNull(),
+  size: integer("size").notNull(), // Bytes of ciphertext
+  // Where it was sent, as listed by the sender: a channel message or a conversation.
+  // Null until then, when only the uploader can download it.
+  messageId: uuid("message_id").references(() => messages.id, { onDelete: "set null" }),
+  conversationId: uuid("conversation_id").references(() => dmConversations.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uploaderIdx: index("attachments_uploader_idx").on(table.uploadedBy),
+  messageIdx: index("attachments_message_idx").on(table.messageId),
+}));
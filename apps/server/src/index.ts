@@ -6,10 +6,30 @@ import { communityRoutes } from "./routes/communities.js";
 import { channelRoutes } from "./routes/channels.js";
 import { messageRoutes } from "./routes/messages.js";
 import { emojiRoutes } from "./routes/emojis.js";
+import { deviceRoutes } from "./routes/devices.js";
+import { backupRoutes } from "./routes/backups.js";
+import { dmRoutes } from "./routes/dms.js";
+import { attachmentRoutes } from "./routes/attachments.js";
 import { websocketHandler } from "./websocket/index.js";
+import { startMessagePurge } from "./jobs/messageRetention.js";
+import { startThreadArchive } from "./jobs/threadArchive.js";
 
 const fastify = Fastify({
-  logger: true,
+  logger: {
+    serializers: {
+      // The WebSocket upgrade carries the access token in the query string,
+      // which must not end up in the logs
+      req(request) {
+        return {
+          method: request.method,
+          url: request.url.replace(/([?&]token=)[^&]*/g, "$1[redacted]"),
+          hostname: request.hostname,
+          remoteAddress: request.ip,
+          remotePort: request.socket?.remotePort,
+        };
+      },
+    },
+  },
 });
 
 async function main() {
@@ -20,12 +40,21 @@ async function main() {
   });
   await fastify.register(websocket);
 
+  // Populated by requireAuth on authenticated routes
+  fastify.decorateRequest("userId", "");
+  fastify.decorateRequest("deviceId", "");
+  fastify.decorateRequest("sessionId", "");
+
   // REST routes
   await fastify.register(authRoutes, { prefix: "/api/auth" });
   await fastify.register(communityRoutes, { prefix: "/api/communities" });
   await fastify.register(channelRoutes, { prefix: "/api/channels" });
   await fastify.register(messageRoutes, { prefix: "/api/messages" });
   await fastify.register(emojiRoutes, { prefix: "/api/emojis" });
+  await fastify.register(deviceRoutes, { prefix: "/api/devices" });
+  await fastify.register(backupRoutes, { prefix: "/api/backups" });
+  await fastify.register(dmRoutes, { prefix: "/api/dms" });
+  await fastify.register(attachmentRoutes, { prefix: "/api/attachments" });
 
   // WebSocket
   await fastify.register(websocketHandler);
@@ -33,6 +62,10 @@ async function main() {
   // Health check
   fastify.get("/health", async () => ({ status: "ok" }));
 
+  // Background jobs
+  startMessagePurge();
+  startThreadArchive();
+
   // Start server
   const port = parseInt(process.env.PORT || "3000", 10);
   const host = process.env.HOST || "0.0.0.0";
@@ -0,0 +1,58 @@
+import { db, messages } from "../db/index.js";
+import { lte } from "drizzle-orm";
+import { broadcastToChannel } from "../websocket/index.js";
+import { announceThreads } from "../routes/messages.js";
+import { deleteMessageAttachments } from "../routes/attachments.js";
+
+const PURGE_INTERVAL_MS = 30 * 1000;
+
+/**
+ * When a message sent now should expire, given its channel's retention setting
+ */
+export function getMessageExpiry(retentionSeconds: number | null): Date | null {
+  return retentionSeconds ? new Date(Date.now() + retentionSeconds * 1000) : null;
+}
+
+/**
+ * Hard-delete expired messages with their attachments and tell the clients
+ * watching their channels. Clients that miss the event drop the messages
+ * themselves once their expiresAt has passed.
+ */
+async function purgeExpiredMessages() {
+  const now = new Date();
+
+  const expiring = await db.select({ id: messages.id })
+    .from(messages)
+    .where(lte(messages.expiresAt, now));
+  await deleteMessageAttachments(expiring.map((m) => m.id));
+
+  const expired = await db.delete(messages)
+    .where(lte(messages.expiresAt, now))
+    .returning({ id: messages.id, channelId: messages.channelId, threadId: messages.threadId });
+
+  const byChannel = new Map<string, string[]>();
+  for (const { id, channelId } of expired) {
+    byChannel.set(channelId, [...(byChannel.get(channelId) ?? []), id]);
+  }
+
+  for (const [channelId, messageIds] of byChannel) {
+    broadcastToChannel(channelId, { type: "message:expired", payload: { channelId, messageIds } });
+  }
+
+  // Expired replies no longer count towards their threads
+  await announceThreads([...new Set(expired.flatMap((m) => m.threadId ?? []))]);
+}
+
+/**
+ * Run the purge periodically for as long as the server is up
+ */
+export function startMessagePurge() {
+  const run = () => {
+    purgeExpiredMessages().catch((err) => {
+      console.error("Failed to purge expired messages:", err);
+    });
+  };
+
+  run();
+  return setInterval(run, PURGE_INTERVAL_MS);
+}
@@ -0,0 +1,38 @@
+import { db, threads } from "../db/index.js";
+import { and, isNull, lte } from "drizzle-orm";
+import { announceThreads } from "../routes/messages.js";
+
+const ARCHIVE_INTERVAL_MS = 10 * 60 * 1000;
+
+// Threads without replies for this long are archived
+const ARCHIVE_AFTER_MS = 3 * 24 * 60 * 60 * 1000;
+
+/**
+ * Archive threads that have gone quiet and tell the clients watching their
+ * channels. Archived threads keep their replies; a new reply reopens them.
+ */
+async function archiveInactiveThreads() {
+  const archived = await db.update(threads)
+    .set({ archivedAt: new Date() })
+    .where(and(
+      isNull(threads.archivedAt),
+      lte(threads.lastReplyAt, new Date(Date.now() - ARCHIVE_AFTER_MS))
+    ))
+    .returning({ id: threads.id });
+
+  await announceThreads(archived.map((t) => t.id));
+}
+
+/**
+ * Run the archiving periodically for as long as the server is up
+ */
+export function startThreadArchive() {
+  const run = () => {
+    archiveInactiveThreads().catch((err) => {
+      console.error("Failed to archive threads:", err);
+    });
+  };
+
+  run();
+  return setInterval(run, ARCHIVE_INTERVAL_MS);
+}
@@ -0,0 +1,147 @@
+import { FastifyPluginAsync } from "fastify";
+import { randomUUID } from "crypto";
+import { Readable } from "stream";
+import { z } from "zod";
+import { db, attachments, messages, channels, communityMembers, dmParticipants } from "../db/index.js";
+import { eq, and, isNull, inArray } from "drizzle-orm";
+import { requireAuth } from "../auth/session.js";
+import { blobStore } from "../storage/blobStore.js";
+
+// Encrypted size limit: the file plus its IV and authentication tag
+const MAX_ATTACHMENT_SIZE = 50 * 1024 * 1024;
+
+// The attachments a message carries. Their keys are encrypted in the message,
+// so the sender lists the blob ids in plaintext for the server to keep track of.
+export const attachmentIdsSchema = z.array(z.string().uuid()).max(50);
+
+/**
+ * Tie a sender's new uploads to the message or conversation they were sent
+ * in, so the members of its channel or conversation can download them.
+ * Uploads that are someone else's or already sent are left alone.
+ */
+export async function claimAttachments(
+  userId: string,
+  attachmentIds: string[],
+  sentIn: { messageId: string } | { conversationId: string }
+) {
+  if (attachmentIds.length === 0) return;
+
+  await db.update(attachments)
+    .set(sentIn)
+    .where(and(
+      inArray(attachments.id, attachmentIds),
+      eq(attachments.uploadedBy, userId),
+      isNull(attachments.messageId),
+      isNull(attachments.conversationId)
+    ));
+}
+
+/**
+ * Delete the attachments of deleted or expired messages, blobs included
+ */
+export async function deleteMessageAttachments(messageIds: string[]) {
+  if (messageIds.length === 0) return;
+
+  const deleted = await db.delete(attachments)
+    .where(inArray(attachments.messageId, messageIds))
+    .returning({ id: attachments.id });
+
+  for (const { id } of deleted) {
+    await blobStore.delete(id).catch((err) => {
+      console.error(`Failed to delete attachment ${id}:`, err);
+    });
+  }
+}
+
+/**
+ * Whether a user may download an attachment: they uploaded it, or it was sent
+ * in a channel of one of their communities or in a conversation they take part in
+ */
+async function canDownload(userId: string, attachment: typeof attachments.$inferSelect): Promise<boolean> {
+  if (attachment.uploadedBy === userId) return true;
+
+  if (attachment.messageId) {
+    const [member] = await db.select({ id: communityMembers.id })
+      .from(messages)
+      .innerJoin(channels, eq(channels.id, messages.channelId))
+      .innerJoin(communityMembers, and(
+        eq(communityMembers.communityId, channels.communityId),
+        eq(communityMembers.userId, userId)
+      ))
+      .where(eq(messages.id, attachment.messageId));
+    return !!member;
+  }
+
+  if (attachment.conversationId) {
+    const participant = await db.query.dmParticipants.findFirst({
+      where: and(
+        eq(dmParticipants.conversationId, attachment.conversationId),
+        eq(dmParticipants.userId, userId)
+      ),
+    });
+    return !!participant;
+  }
+
+  return false;
+}
+
+export const attachmentRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook("preHandler", requireAuth);
+
+  // Hand uploads to the route as a stream instead of buffering them
+  fastify.addContentTypeParser("application/octet-stream", (_request, payload, done) => {
+    done(null, payload);
+  });
+
+  // Upload an encrypted attachment
+  fastify.post("/", async (request, reply) => {
+    const declaredSize = parseInt(request.headers["content-length"] ?? "", 10);
+    if (declaredSize > MAX_ATTACHMENT_SIZE) {
+      return reply.status(413).send({ error: "Attachment too large" });
+    }
+
+    if (!(request.body instanceof Readable)) {
+      return reply.status(415).send({ error: "Upload the attachment as application/octet-stream" });
+    }
+
+    const id = randomUUID();
+    const size = await blobStore.put(id, request.body, MAX_ATTACHMENT_SIZE);
+
+    if (size === null) {
+      return reply.status(413).send({ error: "Attachment too large" });
+    }
+
+    if (size === 0) {
+      await blobStore.delete(id);
+      return reply.status(400).send({ error: "Attachment is empty" });
+    }
+
+    const [attachment] = await db.insert(attachments).values({
+      id,
+      uploadedBy: request.userId,
+      size,
+    }).returning({ id: attachments.id, size: attachments.size });
+
+    return { attachment };
+  });
+
+  // Download an encrypted attachment. The blob is useless without the key in
+  // the message it was sent in, and only that message's readers can fetch it.
+  fastify.get("/:attachmentId", async (request, reply) => {
+    const { attachmentId } = request.params as { attachmentId: string };
+
+    const attachment = await db.query.attachments.findFirst({
+      where: eq(attachments.id, attachmentId),
+    });
+
+    if (!attachment || !await canDownload(request.userId, attachment)) {
+      return reply.status(404).send({ error: "Attachment not found" });
+    }
+
+    return reply
+      .type("application/octet-stream")
+      .header("Content-Length", attachment.size)
+      .header("Cache-Control", "private, max-age=31536000, immutable")
+      .send(blobStore.get(attachment.id));
+  });
+};
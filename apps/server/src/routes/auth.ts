@@ -1,11 +1,41 @@
 import { FastifyPluginAsync } from "fastify";
 import { z } from "zod";
-import { db, users, preKeys } from "../db/index.js";
-import { eq } from "drizzle-orm";
+import {
+  db,
+  users,
+  devices,
+  preKeys,
+  authChallenges,
+  keyBackups,
+  communityMembers,
+  dmParticipants,
+} from "../db/index.js";
+import { eq, and, isNull, lt, inArray, count } from "drizzle-orm";
+import { randomBytes } from "crypto";
+import { createSession, refreshSession, revokeSession, requireAuth } from "../auth/session.js";
+import { loginChallengeMessage, signedPreKeyMessage, verifySignature } from "../auth/signature.js";
+import { consumeLinkCode } from "../auth/deviceLink.js";
+import { createRateLimiter } from "../auth/rateLimit.js";
+import { sendToDevice, disconnectSession } from "../websocket/index.js";
 
-const registerSchema = z.object({
-  email: z.string().email(),
-  displayName: z.string().min(1).max(50),
+const CHALLENGE_TTL_MS = 2 * 60 * 1000; // 2 minutes
+
+// Tell a device to upload more prekeys once it has fewer than this left
+const PREKEY_LOW_THRESHOLD = 25;
+
+// Every bundle fetch consumes one-time prekeys, so limit how fast they can be claimed
+const keyFetchesPerUser = createRateLimiter({ limit: 60, windowMs: 10 * 60 * 1000 });
+const keyFetchesPerTarget = createRateLimiter({ limit: 5, windowMs: 10 * 60 * 1000 });
+
+// Backups can be fetched without logging in, so limit how often each can be
+// downloaded for an offline guess at its passphrase
+const backupFetchesPerEmail = createRateLimiter({ limit: 5, windowMs: 60 * 60 * 1000 });
+const backupFetchesPerIp = createRateLimiter({ limit: 20, windowMs: 60 * 60 * 1000 });
+
+// Public keys of a new device
+const deviceKeysSchema = z.object({
+  deviceName: z.string().min(1).max(64),
+  signingKeyPublic: z.string(),
   identityKeyPublic: z.string(),
   signedPreKeyPublic: z.string(),
   signedPreKeySignature: z.string(),
@@ -15,15 +45,127 @@ const registerSchema = z.object({
   })),
 });
 
-const loginSchema = z.object({
+const registerSchema = deviceKeysSchema.extend({
+  email: z.string().email(),
+  displayName: z.string().min(1).max(50),
+});
+
+const linkDeviceSchema = deviceKeysSchema.extend({
+  email: z.string().email(),
+  code: z.string().min(1),
+});
+
+const challengeSchema = z.object({
+  email: z.string().email(),
+  // Omitted by browsers whose keys predate multi-device accounts
+  deviceId: z.string().uuid().optional(),
+});
+
+const backupLookupSchema = z.object({
   email: z.string().email(),
 });
 
+const loginSchema = z.object({
+  challengeId: z.string().uuid(),
+  signature: z.string(),
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string(),
+});
+
+/**
+ * Check that a new device's signed prekey is signed by its own signing key
+ */
+function hasValidSignedPreKey(keys: z.infer<typeof deviceKeysSchema>): boolean {
+  return verifySignature(
+    keys.signingKeyPublic,
+    signedPreKeyMessage(keys.identityKeyPublic, keys.signedPreKeyPublic),
+    keys.signedPreKeySignature
+  );
+}
+
+/**
+ * Create a device with its prekeys for a user
+ */
+async function createDevice(userId: string, keys: z.infer<typeof deviceKeysSchema>) {
+  const [device] = await db.insert(devices).values({
+    userId,
+    name: keys.deviceName,
+    signingKeyPublic: keys.signingKeyPublic,
+    identityKeyPublic: keys.identityKeyPublic,
+    signedPreKeyPublic: keys.signedPreKeyPublic,
+    signedPreKeySignature: keys.signedPreKeySignature,
+  }).returning();
+
+  if (keys.preKeys.length > 0) {
+    await db.insert(preKeys).values(
+      keys.preKeys.map((pk) => ({
+        userId,
+        deviceId: device.id,
+        keyId: pk.keyId,
+        publicKey: pk.publicKey,
+      }))
+    );
+  }
+
+  return device;
+}
+
+/**
+ * Check whether two users are members of at least one common community
+ */
+async function sharesCommunity(userId: string, otherUserId: string): Promise<boolean> {
+  const membership = await db.query.communityMembers.findFirst({
+    where: and(
+      eq(communityMembers.userId, otherUserId),
+      inArray(
+        communityMembers.communityId,
+        db.select({ communityId: communityMembers.communityId })
+          .from(communityMembers)
+          .where(eq(communityMembers.userId, userId))
+      )
+    ),
+  });
+
+  return !!membership;
+}
+
+/**
+ * Check whether two users take part in at least one common direct message conversation
+ */
+async function sharesConversation(userId: string, otherUserId: string): Promise<boolean> {
+  const participant = await db.query.dmParticipants.findFirst({
+    where: and(
+      eq(dmParticipants.userId, otherUserId),
+      inArray(
+        dmParticipants.conversationId,
+        db.select({ conversationId: dmParticipants.conversationId })
+          .from(dmParticipants)
+          .where(eq(dmParticipants.userId, userId))
+      )
+    ),
+  });
+
+  return !!participant;
+}
+
+/**
+ * Check whether a user may look another one up: they share a community or a conversation
+ */
+export async function knowsUser(userId: string, otherUserId: string): Promise<boolean> {
+  return await sharesCommunity(userId, otherUserId) || await sharesConversation(userId, otherUserId);
+}
+
 export const authRoutes: FastifyPluginAsync = async (fastify) => {
-  // Register new user
+  // Register new user (with this browser as its first device)
   fastify.post("/register", async (request, reply) => {
     const body = registerSchema.parse(request.body);
 
+    if (!hasValidSignedPreKey(body)) {
+      return reply.status(400).send({ error: "Invalid signed prekey signature" });
+    }
+
     // Check if user exists
     const existing = await db.query.users.findFirst({
       where: eq(users.email, body.email),
@@ -37,28 +179,47 @@ export const authRoutes: FastifyPluginAsync = async (fastify) => {
     const [user] = await db.insert(users).values({
       email: body.email,
       displayName: body.displayName,
-      identityKeyPublic: body.identityKeyPublic,
-      signedPreKeyPublic: body.signedPreKeyPublic,
-      signedPreKeySignature: body.signedPreKeySignature,
     }).returning();
 
-    // Store prekeys
-    if (body.preKeys.length > 0) {
-      await db.insert(preKeys).values(
-        body.preKeys.map((pk) => ({
-          userId: user.id,
-          keyId: pk.keyId,
-          publicKey: pk.publicKey,
-        }))
-      );
+    const device = await createDevice(user.id, body);
+    const session = await createSession(user.id, device.id);
+
+    return {
+      user: { id: user.id, email: user.email, displayName: user.displayName },
+      device: { id: device.id, name: device.name },
+      session,
+    };
+  });
+
+  // Add a new device to an existing account using a link code from a signed-in device
+  fastify.post("/devices/link", async (request, reply) => {
+    const body = linkDeviceSchema.parse(request.body);
+
+    if (!hasValidSignedPreKey(body)) {
+      return reply.status(400).send({ error: "Invalid signed prekey signature" });
     }
 
-    return { user: { id: user.id, email: user.email, displayName: user.displayName } };
+    const user = await db.query.users.findFirst({
+      where: eq(users.email, body.email),
+    });
+
+    if (!user || !(await consumeLinkCode(user.id, body.code))) {
+      return reply.status(401).send({ error: "Invalid or expired link code" });
+    }
+
+    const device = await createDevice(user.id, body);
+    const session = await createSession(user.id, device.id);
+
+    return {
+      user: { id: user.id, email: user.email, displayName: user.displayName },
+      device: { id: device.id, name: device.name },
+      session,
+    };
   });
 
-  // Login (simplified - in production use proper auth)
-  fastify.post("/login", async (request, reply) => {
-    const body = loginSchema.parse(request.body);
+  // Start a login: issue a nonce the device must sign with its signing key
+  fastify.post("/challenge", async (request, reply) => {
+    const body = challengeSchema.parse(request.body);
 
     const user = await db.query.users.findFirst({
       where: eq(users.email, body.email),
@@ -68,37 +229,236 @@ export const authRoutes: FastifyPluginAsync = async (fastify) => {
       return reply.status(404).send({ error: "User not found" });
     }
 
-    // In production: generate JWT, verify identity, etc.
-    return { user: { id: user.id, email: user.email, displayName: user.displayName } };
+    const activeDevices = await db.query.devices.findMany({
+      where: and(eq(devices.userId, user.id), isNull(devices.revokedAt)),
+    });
+
+    // Without a deviceId, fall back to the account's only device (migrated from pre-device keys)
+    const device = body.deviceId
+      ? activeDevices.find((d) => d.id === body.deviceId)
+      : activeDevices.length === 1 ? activeDevices[0] : undefined;
+
+    if (!device) {
+      return reply.status(403).send({ error: "This device is not registered to this account" });
+    }
+
+    // Drop challenges that were never answered
+    await db.delete(authChallenges).where(lt(authChallenges.expiresAt, new Date()));
+
+    const [challenge] = await db.insert(authChallenges).values({
+      userId: user.id,
+      deviceId: device.id,
+      nonce: randomBytes(32).toString("base64"),
+      expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS),
+    }).returning();
+
+    return {
+      challengeId: challenge.id,
+      nonce: challenge.nonce,
+      userId: user.id,
+    };
   });
 
-  // Get user's key bundle (for establishing encrypted session)
-  fastify.get("/users/:userId/keys", async (request, reply) => {
-    const { userId } = request.params as { userId: string };
+  // Complete a login by answering a challenge
+  fastify.post("/login", async (request, reply) => {
+    const body = loginSchema.parse(request.body);
+
+    // Challenges are single use, whether or not the signature checks out
+    const [challenge] = await db.delete(authChallenges)
+      .where(eq(authChallenges.id, body.challengeId))
+      .returning();
+
+    if (!challenge || challenge.expiresAt.getTime() < Date.now()) {
+      return reply.status(401).send({ error: "Login challenge expired. Please try again." });
+    }
+
+    const device = await db.query.devices.findFirst({
+      where: and(eq(devices.id, challenge.deviceId), isNull(devices.revokedAt)),
+    });
 
     const user = await db.query.users.findFirst({
-      where: eq(users.id, userId),
+      where: eq(users.id, challenge.userId),
     });
 
-    if (!user) {
+    if (!device || !user) {
       return reply.status(404).send({ error: "User not found" });
     }
 
-    // Get one prekey (and remove it - one-time use)
-    const [preKey] = await db.delete(preKeys)
-      .where(eq(preKeys.userId, userId))
-      .returning();
+    const valid = verifySignature(
+      device.signingKeyPublic,
+      loginChallengeMessage(challenge.id, challenge.nonce),
+      body.signature
+    );
+
+    if (!valid) {
+      return reply.status(401).send({ error: "Invalid signature" });
+    }
+
+    await db.update(devices)
+      .set({ lastSeenAt: new Date() })
+      .where(eq(devices.id, device.id));
+
+    const session = await createSession(user.id, device.id);
 
     return {
-      identityKey: user.identityKeyPublic,
-      signedPreKey: {
-        publicKey: user.signedPreKeyPublic,
-        signature: user.signedPreKeySignature,
+      user: { id: user.id, email: user.email, displayName: user.displayName },
+      device: { id: device.id, name: device.name },
+      session,
+    };
+  });
+
+  // Fetch a user's encrypted key backup so a device without keys can restore
+  // them and then log in. Unauthenticated by necessity: the blob is only
+  // useful to someone who knows the passphrase, and rate limited.
+  fastify.post("/backup", async (request, reply) => {
+    const body = backupLookupSchema.parse(request.body);
+
+    const retryAfter = Math.max(
+      backupFetchesPerEmail.hit(body.email.toLowerCase()),
+      backupFetchesPerIp.hit(request.ip)
+    );
+
+    if (retryAfter > 0) {
+      return reply
+        .status(429)
+        .header("Retry-After", String(retryAfter))
+        .send({ error: "Too many backup requests. Please try again later." });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.email, body.email),
+    });
+
+    const backup = user && await db.query.keyBackups.findFirst({
+      where: eq(keyBackups.userId, user.id),
+    });
+
+    if (!backup) {
+      return reply.status(404).send({ error: "No backup found for this account" });
+    }
+
+    return {
+      backup: {
+        encryptedData: backup.encryptedData,
+        wrappedKey: backup.wrappedKey,
+        updatedAt: backup.updatedAt,
       },
-      preKey: preKey ? {
-        keyId: preKey.keyId,
-        publicKey: preKey.publicKey,
-      } : null,
     };
   });
+
+  // Exchange a refresh token for a new token pair
+  fastify.post("/refresh", async (request, reply) => {
+    const body = refreshSchema.parse(request.body);
+
+    const session = await refreshSession(body.refreshToken);
+
+    if (!session) {
+      return reply.status(401).send({ error: "Invalid or expired refresh token" });
+    }
+
+    return { session };
+  });
+
+  // Logout (revokes the current session)
+  fastify.post("/logout", { preHandler: requireAuth }, async (request) => {
+    await revokeSession(request.sessionId);
+    disconnectSession(request.sessionId);
+    return { success: true };
+  });
+
+  // Get a user's active devices and their long-term public keys.
+  // Clients verify each signed prekey against the device's signing key.
+  // Does not hand out one-time prekeys, so it is safe for channel key distribution.
+  // Like key bundles, only for people who share a community or conversation with the user.
+  fastify.get("/users/:userId/devices", { preHandler: requireAuth }, async (request, reply) => {
+    const { userId } = request.params as { userId: string };
+
+    if (userId !== request.userId && !(await knowsUser(request.userId, userId))) {
+      return reply.status(404).send({ error: "User not found" });
+    }
+
+    const userDevices = await db.query.devices.findMany({
+      where: and(eq(devices.userId, userId), isNull(devices.revokedAt)),
+    });
+
+    return {
+      devices: userDevices.map((device) => ({
+        deviceId: device.id,
+        signingKey: device.signingKeyPublic,
+        identityKey: device.identityKeyPublic,
+        signedPreKey: {
+          keyId: device.signedPreKeyId,
+          publicKey: device.signedPreKeyPublic,
+          signature: device.signedPreKeySignature,
+        },
+      })),
+    };
+  });
+
+  // Get a key bundle for each of a user's devices (for establishing encrypted sessions).
+  // Only people who share a community or conversation with the user may claim their prekeys.
+  fastify.get("/users/:userId/keys", { preHandler: requireAuth }, async (request, reply) => {
+    const { userId } = request.params as { userId: string };
+
+    const retryAfter = Math.max(
+      keyFetchesPerUser.hit(request.userId),
+      keyFetchesPerTarget.hit(`${request.userId}:${userId}`)
+    );
+
+    if (retryAfter > 0) {
+      return reply
+        .status(429)
+        .header("Retry-After", String(retryAfter))
+        .send({ error: "Too many key requests. Please try again later." });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+    });
+
+    if (!user || (userId !== request.userId && !(await knowsUser(request.userId, userId)))) {
+      return reply.status(404).send({ error: "User not found" });
+    }
+
+    const userDevices = await db.query.devices.findMany({
+      where: and(eq(devices.userId, userId), isNull(devices.revokedAt)),
+    });
+
+    const bundles = await Promise.all(userDevices.map(async (device) => {
+      // Claim one prekey per device (and remove it - one-time use)
+      const available = await db.query.preKeys.findFirst({
+        where: eq(preKeys.deviceId, device.id),
+      });
+      const [preKey] = available
+        ? await db.delete(preKeys).where(eq(preKeys.id, available.id)).returning()
+        : [];
+
+      if (preKey) {
+        const [{ remaining }] = await db.select({ remaining: count() })
+          .from(preKeys)
+          .where(eq(preKeys.deviceId, device.id));
+
+        if (remaining < PREKEY_LOW_THRESHOLD) {
+          sendToDevice(device.id, { type: "prekeys:low", payload: { count: remaining } });
+        }
+      }
+
+      return {
+        deviceId: device.id,
+        signingKey: device.signingKeyPublic,
+        identityKey: device.identityKeyPublic,
+        signedPreKey: {
+          keyId: device.signedPreKeyId,
+          publicKey: device.signedPreKeyPublic,
+          signature: device.signedPreKeySignature,
+        },
+        preKey: preKey ? {
+          keyId: preKey.keyId,
+          publicKey: preKey.publicKey,
+        } : null,
+      };
+    }));
+
+    return { userId, devices: bundles };
+  });
 };
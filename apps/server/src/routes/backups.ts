@@ -0,0 +1,76 @@
+import { FastifyPluginAsync } from "fastify";
+import { z } from "zod";
+import { db, keyBackups } from "../db/index.js";
+import { eq } from "drizzle-orm";
+import { requireAuth } from "../auth/session.js";
+
+// Backups hold every channel key, so allow a generous size
+const MAX_BACKUP_LENGTH = 10 * 1024 * 1024;
+
+const putBackupSchema = z.object({
+  encryptedData: z.string().min(1).max(MAX_BACKUP_LENGTH),
+  wrappedKey: z.string().min(1),
+});
+
+const putWrappedKeySchema = z.object({
+  wrappedKey: z.string().min(1),
+});
+
+export const backupRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook("preHandler", requireAuth);
+
+  // Get the current user's backup
+  fastify.get("/", async (request, reply) => {
+    const backup = await db.query.keyBackups.findFirst({
+      where: eq(keyBackups.userId, request.userId),
+    });
+
+    if (!backup) {
+      return reply.status(404).send({ error: "No backup found" });
+    }
+
+    return { backup };
+  });
+
+  // Create or replace the current user's backup
+  fastify.put("/", { bodyLimit: MAX_BACKUP_LENGTH + 64 * 1024 }, async (request) => {
+    const body = putBackupSchema.parse(request.body);
+
+    const [backup] = await db.insert(keyBackups).values({
+      userId: request.userId,
+      encryptedData: body.encryptedData,
+      wrappedKey: body.wrappedKey,
+    }).onConflictDoUpdate({
+      target: keyBackups.userId,
+      set: {
+        encryptedData: body.encryptedData,
+        wrappedKey: body.wrappedKey,
+        updatedAt: new Date(),
+      },
+    }).returning({ updatedAt: keyBackups.updatedAt });
+
+    return { updatedAt: backup.updatedAt };
+  });
+
+  // Replace only the wrapped backup key (passphrase rotation)
+  fastify.put("/key", async (request, reply) => {
+    const body = putWrappedKeySchema.parse(request.body);
+
+    const [backup] = await db.update(keyBackups)
+      .set({ wrappedKey: body.wrappedKey, updatedAt: new Date() })
+      .where(eq(keyBackups.userId, request.userId))
+      .returning({ updatedAt: keyBackups.updatedAt });
+
+    if (!backup) {
+      return reply.status(404).send({ error: "No backup found" });
+    }
+
+    return { updatedAt: backup.updatedAt };
+  });
+
+  // Delete the current user's backup
+  fastify.delete("/", async (request) => {
+    await db.delete(keyBackups).where(eq(keyBackups.userId, request.userId));
+    return { success: true };
+  });
+};
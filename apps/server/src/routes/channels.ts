@@ -1,29 +1,175 @@
 import { FastifyPluginAsync } from "fastify";
 import { z } from "zod";
-import { db, channels, senderKeys } from "../db/index.js";
-import { eq, and } from "drizzle-orm";
+import {
+  db,
+  channels,
+  senderKeys,
+  communityMembers,
+  messages,
+  pinnedMessages,
+  channelReadStates,
+  users,
+  devices,
+} from "../db/index.js";
+import { eq, and, or, ne, gt, lt, desc, inArray, isNull, count, sql } from "drizzle-orm";
+import { requireAuth } from "../auth/session.js";
+import { isModerator } from "./communities.js";
+import { mentionsUser, notExpired } from "./messages.js";
+import { broadcastToChannel, sendToUser } from "../websocket/index.js";
+import { getMessageExpiry } from "../jobs/messageRetention.js";
+
+// Most messages a channel can have pinned at once
+const MAX_PINS_PER_CHANNEL = 50;
 
 const createChannelSchema = z.object({
   communityId: z.string().uuid(),
   name: z.string().min(1).max(50).regex(/^[a-z0-9-]+$/, "Channel name must be lowercase alphanumeric with dashes"),
 });
 
+const updateRetentionSchema = z.object({
+  // Null turns disappearing messages off
+  retentionSeconds: z.number().int().min(60).max(365 * 24 * 60 * 60).nullable(),
+});
+
+const markReadSchema = z.object({
+  messageId: z.string().uuid(),
+});
+
 const distributeSenderKeySchema = z.object({
   channelId: z.string().uuid(),
-  userId: z.string().uuid(),
   distributionId: z.string(),
-  // Array of { forUserId, encryptedKey } - key encrypted for each recipient
+  epoch: z.number().int().min(0),
+  // The chain this replaces, or null when starting a new one
+  expectedDistributionId: z.string().nullable(),
+  // Array of { forUserId, forDeviceId, encryptedKey } - key encrypted for each recipient device
   encryptedKeys: z.array(z.object({
     forUserId: z.string().uuid(),
+    forDeviceId: z.string().uuid(),
     encryptedKey: z.string(),
   })),
 });
 
+/**
+ * Get a channel if the user is a member of its community
+ */
+export async function getMemberChannel(userId: string, channelId: string) {
+  const channel = await db.query.channels.findFirst({
+    where: eq(channels.id, channelId),
+  });
+  if (!channel) return null;
+
+  const membership = await db.query.communityMembers.findFirst({
+    where: and(
+      eq(communityMembers.communityId, channel.communityId),
+      eq(communityMembers.userId, userId)
+    ),
+  });
+
+  return membership ? channel : null;
+}
+
+export interface ChannelReadState {
+  channelId: string;
+  communityId: string;
+  lastReadMessageId: string | null;
+  lastReadAt: string | null; // Null until the user has read something in the channel
+  unreadCount: number; // Messages in the channel itself, not in its threads
+  mentionCount: number; // Including mentions in threads
+}
+
+/**
+ * Where the user has read up to in each of their channels, or in one of them,
+ * and how many messages from others arrived since. Nothing from before the
+ * user joined the community counts.
+ */
+export async function listReadStates(userId: string, channelId?: string): Promise<ChannelReadState[]> {
+  // Greatest ignores nulls, so channels never read count from joining
+  const readSince = sql`greatest(${channelReadStates.lastReadAt}, ${communityMembers.joinedAt})`;
+
+  const rows = await db.select({
+    channelId: channels.id,
+    communityId: channels.communityId,
+    lastReadMessageId: channelReadStates.lastReadMessageId,
+    lastReadAt: channelReadStates.lastReadAt,
+    unreadCount: sql<number>`count(${messages.id}) filter (where ${isNull(messages.threadId)})`.mapWith(Number),
+    mentionCount: sql<number>`count(${messages.id}) filter (where ${mentionsUser(userId)})`.mapWith(Number),
+  })
+    .from(channels)
+    .innerJoin(communityMembers, and(
+      eq(communityMembers.communityId, channels.communityId),
+      eq(communityMembers.userId, userId)
+    ))
+    .leftJoin(channelReadStates, and(
+      eq(channelReadStates.channelId, channels.id),
+      eq(channelReadStates.userId, userId)
+    ))
+    .leftJoin(messages, and(
+      eq(messages.channelId, channels.id),
+      gt(messages.createdAt, readSince),
+      ne(messages.senderId, userId),
+      isNull(messages.deletedAt),
+      notExpired()
+    ))
+    .where(channelId ? eq(channels.id, channelId) : undefined)
+    .groupBy(channels.id, communityMembers.id, channelReadStates.id);
+
+  return rows.map((row) => ({ ...row, lastReadAt: row.lastReadAt?.toISOString() ?? null }));
+}
+
+/**
+ * Move the user's read position in a channel up to one of its messages.
+ * Positions only move forward, so read acks from several devices can arrive
+ * in any order. Returns the channel's read state afterwards.
+ */
+export async function markChannelRead(userId: string, channelId: string, messageId: string) {
+  const message = await db.query.messages.findFirst({
+    where: and(eq(messages.id, messageId), eq(messages.channelId, channelId), isNull(messages.threadId)),
+  });
+
+  if (!message || !await getMemberChannel(userId, channelId)) {
+    return { error: { status: 404, body: { error: "Message not found" } } };
+  }
+
+  // Taken from the row rather than message.createdAt, which is cut to milliseconds
+  const readAt = sql`(select ${messages.createdAt} from ${messages} where ${messages.id} = ${messageId})`;
+
+  await db.insert(channelReadStates)
+    .values({ userId, channelId, lastReadMessageId: messageId, lastReadAt: readAt })
+    .onConflictDoUpdate({
+      target: [channelReadStates.userId, channelReadStates.channelId],
+      set: { lastReadMessageId: messageId, lastReadAt: readAt, updatedAt: new Date() },
+      setWhere: lt(channelReadStates.lastReadAt, readAt),
+    });
+
+  const [readState] = await listReadStates(userId, channelId);
+  return { readState };
+}
+
+/**
+ * A pin as clients see it
+ */
+function toPinPayload(pin: typeof pinnedMessages.$inferSelect) {
+  return { messageId: pin.messageId, pinnedBy: pin.pinnedBy, pinnedAt: pin.createdAt.toISOString() };
+}
+
 export const channelRoutes: FastifyPluginAsync = async (fastify) => {
-  // Create channel
-  fastify.post("/", async (request) => {
+  fastify.addHook("preHandler", requireAuth);
+
+  // Create channel (moderators only)
+  fastify.post("/", async (request, reply) => {
     const body = createChannelSchema.parse(request.body);
 
+    const membership = await db.query.communityMembers.findFirst({
+      where: and(
+        eq(communityMembers.communityId, body.communityId),
+        eq(communityMembers.userId, request.userId)
+      ),
+    });
+
+    if (!membership) {
+      return reply.status(404).send({ error: "Community not found" });
+    }
+
     const [channel] = await db.insert(channels).values({
       communityId: body.communityId,
       name: body.name,
@@ -32,13 +178,16 @@ export const channelRoutes: FastifyPluginAsync = async (fastify) => {
     return { channel };
   });
 
+  // Read positions, unread and mention counts of all the user's channels
+  fastify.get("/read-states", async (request) => {
+    return { readStates: await listReadStates(request.userId) };
+  });
+
   // Get channel details
   fastify.get("/:channelId", async (request, reply) => {
     const { channelId } = request.params as { channelId: string };
 
-    const channel = await db.query.channels.findFirst({
-      where: eq(channels.id, channelId),
-    });
+    const channel = await getMemberChannel(request.userId, channelId);
 
     if (!channel) {
       return reply.status(404).send({ error: "Channel not found" });
@@ -47,42 +196,320 @@ export const channelRoutes: FastifyPluginAsync = async (fastify) => {
     return { channel };
   });
 
-  // Distribute sender key to channel members
-  fastify.post("/sender-keys", async (request) => {
+  // Change how long new messages in a channel are kept (moderators only).
+  // The change is announced with a notice in the channel.
+  fastify.put("/:channelId/retention", async (request, reply) => {
+    const { channelId } = request.params as { channelId: string };
+    const body = updateRetentionSchema.parse(request.body);
+
+    const channel = await getMemberChannel(request.userId, channelId);
+    if (!channel) {
+      return reply.status(404).send({ error: "Channel not found" });
+    }
+
+    if (!await isModerator(channel.communityId, request.userId)) {
+      return reply.status(403).send({ error: "Only moderators can change the message timer" });
+    }
+
+    if (channel.retentionSeconds === body.retentionSeconds) {
+      return { channel };
+    }
+
+    const [updated] = await db.update(channels)
+      .set({ retentionSeconds: body.retentionSeconds })
+      .where(eq(channels.id, channelId))
+      .returning();
+
+    const [notice] = await db.insert(messages).values({
+      channelId,
+      senderId: request.userId,
+      epoch: updated.epoch,
+      notice: { type: "retention_changed", retentionSeconds: body.retentionSeconds },
+      expiresAt: getMessageExpiry(body.retentionSeconds),
+    }).returning();
+
+    const sender = await db.query.users.findFirst({
+      where: eq(users.id, request.userId),
+      columns: { displayName: true },
+    });
+
+    broadcastToChannel(channelId, {
+      type: "message:new",
+      payload: {
+        id: notice.id,
+        channelId,
+        senderId: notice.senderId,
+        senderDisplayName: sender?.displayName,
+        ciphertext: null,
+        epoch: notice.epoch,
+        notice: notice.notice,
+        expiresAt: notice.expiresAt?.toISOString() ?? null,
+        createdAt: notice.createdAt.toISOString(),
+      },
+    });
+
+    const members = await db.query.communityMembers.findMany({
+      where: eq(communityMembers.communityId, channel.communityId),
+      columns: { userId: true },
+    });
+
+    for (const member of members) {
+      sendToUser(member.userId, {
+        type: "channel:updated",
+        payload: { communityId: channel.communityId, channelId, retentionSeconds: updated.retentionSeconds },
+      });
+    }
+
+    return { channel: updated };
+  });
+
+  // Mark a channel read up to a message (also handled via WebSocket, this is
+  // fallback). The user's other devices and tabs are told.
+  fastify.put("/:channelId/read", async (request, reply) => {
+    const { channelId } = request.params as { channelId: string };
+    const body = markReadSchema.parse(request.body);
+
+    const result = await markChannelRead(request.userId, channelId, body.messageId);
+
+    if (result.error) {
+      return reply.status(result.error.status).send(result.error.body);
+    }
+
+    sendToUser(request.userId, { type: "channel:read", payload: { ...result.readState } });
+
+    return { readState: result.readState };
+  });
+
+  // Pinned messages of a channel, most recently pinned first
+  fastify.get("/:channelId/pins", async (request, reply) => {
+    const { channelId } = request.params as { channelId: string };
+
+    if (!await getMemberChannel(request.userId, channelId)) {
+      return reply.status(404).send({ error: "Channel not found" });
+    }
+
+    // Expired messages the purge job hasn't reached yet are left out
+    const pins = await db.select({ pin: pinnedMessages, message: messages })
+      .from(pinnedMessages)
+      .innerJoin(messages, eq(pinnedMessages.messageId, messages.id))
+      .where(and(
+        eq(pinnedMessages.channelId, channelId),
+        or(isNull(messages.expiresAt), gt(messages.expiresAt, new Date()))
+      ))
+      .orderBy(desc(pinnedMessages.createdAt));
+
+    return { pins: pins.map(({ pin, message }) => ({ ...toPinPayload(pin), message })) };
+  });
+
+  // Pin a message of the channel (moderators only). Pinning a message twice
+  // changes nothing.
+  fastify.put("/:channelId/pins/:messageId", async (request, reply) => {
+    const { channelId, messageId } = request.params as { channelId: string; messageId: string };
+
+    const channel = await getMemberChannel(request.userId, channelId);
+    if (!channel) {
+      return reply.status(404).send({ error: "Channel not found" });
+    }
+
+    if (!await isModerator(channel.communityId, request.userId)) {
+      return reply.status(403).send({ error: "Only moderators can pin messages" });
+    }
+
+    const result = await db.transaction(async (tx) => {
+      // Lock the channel so concurrent pins can't go over the limit together
+      await tx.select({ id: channels.id }).from(channels)
+        .where(eq(channels.id, channelId))
+        .for("update");
+
+      const message = await tx.query.messages.findFirst({
+        where: and(eq(messages.id, messageId), eq(messages.channelId, channelId)),
+      });
+
+      // Notices and tombstones have nothing to pin
+      if (!message || message.ciphertext === null || (message.expiresAt && message.expiresAt <= new Date())) {
+        return { error: { status: 404, body: { error: "Message not found" } } };
+      }
+
+      if (message.threadId) {
+        return { error: { status: 400, body: { error: "Thread replies can't be pinned" } } };
+      }
+
+      const existing = await tx.query.pinnedMessages.findFirst({
+        where: eq(pinnedMessages.messageId, messageId),
+      });
+      if (existing) return { pin: existing, isNew: false };
+
+      const [{ pinCount }] = await tx.select({ pinCount: count() })
+        .from(pinnedMessages)
+        .where(eq(pinnedMessages.channelId, channelId));
+
+      if (pinCount >= MAX_PINS_PER_CHANNEL) {
+        return {
+          error: {
+            status: 409,
+            body: {
+              error: `A channel can have at most ${MAX_PINS_PER_CHANNEL} pinned messages`,
+              limit: MAX_PINS_PER_CHANNEL,
+            },
+          },
+        };
+      }
+
+      const [pin] = await tx.insert(pinnedMessages).values({
+        channelId,
+        messageId,
+        pinnedBy: request.userId,
+      }).returning();
+      return { pin, isNew: true };
+    });
+
+    if (result.error) {
+      return reply.status(result.error.status).send(result.error.body);
+    }
+
+    if (result.isNew) {
+      broadcastToChannel(channelId, {
+        type: "message:pinned",
+        payload: { channelId, pin: toPinPayload(result.pin) },
+      });
+    }
+
+    return { pin: toPinPayload(result.pin) };
+  });
+
+  // Unpin a message (moderators only)
+  fastify.delete("/:channelId/pins/:messageId", async (request, reply) => {
+    const { channelId, messageId } = request.params as { channelId: string; messageId: string };
+
+    const channel = await getMemberChannel(request.userId, channelId);
+    if (!channel) {
+      return reply.status(404).send({ error: "Channel not found" });
+    }
+
+    if (!await isModerator(channel.communityId, request.userId)) {
+      return reply.status(403).send({ error: "Only moderators can unpin messages" });
+    }
+
+    const [unpinned] = await db.delete(pinnedMessages)
+      .where(and(eq(pinnedMessages.channelId, channelId), eq(pinnedMessages.messageId, messageId)))
+      .returning();
+
+    if (unpinned) {
+      broadcastToChannel(channelId, {
+        type: "message:unpinned",
+        payload: { channelId, messageId },
+      });
+    }
+
+    return { success: true };
+  });
+
+  // Distribute sender key to channel members. A device has one canonical
+  // sending chain per channel epoch: whichever distribution is registered
+  // first wins, and a different chain is rejected with the winner's id.
+  fastify.post("/sender-keys", async (request, reply) => {
     const body = distributeSenderKeySchema.parse(request.body);
 
-    // Delete existing sender keys from this user for this channel
-    await db.delete(senderKeys).where(
-      and(
-        eq(senderKeys.channelId, body.channelId),
-        eq(senderKeys.userId, body.userId)
-      )
-    );
-
-    // Insert new sender keys
-    if (body.encryptedKeys.length > 0) {
-      await db.insert(senderKeys).values(
-        body.encryptedKeys.map((ek) => ({
-          channelId: body.channelId,
-          userId: body.userId,
-          distributionId: body.distributionId,
-          encryptedKey: ek.encryptedKey,
-          forUserId: ek.forUserId,
-        }))
+    const failure = await db.transaction(async (tx) => {
+      // Lock the channel so concurrent distributions to it are decided one at a time
+      const [channel] = await tx.select().from(channels)
+        .where(eq(channels.id, body.channelId))
+        .for("update");
+
+      if (!channel) {
+        return { status: 404, body: { error: "Channel not found" } };
+      }
+
+      // Chains are only shared for the current epoch, with its current members
+      if (body.epoch !== channel.epoch) {
+        return { status: 409, body: { error: "Stale channel epoch", epoch: channel.epoch } };
+      }
+
+      const members = await tx.query.communityMembers.findMany({
+        where: eq(communityMembers.communityId, channel.communityId),
+        columns: { userId: true },
+      });
+      const memberIds = new Set(members.map((m) => m.userId));
+
+      if (!memberIds.has(request.userId)) {
+        return { status: 404, body: { error: "Channel not found" } };
+      }
+
+      // Every key has to be for an active device of the user it is addressed to
+      const forDeviceIds = [...new Set(body.encryptedKeys.map((ek) => ek.forDeviceId))];
+      const activeDevices = forDeviceIds.length > 0
+        ? await tx.select({ id: devices.id, userId: devices.userId })
+          .from(devices)
+          .where(and(inArray(devices.id, forDeviceIds), isNull(devices.revokedAt)))
+        : [];
+      const deviceOwners = new Map(activeDevices.map((d) => [d.id, d.userId]));
+
+      if (body.encryptedKeys.some((ek) => deviceOwners.get(ek.forDeviceId) !== ek.forUserId)) {
+        return { status: 400, body: { error: "Unknown device" } };
+      }
+
+      const current = await tx.query.senderKeys.findFirst({
+        where: and(
+          eq(senderKeys.channelId, body.channelId),
+          eq(senderKeys.deviceId, request.deviceId),
+          eq(senderKeys.epoch, body.epoch)
+        ),
+        columns: { distributionId: true },
+      });
+
+      if (current && current.distributionId !== body.expectedDistributionId) {
+        return {
+          status: 409,
+          body: { error: "Sender key already exists", distributionId: current.distributionId },
+        };
+      }
+
+      // Replace this device's distribution for the epoch. Older epochs are
+      // kept so their history stays readable.
+      await tx.delete(senderKeys).where(
+        and(
+          eq(senderKeys.channelId, body.channelId),
+          eq(senderKeys.deviceId, request.deviceId),
+          eq(senderKeys.epoch, body.epoch)
+        )
       );
+
+      const encryptedKeys = body.encryptedKeys.filter((ek) => memberIds.has(ek.forUserId));
+
+      // Insert new sender keys
+      if (encryptedKeys.length > 0) {
+        await tx.insert(senderKeys).values(
+          encryptedKeys.map((ek) => ({
+            channelId: body.channelId,
+            userId: request.userId,
+            deviceId: request.deviceId,
+            distributionId: body.distributionId,
+            epoch: body.epoch,
+            encryptedKey: ek.encryptedKey,
+            forUserId: ek.forUserId,
+            forDeviceId: ek.forDeviceId,
+          }))
+        );
+      }
+
+      return null;
+    });
+
+    if (failure) {
+      return reply.status(failure.status).send(failure.body);
     }
 
     return { success: true };
   });
 
-  // Get sender keys for a channel (for a specific user)
-  fastify.get("/:channelId/sender-keys/:userId", async (request) => {
-    const { channelId, userId } = request.params as { channelId: string; userId: string };
+  // Get sender keys for a channel (encrypted for the current device)
+  fastify.get("/:channelId/sender-keys", async (request) => {
+    const { channelId } = request.params as { channelId: string };
 
     const keys = await db.query.senderKeys.findMany({
       where: and(
         eq(senderKeys.channelId, channelId),
-        eq(senderKeys.forUserId, userId)
+        eq(senderKeys.forDeviceId, request.deviceId)
       ),
     });
 
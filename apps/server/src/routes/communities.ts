@@ -1,20 +1,95 @@
 import { FastifyPluginAsync } from "fastify";
 import { z } from "zod";
 import { db, communities, communityMembers, channels, users } from "../db/index.js";
-import { eq, and } from "drizzle-orm";
+import { eq, and, sql } from "drizzle-orm";
 import { randomBytes } from "crypto";
+import { requireAuth } from "../auth/session.js";
+import { sendToUser, removeUserFromChannels } from "../websocket/index.js";
 
 const createCommunitySchema = z.object({
   name: z.string().min(1).max(100),
-  userId: z.string().uuid(),
 });
 
 const joinCommunitySchema = z.object({
   inviteCode: z.string(),
-  userId: z.string().uuid(),
 });
 
+/**
+ * Whether a user may moderate a community. There are no roles yet, so only
+ * the owner can.
+ */
+export async function isModerator(communityId: string, userId: string): Promise<boolean> {
+  const community = await db.query.communities.findFirst({
+    where: eq(communities.id, communityId),
+    columns: { createdBy: true },
+  });
+  return community?.createdBy === userId;
+}
+
+/**
+ * Start a new key epoch in every channel of a community after its membership
+ * changed, and tell the members so they switch to new sender chains. Chains
+ * of the old epoch were shared with the old member set.
+ */
+async function rotateChannelEpochs(
+  communityId: string,
+  change: { userId: string; type: "joined" | "left" | "removed" | "device_revoked" }
+) {
+  const rotated = await db.update(channels)
+    .set({ epoch: sql`${channels.epoch} + 1` })
+    .where(eq(channels.communityId, communityId))
+    .returning({ channelId: channels.id, epoch: channels.epoch });
+
+  const members = await db.query.communityMembers.findMany({
+    where: eq(communityMembers.communityId, communityId),
+  });
+
+  for (const member of members) {
+    sendToUser(member.userId, {
+      type: "community:members",
+      payload: { communityId, ...change, channels: rotated },
+    });
+  }
+
+  return rotated;
+}
+
+/**
+ * Rotate the channel keys of every community a user is in after one of their
+ * devices was revoked, so the chains it could read are replaced by ones it
+ * isn't given
+ */
+export async function rotateUserChannelEpochs(userId: string) {
+  const memberships = await db.query.communityMembers.findMany({
+    where: eq(communityMembers.userId, userId),
+    columns: { communityId: true },
+  });
+
+  for (const { communityId } of memberships) {
+    await rotateChannelEpochs(communityId, { userId, type: "device_revoked" });
+  }
+}
+
+/**
+ * Remove a user from a community and rotate its channel keys
+ */
+async function removeMember(communityId: string, userId: string, type: "left" | "removed") {
+  await db.delete(communityMembers).where(
+    and(
+      eq(communityMembers.communityId, communityId),
+      eq(communityMembers.userId, userId)
+    )
+  );
+
+  const rotated = await rotateChannelEpochs(communityId, { userId, type });
+
+  removeUserFromChannels(userId, rotated.map((c) => c.channelId));
+  sendToUser(userId, { type: "community:removed", payload: { communityId } });
+}
+
 export const communityRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook("preHandler", requireAuth);
+
   // Create community
   fastify.post("/", async (request, reply) => {
     const body = createCommunitySchema.parse(request.body);
@@ -24,13 +99,13 @@ export const communityRoutes: FastifyPluginAsync = async (fastify) => {
     const [community] = await db.insert(communities).values({
       name: body.name,
       inviteCode,
-      createdBy: body.userId,
+      createdBy: request.userId,
     }).returning();
 
     // Add creator as member
     await db.insert(communityMembers).values({
       communityId: community.id,
-      userId: body.userId,
+      userId: request.userId,
     });
 
     // Create default #general channel
@@ -42,9 +117,9 @@ export const communityRoutes: FastifyPluginAsync = async (fastify) => {
     return { community };
   });
 
-  // Get user's communities
-  fastify.get("/user/:userId", async (request) => {
-    const { userId } = request.params as { userId: string };
+  // Get the current user's communities
+  fastify.get("/", async (request) => {
+    const userId = request.userId;
 
     const memberships = await db.query.communityMembers.findMany({
       where: eq(communityMembers.userId, userId),
@@ -71,7 +146,15 @@ export const communityRoutes: FastifyPluginAsync = async (fastify) => {
       where: eq(communities.id, communityId),
     });
 
-    if (!community) {
+    // Non-members mustn't learn the invite code
+    const membership = community && await db.query.communityMembers.findFirst({
+      where: and(
+        eq(communityMembers.communityId, communityId),
+        eq(communityMembers.userId, request.userId)
+      ),
+    });
+
+    if (!community || !membership) {
       return reply.status(404).send({ error: "Community not found" });
     }
 
@@ -114,7 +197,7 @@ export const communityRoutes: FastifyPluginAsync = async (fastify) => {
     const existing = await db.query.communityMembers.findFirst({
       where: and(
         eq(communityMembers.communityId, community.id),
-        eq(communityMembers.userId, body.userId)
+        eq(communityMembers.userId, request.userId)
       ),
     });
 
@@ -124,9 +207,76 @@ export const communityRoutes: FastifyPluginAsync = async (fastify) => {
 
     await db.insert(communityMembers).values({
       communityId: community.id,
-      userId: body.userId,
+      userId: request.userId,
     });
 
+    // The new member must not be able to read what was sent before they joined
+    await rotateChannelEpochs(community.id, { userId: request.userId, type: "joined" });
+
     return { community };
   });
+
+  // Leave a community
+  fastify.post("/:communityId/leave", async (request, reply) => {
+    const { communityId } = request.params as { communityId: string };
+
+    const community = await db.query.communities.findFirst({
+      where: eq(communities.id, communityId),
+    });
+
+    const membership = community && await db.query.communityMembers.findFirst({
+      where: and(
+        eq(communityMembers.communityId, communityId),
+        eq(communityMembers.userId, request.userId)
+      ),
+    });
+
+    if (!community || !membership) {
+      return reply.status(404).send({ error: "Community not found" });
+    }
+
+    if (community.createdBy === request.userId) {
+      return reply.status(400).send({ error: "The owner can't leave the community" });
+    }
+
+    await removeMember(communityId, request.userId, "left");
+
+    return { success: true };
+  });
+
+  // Remove a member (owner only)
+  fastify.delete("/:communityId/members/:userId", async (request, reply) => {
+    const { communityId, userId } = request.params as { communityId: string; userId: string };
+
+    const community = await db.query.communities.findFirst({
+      where: eq(communities.id, communityId),
+    });
+
+    if (!community) {
+      return reply.status(404).send({ error: "Community not found" });
+    }
+
+    if (community.createdBy !== request.userId) {
+      return reply.status(403).send({ error: "Only the owner can remove members" });
+    }
+
+    if (userId === request.userId) {
+      return reply.status(400).send({ error: "The owner can't be removed" });
+    }
+
+    const membership = await db.query.communityMembers.findFirst({
+      where: and(
+        eq(communityMembers.communityId, communityId),
+        eq(communityMembers.userId, userId)
+      ),
+    });
+
+    if (!membership) {
+      return reply.status(404).send({ error: "Member not found" });
+    }
+
+    await removeMember(communityId, userId, "removed");
+
+    return { success: true };
+  });
 };
@@ -0,0 +1,180 @@
+import { FastifyPluginAsync } from "fastify";
+import { z } from "zod";
+import { db, devices, preKeys, senderKeys } from "../db/index.js";
+import { eq, and, isNull, count } from "drizzle-orm";
+import { requireAuth, revokeDeviceSessions } from "../auth/session.js";
+import { createLinkCode } from "../auth/deviceLink.js";
+import { signedPreKeyMessage, verifySignature } from "../auth/signature.js";
+import { disconnectDevice } from "../websocket/index.js";
+import { rotateUserChannelEpochs } from "./communities.js";
+
+// Most one-time prekeys a device may have stored on the server at once
+const MAX_STORED_PREKEYS = 200;
+
+const renameDeviceSchema = z.object({
+  name: z.string().min(1).max(64),
+});
+
+const uploadPreKeysSchema = z.object({
+  preKeys: z.array(z.object({
+    keyId: z.string(),
+    publicKey: z.string(),
+  })).min(1).max(100),
+});
+
+const signedPreKeySchema = z.object({
+  keyId: z.number().int().nonnegative(),
+  publicKey: z.string(),
+  signature: z.string(),
+});
+
+/**
+ * Count the one-time prekeys a device has left on the server
+ */
+async function countPreKeys(deviceId: string): Promise<number> {
+  const [{ remaining }] = await db.select({ remaining: count() })
+    .from(preKeys)
+    .where(eq(preKeys.deviceId, deviceId));
+
+  return remaining;
+}
+
+export const deviceRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook("preHandler", requireAuth);
+
+  // List the current user's active devices
+  fastify.get("/", async (request) => {
+    const userDevices = await db.query.devices.findMany({
+      where: and(eq(devices.userId, request.userId), isNull(devices.revokedAt)),
+      columns: { id: true, name: true, lastSeenAt: true, createdAt: true },
+    });
+
+    return {
+      devices: userDevices.map((device) => ({
+        ...device,
+        current: device.id === request.deviceId,
+      })),
+    };
+  });
+
+  // Prekey status of the current device
+  fastify.get("/prekeys", async (request) => {
+    const device = await db.query.devices.findFirst({
+      where: eq(devices.id, request.deviceId),
+      columns: { signedPreKeyId: true },
+    });
+
+    return {
+      count: await countPreKeys(request.deviceId),
+      signedPreKeyId: device?.signedPreKeyId ?? 0,
+    };
+  });
+
+  // Upload a batch of one-time prekeys for the current device
+  fastify.post("/prekeys", async (request, reply) => {
+    const body = uploadPreKeysSchema.parse(request.body);
+
+    const stored = await countPreKeys(request.deviceId);
+    if (stored + body.preKeys.length > MAX_STORED_PREKEYS) {
+      return reply.status(400).send({ error: `A device can store at most ${MAX_STORED_PREKEYS} prekeys` });
+    }
+
+    // Key ids already on the server are ignored, so a retried upload is harmless
+    await db.insert(preKeys).values(
+      body.preKeys.map((pk) => ({
+        userId: request.userId,
+        deviceId: request.deviceId,
+        keyId: pk.keyId,
+        publicKey: pk.publicKey,
+      }))
+    ).onConflictDoNothing();
+
+    return { count: await countPreKeys(request.deviceId) };
+  });
+
+  // Replace the current device's signed prekey
+  fastify.put("/signed-prekey", async (request, reply) => {
+    const body = signedPreKeySchema.parse(request.body);
+
+    const device = await db.query.devices.findFirst({
+      where: eq(devices.id, request.deviceId),
+    });
+
+    if (!device) {
+      return reply.status(404).send({ error: "Device not found" });
+    }
+
+    const valid = verifySignature(
+      device.signingKeyPublic,
+      signedPreKeyMessage(device.identityKeyPublic, body.publicKey),
+      body.signature
+    );
+
+    if (!valid) {
+      return reply.status(400).send({ error: "Invalid signed prekey signature" });
+    }
+
+    await db.update(devices)
+      .set({
+        signedPreKeyId: body.keyId,
+        signedPreKeyPublic: body.publicKey,
+        signedPreKeySignature: body.signature,
+      })
+      .where(eq(devices.id, request.deviceId));
+
+    return { success: true };
+  });
+
+  // Rename a device
+  fastify.patch("/:deviceId", async (request, reply) => {
+    const { deviceId } = request.params as { deviceId: string };
+    const body = renameDeviceSchema.parse(request.body);
+
+    const [device] = await db.update(devices)
+      .set({ name: body.name })
+      .where(and(
+        eq(devices.id, deviceId),
+        eq(devices.userId, request.userId),
+        isNull(devices.revokedAt)
+      ))
+      .returning({ id: devices.id, name: devices.name });
+
+    if (!device) {
+      return reply.status(404).send({ error: "Device not found" });
+    }
+
+    return { device };
+  });
+
+  // Revoke a device: it is signed out everywhere and stops receiving keys
+  fastify.delete("/:deviceId", async (request, reply) => {
+    const { deviceId } = request.params as { deviceId: string };
+
+    const [device] = await db.update(devices)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(devices.id, deviceId),
+        eq(devices.userId, request.userId),
+        isNull(devices.revokedAt)
+      ))
+      .returning();
+
+    if (!device) {
+      return reply.status(404).send({ error: "Device not found" });
+    }
+
+    await revokeDeviceSessions(device.id);
+    await db.delete(preKeys).where(eq(preKeys.deviceId, device.id));
+    await db.delete(senderKeys).where(eq(senderKeys.forDeviceId, device.id));
+    disconnectDevice(device.id);
+    await rotateUserChannelEpochs(request.userId);
+
+    return { success: true };
+  });
+
+  // Create a one-time code for adding a new device to this account
+  fastify.post("/link-codes", async (request) => {
+    const { code, expiresAt } = await createLinkCode(request.userId);
+    return { code, expiresAt: expiresAt.toISOString() };
+  });
+};
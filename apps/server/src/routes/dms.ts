@@ -0,0 +1,485 @@
+import { FastifyPluginAsync } from "fastify";
+import { z } from "zod";
+import {
+  db,
+  dmConversations,
+  dmParticipants,
+  dmMessages,
+  dmMessageCiphertexts,
+  senderKeys,
+  users,
+  devices,
+} from "../db/index.js";
+import { eq, and, desc, inArray, isNull, sql } from "drizzle-orm";
+import { requireAuth } from "../auth/session.js";
+import { knowsUser } from "./auth.js";
+import { sendToUser } from "../websocket/index.js";
+
+// Group conversations have at most this many participants, including the creator
+const MAX_GROUP_PARTICIPANTS = 10;
+
+const openConversationSchema = z.object({
+  userId: z.string().uuid(),
+});
+
+const createGroupSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  userIds: z.array(z.string().uuid()).min(1).max(MAX_GROUP_PARTICIPANTS - 1),
+});
+
+const addParticipantSchema = z.object({
+  userId: z.string().uuid(),
+});
+
+const distributeSenderKeySchema = z.object({
+  conversationId: z.string().uuid(),
+  distributionId: z.string(),
+  epoch: z.number().int().min(0),
+  // The chain this replaces, or null when starting a new one
+  expectedDistributionId: z.string().nullable(),
+  encryptedKeys: z.array(z.object({
+    forUserId: z.string().uuid(),
+    forDeviceId: z.string().uuid(),
+    encryptedKey: z.string(),
+  })),
+});
+
+/**
+ * Add the participants' public profiles to some conversations
+ */
+async function withParticipants(conversations: (typeof dmConversations.$inferSelect)[]) {
+  if (conversations.length === 0) return [];
+
+  const participants = await db.query.dmParticipants.findMany({
+    where: inArray(dmParticipants.conversationId, conversations.map((c) => c.id)),
+  });
+
+  const userIds = [...new Set(participants.map((p) => p.userId))];
+  const participantUsers = await db.query.users.findMany({
+    where: inArray(users.id, userIds),
+    columns: { id: true, displayName: true, avatarUrl: true },
+  });
+  const usersById = new Map(participantUsers.map((u) => [u.id, u]));
+
+  return conversations.map((conversation) => ({
+    ...conversation,
+    participants: participants
+      .filter((p) => p.conversationId === conversation.id)
+      .map((p) => usersById.get(p.userId)!),
+  }));
+}
+
+/**
+ * Check whether a user takes part in a conversation
+ */
+async function isParticipant(conversationId: string, userId: string): Promise<boolean> {
+  const participant = await db.query.dmParticipants.findFirst({
+    where: and(
+      eq(dmParticipants.conversationId, conversationId),
+      eq(dmParticipants.userId, userId)
+    ),
+  });
+  return !!participant;
+}
+
+/**
+ * Get a group conversation if the user takes part in it. One-to-one
+ * conversations are reported separately, since they can't be changed.
+ */
+async function getGroupConversation(conversationId: string, userId: string) {
+  const conversation = await db.query.dmConversations.findFirst({
+    where: eq(dmConversations.id, conversationId),
+  });
+
+  if (!conversation || !(await isParticipant(conversationId, userId))) {
+    return { error: { status: 404, body: { error: "Conversation not found" } } } as const;
+  }
+
+  if (!conversation.isGroup) {
+    return { error: { status: 400, body: { error: "Not a group conversation" } } } as const;
+  }
+
+  return { conversation } as const;
+}
+
+/**
+ * Start a new epoch of a group conversation after its participants changed,
+ * and tell the participants so they distribute new sender chains
+ */
+async function rotateConversationEpoch(
+  conversationId: string,
+  change: { userId: string; type: "joined" | "left" | "removed" }
+) {
+  const [{ epoch }] = await db.update(dmConversations)
+    .set({ epoch: sql`${dmConversations.epoch} + 1` })
+    .where(eq(dmConversations.id, conversationId))
+    .returning({ epoch: dmConversations.epoch });
+
+  const participants = await db.query.dmParticipants.findMany({
+    where: eq(dmParticipants.conversationId, conversationId),
+  });
+
+  for (const participant of participants) {
+    sendToUser(participant.userId, {
+      type: "dm:participants",
+      payload: { conversationId, ...change, epoch },
+    });
+  }
+}
+
+/**
+ * Remove a user from a group conversation and rotate its keys
+ */
+async function removeParticipant(conversationId: string, userId: string, type: "left" | "removed") {
+  await db.delete(dmParticipants).where(
+    and(
+      eq(dmParticipants.conversationId, conversationId),
+      eq(dmParticipants.userId, userId)
+    )
+  );
+
+  await rotateConversationEpoch(conversationId, { userId, type });
+
+  sendToUser(userId, { type: "dm:removed", payload: { conversationId } });
+}
+
+export const dmRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook("preHandler", requireAuth);
+
+  // Get the current user's conversations
+  fastify.get("/", async (request) => {
+    const participations = await db.query.dmParticipants.findMany({
+      where: eq(dmParticipants.userId, request.userId),
+    });
+
+    if (participations.length === 0) {
+      return { conversations: [] };
+    }
+
+    const conversations = await db.query.dmConversations.findMany({
+      where: inArray(dmConversations.id, participations.map((p) => p.conversationId)),
+    });
+
+    return { conversations: await withParticipants(conversations) };
+  });
+
+  // Open the one-to-one conversation with a user, creating it if needed
+  fastify.post("/", async (request, reply) => {
+    const body = openConversationSchema.parse(request.body);
+
+    if (body.userId === request.userId) {
+      return reply.status(400).send({ error: "You can't message yourself" });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, body.userId),
+    });
+
+    // Same rule as fetching someone's keys: only people you share a community or conversation with
+    if (!user || !(await knowsUser(request.userId, body.userId))) {
+      return reply.status(404).send({ error: "User not found" });
+    }
+
+    const pairKey = [request.userId, body.userId].sort().join(":");
+
+    const [created] = await db.insert(dmConversations).values({
+      pairKey,
+      createdBy: request.userId,
+    }).onConflictDoNothing({
+      target: dmConversations.pairKey,
+    }).returning();
+
+    if (created) {
+      await db.insert(dmParticipants).values([
+        { conversationId: created.id, userId: request.userId },
+        { conversationId: created.id, userId: body.userId },
+      ]);
+    }
+
+    const conversation = created ?? await db.query.dmConversations.findFirst({
+      where: eq(dmConversations.pairKey, pairKey),
+    });
+
+    const [withUsers] = await withParticipants([conversation!]);
+
+    if (created) {
+      sendToUser(body.userId, { type: "dm:conversation", payload: { conversation: withUsers } });
+    }
+
+    return { conversation: withUsers };
+  });
+
+  // Create a group conversation with some users
+  fastify.post("/groups", async (request, reply) => {
+    const body = createGroupSchema.parse(request.body);
+
+    const userIds = [...new Set(body.userIds)].filter((id) => id !== request.userId);
+    if (userIds.length === 0) {
+      return reply.status(400).send({ error: "Add at least one other person" });
+    }
+
+    for (const userId of userIds) {
+      if (!(await knowsUser(request.userId, userId))) {
+        return reply.status(404).send({ error: "User not found" });
+      }
+    }
+
+    const [conversation] = await db.insert(dmConversations).values({
+      isGroup: true,
+      name: body.name,
+      createdBy: request.userId,
+    }).returning();
+
+    await db.insert(dmParticipants).values(
+      [request.userId, ...userIds].map((userId) => ({ conversationId: conversation.id, userId }))
+    );
+
+    const [withUsers] = await withParticipants([conversation]);
+
+    for (const userId of userIds) {
+      sendToUser(userId, { type: "dm:conversation", payload: { conversation: withUsers } });
+    }
+
+    return { conversation: withUsers };
+  });
+
+  // Add someone to a group conversation (any participant)
+  fastify.post("/:conversationId/participants", async (request, reply) => {
+    const { conversationId } = request.params as { conversationId: string };
+    const body = addParticipantSchema.parse(request.body);
+
+    const group = await getGroupConversation(conversationId, request.userId);
+    if (group.error) {
+      return reply.status(group.error.status).send(group.error.body);
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, body.userId),
+    });
+
+    if (!user || !(await knowsUser(request.userId, body.userId))) {
+      return reply.status(404).send({ error: "User not found" });
+    }
+
+    const participants = await db.query.dmParticipants.findMany({
+      where: eq(dmParticipants.conversationId, conversationId),
+    });
+
+    if (participants.some((p) => p.userId === body.userId)) {
+      return reply.status(409).send({ error: "Already a participant" });
+    }
+
+    if (participants.length >= MAX_GROUP_PARTICIPANTS) {
+      return reply.status(400).send({
+        error: `Group conversations are limited to ${MAX_GROUP_PARTICIPANTS} people`,
+      });
+    }
+
+    await db.insert(dmParticipants).values({ conversationId, userId: body.userId });
+
+    await rotateConversationEpoch(conversationId, { userId: body.userId, type: "joined" });
+
+    const conversation = await db.query.dmConversations.findFirst({
+      where: eq(dmConversations.id, conversationId),
+    });
+    const [withUsers] = await withParticipants([conversation!]);
+
+    sendToUser(body.userId, { type: "dm:conversation", payload: { conversation: withUsers } });
+
+    return { conversation: withUsers };
+  });
+
+  // Remove someone from a group conversation (creator only)
+  fastify.delete("/:conversationId/participants/:userId", async (request, reply) => {
+    const { conversationId, userId } = request.params as { conversationId: string; userId: string };
+
+    const group = await getGroupConversation(conversationId, request.userId);
+    if (group.error) {
+      return reply.status(group.error.status).send(group.error.body);
+    }
+
+    if (group.conversation.createdBy !== request.userId) {
+      return reply.status(403).send({ error: "Only the creator can remove participants" });
+    }
+
+    if (userId === request.userId) {
+      return reply.status(400).send({ error: "Leave the conversation instead" });
+    }
+
+    if (!(await isParticipant(conversationId, userId))) {
+      return reply.status(404).send({ error: "Participant not found" });
+    }
+
+    await removeParticipant(conversationId, userId, "removed");
+
+    return { success: true };
+  });
+
+  // Leave a group conversation
+  fastify.post("/:conversationId/leave", async (request, reply) => {
+    const { conversationId } = request.params as { conversationId: string };
+
+    const group = await getGroupConversation(conversationId, request.userId);
+    if (group.error) {
+      return reply.status(group.error.status).send(group.error.body);
+    }
+
+    await removeParticipant(conversationId, request.userId, "left");
+
+    return { success: true };
+  });
+
+  // Distribute this device's sender chain for a group conversation
+  fastify.post("/sender-keys", async (request, reply) => {
+    const body = distributeSenderKeySchema.parse(request.body);
+
+    const failure = await db.transaction(async (tx) => {
+      // Lock the conversation so concurrent distributions to it are decided one at a time
+      const [conversation] = await tx.select().from(dmConversations)
+        .where(eq(dmConversations.id, body.conversationId))
+        .for("update");
+
+      if (!conversation || !conversation.isGroup) {
+        return { status: 404, body: { error: "Conversation not found" } };
+      }
+
+      // Chains are only shared for the current epoch, with its current participants
+      if (body.epoch !== conversation.epoch) {
+        return { status: 409, body: { error: "Stale conversation epoch", epoch: conversation.epoch } };
+      }
+
+      const participants = await tx.query.dmParticipants.findMany({
+        where: eq(dmParticipants.conversationId, body.conversationId),
+        columns: { userId: true },
+      });
+      const participantIds = new Set(participants.map((p) => p.userId));
+
+      if (!participantIds.has(request.userId)) {
+        return { status: 404, body: { error: "Conversation not found" } };
+      }
+
+      // Every key has to be for an active device of the user it is addressed to
+      const forDeviceIds = [...new Set(body.encryptedKeys.map((ek) => ek.forDeviceId))];
+      const activeDevices = forDeviceIds.length > 0
+        ? await tx.select({ id: devices.id, userId: devices.userId })
+          .from(devices)
+          .where(and(inArray(devices.id, forDeviceIds), isNull(devices.revokedAt)))
+        : [];
+      const deviceOwners = new Map(activeDevices.map((d) => [d.id, d.userId]));
+
+      if (body.encryptedKeys.some((ek) => deviceOwners.get(ek.forDeviceId) !== ek.forUserId)) {
+        return { status: 400, body: { error: "Unknown device" } };
+      }
+
+      const current = await tx.query.senderKeys.findFirst({
+        where: and(
+          eq(senderKeys.conversationId, body.conversationId),
+          eq(senderKeys.deviceId, request.deviceId),
+          eq(senderKeys.epoch, body.epoch)
+        ),
+        columns: { distributionId: true },
+      });
+
+      if (current && current.distributionId !== body.expectedDistributionId) {
+        return {
+          status: 409,
+          body: { error: "Sender key already exists", distributionId: current.distributionId },
+        };
+      }
+
+      await tx.delete(senderKeys).where(
+        and(
+          eq(senderKeys.conversationId, body.conversationId),
+          eq(senderKeys.deviceId, request.deviceId),
+          eq(senderKeys.epoch, body.epoch)
+        )
+      );
+
+      const encryptedKeys = body.encryptedKeys.filter((ek) => participantIds.has(ek.forUserId));
+
+      if (encryptedKeys.length > 0) {
+        await tx.insert(senderKeys).values(
+          encryptedKeys.map((ek) => ({
+            conversationId: body.conversationId,
+            userId: request.userId,
+            deviceId: request.deviceId,
+            distributionId: body.distributionId,
+            epoch: body.epoch,
+            encryptedKey: ek.encryptedKey,
+            forUserId: ek.forUserId,
+            forDeviceId: ek.forDeviceId,
+          }))
+        );
+      }
+
+      return null;
+    });
+
+    if (failure) {
+      return reply.status(failure.status).send(failure.body);
+    }
+
+    return { success: true };
+  });
+
+  // Get sender keys for a group conversation (encrypted for the current device)
+  fastify.get("/:conversationId/sender-keys", async (request) => {
+    const { conversationId } = request.params as { conversationId: string };
+
+    const keys = await db.query.senderKeys.findMany({
+      where: and(
+        eq(senderKeys.conversationId, conversationId),
+        eq(senderKeys.forDeviceId, request.deviceId)
+      ),
+    });
+
+    return { senderKeys: keys };
+  });
+
+  // Get messages of a conversation (paginated), each with its ciphertext for this device
+  fastify.get("/:conversationId/messages", async (request, reply) => {
+    const { conversationId } = request.params as { conversationId: string };
+    const { cursor, limit = "50" } = request.query as { cursor?: string; limit?: string };
+
+    if (!(await isParticipant(conversationId, request.userId))) {
+      return reply.status(404).send({ error: "Conversation not found" });
+    }
+
+    const limitNum = Math.min(parseInt(limit, 10), 100);
+
+    const conversationMessages = await db.query.dmMessages.findMany({
+      where: cursor
+        ? (dmMessages, { and, lt }) => and(
+            eq(dmMessages.conversationId, conversationId),
+            lt(dmMessages.createdAt, new Date(cursor))
+          )
+        : eq(dmMessages.conversationId, conversationId),
+      orderBy: desc(dmMessages.createdAt),
+      limit: limitNum,
+    });
+
+    const ciphertexts = conversationMessages.length > 0
+      ? await db.query.dmMessageCiphertexts.findMany({
+          where: and(
+            inArray(dmMessageCiphertexts.messageId, conversationMessages.map((m) => m.id)),
+            eq(dmMessageCiphertexts.forDeviceId, request.deviceId)
+          ),
+        })
+      : [];
+    const ciphertextByMessage = new Map(ciphertexts.map((c) => [c.messageId, c.ciphertext]));
+
+    const ordered = conversationMessages.reverse();
+
+    return {
+      // Group messages have one ciphertext for everyone. In one-to-one conversations,
+      // messages this device sent (or that predate it) have no ciphertext for it.
+      messages: ordered.map((message) => ({
+        ...message,
+        ciphertext: message.ciphertext ?? ciphertextByMessage.get(message.id) ?? null,
+      })),
+      nextCursor: ordered.length === limitNum
+        ? ordered[0]?.createdAt.toISOString()
+        : null,
+    };
+  });
+};
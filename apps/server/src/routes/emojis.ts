@@ -1,21 +1,39 @@
 import { FastifyPluginAsync } from "fastify";
 import { z } from "zod";
-import { db, emojis } from "../db/index.js";
+import { db, emojis, messageReactions, communityMembers } from "../db/index.js";
 import { eq, and } from "drizzle-orm";
+import { requireAuth } from "../auth/session.js";
+import { isModerator } from "./communities.js";
+import { announceReactions } from "./messages.js";
 
 const createEmojiSchema = z.object({
   communityId: z.string().uuid(),
   name: z.string().min(1).max(32).regex(/^[a-z0-9_]+$/, "Emoji name must be lowercase alphanumeric with underscores"),
   fileUrl: z.string().url(),
   animated: z.boolean().default(false),
-  uploadedBy: z.string().uuid(),
 });
 
+async function isMember(communityId: string, userId: string): Promise<boolean> {
+  const membership = await db.query.communityMembers.findFirst({
+    where: and(
+      eq(communityMembers.communityId, communityId),
+      eq(communityMembers.userId, userId)
+    ),
+  });
+  return !!membership;
+}
+
 export const emojiRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook("preHandler", requireAuth);
+
   // Add emoji to community
   fastify.post("/", async (request, reply) => {
     const body = createEmojiSchema.parse(request.body);
 
+    if (!await isMember(body.communityId, request.userId)) {
+      return reply.status(404).send({ error: "Community not found" });
+    }
+
     // Check if emoji name already exists in community
     const existing = await db.query.emojis.findFirst({
       where: and(
@@ -33,16 +51,20 @@ export const emojiRoutes: FastifyPluginAsync = async (fastify) => {
       name: body.name,
       fileUrl: body.fileUrl,
       animated: body.animated,
-      uploadedBy: body.uploadedBy,
+      uploadedBy: request.userId,
     }).returning();
 
     return { emoji };
   });
 
   // Get all emojis for a community
-  fastify.get("/community/:communityId", async (request) => {
+  fastify.get("/community/:communityId", async (request, reply) => {
     const { communityId } = request.params as { communityId: string };
 
+    if (!await isMember(communityId, request.userId)) {
+      return reply.status(404).send({ error: "Community not found" });
+    }
+
     const communityEmojis = await db.query.emojis.findMany({
       where: eq(emojis.communityId, communityId),
     });
@@ -50,18 +72,40 @@ export const emojiRoutes: FastifyPluginAsync = async (fastify) => {
     return { emojis: communityEmojis };
   });
 
-  // Delete emoji
+  // Moderators only: delete emoji, along with every reaction using it
   fastify.delete("/:emojiId", async (request, reply) => {
     const { emojiId } = request.params as { emojiId: string };
 
-    const [deleted] = await db.delete(emojis)
-      .where(eq(emojis.id, emojiId))
-      .returning();
+    const emoji = await db.query.emojis.findFirst({
+      where: eq(emojis.id, emojiId),
+    });
+
+    if (!emoji || !await isMember(emoji.communityId, request.userId)) {
+      return reply.status(404).send({ error: "Emoji not found" });
+    }
+
+    if (!await isModerator(emoji.communityId, request.userId)) {
+      return reply.status(403).send({ error: "Only moderators can delete emojis" });
+    }
+
+    const { deleted, reactions } = await db.transaction(async (tx) => {
+      const reactions = await tx.delete(messageReactions)
+        .where(eq(messageReactions.emojiId, emojiId))
+        .returning({ messageId: messageReactions.messageId });
+
+      const [deleted] = await tx.delete(emojis)
+        .where(eq(emojis.id, emojiId))
+        .returning();
+
+      return { deleted, reactions };
+    });
 
     if (!deleted) {
       return reply.status(404).send({ error: "Emoji not found" });
     }
 
+    await announceReactions([...new Set(reactions.map((r) => r.messageId))]);
+
     return { success: true };
   });
 };
@@ -1,55 +1,833 @@
 import { FastifyPluginAsync } from "fastify";
 import { z } from "zod";
-import { db, messages } from "../db/index.js";
-import { eq, desc, lt } from "drizzle-orm";
+import {
+  db,
+  messages,
+  messageEdits,
+  messageReactions,
+  pinnedMessages,
+  threads,
+  emojis,
+  channels,
+  communityMembers,
+  users,
+} from "../db/index.js";
+import { eq, and, or, ne, asc, desc, lt, gt, gte, isNull, inArray, arrayContains, count, SQL } from "drizzle-orm";
+import { requireAuth } from "../auth/session.js";
+import { isModerator } from "./communities.js";
+import { getMemberChannel } from "./channels.js";
+import { attachmentIdsSchema, claimAttachments, deleteMessageAttachments } from "./attachments.js";
+import { getMessageExpiry } from "../jobs/messageRetention.js";
+import {
+  broadcastToChannel,
+  broadcastNewMessage,
+  sendToUser,
+  isUserOnline,
+  announceChannelActivity,
+} from "../websocket/index.js";
+
+// Who a message mentions. The content is encrypted, so the sender lists them in plaintext.
+const mentionsSchema = z.object({
+  userIds: z.array(z.string().uuid()).max(100).default([]),
+  everyone: z.boolean().default(false),
+  here: z.boolean().default(false), // Everyone who is online
+});
 
 const sendMessageSchema = z.object({
   channelId: z.string().uuid(),
-  senderId: z.string().uuid(),
   ciphertext: z.string(),
+  epoch: z.number().int().min(0),
+  clientMessageId: z.string().max(64).optional(),
   replyToId: z.string().uuid().optional(),
+  threadId: z.string().uuid().optional(),
+  mentions: mentionsSchema.optional(),
+  attachmentIds: attachmentIdsSchema.default([]),
+});
+
+const editMessageSchema = z.object({
+  ciphertext: z.string(),
+  epoch: z.number().int().min(0),
 });
 
+const deleteRecentSchema = z.object({
+  communityId: z.string().uuid(),
+  userId: z.string().uuid(),
+  withinSeconds: z.number().int().min(60).max(7 * 24 * 60 * 60).default(24 * 60 * 60),
+});
+
+// Either a Unicode emoji or the id of one of the community's custom emojis
+const reactionSchema = z.object({
+  messageId: z.string().uuid(),
+  emoji: z.string().max(32).regex(/^(\p{Extended_Pictographic}|\p{Regional_Indicator})/u, "Not an emoji").optional(),
+  emojiId: z.string().uuid().optional(),
+}).refine((r) => !r.emoji !== !r.emojiId, "Give either an emoji or an emojiId");
+
+export interface ThreadSummary {
+  replyCount: number;
+  lastReply: {
+    id: string;
+    senderId: string;
+    ciphertext: string | null;
+    epoch: number;
+    expiresAt: string | null;
+    editedAt: string | null;
+    createdAt: string;
+  } | null;
+  archivedAt: string | null;
+}
+
+export interface ReactionSummary {
+  emoji: string | null;
+  customEmoji: { id: string; name: string; fileUrl: string } | null;
+  count: number;
+  userIds: string[]; // In the order they reacted
+}
+
+/**
+ * Messages the purge job hasn't reached yet are already gone for clients
+ */
+export function notExpired() {
+  return or(isNull(messages.expiresAt), gt(messages.expiresAt, new Date()));
+}
+
+/**
+ * Messages that mention a user, by name or with @everyone. Membership of the
+ * messages' channels is checked separately.
+ */
+export function mentionsUser(userId: string) {
+  return or(arrayContains(messages.mentionedUserIds, [userId]), eq(messages.mentionsEveryone, true))!;
+}
+
+/**
+ * Turn the mentions a sender gave into the columns stored with their message.
+ * Only a member can mention, and only other members of the community can be
+ * mentioned; @here becomes the members who are online right now.
+ */
+export async function resolveMentions(communityId: string, senderId: string, payload: unknown) {
+  const parsed = mentionsSchema.optional().safeParse(payload);
+  if (!parsed.success) {
+    return { error: { status: 400, body: { error: parsed.error.issues[0].message } } };
+  }
+
+  const { userIds = [], everyone = false, here = false } = parsed.data ?? {};
+  if (userIds.length === 0 && !everyone && !here) {
+    return { values: { mentionedUserIds: null, mentionsEveryone: false } };
+  }
+
+  const members = await db.query.communityMembers.findMany({
+    where: eq(communityMembers.communityId, communityId),
+    columns: { userId: true },
+  });
+  const memberIds = members.map((m) => m.userId);
+
+  if (!memberIds.includes(senderId)) {
+    return { error: { status: 403, body: { error: "Only members can mention in this community" } } };
+  }
+
+  const mentionedUserIds = memberIds
+    .filter((id) => id !== senderId && (userIds.includes(id) || (here && isUserOnline(id))));
+
+  return {
+    values: {
+      mentionedUserIds: mentionedUserIds.length > 0 ? mentionedUserIds : null,
+      mentionsEveryone: everyone,
+    },
+  };
+}
+
+/**
+ * Tell the members a new message mentions about it, whichever channel they have open
+ */
+export async function announceMentions(message: typeof messages.$inferSelect, communityId: string) {
+  let userIds = message.mentionedUserIds ?? [];
+
+  if (message.mentionsEveryone) {
+    const members = await db.query.communityMembers.findMany({
+      where: eq(communityMembers.communityId, communityId),
+      columns: { userId: true },
+    });
+    userIds = members.map((m) => m.userId);
+  }
+
+  for (const userId of userIds) {
+    if (userId === message.senderId) continue;
+
+    sendToUser(userId, {
+      type: "mention:new",
+      payload: { communityId, channelId: message.channelId, messageId: message.id, threadId: message.threadId },
+    });
+  }
+}
+
+/**
+ * Get a message and its channel if the user is a member of the channel's community
+ */
+async function getMemberMessage(userId: string, messageId: string) {
+  const message = await db.query.messages.findFirst({
+    where: eq(messages.id, messageId),
+  });
+  if (!message) return null;
+
+  const channel = await db.query.channels.findFirst({
+    where: eq(channels.id, message.channelId),
+  });
+  if (!channel) return null;
+
+  const membership = await db.query.communityMembers.findFirst({
+    where: and(
+      eq(communityMembers.communityId, channel.communityId),
+      eq(communityMembers.userId, userId)
+    ),
+  });
+
+  return membership ? { message, channel } : null;
+}
+
+/**
+ * Replace a message's ciphertext with an edited version, keeping the previous
+ * one in its edit history. Only the sender can edit, and the new version must
+ * be encrypted for the channel's current epoch. Resending the current
+ * ciphertext changes nothing, so a lost acknowledgement can be retried.
+ */
+export async function editMessage(userId: string, messageId: string, ciphertext: string, epoch: number) {
+  const found = await getMemberMessage(userId, messageId);
+
+  if (!found) {
+    return { error: { status: 404, body: { error: "Message not found" } } };
+  }
+
+  const { message, channel } = found;
+
+  if (message.deletedAt) {
+    return { error: { status: 404, body: { error: "Message not found" } } };
+  }
+
+  if (message.senderId !== userId || message.ciphertext === null) {
+    return { error: { status: 403, body: { error: "Only the sender can edit a message" } } };
+  }
+
+  if (epoch !== channel.epoch) {
+    return {
+      error: {
+        status: 409,
+        body: { error: "Stale channel epoch", communityId: channel.communityId, epoch: channel.epoch },
+      },
+    };
+  }
+
+  if (message.ciphertext === ciphertext) {
+    return { message };
+  }
+
+  const updated = await db.transaction(async (tx) => {
+    // Lock the message so concurrent edits each keep the version they replace
+    const [current] = await tx.select().from(messages)
+      .where(eq(messages.id, messageId))
+      .for("update");
+
+    // Deleted in the meantime
+    if (current.ciphertext === null) return null;
+
+    await tx.insert(messageEdits).values({
+      messageId,
+      ciphertext: current.ciphertext,
+      epoch: current.epoch,
+      editedAt: current.editedAt,
+    });
+
+    const [edited] = await tx.update(messages)
+      .set({ ciphertext, epoch, editedAt: new Date() })
+      .where(eq(messages.id, messageId))
+      .returning();
+    return edited;
+  });
+
+  if (!updated) {
+    return { error: { status: 404, body: { error: "Message not found" } } };
+  }
+
+  return { message: updated };
+}
+
+/**
+ * Turn messages into tombstones: their ciphertext, mentions, edit history,
+ * reactions, pins and attachments are wiped, but the rows stay so replies still point somewhere. Messages that
+ * were already deleted are left out of the result.
+ */
+async function tombstoneMessages(where: SQL, deletedBy: string) {
+  const deleted = await db.transaction(async (tx) => {
+    const deleted = await tx.update(messages)
+      .set({
+        ciphertext: null,
+        notice: null,
+        mentionedUserIds: null,
+        mentionsEveryone: false,
+        editedAt: null,
+        deletedAt: new Date(),
+        deletedBy,
+      })
+      .where(and(where, isNull(messages.deletedAt)))
+      .returning({ id: messages.id, channelId: messages.channelId, threadId: messages.threadId });
+
+    if (deleted.length > 0) {
+      const deletedIds = deleted.map((m) => m.id);
+      await tx.delete(messageEdits).where(inArray(messageEdits.messageId, deletedIds));
+      await tx.delete(messageReactions).where(inArray(messageReactions.messageId, deletedIds));
+      await tx.delete(pinnedMessages).where(inArray(pinnedMessages.messageId, deletedIds));
+    }
+    return deleted;
+  });
+
+  await deleteMessageAttachments(deleted.map((m) => m.id));
+  return deleted;
+}
+
+/**
+ * Tell the clients watching each channel which of its messages were deleted,
+ * and how the threads they were replies in changed
+ */
+async function announceDeletions(deleted: { id: string; channelId: string; threadId: string | null }[]) {
+  const byChannel = new Map<string, string[]>();
+  for (const { id, channelId } of deleted) {
+    byChannel.set(channelId, [...(byChannel.get(channelId) ?? []), id]);
+  }
+
+  for (const [channelId, messageIds] of byChannel) {
+    broadcastToChannel(channelId, { type: "message:deleted", payload: { channelId, messageIds } });
+  }
+
+  await announceThreads([...new Set(deleted.flatMap((m) => m.threadId ?? []))]);
+}
+
+/**
+ * Whether a message can be replied to from a channel: it has to be in the same channel
+ */
+export async function isReplyTarget(channelId: string, replyToId: string) {
+  const target = await db.query.messages.findFirst({
+    where: and(eq(messages.id, replyToId), eq(messages.channelId, channelId)),
+    columns: { id: true },
+  });
+  return !!target;
+}
+
+/**
+ * Get the root of a thread in a channel. Any message posted in the channel
+ * itself can start a thread, except notices and deleted messages.
+ */
+export async function getThreadRoot(channelId: string, threadId: string) {
+  const root = await db.query.messages.findFirst({
+    where: and(eq(messages.id, threadId), eq(messages.channelId, channelId), isNull(messages.threadId)),
+  });
+  return root?.ciphertext ? root : null;
+}
+
+/**
+ * Note a new reply in a thread, starting the thread or reopening it if it was archived
+ */
+export async function recordThreadReply(reply: typeof messages.$inferSelect) {
+  await db.insert(threads)
+    .values({ id: reply.threadId!, channelId: reply.channelId, lastReplyAt: reply.createdAt })
+    .onConflictDoUpdate({
+      target: threads.id,
+      set: { lastReplyAt: reply.createdAt, archivedAt: null },
+    });
+}
+
+/**
+ * Reply counts and last replies of the threads started from some messages
+ */
+export async function listThreadSummaries(rootIds: string[]): Promise<Map<string, ThreadSummary>> {
+  const summaries = new Map<string, ThreadSummary>();
+  if (rootIds.length === 0) return summaries;
+
+  const started = await db.query.threads.findMany({
+    where: inArray(threads.id, rootIds),
+  });
+  if (started.length === 0) return summaries;
+
+  const threadIds = started.map((t) => t.id);
+  const visibleReplies = and(inArray(messages.threadId, threadIds), isNull(messages.deletedAt), notExpired());
+
+  const counts = await db.select({ threadId: messages.threadId, replyCount: count() })
+    .from(messages)
+    .where(visibleReplies)
+    .groupBy(messages.threadId);
+
+  const lastReplies = await db.selectDistinctOn([messages.threadId])
+    .from(messages)
+    .where(visibleReplies)
+    .orderBy(messages.threadId, desc(messages.createdAt));
+
+  for (const thread of started) {
+    const lastReply = lastReplies.find((r) => r.threadId === thread.id);
+
+    summaries.set(thread.id, {
+      replyCount: counts.find((c) => c.threadId === thread.id)?.replyCount ?? 0,
+      lastReply: lastReply
+        ? {
+            id: lastReply.id,
+            senderId: lastReply.senderId,
+            ciphertext: lastReply.ciphertext,
+            epoch: lastReply.epoch,
+            expiresAt: lastReply.expiresAt?.toISOString() ?? null,
+            editedAt: lastReply.editedAt?.toISOString() ?? null,
+            createdAt: lastReply.createdAt.toISOString(),
+          }
+        : null,
+      archivedAt: thread.archivedAt?.toISOString() ?? null,
+    });
+  }
+
+  return summaries;
+}
+
+/**
+ * Send the current summaries of threads to the clients watching their channels,
+ * so the root messages show the right reply counts
+ */
+export async function announceThreads(threadIds: string[]) {
+  if (threadIds.length === 0) return;
+
+  const summaries = await listThreadSummaries(threadIds);
+  const started = await db.query.threads.findMany({
+    where: inArray(threads.id, threadIds),
+    columns: { id: true, channelId: true },
+  });
+
+  for (const { id, channelId } of started) {
+    broadcastToChannel(channelId, {
+      type: "thread:updated",
+      payload: { channelId, threadId: id, thread: summaries.get(id) },
+    });
+  }
+}
+
+/**
+ * The reactions to each of some messages, grouped by emoji in the order they
+ * were first used
+ */
+export async function listReactions(messageIds: string[]): Promise<Map<string, ReactionSummary[]>> {
+  const byMessage = new Map<string, ReactionSummary[]>();
+  if (messageIds.length === 0) return byMessage;
+
+  const rows = await db.select({
+    messageId: messageReactions.messageId,
+    userId: messageReactions.userId,
+    emoji: messageReactions.emoji,
+    emojiId: messageReactions.emojiId,
+    emojiName: emojis.name,
+    emojiUrl: emojis.fileUrl,
+  })
+    .from(messageReactions)
+    .leftJoin(emojis, eq(messageReactions.emojiId, emojis.id))
+    .where(inArray(messageReactions.messageId, messageIds))
+    .orderBy(asc(messageReactions.createdAt));
+
+  for (const row of rows) {
+    const reactions = byMessage.get(row.messageId) ?? [];
+    byMessage.set(row.messageId, reactions);
+
+    let reaction = reactions.find((r) =>
+      row.emojiId ? r.customEmoji?.id === row.emojiId : r.emoji === row.emoji
+    );
+    if (!reaction) {
+      reaction = {
+        emoji: row.emoji,
+        customEmoji: row.emojiId ? { id: row.emojiId, name: row.emojiName!, fileUrl: row.emojiUrl! } : null,
+        count: 0,
+        userIds: [],
+      };
+      reactions.push(reaction);
+    }
+
+    reaction.count++;
+    reaction.userIds.push(row.userId);
+  }
+
+  return byMessage;
+}
+
+/**
+ * Add or take back a user's reaction to a message. Both are idempotent.
+ * Returns the message's reactions afterwards.
+ */
+export async function setReaction(userId: string, payload: unknown, react: boolean) {
+  const parsed = reactionSchema.safeParse(payload);
+  if (!parsed.success) {
+    return { error: { status: 400, body: { error: parsed.error.issues[0].message } } };
+  }
+
+  const { messageId, emoji, emojiId } = parsed.data;
+  const found = await getMemberMessage(userId, messageId);
+
+  // Notices and tombstones have nothing to react to
+  if (!found || found.message.ciphertext === null) {
+    return { error: { status: 404, body: { error: "Message not found" } } };
+  }
+
+  if (react) {
+    if (emojiId) {
+      const customEmoji = await db.query.emojis.findFirst({
+        where: and(eq(emojis.id, emojiId), eq(emojis.communityId, found.channel.communityId)),
+      });
+      if (!customEmoji) {
+        return { error: { status: 404, body: { error: "Emoji not found" } } };
+      }
+    }
+
+    await db.insert(messageReactions)
+      .values({ messageId, userId, emoji, emojiId })
+      .onConflictDoNothing();
+  } else {
+    await db.delete(messageReactions).where(and(
+      eq(messageReactions.messageId, messageId),
+      eq(messageReactions.userId, userId),
+      emojiId ? eq(messageReactions.emojiId, emojiId) : eq(messageReactions.emoji, emoji!)
+    ));
+  }
+
+  const reactions = await listReactions([messageId]);
+  return { channelId: found.message.channelId, messageId, reactions: reactions.get(messageId) ?? [] };
+}
+
+/**
+ * Send the current reactions of messages to the clients watching their channels
+ */
+export async function announceReactions(messageIds: string[]) {
+  if (messageIds.length === 0) return;
+
+  const reacted = await db.query.messages.findMany({
+    where: inArray(messages.id, messageIds),
+    columns: { id: true, channelId: true },
+  });
+  const reactions = await listReactions(messageIds);
+
+  for (const { id, channelId } of reacted) {
+    broadcastToChannel(channelId, {
+      type: "reaction:update",
+      payload: { channelId, messageId: id, reactions: reactions.get(id) ?? [] },
+    });
+  }
+}
+
+/**
+ * The message:new payload for a stored message
+ */
+export function toNewPayload(message: typeof messages.$inferSelect, senderDisplayName?: string) {
+  return {
+    id: message.id,
+    channelId: message.channelId,
+    senderId: message.senderId,
+    senderDisplayName,
+    ciphertext: message.ciphertext,
+    epoch: message.epoch,
+    clientMessageId: message.clientMessageId ?? undefined,
+    replyToId: message.replyToId ?? undefined,
+    threadId: message.threadId ?? undefined,
+    mentionedUserIds: message.mentionedUserIds ?? [],
+    mentionsEveryone: message.mentionsEveryone,
+    expiresAt: message.expiresAt?.toISOString() ?? null,
+    createdAt: message.createdAt.toISOString(),
+  };
+}
+
+/**
+ * The message:updated payload for an edited message
+ */
+export function toUpdatedPayload(message: typeof messages.$inferSelect) {
+  return {
+    id: message.id,
+    channelId: message.channelId,
+    senderId: message.senderId,
+    ciphertext: message.ciphertext,
+    epoch: message.epoch,
+    threadId: message.threadId ?? undefined,
+    expiresAt: message.expiresAt?.toISOString() ?? null,
+    editedAt: message.editedAt?.toISOString() ?? null,
+    createdAt: message.createdAt.toISOString(),
+  };
+}
+
 export const messageRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook("preHandler", requireAuth);
+
   // Send message (also handled via WebSocket, this is fallback)
-  fastify.post("/", async (request) => {
+  fastify.post("/", async (request, reply) => {
     const body = sendMessageSchema.parse(request.body);
 
+    const channel = await getMemberChannel(request.userId, body.channelId);
+
+    if (!channel) {
+      return reply.status(404).send({ error: "Channel not found" });
+    }
+
+    if (body.epoch !== channel.epoch) {
+      return reply.status(409).send({ error: "Stale channel epoch", epoch: channel.epoch });
+    }
+
+    if (body.threadId && !await getThreadRoot(channel.id, body.threadId)) {
+      return reply.status(404).send({ error: "Thread not found" });
+    }
+
+    if (body.replyToId && !await isReplyTarget(channel.id, body.replyToId)) {
+      return reply.status(404).send({ error: "Message not found" });
+    }
+
+    const mentions = await resolveMentions(channel.communityId, request.userId, body.mentions);
+    if (mentions.error) {
+      return reply.status(mentions.error.status).send(mentions.error.body);
+    }
+
     const [message] = await db.insert(messages).values({
       channelId: body.channelId,
-      senderId: body.senderId,
+      senderId: request.userId,
       ciphertext: body.ciphertext,
+      epoch: body.epoch,
+      clientMessageId: body.clientMessageId,
       replyToId: body.replyToId,
+      threadId: body.threadId,
+      ...mentions.values,
+      expiresAt: getMessageExpiry(channel.retentionSeconds),
+    }).onConflictDoNothing({
+      target: [messages.senderId, messages.clientMessageId],
     }).returning();
 
+    // Already stored under this client message id
+    if (!message) {
+      const existing = await db.query.messages.findFirst({
+        where: and(
+          eq(messages.senderId, request.userId),
+          eq(messages.clientMessageId, body.clientMessageId!)
+        ),
+      });
+      return { message: existing };
+    }
+
+    await claimAttachments(request.userId, body.attachmentIds, { messageId: message.id });
+
+    const sender = await db.query.users.findFirst({
+      where: eq(users.id, request.userId),
+      columns: { displayName: true },
+    });
+    broadcastNewMessage(toNewPayload(message, sender?.displayName));
+
+    if (message.threadId) {
+      await recordThreadReply(message);
+      await announceThreads([message.threadId]);
+    } else {
+      await announceChannelActivity(channel.communityId, message);
+    }
+
+    await announceMentions(message, channel.communityId);
+
     return { message };
   });
 
+  // Edit a message (also handled via WebSocket, this is fallback)
+  fastify.patch("/:messageId", async (request, reply) => {
+    const { messageId } = request.params as { messageId: string };
+    const body = editMessageSchema.parse(request.body);
+
+    const result = await editMessage(request.userId, messageId, body.ciphertext, body.epoch);
+
+    if (result.error) {
+      return reply.status(result.error.status).send(result.error.body);
+    }
+
+    broadcastToChannel(result.message.channelId, {
+      type: "message:updated",
+      payload: toUpdatedPayload(result.message),
+    });
+
+    return { message: result.message };
+  });
+
+  // Delete a message. Senders can delete their own, moderators anyone's.
+  fastify.delete("/:messageId", async (request, reply) => {
+    const { messageId } = request.params as { messageId: string };
+
+    const found = await getMemberMessage(request.userId, messageId);
+    if (!found) {
+      return reply.status(404).send({ error: "Message not found" });
+    }
+
+    const { message, channel } = found;
+    if (message.senderId !== request.userId && !await isModerator(channel.communityId, request.userId)) {
+      return reply.status(403).send({ error: "Only the sender or a moderator can delete a message" });
+    }
+
+    await announceDeletions(await tombstoneMessages(eq(messages.id, messageId), request.userId));
+
+    return { success: true };
+  });
+
+  // Delete everything a member sent to a community recently, e.g. to clean up spam
+  fastify.post("/bulk-delete", async (request, reply) => {
+    const body = deleteRecentSchema.parse(request.body);
+
+    if (!await isModerator(body.communityId, request.userId)) {
+      return reply.status(403).send({ error: "Only moderators can delete a member's messages" });
+    }
+
+    const communityChannels = db.select({ id: channels.id })
+      .from(channels)
+      .where(eq(channels.communityId, body.communityId));
+
+    const deleted = await tombstoneMessages(
+      and(
+        inArray(messages.channelId, communityChannels),
+        eq(messages.senderId, body.userId),
+        gte(messages.createdAt, new Date(Date.now() - body.withinSeconds * 1000))
+      )!,
+      request.userId
+    );
+    await announceDeletions(deleted);
+
+    return { deleted: deleted.length };
+  });
+
+  // Messages that mention the user, newest first, from the channels of all their communities
+  fastify.get("/mentions", async (request) => {
+    const { cursor, limit = "50" } = request.query as { cursor?: string; limit?: string };
+
+    const limitNum = Math.min(parseInt(limit, 10), 100);
+
+    const rows = await db.select({ message: messages, communityId: channels.communityId })
+      .from(messages)
+      .innerJoin(channels, eq(messages.channelId, channels.id))
+      .innerJoin(communityMembers, and(
+        eq(communityMembers.communityId, channels.communityId),
+        eq(communityMembers.userId, request.userId)
+      ))
+      .where(and(
+        mentionsUser(request.userId),
+        ne(messages.senderId, request.userId),
+        isNull(messages.deletedAt),
+        notExpired(),
+        cursor ? lt(messages.createdAt, new Date(cursor)) : undefined
+      ))
+      .orderBy(desc(messages.createdAt))
+      .limit(limitNum);
+
+    return {
+      messages: rows.map(({ message, communityId }) => ({ ...message, communityId })),
+      nextCursor: rows.length === limitNum
+        ? rows[rows.length - 1].message.createdAt.toISOString()
+        : null,
+    };
+  });
+
+  // Get a single message, e.g. one a reply quotes that isn't loaded yet
+  fastify.get("/:messageId", async (request, reply) => {
+    const { messageId } = request.params as { messageId: string };
+
+    const found = await getMemberMessage(request.userId, messageId);
+    if (!found || (found.message.expiresAt && found.message.expiresAt <= new Date())) {
+      return reply.status(404).send({ error: "Message not found" });
+    }
+
+    return { message: found.message };
+  });
+
+  // Earlier versions of an edited message, oldest first
+  fastify.get("/:messageId/edits", async (request, reply) => {
+    const { messageId } = request.params as { messageId: string };
+
+    if (!await getMemberMessage(request.userId, messageId)) {
+      return reply.status(404).send({ error: "Message not found" });
+    }
+
+    const edits = await db.query.messageEdits.findMany({
+      where: eq(messageEdits.messageId, messageId),
+      orderBy: asc(messageEdits.createdAt),
+    });
+
+    return {
+      edits: edits.map((e) => ({
+        id: e.id,
+        ciphertext: e.ciphertext,
+        epoch: e.epoch,
+        editedAt: e.editedAt?.toISOString() ?? null,
+        createdAt: e.createdAt.toISOString(),
+      })),
+    };
+  });
+
   // Get messages for a channel (paginated)
-  fastify.get("/channel/:channelId", async (request) => {
+  fastify.get("/channel/:channelId", async (request, reply) => {
     const { channelId } = request.params as { channelId: string };
     const { cursor, limit = "50" } = request.query as { cursor?: string; limit?: string };
 
+    if (!await getMemberChannel(request.userId, channelId)) {
+      return reply.status(404).send({ error: "Channel not found" });
+    }
+
     const limitNum = Math.min(parseInt(limit, 10), 100);
 
+    // Thread replies are listed with their thread
     let query = db.query.messages.findMany({
       where: cursor
-        ? (messages, { and, lt: ltOp }) => and(
+        ? and(
             eq(messages.channelId, channelId),
-            ltOp(messages.createdAt, new Date(cursor))
+            isNull(messages.threadId),
+            lt(messages.createdAt, new Date(cursor)),
+            notExpired()
           )
-        : eq(messages.channelId, channelId),
+        : and(eq(messages.channelId, channelId), isNull(messages.threadId), notExpired()),
       orderBy: desc(messages.createdAt),
       limit: limitNum,
     });
 
     const channelMessages = await query;
+    const messageIds = channelMessages.map((m) => m.id);
+    const reactions = await listReactions(messageIds);
+    const threadSummaries = await listThreadSummaries(messageIds);
 
     return {
-      messages: channelMessages.reverse(),
+      messages: channelMessages.reverse().map((m) => ({
+        ...m,
+        reactions: reactions.get(m.id) ?? [],
+        thread: threadSummaries.get(m.id) ?? null,
+      })),
       nextCursor: channelMessages.length === limitNum
         ? channelMessages[0]?.createdAt.toISOString()
         : null,
     };
   });
+
+  // Get a thread's root message and replies (paginated like a channel)
+  fastify.get("/thread/:threadId", async (request, reply) => {
+    const { threadId } = request.params as { threadId: string };
+    const { cursor, limit = "50" } = request.query as { cursor?: string; limit?: string };
+
+    const found = await getMemberMessage(request.userId, threadId);
+    if (!found || found.message.threadId) {
+      return reply.status(404).send({ error: "Thread not found" });
+    }
+
+    const limitNum = Math.min(parseInt(limit, 10), 100);
+
+    const replies = await db.query.messages.findMany({
+      where: cursor
+        ? and(eq(messages.threadId, threadId), lt(messages.createdAt, new Date(cursor)), notExpired())
+        : and(eq(messages.threadId, threadId), notExpired()),
+      orderBy: desc(messages.createdAt),
+      limit: limitNum,
+    });
+
+    const reactions = await listReactions([threadId, ...replies.map((m) => m.id)]);
+    const threadSummaries = await listThreadSummaries([threadId]);
+
+    return {
+      root: {
+        ...found.message,
+        reactions: reactions.get(threadId) ?? [],
+        thread: threadSummaries.get(threadId) ?? null,
+      },
+      messages: replies.reverse().map((m) => ({ ...m, reactions: reactions.get(m.id) ?? [] })),
+      nextCursor: replies.length === limitNum
+        ? replies[0]?.createdAt.toISOString()
+        : null,
+    };
+  });
 };
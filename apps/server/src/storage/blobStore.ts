@@ -0,0 +1,76 @@
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, rm } from "fs/promises";
+import { join } from "path";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+
+/**
+ * Storage for opaque blobs (encrypted attachments), addressed by id.
+ * The local disk store is used by default; an S3-compatible store only has
+ * to implement the same three methods.
+ */
+export interface BlobStore {
+  /**
+   * Stream a blob into the store. Returns its size, or null if it grew past
+   * maxBytes, in which case nothing is kept.
+   */
+  put(id: string, stream: Readable, maxBytes: number): Promise<number | null>;
+  get(id: string): Readable;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Store blobs as files in a local directory
+ */
+export function createLocalBlobStore(directory: string): BlobStore {
+  const ready = mkdir(directory, { recursive: true });
+
+  // Ids are generated by the server, but keep them from ever escaping the directory
+  const pathFor = (id: string) => {
+    if (!/^[0-9a-f-]+$/i.test(id)) {
+      throw new Error("Invalid blob id");
+    }
+    return join(directory, id);
+  };
+
+  return {
+    async put(id, stream, maxBytes) {
+      await ready;
+      const path = pathFor(id);
+
+      let size = 0;
+      let tooLarge = false;
+      const limit = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          size += chunk.length;
+          if (size > maxBytes) {
+            tooLarge = true;
+            callback(new Error("Blob too large"));
+            return;
+          }
+          callback(null, chunk);
+        },
+      });
+
+      try {
+        await pipeline(stream, limit, createWriteStream(path));
+      } catch (err) {
+        await rm(path, { force: true });
+        if (tooLarge) return null;
+        throw err;
+      }
+
+      return size;
+    },
+
+    get(id) {
+      return createReadStream(pathFor(id));
+    },
+
+    async delete(id) {
+      await rm(pathFor(id), { force: true });
+    },
+  };
+}
+
+export const blobStore = createLocalBlobStore(process.env.UPLOAD_DIR || "./uploads");
@@ -1,13 +1,64 @@
 import { FastifyPluginAsync } from "fastify";
 import { WebSocket } from "ws";
-import { db, messages, users } from "../db/index.js";
-import { eq } from "drizzle-orm";
+import {
+  db,
+  messages,
+  users,
+  channels,
+  communityMembers,
+  senderKeys,
+  devices,
+  dmConversations,
+  dmParticipants,
+  dmMessages,
+  dmMessageCiphertexts,
+} from "../db/index.js";
+import { eq, and, or, isNull, inArray } from "drizzle-orm";
+import { requireAuth } from "../auth/session.js";
+import { getMessageExpiry } from "../jobs/messageRetention.js";
+import {
+  editMessage,
+  setReaction,
+  toUpdatedPayload,
+  getThreadRoot,
+  isReplyTarget,
+  toNewPayload,
+  recordThreadReply,
+  announceThreads,
+  resolveMentions,
+  announceMentions,
+} from "../routes/messages.js";
+import { markChannelRead } from "../routes/channels.js";
+import { attachmentIdsSchema, claimAttachments } from "../routes/attachments.js";
 
 // Map of channelId -> Set of connected WebSockets
 const channelConnections = new Map<string, Set<WebSocket>>();
 
+// Map of threadId -> Set of WebSockets watching the thread's replies
+const threadConnections = new Map<string, Set<WebSocket>>();
+
 // Map of WebSocket -> user info
-const socketUsers = new Map<WebSocket, { userId: string; channelIds: Set<string> }>();
+const socketUsers = new Map<WebSocket, {
+  userId: string;
+  deviceId: string;
+  sessionId: string;
+  channelIds: Set<string>;
+  threadIds: Map<string, string>; // threadId -> channelId
+}>();
+
+// Map of "<distributionId>:<requesting deviceId>" -> key request waiting for
+// a holder of the chain to answer. Shares are only accepted as answers.
+const pendingKeyRequests = new Map<string, { userId: string; iteration?: number; expiresAt: number }>();
+
+// How long a key request can be answered
+const KEY_REQUEST_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * The chain iteration a key request or share is about, if a valid one was given
+ */
+function keyIteration(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 ? value : undefined;
+}
 
 interface WsMessage {
   type: string;
@@ -15,9 +66,19 @@ interface WsMessage {
 }
 
 export const websocketHandler: FastifyPluginAsync = async (fastify) => {
-  fastify.get("/ws", { websocket: true }, (socket, req) => {
+  // The access token is passed as ?token=... and verified before the upgrade
+  fastify.get("/ws", { websocket: true, preValidation: requireAuth }, (socket, req) => {
     console.log("WebSocket client connected");
 
+    socketUsers.set(socket, {
+      userId: req.userId,
+      deviceId: req.deviceId,
+      sessionId: req.sessionId,
+      channelIds: new Set(),
+      threadIds: new Map(),
+    });
+    socket.send(JSON.stringify({ type: "auth:success", payload: {} }));
+
     socket.on("message", async (data) => {
       try {
         const message: WsMessage = JSON.parse(data.toString());
@@ -34,16 +95,67 @@ export const websocketHandler: FastifyPluginAsync = async (fastify) => {
   });
 };
 
-async function handleMessage(socket: WebSocket, message: WsMessage) {
-  switch (message.type) {
-    case "auth": {
-      // Associate user with socket
-      const { userId } = message.payload as { userId: string };
-      socketUsers.set(socket, { userId, channelIds: new Set() });
-      socket.send(JSON.stringify({ type: "auth:success", payload: {} }));
-      break;
+/**
+ * Get a channel if the user is a member of its community
+ */
+async function getMemberChannel(userId: string, channelId: string) {
+  const channel = await db.query.channels.findFirst({
+    where: eq(channels.id, channelId),
+  });
+  if (!channel) return null;
+
+  const membership = await db.query.communityMembers.findFirst({
+    where: and(
+      eq(communityMembers.communityId, channel.communityId),
+      eq(communityMembers.userId, userId)
+    ),
+  });
+  return membership ? channel : null;
+}
+
+/**
+ * Get the user ids of a conversation's participants, if the user is one of them
+ */
+async function getConversationParticipants(userId: string, conversationId: string) {
+  const participants = await db.query.dmParticipants.findMany({
+    where: eq(dmParticipants.conversationId, conversationId),
+  });
+  const userIds = participants.map((p) => p.userId);
+  return userIds.includes(userId) ? userIds : null;
+}
+
+/**
+ * Resolve where a sender chain is kept: a channel of one of the user's
+ * communities, or a group conversation the user takes part in
+ */
+async function getSenderKeyScope(userId: string, scope: { channelId?: string; conversationId?: string }) {
+  if (scope.conversationId) {
+    const conversation = await db.query.dmConversations.findFirst({
+      where: eq(dmConversations.id, scope.conversationId),
+    });
+    if (!conversation?.isGroup || !await getConversationParticipants(userId, conversation.id)) {
+      return null;
     }
 
+    return {
+      epoch: conversation.epoch,
+      where: eq(senderKeys.conversationId, conversation.id),
+      values: { conversationId: conversation.id },
+    };
+  }
+
+  const channel = scope.channelId ? await getMemberChannel(userId, scope.channelId) : null;
+  if (!channel) return null;
+
+  return {
+    epoch: channel.epoch,
+    where: eq(senderKeys.channelId, channel.id),
+    values: { channelId: channel.id },
+  };
+}
+
+async function handleMessage(socket: WebSocket, message: WsMessage) {
+  switch (message.type) {
     case "channel:join": {
       const { channelId } = message.payload as { channelId: string };
       const user = socketUsers.get(socket);
@@ -53,6 +165,12 @@ async function handleMessage(socket: WebSocket, message: WsMessage) {
         return;
       }
 
+      // Former members must not keep receiving the channel's messages
+      if (!await getMemberChannel(user.userId, channelId)) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: "Channel not found" } }));
+        return;
+      }
+
       // Add to channel connections
       if (!channelConnections.has(channelId)) {
         channelConnections.set(channelId, new Set());
@@ -75,11 +193,54 @@ async function handleMessage(socket: WebSocket, message: WsMessage) {
       break;
     }
 
+    // Thread replies are delivered to the thread's watchers only
+    case "thread:join": {
+      const { threadId } = message.payload as { threadId: string };
+      const user = socketUsers.get(socket);
+
+      if (!user) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: "Not authenticated" } }));
+        return;
+      }
+
+      const root = await db.query.messages.findFirst({
+        where: and(eq(messages.id, threadId), isNull(messages.threadId)),
+        columns: { channelId: true },
+      });
+      if (!root || !await getMemberChannel(user.userId, root.channelId)) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: "Thread not found" } }));
+        return;
+      }
+
+      if (!threadConnections.has(threadId)) {
+        threadConnections.set(threadId, new Set());
+      }
+      threadConnections.get(threadId)!.add(socket);
+      user.threadIds.set(threadId, root.channelId);
+
+      socket.send(JSON.stringify({ type: "thread:joined", payload: { threadId } }));
+      break;
+    }
+
+    case "thread:leave": {
+      const { threadId } = message.payload as { threadId: string };
+      const user = socketUsers.get(socket);
+
+      if (user) {
+        threadConnections.get(threadId)?.delete(socket);
+        user.threadIds.delete(threadId);
+      }
+      break;
+    }
+
     case "message:send": {
-      const { channelId, ciphertext, replyToId } = message.payload as {
+      const { channelId, ciphertext, epoch, clientMessageId, replyToId, threadId } = message.payload as {
         channelId: string;
         ciphertext: string;
+        epoch: number;
+        clientMessageId?: string;
         replyToId?: string;
+        threadId?: string;
       };
       const user = socketUsers.get(socket);
 
@@ -88,12 +249,63 @@ async function handleMessage(socket: WebSocket, message: WsMessage) {
         return;
       }
 
-      // Store message
+      const channel = await getMemberChannel(user.userId, channelId);
+      if (!channel) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: "Channel not found", clientMessageId } }));
+        return;
+      }
+
+      // A message from an older epoch may be readable by members who have since
+      // left - the sender re-encrypts it for the current epoch and resends
+      if (epoch !== channel.epoch) {
+        socket.send(JSON.stringify({
+          type: "message:rejected",
+          payload: {
+            clientMessageId,
+            communityId: channel.communityId,
+            channelId,
+            reason: "stale_epoch",
+            epoch: channel.epoch,
+          },
+        }));
+        return;
+      }
+
+      if (threadId && !await getThreadRoot(channelId, threadId)) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: "Thread not found", clientMessageId } }));
+        return;
+      }
+
+      if (replyToId && !await isReplyTarget(channelId, replyToId)) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: "Message not found", clientMessageId } }));
+        return;
+      }
+
+      const mentions = await resolveMentions(channel.communityId, user.userId, message.payload.mentions);
+      if (mentions.error) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: mentions.error.body.error, clientMessageId } }));
+        return;
+      }
+
+      const attachmentIds = attachmentIdsSchema.optional().safeParse(message.payload.attachmentIds);
+      if (!attachmentIds.success) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: "Invalid attachments", clientMessageId } }));
+        return;
+      }
+
+      // Store message, once per client message id
       const [savedMessage] = await db.insert(messages).values({
         channelId,
         senderId: user.userId,
         ciphertext,
+        epoch,
+        clientMessageId,
         replyToId,
+        threadId,
+        ...mentions.values,
+        expiresAt: getMessageExpiry(channel.retentionSeconds),
+      }).onConflictDoNothing({
+        target: [messages.senderId, messages.clientMessageId],
       }).returning();
 
       // Get sender's display name for clients that may not have it cached
@@ -102,26 +314,429 @@ async function handleMessage(socket: WebSocket, message: WsMessage) {
         columns: { displayName: true },
       });
 
-      // Broadcast to all users in channel
-      const channelSockets = channelConnections.get(channelId);
-      if (channelSockets) {
-        const broadcastMsg = JSON.stringify({
-          type: "message:new",
+      // Already stored (a resend after a lost acknowledgement) - acknowledge it again
+      if (!savedMessage) {
+        const existing = await db.query.messages.findFirst({
+          where: and(
+            eq(messages.senderId, user.userId),
+            eq(messages.clientMessageId, clientMessageId!)
+          ),
+        });
+
+        if (existing) {
+          socket.send(JSON.stringify({
+            type: "message:new",
+            payload: toNewPayload(existing, sender?.displayName),
+          }));
+        }
+        return;
+      }
+
+      await claimAttachments(user.userId, attachmentIds.data ?? [], { messageId: savedMessage.id });
+
+      // Broadcast to all users in the channel or thread, and to the sender as its acknowledgement
+      broadcastNewMessage(toNewPayload(savedMessage, sender?.displayName), socket);
+
+      // The channel only sees the thread's new reply count and last reply
+      if (threadId) {
+        await recordThreadReply(savedMessage);
+        await announceThreads([threadId]);
+      } else {
+        await announceChannelActivity(channel.communityId, savedMessage);
+      }
+
+      await announceMentions(savedMessage, channel.communityId);
+      break;
+    }
+
+    // Read up to a message; every socket of the user gets the new read state
+    case "channel:read": {
+      const { channelId, messageId } = message.payload as { channelId: string; messageId: string };
+      const user = socketUsers.get(socket);
+
+      if (!user) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: "Not authenticated" } }));
+        return;
+      }
+
+      const result = await markChannelRead(user.userId, channelId, messageId);
+      if (result.error) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: result.error.body.error } }));
+        return;
+      }
+
+      sendToUser(user.userId, { type: "channel:read", payload: { ...result.readState } });
+      break;
+    }
+
+    case "message:edit": {
+      const { messageId, ciphertext, epoch } = message.payload as {
+        messageId: string;
+        ciphertext: string;
+        epoch: number;
+      };
+      const user = socketUsers.get(socket);
+
+      if (!user) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: "Not authenticated" } }));
+        return;
+      }
+
+      const result = await editMessage(user.userId, messageId, ciphertext, epoch);
+
+      if (result.error) {
+        // Like a new message, an edit from an older epoch is re-encrypted and resent
+        if (result.error.status === 409) {
+          socket.send(JSON.stringify({
+            type: "message:edit_rejected",
+            payload: {
+              messageId,
+              communityId: result.error.body.communityId,
+              reason: "stale_epoch",
+              epoch: result.error.body.epoch,
+            },
+          }));
+        } else {
+          socket.send(JSON.stringify({ type: "error", payload: { message: result.error.body.error } }));
+        }
+        return;
+      }
+
+      // Broadcast to the channel, and to the sender as its acknowledgement
+      const updatedMsg = JSON.stringify({ type: "message:updated", payload: toUpdatedPayload(result.message) });
+      const channelSockets = channelConnections.get(result.message.channelId) ?? new Set<WebSocket>();
+
+      for (const clientSocket of new Set([...channelSockets, socket])) {
+        if (clientSocket.readyState === WebSocket.OPEN) {
+          clientSocket.send(updatedMsg);
+        }
+      }
+      break;
+    }
+
+    case "reaction:add":
+    case "reaction:remove": {
+      const user = socketUsers.get(socket);
+
+      if (!user) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: "Not authenticated" } }));
+        return;
+      }
+
+      const result = await setReaction(user.userId, message.payload, message.type === "reaction:add");
+
+      if (result.error) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: result.error.body.error } }));
+        return;
+      }
+
+      // Broadcast to the channel, including the reacting socket
+      const { channelId, messageId, reactions } = result;
+      const updateMsg = JSON.stringify({ type: "reaction:update", payload: { channelId, messageId, reactions } });
+      const channelSockets = channelConnections.get(channelId) ?? new Set<WebSocket>();
+
+      for (const clientSocket of new Set([...channelSockets, socket])) {
+        if (clientSocket.readyState === WebSocket.OPEN) {
+          clientSocket.send(updateMsg);
+        }
+      }
+      break;
+    }
+
+    // A device that can't decrypt a chain asks the devices that hold it
+    case "key:request": {
+      const { channelId, conversationId, distributionId, iteration } = message.payload as {
+        channelId?: string;
+        conversationId?: string;
+        distributionId: string;
+        iteration?: number;
+      };
+      const user = socketUsers.get(socket);
+
+      if (!user) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: "Not authenticated" } }));
+        return;
+      }
+
+      const scope = await getSenderKeyScope(user.userId, { channelId, conversationId });
+      if (!scope) {
+        socket.send(JSON.stringify({
+          type: "error",
+          payload: { message: conversationId ? "Conversation not found" : "Channel not found" },
+        }));
+        return;
+      }
+
+      const unavailable = (reason: "not_found" | "stale_epoch" | "offline") => {
+        socket.send(JSON.stringify({
+          type: "key:unavailable",
+          payload: { ...scope.values, distributionId, reason },
+        }));
+      };
+
+      const shared = await db.query.senderKeys.findMany({
+        where: and(scope.where, eq(senderKeys.distributionId, distributionId)),
+        columns: { deviceId: true, forDeviceId: true, epoch: true },
+      });
+
+      if (shared.length === 0) {
+        unavailable("not_found");
+        return;
+      }
+
+      // Chains of earlier epochs stay with the members of that epoch
+      if (shared[0].epoch !== scope.epoch) {
+        unavailable("stale_epoch");
+        return;
+      }
+
+      // Any online device holding the chain can answer: its owner or one it was shared with
+      const holderIds = new Set([shared[0].deviceId, ...shared.map((s) => s.forDeviceId)]);
+      holderIds.delete(user.deviceId);
+
+      const now = Date.now();
+      for (const [key, request] of pendingKeyRequests) {
+        if (request.expiresAt <= now) pendingKeyRequests.delete(key);
+      }
+      pendingKeyRequests.set(`${distributionId}:${user.deviceId}`, {
+        userId: user.userId,
+        iteration: keyIteration(iteration),
+        expiresAt: now + KEY_REQUEST_TTL_MS,
+      });
+
+      let delivered = 0;
+      for (const deviceId of holderIds) {
+        delivered += sendToDevice(deviceId, {
+          type: "key:request",
           payload: {
-            id: savedMessage.id,
-            channelId,
-            senderId: user.userId,
-            senderDisplayName: sender?.displayName,
-            ciphertext,
-            replyToId,
-            createdAt: savedMessage.createdAt.toISOString(),
+            ...scope.values,
+            distributionId,
+            iteration: keyIteration(iteration),
+            requesterUserId: user.userId,
+            requesterDeviceId: user.deviceId,
           },
         });
+      }
+
+      if (delivered === 0) {
+        pendingKeyRequests.delete(`${distributionId}:${user.deviceId}`);
+        unavailable("offline");
+      }
+      break;
+    }
+
+    // A holder of a chain answers a key request with the chain encrypted to the requester
+    case "key:share": {
+      const { channelId, conversationId, distributionId, iteration, forUserId, forDeviceId, encryptedKey } =
+        message.payload as {
+          channelId?: string;
+          conversationId?: string;
+          distributionId: string;
+          iteration?: number;
+          forUserId: string;
+          forDeviceId: string;
+          encryptedKey: string;
+        };
+      const user = socketUsers.get(socket);
+
+      if (!user) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: "Not authenticated" } }));
+        return;
+      }
+
+      const scope = await getSenderKeyScope(user.userId, { channelId, conversationId });
+
+      // Only the device that owns the chain or one it was shared with may pass
+      // it on, and only for the current epoch
+      const distribution = scope && await db.query.senderKeys.findFirst({
+        where: and(
+          scope.where,
+          eq(senderKeys.distributionId, distributionId),
+          or(eq(senderKeys.deviceId, user.deviceId), eq(senderKeys.forDeviceId, user.deviceId))
+        ),
+      });
+
+      if (!scope || !distribution || distribution.epoch !== scope.epoch) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: "Sender key not found" } }));
+        return;
+      }
+
+      const recipient = await db.query.devices.findFirst({
+        where: and(
+          eq(devices.id, forDeviceId),
+          eq(devices.userId, forUserId),
+          isNull(devices.revokedAt)
+        ),
+      });
+
+      if (!recipient || !await getSenderKeyScope(forUserId, scope.values)) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: "Recipient not found" } }));
+        return;
+      }
+
+      // Only the first answer to an outstanding request from the recipient counts
+      const requestKey = `${distributionId}:${forDeviceId}`;
+      const request = pendingKeyRequests.get(requestKey);
+      if (
+        !request ||
+        request.expiresAt <= Date.now() ||
+        request.userId !== forUserId ||
+        request.iteration !== keyIteration(iteration) ||
+        !pendingKeyRequests.delete(requestKey)
+      ) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: "No pending key request" } }));
+        return;
+      }
+
+      // A key the recipient already holds is never replaced
+      const existing = await db.query.senderKeys.findFirst({
+        where: and(
+          eq(senderKeys.distributionId, distributionId),
+          eq(senderKeys.forDeviceId, forDeviceId)
+        ),
+        columns: { id: true },
+      });
+
+      if (existing) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: "Sender key already shared" } }));
+        return;
+      }
+
+      // Store it like any other distribution of the owner's, so the recipient
+      // fetches it the usual way and knows whose key it was encrypted with
+      const isOwner = distribution.deviceId === user.deviceId;
+      await db.insert(senderKeys).values({
+        ...scope.values,
+        userId: distribution.userId,
+        deviceId: distribution.deviceId,
+        distributionId,
+        epoch: distribution.epoch,
+        encryptedKey,
+        forUserId,
+        forDeviceId,
+        sharedByUserId: isOwner ? null : user.userId,
+        sharedByDeviceId: isOwner ? null : user.deviceId,
+      });
+
+      sendToDevice(forDeviceId, { type: "key:share", payload: { ...scope.values, distributionId } });
+      break;
+    }
+
+    // A direct message, encrypted separately for every other device in the conversation,
+    // or once with the sender's chain in a group conversation
+    case "dm:send": {
+      const { conversationId, clientMessageId, ciphertexts, ciphertext, epoch } = message.payload as {
+        conversationId: string;
+        clientMessageId?: string;
+        ciphertexts?: { deviceId: string; ciphertext: string }[];
+        ciphertext?: string;
+        epoch?: number;
+      };
+      const user = socketUsers.get(socket);
+
+      if (!user) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: "Not authenticated" } }));
+        return;
+      }
+
+      const participantIds = await getConversationParticipants(user.userId, conversationId);
+      const conversation = participantIds && await db.query.dmConversations.findFirst({
+        where: eq(dmConversations.id, conversationId),
+      });
+      if (!participantIds || !conversation) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: "Conversation not found", clientMessageId } }));
+        return;
+      }
+
+      // Direct messages are never deleted, so their attachments only need to
+      // be readable by the participants. A rejected message is resent to the
+      // same conversation, so they can be claimed straight away.
+      const attachmentIds = attachmentIdsSchema.optional().safeParse(message.payload.attachmentIds);
+      if (!attachmentIds.success) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: "Invalid attachments", clientMessageId } }));
+        return;
+      }
+      await claimAttachments(user.userId, attachmentIds.data ?? [], { conversationId });
+
+      if (conversation.isGroup) {
+        if (typeof ciphertext !== "string" || typeof epoch !== "number") {
+          socket.send(JSON.stringify({ type: "error", payload: { message: "Missing ciphertext", clientMessageId } }));
+          return;
+        }
+
+        await handleGroupMessage(socket, user, participantIds, conversation.epoch, {
+          conversationId,
+          clientMessageId,
+          ciphertext,
+          epoch,
+        });
+        return;
+      }
 
-        for (const clientSocket of channelSockets) {
-          if (clientSocket.readyState === WebSocket.OPEN) {
-            clientSocket.send(broadcastMsg);
-          }
+      if (!ciphertexts) {
+        socket.send(JSON.stringify({ type: "error", payload: { message: "Missing ciphertexts", clientMessageId } }));
+        return;
+      }
+
+      // Every active device of the participants except the sending one must get a copy,
+      // and nobody else. Otherwise the sender's device list is out of date.
+      const recipientDevices = await db.query.devices.findMany({
+        where: and(inArray(devices.userId, participantIds), isNull(devices.revokedAt)),
+      });
+      const expected = new Set(recipientDevices.map((d) => d.id).filter((id) => id !== user.deviceId));
+      const given = new Set(ciphertexts.map((c) => c.deviceId));
+
+      if (given.size !== ciphertexts.length || expected.size !== given.size || [...expected].some((id) => !given.has(id))) {
+        socket.send(JSON.stringify({
+          type: "dm:rejected",
+          payload: { clientMessageId, conversationId, reason: "devices_changed" },
+        }));
+        return;
+      }
+
+      const saved = await db.transaction(async (tx) => {
+        const [savedMessage] = await tx.insert(dmMessages).values({
+          conversationId,
+          senderId: user.userId,
+          senderDeviceId: user.deviceId,
+          clientMessageId,
+        }).onConflictDoNothing({
+          target: [dmMessages.senderId, dmMessages.clientMessageId],
+        }).returning();
+
+        if (!savedMessage) return null;
+
+        await tx.insert(dmMessageCiphertexts).values(ciphertexts.map((c) => ({
+          messageId: savedMessage.id,
+          forDeviceId: c.deviceId,
+          ciphertext: c.ciphertext,
+        })));
+        return savedMessage;
+      });
+
+      // Already stored (a resend after a lost acknowledgement) - acknowledge it again
+      const stored = saved ?? await db.query.dmMessages.findFirst({
+        where: and(
+          eq(dmMessages.senderId, user.userId),
+          eq(dmMessages.clientMessageId, clientMessageId!)
+        ),
+      });
+      if (!stored) return;
+
+      const payload = {
+        id: stored.id,
+        conversationId,
+        senderId: stored.senderId,
+        senderDeviceId: stored.senderDeviceId,
+        clientMessageId: stored.clientMessageId ?? undefined,
+        createdAt: stored.createdAt.toISOString(),
+      };
+
+      socket.send(JSON.stringify({ type: "dm:sent", payload }));
+
+      if (saved) {
+        for (const { deviceId, ciphertext } of ciphertexts) {
+          sendToDevice(deviceId, { type: "dm:new", payload: { ...payload, ciphertext } });
         }
       }
       break;
@@ -155,21 +770,90 @@ async function handleMessage(socket: WebSocket, message: WsMessage) {
   }
 }
 
+/**
+ * Store and deliver a group conversation message, encrypted with the sender's
+ * chain for the conversation's current epoch
+ */
+async function handleGroupMessage(
+  socket: WebSocket,
+  user: { userId: string; deviceId: string },
+  participantIds: string[],
+  currentEpoch: number,
+  message: { conversationId: string; clientMessageId?: string; ciphertext: string; epoch: number }
+) {
+  const { conversationId, clientMessageId } = message;
+
+  // The participants changed since the sender's chain was distributed
+  if (message.epoch !== currentEpoch) {
+    socket.send(JSON.stringify({
+      type: "dm:rejected",
+      payload: { clientMessageId, conversationId, reason: "stale_epoch", epoch: currentEpoch },
+    }));
+    return;
+  }
+
+  const [saved] = await db.insert(dmMessages).values({
+    conversationId,
+    senderId: user.userId,
+    senderDeviceId: user.deviceId,
+    ciphertext: message.ciphertext,
+    epoch: message.epoch,
+    clientMessageId,
+  }).onConflictDoNothing({
+    target: [dmMessages.senderId, dmMessages.clientMessageId],
+  }).returning();
+
+  // Already stored (a resend after a lost acknowledgement) - acknowledge it again
+  const stored = saved ?? await db.query.dmMessages.findFirst({
+    where: and(
+      eq(dmMessages.senderId, user.userId),
+      eq(dmMessages.clientMessageId, clientMessageId!)
+    ),
+  });
+  if (!stored) return;
+
+  const payload = {
+    id: stored.id,
+    conversationId,
+    senderId: stored.senderId,
+    senderDeviceId: stored.senderDeviceId,
+    clientMessageId: stored.clientMessageId ?? undefined,
+    createdAt: stored.createdAt.toISOString(),
+  };
+
+  socket.send(JSON.stringify({ type: "dm:sent", payload }));
+
+  if (saved) {
+    for (const participantId of participantIds) {
+      sendToUser(participantId, {
+        type: "dm:new",
+        payload: { ...payload, ciphertext: stored.ciphertext, epoch: stored.epoch },
+      }, socket);
+    }
+  }
+}
+
 function handleDisconnect(socket: WebSocket) {
   const user = socketUsers.get(socket);
 
   if (user) {
-    // Remove from all channel connections
+    // Remove from all channel and thread connections
     for (const channelId of user.channelIds) {
       channelConnections.get(channelId)?.delete(socket);
     }
+    for (const threadId of user.threadIds.keys()) {
+      threadConnections.get(threadId)?.delete(socket);
+    }
     socketUsers.delete(socket);
   }
 
   console.log("WebSocket client disconnected");
 }
 
-function broadcastToChannel(channelId: string, message: WsMessage, excludeSocket?: WebSocket) {
+/**
+ * Send a message to every socket that joined a channel
+ */
+export function broadcastToChannel(channelId: string, message: WsMessage, excludeSocket?: WebSocket) {
   const channelSockets = channelConnections.get(channelId);
 
   if (channelSockets) {
@@ -182,3 +866,137 @@ function broadcastToChannel(channelId: string, message: WsMessage, excludeSocket
     }
   }
 }
+
+/**
+ * Send a new message to every socket watching its channel, or its thread if
+ * it is a reply in one, and to the sender's socket if given
+ */
+export function broadcastNewMessage(
+  payload: { channelId: string; threadId?: string },
+  senderSocket?: WebSocket
+) {
+  const msgStr = JSON.stringify({ type: "message:new", payload });
+  const recipients = (payload.threadId
+    ? threadConnections.get(payload.threadId)
+    : channelConnections.get(payload.channelId)) ?? new Set<WebSocket>();
+
+  for (const clientSocket of new Set(senderSocket ? [...recipients, senderSocket] : recipients)) {
+    if (clientSocket.readyState === WebSocket.OPEN) {
+      clientSocket.send(msgStr);
+    }
+  }
+}
+
+/**
+ * Close every open socket of a device (e.g. after it has been revoked)
+ */
+export function disconnectDevice(deviceId: string) {
+  for (const [clientSocket, user] of socketUsers) {
+    if (user.deviceId === deviceId) {
+      clientSocket.close(4001, "Device revoked");
+    }
+  }
+}
+
+/**
+ * Close every open socket of a session (e.g. after logging out)
+ */
+export function disconnectSession(sessionId: string) {
+  for (const [clientSocket, user] of socketUsers) {
+    if (user.sessionId === sessionId) {
+      clientSocket.close(4001, "Session revoked");
+    }
+  }
+}
+
+/**
+ * Send a message to every open socket of a device. Returns how many sockets it was sent to.
+ */
+export function sendToDevice(deviceId: string, message: WsMessage): number {
+  const msgStr = JSON.stringify(message);
+  let sent = 0;
+
+  for (const [clientSocket, user] of socketUsers) {
+    if (user.deviceId === deviceId && clientSocket.readyState === WebSocket.OPEN) {
+      clientSocket.send(msgStr);
+      sent++;
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Send a message to every open socket of a user
+ */
+export function sendToUser(userId: string, message: WsMessage, excludeSocket?: WebSocket) {
+  const msgStr = JSON.stringify(message);
+
+  for (const [clientSocket, user] of socketUsers) {
+    if (user.userId === userId && clientSocket !== excludeSocket && clientSocket.readyState === WebSocket.OPEN) {
+      clientSocket.send(msgStr);
+    }
+  }
+}
+
+/**
+ * Tell the members of a community who aren't watching a channel that a
+ * message was posted in it, so they can count it as unread
+ */
+export async function announceChannelActivity(
+  communityId: string,
+  message: { id: string; channelId: string; senderId: string }
+) {
+  const members = await db.query.communityMembers.findMany({
+    where: eq(communityMembers.communityId, communityId),
+    columns: { userId: true },
+  });
+  const memberIds = new Set(members.map((m) => m.userId));
+
+  const msgStr = JSON.stringify({
+    type: "channel:activity",
+    payload: { communityId, channelId: message.channelId, messageId: message.id },
+  });
+
+  for (const [clientSocket, user] of socketUsers) {
+    if (
+      memberIds.has(user.userId) &&
+      user.userId !== message.senderId &&
+      !user.channelIds.has(message.channelId) &&
+      clientSocket.readyState === WebSocket.OPEN
+    ) {
+      clientSocket.send(msgStr);
+    }
+  }
+}
+
+/**
+ * Whether a user has any open socket
+ */
+export function isUserOnline(userId: string): boolean {
+  for (const user of socketUsers.values()) {
+    if (user.userId === userId) return true;
+  }
+  return false;
+}
+
+/**
+ * Stop delivering some channels' messages to a user (e.g. after leaving a community)
+ */
+export function removeUserFromChannels(userId: string, channelIds: string[]) {
+  for (const [clientSocket, user] of socketUsers) {
+    if (user.userId !== userId) continue;
+
+    for (const channelId of channelIds) {
+      channelConnections.get(channelId)?.delete(clientSocket);
+      user.channelIds.delete(channelId);
+    }
+
+    for (const [threadId, channelId] of user.threadIds) {
+      if (channelIds.includes(channelId)) {
+        threadConnections.get(threadId)?.delete(clientSocket);
+        user.threadIds.delete(threadId);
+      }
+    }
+  }
+}
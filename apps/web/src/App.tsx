@@ -5,7 +5,8 @@ import { Register } from "./pages/Register";
 import { Chat } from "./pages/Chat";
 
 function App() {
-  const user = useAuthStore((state) => state.user);
+  // A user without a session (e.g. persisted before sessions existed) must log in again
+  const user = useAuthStore((state) => (state.session ? state.user : null));
 
   return (
     <Routes>
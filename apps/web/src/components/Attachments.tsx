@@ -0,0 +1,243 @@
+import { useEffect, useRef, useState } from "react";
+import { AttachmentPointer, getAttachmentUrl, uploadAttachment } from "../lib/attachments";
+
+// Voice notes stop recording on their own after this long
+const MAX_VOICE_NOTE_MS = 5 * 60 * 1000;
+
+interface DraftFile {
+  file: Blob;
+  name: string;
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Files and voice notes waiting to be sent with the next message
+ */
+export function useAttachmentDraft() {
+  const [files, setFiles] = useState<DraftFile[]>([]);
+  const [isRecording, setIsRecording] = useState(false);
+  const [error, setError] = useState("");
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const stopTimeoutRef = useRef<number | null>(null);
+
+  const add = (added: DraftFile[]) => setFiles((current) => [...current, ...added]);
+
+  const remove = (index: number) => setFiles((current) => current.filter((_, i) => i !== index));
+
+  const clear = () => setFiles([]);
+
+  const stopRecording = () => {
+    if (stopTimeoutRef.current) {
+      clearTimeout(stopTimeoutRef.current);
+      stopTimeoutRef.current = null;
+    }
+    recorderRef.current?.stop();
+  };
+
+  const startRecording = async () => {
+    setError("");
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (e) => chunks.push(e.data);
+      recorder.onstop = () => {
+        stream.getTracks().forEach((track) => track.stop());
+        recorderRef.current = null;
+        setIsRecording(false);
+
+        const type = recorder.mimeType || "audio/webm";
+        const extension = type.split(";")[0].split("/")[1] || "webm";
+        add([{ file: new Blob(chunks, { type }), name: `Voice note ${new Date().toLocaleTimeString()}.${extension}` }]);
+      };
+
+      recorder.start();
+      recorderRef.current = recorder;
+      setIsRecording(true);
+      stopTimeoutRef.current = window.setTimeout(stopRecording, MAX_VOICE_NOTE_MS);
+    } catch (err) {
+      console.error('Failed to record voice note:', err);
+      setError("Couldn't access the microphone");
+    }
+  };
+
+  const toggleRecording = () => (isRecording ? stopRecording() : startRecording());
+
+  // Release the microphone if the composer goes away mid-recording
+  useEffect(() => {
+    return () => {
+      if (stopTimeoutRef.current) clearTimeout(stopTimeoutRef.current);
+      recorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  /**
+   * Encrypt and upload every file. Throws if any of them fails.
+   */
+  const upload = async (): Promise<AttachmentPointer[]> => {
+    const pointers: AttachmentPointer[] = [];
+    for (const { file, name } of files) {
+      pointers.push(await uploadAttachment(file, name));
+    }
+    return pointers;
+  };
+
+  return { files, add, remove, clear, upload, isRecording, toggleRecording, error };
+}
+
+export type AttachmentDraft = ReturnType<typeof useAttachmentDraft>;
+
+/**
+ * Composer controls: the attach and voice note buttons, and the files waiting to be sent
+ */
+export function AttachButton({ draft }: { draft: AttachmentDraft }) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    draft.add(selected.map((file) => ({ file, name: file.name })));
+    e.target.value = "";
+  };
+
+  return (
+    <>
+      <input ref={inputRef} type="file" multiple className="hidden" onChange={handleChange} />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        className="text-text-muted hover:text-text-primary p-2"
+        title="Attach file"
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+        </svg>
+      </button>
+    </>
+  );
+}
+
+export function VoiceNoteButton({ draft }: { draft: AttachmentDraft }) {
+  return (
+    <button
+      type="button"
+      onClick={draft.toggleRecording}
+      className={`p-2 ${draft.isRecording ? "text-red-400 animate-pulse" : "text-text-muted hover:text-text-primary"}`}
+      title={draft.isRecording ? "Stop recording" : "Record voice note"}
+    >
+      <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 14a3 3 0 003-3V5a3 3 0 00-6 0v6a3 3 0 003 3zm7-3a7 7 0 01-14 0m7 7v3" />
+      </svg>
+    </button>
+  );
+}
+
+export function AttachmentDraftList({ draft }: { draft: AttachmentDraft }) {
+  if (draft.files.length === 0 && !draft.error) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-2">
+      {draft.error && <p className="text-red-400 text-sm w-full">{draft.error}</p>}
+      {draft.files.map(({ file, name }, index) => (
+        <div
+          key={index}
+          className="bg-background-tertiary rounded px-3 py-1 text-sm text-text-secondary flex items-center gap-2"
+        >
+          <span className="truncate max-w-[200px]">{name}</span>
+          <span className="text-text-muted">{formatSize(file.size)}</span>
+          <button
+            type="button"
+            onClick={() => draft.remove(index)}
+            className="text-text-muted hover:text-red-400"
+            title="Remove"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * An attachment of a received message: images and audio are shown inline,
+ * anything else as a download
+ */
+export function AttachmentView({ attachment }: { attachment: AttachmentPointer }) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const isInline = attachment.mimeType.startsWith("image/") || attachment.mimeType.startsWith("audio/");
+
+  // Previews load right away; other files only when downloaded
+  useEffect(() => {
+    if (!isInline) return;
+
+    let cancelled = false;
+    getAttachmentUrl(attachment)
+      .then((objectUrl) => !cancelled && setUrl(objectUrl))
+      .catch((err) => {
+        console.error('Failed to load attachment:', err);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment, isInline]);
+
+  const handleDownload = async () => {
+    setFailed(false);
+    try {
+      const objectUrl = await getAttachmentUrl(attachment);
+      const link = document.createElement("a");
+      link.href = objectUrl;
+      link.download = attachment.name;
+      link.click();
+    } catch (err) {
+      console.error('Failed to download attachment:', err);
+      setFailed(true);
+    }
+  };
+
+  if (failed && isInline) {
+    return <p className="text-text-muted italic text-sm">[Unable to load {attachment.name}]</p>;
+  }
+
+  if (attachment.mimeType.startsWith("image/")) {
+    return url ? (
+      <a href={url} target="_blank" rel="noreferrer" className="block mt-1">
+        <img src={url} alt={attachment.name} className="max-w-sm max-h-80 rounded" />
+      </a>
+    ) : (
+      <div className="mt-1 w-64 h-40 rounded bg-background-tertiary animate-pulse" />
+    );
+  }
+
+  if (attachment.mimeType.startsWith("audio/")) {
+    return url ? (
+      <audio src={url} controls className="mt-1" />
+    ) : (
+      <p className="text-text-muted text-sm mt-1">Loading {attachment.name}...</p>
+    );
+  }
+
+  return (
+    <div className="mt-1 inline-flex items-center gap-3 bg-background-tertiary rounded px-3 py-2">
+      <div className="min-w-0">
+        <p className="text-text-primary text-sm truncate max-w-[240px]">{attachment.name}</p>
+        <p className="text-text-muted text-xs">{formatSize(attachment.size)}</p>
+      </div>
+      <button
+        onClick={handleDownload}
+        className="px-3 py-1 bg-accent-primary hover:bg-accent-hover text-white rounded text-sm"
+      >
+        {failed ? "Retry" : "Download"}
+      </button>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState } from "react";
 import { useChatStore } from "../stores/chat";
 import { useAuthStore } from "../stores/auth";
 import { api } from "../lib/api";
+import { UserSettings } from "./UserSettings";
 
 export function ChannelList() {
   const user = useAuthStore((state) => state.user);
@@ -10,13 +11,16 @@ export function ChannelList() {
     channels,
     activeCommunityId,
     activeChannelId,
+    readStates,
     setActiveChannel,
     addChannel,
+    removeCommunity,
   } = useChatStore();
 
   const [showCreate, setShowCreate] = useState(false);
   const [newChannelName, setNewChannelName] = useState("");
   const [showInvite, setShowInvite] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
 
   const activeCommunity = communities.find((c) => c.id === activeCommunityId);
   const communityChannels = activeCommunityId ? channels[activeCommunityId] || [] : [];
@@ -35,6 +39,18 @@ export function ChannelList() {
     setShowCreate(false);
   };
 
+  const handleLeave = async () => {
+    if (!activeCommunity) return;
+    if (!confirm(`Leave ${activeCommunity.name}? You won't be able to read new messages.`)) return;
+
+    try {
+      await api.communities.leave(activeCommunity.id);
+      removeCommunity(activeCommunity.id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to leave community");
+    }
+  };
+
   const copyInviteCode = () => {
     if (activeCommunity) {
       navigator.clipboard.writeText(activeCommunity.inviteCode);
@@ -57,15 +73,28 @@ export function ChannelList() {
         <span className="font-semibold text-text-primary truncate">
           {activeCommunity?.name}
         </span>
-        <button
-          onClick={() => setShowInvite(true)}
-          className="text-text-muted hover:text-text-primary"
-          title="Invite people"
-        >
-          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z" />
-          </svg>
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowInvite(true)}
+            className="text-text-muted hover:text-text-primary"
+            title="Invite people"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z" />
+            </svg>
+          </button>
+          {activeCommunity && activeCommunity.createdBy !== user?.id && (
+            <button
+              onClick={handleLeave}
+              className="text-text-muted hover:text-red-400"
+              title="Leave community"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
+              </svg>
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Channel list */}
@@ -82,20 +111,32 @@ export function ChannelList() {
           </button>
         </div>
 
-        {communityChannels.map((channel) => (
-          <button
-            key={channel.id}
-            onClick={() => setActiveChannel(channel.id)}
-            className={`w-full px-2 py-1 rounded flex items-center gap-2 ${
-              activeChannelId === channel.id
-                ? "bg-background-primary/50 text-text-primary"
-                : "text-channel-default hover:text-channel-hover hover:bg-background-primary/30"
-            }`}
-          >
-            <span className="text-lg">#</span>
-            <span className="truncate">{channel.name}</span>
-          </button>
-        ))}
+        {communityChannels.map((channel) => {
+          const unread = (readStates[channel.id]?.unreadCount || 0) > 0;
+          const mentions = readStates[channel.id]?.mentionCount || 0;
+
+          return (
+            <button
+              key={channel.id}
+              onClick={() => setActiveChannel(channel.id)}
+              className={`w-full px-2 py-1 rounded flex items-center gap-2 ${
+                activeChannelId === channel.id
+                  ? "bg-background-primary/50 text-text-primary"
+                  : unread || mentions > 0
+                    ? "text-text-primary font-semibold hover:bg-background-primary/30"
+                    : "text-channel-default hover:text-channel-hover hover:bg-background-primary/30"
+              }`}
+            >
+              <span className="text-lg">#</span>
+              <span className="truncate">{channel.name}</span>
+              {mentions > 0 && (
+                <span className="ml-auto min-w-[20px] h-5 px-1 rounded-full bg-red-500 text-xs leading-5 text-white text-center">
+                  {mentions > 99 ? "99+" : mentions}
+                </span>
+              )}
+            </button>
+          );
+        })}
       </div>
 
       {/* User info */}
@@ -108,8 +149,20 @@ export function ChannelList() {
             {user?.displayName}
           </div>
         </div>
+        <button
+          onClick={() => setShowSettings(true)}
+          className="text-text-muted hover:text-text-primary p-1"
+          title="User settings"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+          </svg>
+        </button>
       </div>
 
+      {showSettings && <UserSettings onClose={() => setShowSettings(false)} />}
+
       {/* Create channel modal */}
       {showCreate && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={() => setShowCreate(false)}>
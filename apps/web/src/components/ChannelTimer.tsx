@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { useChatStore } from "../stores/chat";
+import { useAuthStore } from "../stores/auth";
+import { api } from "../lib/api";
+
+const RETENTION_OPTIONS = [
+  { label: "Off", seconds: null },
+  { label: "5 minutes", seconds: 5 * 60 },
+  { label: "1 hour", seconds: 60 * 60 },
+  { label: "1 day", seconds: 24 * 60 * 60 },
+  { label: "1 week", seconds: 7 * 24 * 60 * 60 },
+  { label: "4 weeks", seconds: 28 * 24 * 60 * 60 },
+];
+
+/**
+ * Describe a disappearing messages timer, e.g. "1 day"
+ */
+export function formatRetention(seconds: number): string {
+  const preset = RETENTION_OPTIONS.find((option) => option.seconds === seconds);
+  if (preset) return preset.label;
+
+  const units = [
+    { name: "week", seconds: 7 * 24 * 60 * 60 },
+    { name: "day", seconds: 24 * 60 * 60 },
+    { name: "hour", seconds: 60 * 60 },
+    { name: "minute", seconds: 60 },
+  ];
+  const unit = units.find((u) => seconds % u.seconds === 0) ?? units[units.length - 1];
+  const count = Math.round(seconds / unit.seconds);
+  return `${count} ${unit.name}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * The disappearing messages timer of the active channel. Moderators can change it.
+ */
+export function ChannelTimer() {
+  const user = useAuthStore((state) => state.user);
+  const { communities, channels, activeCommunityId, activeChannelId, setChannelRetention } = useChatStore();
+  const [error, setError] = useState("");
+
+  const community = communities.find((c) => c.id === activeCommunityId);
+  const channel = activeCommunityId && activeChannelId
+    ? channels[activeCommunityId]?.find((c) => c.id === activeChannelId)
+    : null;
+  if (!community || !channel) return null;
+
+  // Only the owner moderates a community for now
+  const isModerator = community.createdBy === user?.id;
+
+  if (!isModerator) {
+    return channel.retentionSeconds ? (
+      <span className="text-text-muted text-sm" title="Messages in this channel disappear">
+        ⏱ {formatRetention(channel.retentionSeconds)}
+      </span>
+    ) : null;
+  }
+
+  const handleChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const retentionSeconds = e.target.value ? parseInt(e.target.value, 10) : null;
+
+    setError("");
+    try {
+      const { channel: updated } = await api.channels.setRetention(channel.id, retentionSeconds);
+      setChannelRetention(community.id, channel.id, updated.retentionSeconds);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to change the timer");
+    }
+  };
+
+  return (
+    <label className="flex items-center gap-1 text-text-muted text-sm" title={error || "Disappearing messages"}>
+      ⏱
+      <select
+        value={channel.retentionSeconds ?? ""}
+        onChange={handleChange}
+        className={`bg-background-tertiary rounded px-1 py-0.5 outline-none ${error ? "text-red-400" : "text-text-secondary"}`}
+      >
+        {RETENTION_OPTIONS.map((option) => (
+          <option key={option.label} value={option.seconds ?? ""}>
+            {option.label}
+          </option>
+        ))}
+        {channel.retentionSeconds && !RETENTION_OPTIONS.some((o) => o.seconds === channel.retentionSeconds) && (
+          <option value={channel.retentionSeconds}>{formatRetention(channel.retentionSeconds)}</option>
+        )}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,229 @@
+import { useEffect, useRef, useState } from "react";
+import { useChatStore, getConversationName } from "../stores/chat";
+import { useAuthStore } from "../stores/auth";
+import { useTrustStore } from "../stores/trust";
+import { api } from "../lib/api";
+import { decryptDirectMessage } from "../lib/dmCrypto";
+import { sendDirectMessage } from "../lib/outbox";
+import { loadTrustStates } from "../lib/trust";
+import { MessageBody } from "./MessageList";
+import { SafetyNumber } from "./SafetyNumber";
+import { GroupSettings } from "./GroupSettings";
+import { useAttachmentDraft, AttachButton, VoiceNoteButton, AttachmentDraftList } from "./Attachments";
+import { FailedMessages } from "./FailedMessages";
+
+export function DirectMessages() {
+  const { conversations, dmMessages, activeConversationId, setDmMessages } = useChatStore();
+  const user = useAuthStore((state) => state.user);
+  const trustStates = useTrustStore((state) => state.states);
+  const [reviewMember, setReviewMember] = useState<{ id: string; displayName: string } | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [message, setMessage] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [sendError, setSendError] = useState("");
+  const draft = useAttachmentDraft();
+
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const conversation = conversations.find((c) => c.id === activeConversationId);
+  const conversationMessages = activeConversationId ? dmMessages[activeConversationId] || [] : [];
+  const others = conversation?.participants.filter((p) => p.id !== user?.id) || [];
+  const title = conversation ? getConversationName(conversation, user?.id) : "";
+  const isGroup = conversation?.isGroup ?? false;
+  const hasChangedKeys = conversation?.participants.some((p) => trustStates[p.id] === "changed");
+
+  // Load and decrypt messages when the conversation changes
+  useEffect(() => {
+    if (!activeConversationId || !user) return;
+
+    const loadMessages = async () => {
+      const { messages: msgs } = await api.dms.listMessages(activeConversationId);
+
+      const decrypted = await Promise.all(
+        msgs.map(async (m) => ({ ...m, decrypted: await decryptDirectMessage(m, { isGroup }) }))
+      );
+
+      setDmMessages(activeConversationId, decrypted);
+    };
+
+    loadMessages();
+  }, [activeConversationId, isGroup, user, setDmMessages]);
+
+  useEffect(() => {
+    if (conversation) {
+      loadTrustStates(conversation.participants.map((p) => p.id));
+    }
+  }, [conversation]);
+
+  // Auto-scroll to bottom on new messages
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [conversationMessages]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if ((!message.trim() && draft.files.length === 0) || !activeConversationId || isSending) return;
+
+    const plaintext = message.trim();
+    setMessage("");
+    setSendError("");
+    setIsSending(true);
+
+    try {
+      const attachments = await draft.upload();
+
+      // Encrypted once per device; the outbox resends it until the server has stored it
+      await sendDirectMessage(activeConversationId, {
+        type: "text",
+        text: plaintext,
+        ...(attachments.length > 0 && { attachments }),
+      });
+      draft.clear();
+    } catch (err) {
+      console.error('Failed to send direct message:', err);
+      setMessage(plaintext);
+      setSendError(err instanceof Error ? err.message : "Failed to encrypt message");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const getParticipant = (userId: string) => {
+    return conversation?.participants.find((p) => p.id === userId);
+  };
+
+  const formatTime = (dateStr: string) => {
+    const date = new Date(dateStr);
+    return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  };
+
+  if (!conversation) {
+    return (
+      <div className="flex-1 flex items-center justify-center text-text-muted">
+        Conversation not found
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {/* Conversation header */}
+      <div className="h-12 px-4 flex items-center border-b border-background-tertiary shadow-sm">
+        <span className="text-text-muted text-lg mr-2">@</span>
+        <span className="font-semibold text-text-primary truncate">{title}</span>
+        <div className="ml-auto flex items-center gap-3">
+          {isGroup ? (
+            <button
+              onClick={() => setShowSettings(true)}
+              className={`text-sm hover:underline ${hasChangedKeys ? "text-red-400" : "text-text-muted"}`}
+              title="Participants and safety numbers"
+            >
+              {hasChangedKeys && "⚠ "}Participants — {conversation.participants.length}
+            </button>
+          ) : others.map((participant) => (
+            <button
+              key={participant.id}
+              onClick={() => setReviewMember(participant)}
+              className={`text-sm hover:underline ${
+                trustStates[participant.id] === "changed" ? "text-red-400" : "text-text-muted"
+              }`}
+              title={`Safety number with ${participant.displayName}`}
+            >
+              {trustStates[participant.id] === "changed"
+                ? "⚠ Keys changed"
+                : trustStates[participant.id] === "verified"
+                  ? "✓ Verified"
+                  : "Verify"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {reviewMember && (
+        <SafetyNumber member={reviewMember} onClose={() => setReviewMember(null)} />
+      )}
+
+      {showSettings && (
+        <GroupSettings conversationId={conversation.id} onClose={() => setShowSettings(false)} />
+      )}
+
+      {/* Messages */}
+      <div className="flex-1 overflow-y-auto p-4">
+        {conversationMessages.length === 0 ? (
+          <div className="text-center text-text-muted py-8">
+            <div className="text-4xl mb-4">@</div>
+            <h3 className="text-xl font-bold text-text-primary mb-2">{title}</h3>
+            <p>
+              {isGroup
+                ? "This is the start of the group. Messages are end-to-end encrypted for every participant."
+                : "This is the start of your direct messages. They're end-to-end encrypted for each device."}
+            </p>
+          </div>
+        ) : (
+          conversationMessages.map((message, index) => {
+            const sender = getParticipant(message.senderId);
+            const prevMessage = conversationMessages[index - 1];
+            const showHeader =
+              !prevMessage ||
+              prevMessage.senderId !== message.senderId ||
+              new Date(message.createdAt).getTime() -
+                new Date(prevMessage.createdAt).getTime() >
+                5 * 60 * 1000;
+
+            return (
+              <div
+                key={message.id}
+                className={`flex gap-4 hover:bg-background-primary/30 px-2 py-0.5 rounded ${
+                  showHeader ? "mt-4" : ""
+                }`}
+              >
+                {showHeader ? (
+                  <div className="w-10 h-10 rounded-full bg-accent-primary flex-shrink-0 flex items-center justify-center text-white font-medium">
+                    {sender?.displayName?.charAt(0).toUpperCase() || "?"}
+                  </div>
+                ) : (
+                  <div className="w-10 flex-shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  {showHeader && (
+                    <div className="flex items-baseline gap-2">
+                      <span className="font-medium text-text-primary">
+                        {sender?.displayName || "Unknown"}
+                      </span>
+                      <span className="text-xs text-text-muted">
+                        {formatTime(message.createdAt)}
+                      </span>
+                    </div>
+                  )}
+                  <MessageBody decrypted={message.decrypted} />
+                </div>
+              </div>
+            );
+          })
+        )}
+
+        {activeConversationId && <FailedMessages channelId={activeConversationId} />}
+
+        <div ref={messagesEndRef} />
+      </div>
+
+      <form onSubmit={handleSubmit} className="px-4 pb-6">
+        {sendError && (
+          <p className="text-red-400 text-sm mb-2">Message not sent: {sendError}</p>
+        )}
+        <AttachmentDraftList draft={draft} />
+        <div className="bg-background-tertiary rounded-lg flex items-center px-4">
+          <AttachButton draft={draft} />
+          <input
+            type="text"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder={isSending ? "Sending..." : `Message @${title || "conversation"}`}
+            className="flex-1 bg-transparent text-text-primary py-3 px-2 outline-none"
+          />
+          <VoiceNoteButton draft={draft} />
+        </div>
+      </form>
+    </div>
+  );
+}
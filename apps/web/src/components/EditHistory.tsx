@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import { api } from "../lib/api";
+import { decryptChannelMessage, DecryptedMessage } from "../lib/channelCrypto";
+import { MessageBody } from "./MessageList";
+
+interface EditHistoryProps {
+  message: {
+    id: string;
+    channelId: string;
+    senderId: string;
+    decrypted?: DecryptedMessage;
+    expiresAt?: string | null;
+    editedAt?: string | null;
+    createdAt: string;
+  };
+  onClose: () => void;
+}
+
+interface Version {
+  label: string;
+  decrypted?: DecryptedMessage;
+}
+
+/**
+ * Earlier versions of an edited channel message, oldest first
+ */
+export function EditHistory({ message, onClose }: EditHistoryProps) {
+  const [versions, setVersions] = useState<Version[]>([]);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const { edits } = await api.messages.listEdits(message.id);
+        const earlier = await Promise.all(
+          edits.map(async (edit) => ({
+            label: edit.editedAt
+              ? `Edited ${new Date(edit.editedAt).toLocaleString()}`
+              : `Sent ${new Date(message.createdAt).toLocaleString()}`,
+            decrypted: await decryptChannelMessage({
+              id: message.id,
+              channelId: message.channelId,
+              senderId: message.senderId,
+              ciphertext: edit.ciphertext,
+              epoch: edit.epoch,
+              expiresAt: message.expiresAt,
+              editedAt: edit.editedAt,
+            }),
+          }))
+        );
+        if (!cancelled) setVersions(earlier);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load edit history");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [message.id, message.editedAt]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-start justify-center pt-24 z-50" onClick={onClose}>
+      <div className="bg-background-secondary rounded-lg p-6 w-full max-w-lg" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-lg font-semibold text-text-primary mb-4">Edit history</h2>
+
+        {error && <p className="text-red-400 text-sm mb-3">{error}</p>}
+
+        <div className="max-h-96 overflow-y-auto space-y-3">
+          {versions.map((version, index) => (
+            <div key={index}>
+              <p className="text-xs text-text-muted">{version.label}</p>
+              <MessageBody decrypted={version.decrypted} />
+            </div>
+          ))}
+          {message.editedAt && (
+            <div>
+              <p className="text-xs text-text-muted">
+                Current, edited {new Date(message.editedAt).toLocaleString()}
+              </p>
+              <MessageBody decrypted={message.decrypted} />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
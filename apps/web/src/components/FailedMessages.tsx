@@ -0,0 +1,48 @@
+import { useState } from "react";
+import { useChatStore } from "../stores/chat";
+import { retryMessage, discardMessage } from "../lib/outbox";
+
+/**
+ * Our messages the server refused in a channel, thread or conversation, each
+ * with a way to send it again or drop it
+ */
+export function FailedMessages({ channelId, threadId = null }: { channelId: string; threadId?: string | null }) {
+  const failedMessages = useChatStore((state) => state.failedMessages);
+  const [retryError, setRetryError] = useState("");
+
+  const shown = failedMessages.filter((m) => m.channelId === channelId && m.threadId === threadId);
+  if (shown.length === 0) return null;
+
+  const handleRetry = async (clientMessageId: string) => {
+    setRetryError("");
+    try {
+      await retryMessage(clientMessageId);
+    } catch (err) {
+      setRetryError(err instanceof Error ? err.message : "Failed to encrypt message");
+    }
+  };
+
+  return (
+    <div className="px-4 py-2 space-y-1">
+      {shown.map((message) => (
+        <div key={message.clientMessageId} className="flex items-center gap-2 text-sm">
+          <span className="text-text-secondary truncate">{message.text}</span>
+          <span className="text-red-400 shrink-0">Not sent: {message.error}</span>
+          <button
+            onClick={() => handleRetry(message.clientMessageId)}
+            className="text-accent-primary hover:underline shrink-0"
+          >
+            Retry
+          </button>
+          <button
+            onClick={() => discardMessage(message.clientMessageId)}
+            className="text-text-muted hover:text-text-primary shrink-0"
+          >
+            Discard
+          </button>
+        </div>
+      ))}
+      {retryError && <p className="text-red-400 text-sm">{retryError}</p>}
+    </div>
+  );
+}
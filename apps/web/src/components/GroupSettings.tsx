@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useChatStore, listKnownUsers } from "../stores/chat";
+import { useAuthStore } from "../stores/auth";
+import { useTrustStore } from "../stores/trust";
+import { api } from "../lib/api";
+import { SafetyNumber } from "./SafetyNumber";
+
+// Including ourselves, as enforced by the server
+const MAX_GROUP_PARTICIPANTS = 10;
+
+export function GroupSettings({ conversationId, onClose }: { conversationId: string; onClose: () => void }) {
+  const user = useAuthStore((state) => state.user);
+  const { members, conversations, removeConversation } = useChatStore();
+  const trustStates = useTrustStore((state) => state.states);
+  const [reviewMember, setReviewMember] = useState<{ id: string; displayName: string } | null>(null);
+  const [addUserId, setAddUserId] = useState("");
+  const [error, setError] = useState("");
+
+  const conversation = conversations.find((c) => c.id === conversationId);
+  if (!conversation) return null;
+
+  const isCreator = conversation.createdBy === user?.id;
+  const participantIds = new Set(conversation.participants.map((p) => p.id));
+  const candidates = listKnownUsers(members, conversations).filter((u) => !participantIds.has(u.id));
+  const isFull = conversation.participants.length >= MAX_GROUP_PARTICIPANTS;
+
+  // The participant list itself is refreshed when the server announces the change
+  const handleAdd = async () => {
+    if (!addUserId) return;
+
+    setError("");
+    try {
+      await api.dms.addParticipant(conversationId, addUserId);
+      setAddUserId("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add participant");
+    }
+  };
+
+  const handleRemove = async (participant: { id: string; displayName: string }) => {
+    if (!confirm(`Remove ${participant.displayName} from the group?`)) return;
+
+    setError("");
+    try {
+      await api.dms.removeParticipant(conversationId, participant.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove participant");
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!confirm("Leave this group? You won't receive its messages anymore.")) return;
+
+    setError("");
+    try {
+      await api.dms.leave(conversationId);
+      removeConversation(conversationId);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to leave group");
+    }
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+        <div className="bg-background-secondary rounded-lg p-6 w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+          <h2 className="text-xl font-bold text-text-primary mb-4">
+            Participants — {conversation.participants.length}
+          </h2>
+
+          <div className="max-h-64 overflow-y-auto space-y-1 mb-4">
+            {conversation.participants.map((participant) => (
+              <div
+                key={participant.id}
+                onClick={() => setReviewMember(participant)}
+                className="group flex items-center gap-3 px-2 py-1 rounded hover:bg-background-primary/30 cursor-pointer"
+              >
+                <div className="w-8 h-8 rounded-full bg-accent-primary flex items-center justify-center text-white text-sm font-medium">
+                  {participant.displayName.charAt(0).toUpperCase()}
+                </div>
+                <span className="text-text-secondary truncate">
+                  {participant.displayName}
+                  {participant.id === conversation.createdBy && (
+                    <span className="text-text-muted text-xs ml-2">creator</span>
+                  )}
+                </span>
+                {trustStates[participant.id] === "changed" && (
+                  <span className="ml-auto text-red-400" title="Security keys changed">⚠</span>
+                )}
+                {trustStates[participant.id] === "verified" && (
+                  <span className="ml-auto text-green-500" title="Verified">✓</span>
+                )}
+                {isCreator && participant.id !== user?.id && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleRemove(participant);
+                    }}
+                    className="ml-auto hidden group-hover:block text-text-muted hover:text-red-400"
+                    title="Remove from group"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {!isFull && candidates.length > 0 && (
+            <div className="flex gap-2 mb-4">
+              <select
+                value={addUserId}
+                onChange={(e) => setAddUserId(e.target.value)}
+                className="flex-1 bg-background-tertiary text-text-primary rounded px-3 py-2 outline-none focus:ring-2 focus:ring-accent-primary"
+              >
+                <option value="">Add someone...</option>
+                {candidates.map((candidate) => (
+                  <option key={candidate.id} value={candidate.id}>
+                    {candidate.displayName}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleAdd}
+                disabled={!addUserId}
+                className="px-4 py-2 bg-accent-primary hover:bg-accent-hover text-white rounded disabled:opacity-50"
+              >
+                Add
+              </button>
+            </div>
+          )}
+
+          {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+          <div className="flex justify-between gap-2">
+            <button onClick={handleLeave} className="px-4 py-2 text-red-400 hover:underline">
+              Leave group
+            </button>
+            <button onClick={onClose} className="px-4 py-2 text-text-secondary hover:underline">
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {reviewMember && (
+        <SafetyNumber member={reviewMember} onClose={() => setReviewMember(null)} />
+      )}
+    </>
+  );
+}
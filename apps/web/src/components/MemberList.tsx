@@ -1,8 +1,66 @@
+import { useEffect, useState } from "react";
 import { useChatStore } from "../stores/chat";
+import { useAuthStore } from "../stores/auth";
+import { useTrustStore } from "../stores/trust";
+import { api } from "../lib/api";
+import { loadTrustStates } from "../lib/trust";
+import { SafetyNumber } from "./SafetyNumber";
+
+// How far back "Delete recent messages" reaches
+const SPAM_CLEANUP_SECONDS = 24 * 60 * 60;
 
 export function MemberList() {
-  const { members, activeCommunityId } = useChatStore();
+  const user = useAuthStore((state) => state.user);
+  const {
+    communities,
+    members,
+    activeCommunityId,
+    setMembers,
+    addConversation,
+    setActiveConversation,
+  } = useChatStore();
+  const trustStates = useTrustStore((state) => state.states);
+  const [selectedMember, setSelectedMember] = useState<{ id: string; displayName: string } | null>(null);
   const communityMembers = activeCommunityId ? members[activeCommunityId] || [] : [];
+  const isOwner = communities.find((c) => c.id === activeCommunityId)?.createdBy === user?.id;
+
+  const handleRemove = async (member: { id: string; displayName: string }) => {
+    if (!activeCommunityId) return;
+    if (!confirm(`Remove ${member.displayName} from the community?`)) return;
+
+    try {
+      await api.communities.removeMember(activeCommunityId, member.id);
+      setMembers(activeCommunityId, communityMembers.filter((m) => m.id !== member.id));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to remove member");
+    }
+  };
+
+  const handleDeleteRecent = async (member: { id: string; displayName: string }) => {
+    if (!activeCommunityId) return;
+    if (!confirm(`Delete every message ${member.displayName} sent in the last 24 hours?`)) return;
+
+    try {
+      const { deleted } = await api.messages.deleteRecent(activeCommunityId, member.id, SPAM_CLEANUP_SECONDS);
+      alert(`Deleted ${deleted} message${deleted === 1 ? "" : "s"}`);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to delete messages");
+    }
+  };
+
+  const handleMessage = async (member: { id: string; displayName: string }) => {
+    try {
+      const { conversation } = await api.dms.open(member.id);
+      addConversation(conversation);
+      setActiveConversation(conversation.id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to open conversation");
+    }
+  };
+
+  useEffect(() => {
+    loadTrustStates(communityMembers.map((m) => m.id));
+  }, [communityMembers]);
 
   return (
     <div className="w-60 bg-background-secondary hidden lg:block">
@@ -15,7 +73,8 @@ export function MemberList() {
           {communityMembers.map((member) => (
             <div
               key={member.id}
-              className="flex items-center gap-3 px-2 py-1 rounded hover:bg-background-primary/30 cursor-pointer"
+              onClick={() => setSelectedMember(member)}
+              className="group flex items-center gap-3 px-2 py-1 rounded hover:bg-background-primary/30 cursor-pointer"
             >
               <div className="relative">
                 <div className="w-8 h-8 rounded-full bg-accent-primary flex items-center justify-center text-white text-sm font-medium">
@@ -35,10 +94,58 @@ export function MemberList() {
               <span className="text-text-secondary truncate">
                 {member.displayName}
               </span>
+              {trustStates[member.id] === "changed" && (
+                <span className="ml-auto text-red-400" title="Security keys changed">⚠</span>
+              )}
+              {trustStates[member.id] === "verified" && (
+                <span className="ml-auto text-green-500" title="Verified">✓</span>
+              )}
+              {member.id !== user?.id && (
+                <div className="ml-auto hidden group-hover:flex items-center gap-2">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleMessage(member);
+                    }}
+                    className="text-text-muted hover:text-text-primary"
+                    title="Send direct message"
+                  >
+                    @
+                  </button>
+                  {isOwner && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDeleteRecent(member);
+                      }}
+                      className="text-text-muted hover:text-red-400"
+                      title="Delete recent messages"
+                    >
+                      🗑
+                    </button>
+                  )}
+                  {isOwner && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleRemove(member);
+                      }}
+                      className="text-text-muted hover:text-red-400"
+                      title="Remove from community"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           ))}
         </div>
       </div>
+
+      {selectedMember && (
+        <SafetyNumber member={selectedMember} onClose={() => setSelectedMember(null)} />
+      )}
     </div>
   );
 }
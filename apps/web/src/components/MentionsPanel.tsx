@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { useChatStore } from "../stores/chat";
+import { api } from "../lib/api";
+import { decryptChannelMessage, DecryptedMessage } from "../lib/channelCrypto";
+import { messagePreview } from "./ReplyQuote";
+
+interface Mention {
+  id: string;
+  communityId: string;
+  channelId: string;
+  senderId: string;
+  threadId: string | null;
+  createdAt: string;
+  decrypted: DecryptedMessage;
+}
+
+/**
+ * Messages that mention us in any of our communities, newest first. Clicking
+ * one jumps to it, opening its thread if it is a reply in one.
+ */
+export function MentionsPanel({ onClose }: { onClose: () => void }) {
+  const { communities, channels, members, jumpToMessage, openThread } = useChatStore();
+  const [mentions, setMentions] = useState<Mention[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const loadMentions = async (cursor?: string) => {
+    setIsLoading(true);
+    setError("");
+    try {
+      const page = await api.messages.listMentions(cursor);
+      const decrypted = await Promise.all(
+        page.messages.map(async (m) => ({ ...m, decrypted: await decryptChannelMessage(m) }))
+      );
+      setMentions((loaded) => (cursor ? [...loaded, ...decrypted] : decrypted));
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Failed to load mentions:', err);
+      setError(err instanceof Error ? err.message : "Failed to load mentions");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadMentions();
+  }, []);
+
+  const handleSelect = (mention: Mention) => {
+    // Thread replies are shown next to their root message
+    if (mention.threadId) {
+      jumpToMessage(mention.communityId, mention.channelId, mention.threadId);
+      openThread(mention.threadId);
+    } else {
+      jumpToMessage(mention.communityId, mention.channelId, mention.id, mention.createdAt);
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-start justify-center pt-24 z-50" onClick={onClose}>
+      <div className="bg-background-secondary rounded-lg p-6 w-full max-w-2xl" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold text-text-primary mb-4">Mentions</h2>
+
+        {error && <p className="text-red-400 text-sm mb-2">{error}</p>}
+
+        <div className="max-h-96 overflow-y-auto space-y-1">
+          {mentions.map((mention) => {
+            const community = communities.find((c) => c.id === mention.communityId);
+            const channel = channels[mention.communityId]?.find((c) => c.id === mention.channelId);
+            const sender = members[mention.communityId]?.find((m) => m.id === mention.senderId);
+
+            return (
+              <button
+                key={mention.id}
+                onClick={() => handleSelect(mention)}
+                className="w-full text-left px-3 py-2 rounded hover:bg-background-primary/50"
+              >
+                <div className="flex items-baseline gap-2 text-sm">
+                  <span className="font-medium text-text-primary">{sender?.displayName || "Unknown"}</span>
+                  <span className="text-text-muted truncate">
+                    {community?.name}
+                    {channel && ` #${channel.name}`}
+                    {mention.threadId && " (thread)"}
+                  </span>
+                  <span className="text-xs text-text-muted ml-auto flex-shrink-0">
+                    {new Date(mention.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                <p className="text-text-secondary text-sm truncate">{messagePreview(mention.decrypted)}</p>
+              </button>
+            );
+          })}
+
+          {!isLoading && mentions.length === 0 && !error && (
+            <p className="text-text-muted text-sm text-center py-4">Nobody has mentioned you yet.</p>
+          )}
+
+          {isLoading ? (
+            <p className="text-text-muted text-sm text-center py-2">Loading...</p>
+          ) : nextCursor && (
+            <button
+              onClick={() => loadMentions(nextCursor)}
+              className="w-full text-sm text-accent-primary hover:underline py-2"
+            >
+              Load older mentions
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
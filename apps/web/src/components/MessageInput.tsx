@@ -2,44 +2,100 @@ import { useState, useRef, useEffect } from "react";
 import { useChatStore } from "../stores/chat";
 import { useAuthStore } from "../stores/auth";
 import { wsClient } from "../lib/websocket";
-import { encryptChannelMessage } from "../lib/channelCrypto";
+import { sendChannelMessage } from "../lib/outbox";
+import { findMentions, mentionQueryAt, MENTION_KEYWORDS } from "../lib/mentions";
+import { useAttachmentDraft, AttachButton, VoiceNoteButton, AttachmentDraftList } from "./Attachments";
+import { useQuotedMessage, messagePreview } from "./ReplyQuote";
+
+/**
+ * The message the composer is replying to, above the input
+ */
+function ReplyingTo({ messageId, onCancel }: { messageId: string; onCancel: () => void }) {
+  const { members, activeCommunityId } = useChatStore();
+  const quoted = useQuotedMessage(messageId);
+  const sender = activeCommunityId && quoted
+    ? members[activeCommunityId]?.find((m) => m.id === quoted.senderId)
+    : undefined;
 
-export function MessageInput() {
+  return (
+    <div className="flex items-center gap-2 bg-background-secondary rounded-t-lg px-4 py-2 text-sm text-text-muted">
+      <span className="flex-shrink-0">
+        Replying to <span className="font-medium text-text-secondary">{sender?.displayName || "..."}</span>
+      </span>
+      {quoted && <span className="truncate">{messagePreview(quoted.decrypted)}</span>}
+      <button type="button" onClick={onCancel} className="ml-auto hover:text-text-primary" title="Cancel reply">
+        ✕
+      </button>
+    </div>
+  );
+}
+
+// Most members suggested at once while typing a mention
+const MAX_MENTION_SUGGESTIONS = 8;
+
+// With a threadId, replies in that thread of the active channel
+export function MessageInput({ threadId }: { threadId?: string }) {
   const [message, setMessage] = useState("");
   const [isTyping, setIsTyping] = useState(false);
   const [isSending, setIsSending] = useState(false);
+  const [sendError, setSendError] = useState("");
+  const [mentionQuery, setMentionQuery] = useState<{ start: number; query: string } | null>(null);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
   const typingTimeoutRef = useRef<number | null>(null);
-  const { activeChannelId, channels, activeCommunityId, members } = useChatStore();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { activeChannelId, channels, members, activeCommunityId, replyingToId, setReplyingTo } = useChatStore();
   const user = useAuthStore((state) => state.user);
+  const draft = useAttachmentDraft();
 
   const activeChannel = activeCommunityId && activeChannelId
     ? channels[activeCommunityId]?.find((c) => c.id === activeChannelId)
     : null;
-
   const communityMembers = activeCommunityId ? members[activeCommunityId] || [] : [];
 
+  // Members and keywords starting with what follows the "@" being typed
+  const query = mentionQuery?.query.toLowerCase();
+  const suggestions = query !== undefined
+    ? [
+        ...communityMembers
+          .filter((m) => m.id !== user?.id && m.displayName.toLowerCase().startsWith(query))
+          .map((m) => ({ key: m.id, name: m.displayName })),
+        ...MENTION_KEYWORDS
+          .filter((keyword) => keyword.startsWith(query))
+          .map((keyword) => ({ key: keyword, name: keyword })),
+      ].slice(0, MAX_MENTION_SUGGESTIONS)
+    : [];
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!message.trim() || !activeChannelId || !user || isSending) return;
+    if ((!message.trim() && draft.files.length === 0) || !activeCommunityId || !activeChannelId || !activeChannel || !user || isSending) return;
 
     const plaintext = message.trim();
+    // Replies within a thread go to the thread's root
+    const replyToId = threadId ? undefined : replyingToId ?? undefined;
+    const mentions = findMentions(plaintext, communityMembers, user.id);
     setMessage("");
+    setMentionQuery(null);
+    setSendError("");
     setIsSending(true);
 
     try {
-      // Encrypt message with channel key
-      const ciphertext = await encryptChannelMessage(
-        activeChannelId,
-        plaintext,
-        communityMembers,
-        user.id
-      );
-
-      wsClient.sendMessage(activeChannelId, ciphertext);
+      // Attachments are uploaded encrypted first, so their keys can go in the message
+      const attachments = await draft.upload();
+
+      // Encrypt with our sending chain for the channel's current epoch; the
+      // outbox resends it until the server has stored it
+      await sendChannelMessage(activeCommunityId, activeChannel, {
+        type: "text",
+        text: plaintext,
+        ...(attachments.length > 0 && { attachments }),
+      }, { replyToId, threadId, mentions });
+      draft.clear();
+      if (replyToId) setReplyingTo(null);
     } catch (err) {
-      console.error('Failed to encrypt message:', err);
-      // Fallback to plaintext if encryption fails (for backward compatibility)
-      wsClient.sendMessage(activeChannelId, plaintext);
+      // Never fall back to sending plaintext - keep the draft and say why
+      console.error('Failed to send message:', err);
+      setMessage(plaintext);
+      setSendError(err instanceof Error ? err.message : "Failed to encrypt message");
     } finally {
       setIsSending(false);
     }
@@ -53,8 +109,11 @@ export function MessageInput() {
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setMessage(e.target.value);
+    setMentionQuery(mentionQueryAt(e.target.value, e.target.selectionStart ?? e.target.value.length));
+    setSuggestionIndex(0);
 
-    if (!activeChannelId) return;
+    // Typing indicators are shown in the channel, not in threads
+    if (!activeChannelId || threadId) return;
 
     // Typing indicator logic
     if (!isTyping && e.target.value.length > 0) {
@@ -75,6 +134,36 @@ export function MessageInput() {
     }, 3000);
   };
 
+  // Replace the "@..." being typed with the chosen mention
+  const insertMention = (name: string) => {
+    if (!mentionQuery) return;
+
+    const caret = inputRef.current?.selectionStart ?? message.length;
+    const before = `${message.slice(0, mentionQuery.start)}@${name} `;
+    setMessage(before + message.slice(caret));
+    setMentionQuery(null);
+
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setSuggestionIndex((suggestionIndex + step + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      insertMention(suggestions[Math.min(suggestionIndex, suggestions.length - 1)].name);
+    } else if (e.key === "Escape") {
+      setMentionQuery(null);
+    }
+  };
+
   // Cleanup typing timeout on unmount
   useEffect(() => {
     return () => {
@@ -86,25 +175,52 @@ export function MessageInput() {
 
   return (
     <form onSubmit={handleSubmit} className="px-4 pb-6">
-      <div className="bg-background-tertiary rounded-lg flex items-center px-4">
-        <button
-          type="button"
-          className="text-text-muted hover:text-text-primary p-2"
-          title="Attach file"
-        >
-          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-          </svg>
-        </button>
+      {sendError && (
+        <p className="text-red-400 text-sm mb-2">Message not sent: {sendError}</p>
+      )}
+      <AttachmentDraftList draft={draft} />
+      {replyingToId && !threadId && (
+        <ReplyingTo messageId={replyingToId} onCancel={() => setReplyingTo(null)} />
+      )}
+      <div className="relative bg-background-tertiary rounded-lg flex items-center px-4">
+        {suggestions.length > 0 && (
+          <div className="absolute left-0 right-0 bottom-full mb-2 bg-background-secondary rounded-lg shadow-lg py-1 z-10">
+            {suggestions.map((suggestion, index) => (
+              <button
+                key={suggestion.key}
+                type="button"
+                // Keep the focus in the input
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => insertMention(suggestion.name)}
+                className={`w-full text-left px-3 py-1 text-sm ${
+                  index === suggestionIndex ? "bg-background-primary/50 text-text-primary" : "text-text-secondary"
+                }`}
+              >
+                @{suggestion.name}
+                {suggestion.key === "here" && <span className="text-text-muted ml-2">Everyone online</span>}
+                {suggestion.key === "everyone" && <span className="text-text-muted ml-2">Everyone in the community</span>}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <AttachButton draft={draft} />
 
         <input
+          ref={inputRef}
           type="text"
           value={message}
           onChange={handleChange}
-          placeholder={`Message #${activeChannel?.name || "channel"}`}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setMentionQuery(null)}
+          placeholder={
+            isSending ? "Sending..." : threadId ? "Reply in thread" : `Message #${activeChannel?.name || "channel"}`
+          }
           className="flex-1 bg-transparent text-text-primary py-3 px-2 outline-none"
         />
 
+        <VoiceNoteButton draft={draft} />
+
         <button
           type="button"
           className="text-text-muted hover:text-text-primary p-2"
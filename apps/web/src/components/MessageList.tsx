@@ -1,65 +1,212 @@
-import { useEffect, useRef } from "react";
+import { Fragment, ReactNode, useEffect, useRef, useState } from "react";
 import { useChatStore } from "../stores/chat";
 import { useAuthStore } from "../stores/auth";
+import { useTrustStore } from "../stores/trust";
 import { api } from "../lib/api";
-import { decryptChannelMessage } from "../lib/channelCrypto";
+import { decryptChannelMessage, DecryptedMessage } from "../lib/channelCrypto";
+import { indexMessages } from "../lib/search";
+import { decryptThread, ThreadInfo } from "../lib/threads";
+import { editChannelMessage } from "../lib/outbox";
+import { wsClient } from "../lib/websocket";
+import { isMentioned, splitMentions } from "../lib/mentions";
+import { SafetyNumber } from "./SafetyNumber";
+import { SearchPanel } from "./SearchPanel";
+import { ChannelTimer, formatRetention } from "./ChannelTimer";
+import { EditHistory } from "./EditHistory";
+import { ReactionPicker, ReactionPills } from "./Reactions";
+import { ReplyQuote, messagePreview } from "./ReplyQuote";
+import { PinsPanel } from "./PinnedMessages";
+import { MentionsPanel } from "./MentionsPanel";
+import { AttachmentView } from "./Attachments";
+import { FailedMessages } from "./FailedMessages";
 
 export function MessageList() {
   const {
+    communities,
     messages,
     members,
     channels,
+    pins,
     activeChannelId,
     activeCommunityId,
+    highlightedMessageId,
+    highlightedCreatedAt,
     typingUsers,
     setMessages,
+    setPins,
+    setReadState,
+    jumpToMessage,
+    openThread,
+    setReplyingTo,
   } = useChatStore();
   const user = useAuthStore((state) => state.user);
+  const trustStates = useTrustStore((state) => state.states);
+  const [reviewMember, setReviewMember] = useState<{ id: string; displayName: string } | null>(null);
+  const [showSearch, setShowSearch] = useState(false);
+  const [showPins, setShowPins] = useState(false);
+  const [showMentions, setShowMentions] = useState(false);
+  const [editing, setEditing] = useState<{ messageId: string; text: string } | null>(null);
+  const [editError, setEditError] = useState("");
+  const [historyMessageId, setHistoryMessageId] = useState<string | null>(null);
+  const [pickerMessageId, setPickerMessageId] = useState<string | null>(null);
+  // How far we had read when the channel was opened, for the "new messages" divider
+  const [unreadSince, setUnreadSince] = useState<{ channelId: string; lastReadAt: string; count: number } | null>(null);
+  const [showUnreadBar, setShowUnreadBar] = useState(false);
+  // How far back the open channel's history is loaded
+  const [history, setHistory] = useState<{ channelId: string; nextCursor: string | null } | null>(null);
+  const [jumpError, setJumpError] = useState("");
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrolledToRef = useRef<string | null>(null);
 
   const channelMessages = activeChannelId ? messages[activeChannelId] || [] : [];
   const communityMembers = activeCommunityId ? members[activeCommunityId] || [] : [];
   const channelTypingUsers = activeChannelId ? typingUsers[activeChannelId] || [] : [];
+  const channelPins = activeChannelId ? pins[activeChannelId] || [] : [];
   const activeChannel = activeCommunityId && activeChannelId
     ? channels[activeCommunityId]?.find((c) => c.id === activeChannelId)
     : null;
+  // Only the owner moderates a community for now
+  const isModerator = communities.find((c) => c.id === activeCommunityId)?.createdBy === user?.id;
+  const latestMessage = channelMessages[channelMessages.length - 1];
+
+  const isUnread = (message: { createdAt: string; senderId: string; notice?: unknown }) =>
+    !!unreadSince && message.createdAt > unreadSince.lastReadAt && message.senderId !== user?.id && !message.notice;
+  const firstUnreadIndex = unreadSince?.channelId === activeChannelId ? channelMessages.findIndex(isUnread) : -1;
 
   // Load and decrypt messages when channel changes
   useEffect(() => {
     if (!activeChannelId || !user) return;
 
+    setHistory(null);
     const loadMessages = async () => {
-      const { messages: msgs } = await api.messages.list(activeChannelId);
-
-      // Decrypt each message
-      const decrypted = await Promise.all(
-        msgs.map(async (m) => {
-          let plaintext = m.ciphertext;
-          try {
-            plaintext = await decryptChannelMessage(
-              activeChannelId,
-              m.ciphertext,
-              communityMembers,
-              user.id
-            );
-          } catch (err) {
-            console.error('Failed to decrypt message:', err);
-          }
-          return { ...m, plaintext };
-        })
-      );
+      const { messages: msgs, nextCursor } = await api.messages.list(activeChannelId);
+      const decrypted = await decryptPage(msgs);
 
       setMessages(activeChannelId, decrypted);
+      setHistory({ channelId: activeChannelId, nextCursor });
+
+      indexMessages(decrypted).catch((err) => {
+        console.error('Failed to index messages:', err);
+      });
     };
 
     loadMessages();
-  }, [activeChannelId, user, setMessages, communityMembers]);
+  }, [activeChannelId, user, setMessages]);
+
+  // A message jumped to that isn't loaded yet: page back until the loaded
+  // history is older than the message
+  const historyChannelId = history?.channelId;
+  useEffect(() => {
+    setJumpError("");
+    if (!highlightedMessageId || !activeChannelId || historyChannelId !== activeChannelId) return;
+
+    const loaded = useChatStore.getState().messages[activeChannelId] || [];
+    if (loaded.some((m) => m.id === highlightedMessageId)) return;
+
+    let cancelled = false;
+    const loadUntilTarget = async () => {
+      try {
+        const createdAt = highlightedCreatedAt ?? (await api.messages.get(highlightedMessageId)).message.createdAt;
+
+        let nextCursor = history?.nextCursor ?? null;
+        let oldest = loaded[0]?.createdAt;
+        let older: Awaited<ReturnType<typeof api.messages.list>>["messages"] = [];
+        while (nextCursor && (!oldest || oldest > createdAt)) {
+          const page = await api.messages.list(activeChannelId, nextCursor);
+          older = [...page.messages, ...older];
+          nextCursor = page.nextCursor;
+          oldest = page.messages[0]?.createdAt ?? oldest;
+        }
+
+        const decrypted = await decryptPage(older);
+        if (cancelled) return;
+
+        // Messages may have arrived while paging
+        setMessages(activeChannelId, [...decrypted, ...(useChatStore.getState().messages[activeChannelId] || [])]);
+        setHistory({ channelId: activeChannelId, nextCursor });
+        if (!older.some((m) => m.id === highlightedMessageId)) {
+          setJumpError("That message is no longer in this channel");
+        }
+
+        indexMessages(decrypted).catch((err) => {
+          console.error('Failed to index messages:', err);
+        });
+      } catch (err) {
+        console.error('Failed to load the message jumped to:', err);
+        if (!cancelled) setJumpError("Failed to load that message");
+      }
+    };
+
+    loadUntilTarget();
+    return () => {
+      cancelled = true;
+    };
+  }, [highlightedMessageId, highlightedCreatedAt, activeChannelId, historyChannelId, setMessages]);
+
+  // Load which messages are pinned, so they can be marked
+  useEffect(() => {
+    if (!activeChannelId) return;
+
+    setShowPins(false);
+    api.channels.listPins(activeChannelId)
+      .then(({ pins }) => setPins(activeChannelId, pins.map(({ message: _message, ...pin }) => pin)))
+      .catch((err) => {
+        console.error('Failed to load pinned messages:', err);
+      });
+  }, [activeChannelId, setPins]);
+
+  // Remember how far we had read before the channel is marked read below
+  useEffect(() => {
+    if (!activeChannelId) return;
+
+    const readState = useChatStore.getState().readStates[activeChannelId];
+    const since = readState?.lastReadAt && readState.unreadCount > 0
+      ? { channelId: activeChannelId, lastReadAt: readState.lastReadAt, count: readState.unreadCount }
+      : null;
+    setUnreadSince(since);
+    setShowUnreadBar(!!since);
+  }, [activeChannelId]);
+
+  // Everything loaded in the open channel has been seen. Our other devices and
+  // tabs learn of it through channel:read.
+  useEffect(() => {
+    if (!latestMessage || !activeCommunityId) return;
 
-  // Auto-scroll to bottom on new messages
+    const readState = useChatStore.getState().readStates[latestMessage.channelId];
+    if (
+      readState?.lastReadAt &&
+      readState.lastReadAt >= latestMessage.createdAt &&
+      readState.unreadCount === 0 &&
+      readState.mentionCount === 0
+    ) {
+      return;
+    }
+
+    setReadState({
+      channelId: latestMessage.channelId,
+      communityId: activeCommunityId,
+      lastReadMessageId: latestMessage.id,
+      lastReadAt: latestMessage.createdAt,
+      unreadCount: 0,
+      mentionCount: 0,
+    });
+    wsClient.markChannelRead(latestMessage.channelId, latestMessage.id);
+  }, [latestMessage, activeCommunityId, setReadState]);
+
+  // Auto-scroll to bottom on new messages, or once to a search result jumped to
   useEffect(() => {
+    if (highlightedMessageId && scrolledToRef.current !== highlightedMessageId) {
+      const target = document.getElementById(`message-${highlightedMessageId}`);
+      if (target) {
+        target.scrollIntoView({ block: "center" });
+        scrolledToRef.current = highlightedMessageId;
+      }
+      return;
+    }
+
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [channelMessages]);
+  }, [channelMessages, highlightedMessageId]);
 
   const getMember = (userId: string) => {
     return communityMembers.find((m) => m.id === userId);
@@ -70,6 +217,89 @@ export function MessageList() {
     return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
   };
 
+  const startEditing = (messageId: string, text: string) => {
+    setEditing({ messageId, text });
+    setEditError("");
+  };
+
+  // The new version shows up once the server has stored it
+  const handleEditSubmit = async (e: React.FormEvent, message: (typeof channelMessages)[number]) => {
+    e.preventDefault();
+    const content = message.decrypted?.content;
+    if (!editing || !content || !activeCommunityId || !activeChannel) return;
+
+    const text = editing.text.trim();
+    if (text === content.text || (!text && !content.attachments?.length)) {
+      setEditing(null);
+      return;
+    }
+
+    try {
+      await editChannelMessage(activeCommunityId, activeChannel, message.id, { ...content, text });
+      setEditing(null);
+    } catch (err) {
+      console.error('Failed to encrypt edit:', err);
+      setEditError(err instanceof Error ? err.message : "Failed to encrypt message");
+    }
+  };
+
+  // Everyone watching the channel, us included, is told through message:deleted
+  const handleDelete = async (messageId: string) => {
+    if (!confirm("Delete this message for everyone?")) return;
+
+    try {
+      await api.messages.delete(messageId);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to delete message");
+    }
+  };
+
+  // Everyone watching the channel, us included, is told through message:pinned or message:unpinned
+  const handleTogglePin = async (messageId: string, isPinned: boolean) => {
+    if (!activeChannelId) return;
+
+    try {
+      if (isPinned) {
+        await api.channels.unpin(activeChannelId, messageId);
+      } else {
+        await api.channels.pin(activeChannelId, messageId);
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to pin message");
+    }
+  };
+
+  // The first unread message may be older than the loaded page: find it, then
+  // jump to it like to a search result
+  const jumpToFirstUnread = async () => {
+    if (!unreadSince || !activeCommunityId || !activeChannelId) return;
+    setShowUnreadBar(false);
+
+    let firstUnread: { id: string; createdAt: string } | undefined = channelMessages[firstUnreadIndex];
+    if (firstUnreadIndex <= 0) {
+      try {
+        let { messages: msgs, nextCursor } = await api.messages.list(activeChannelId);
+        while (nextCursor && !msgs.some((m) => m.createdAt <= unreadSince.lastReadAt)) {
+          const older = await api.messages.list(activeChannelId, nextCursor);
+          msgs = [...older.messages, ...msgs];
+          nextCursor = older.nextCursor;
+        }
+        firstUnread = msgs.find(isUnread) ?? firstUnread;
+      } catch (err) {
+        console.error('Failed to find the first unread message:', err);
+      }
+    }
+
+    if (firstUnread) {
+      jumpToMessage(activeCommunityId, activeChannelId, firstUnread.id, firstUnread.createdAt);
+    }
+  };
+
+  const historyMessage = channelMessages.find((m) => m.id === historyMessageId && !m.deletedAt);
+
+  // Members whose keys changed must be reviewed before the channel can be used
+  const changedMembers = communityMembers.filter((m) => trustStates[m.id] === "changed");
+
   const typingNames = channelTypingUsers
     .map((id) => getMember(id)?.displayName)
     .filter(Boolean);
@@ -82,10 +312,100 @@ export function MessageList() {
         <span className="font-semibold text-text-primary">
           {activeChannel?.name}
         </span>
+        <div className="ml-auto flex items-center gap-3">
+          <ChannelTimer />
+          <div className="relative">
+            <button
+              onClick={() => setShowPins(!showPins)}
+              className={`text-sm ${showPins ? "text-text-primary" : "text-text-muted hover:text-text-primary"}`}
+              title="Pinned messages"
+            >
+              📌{channelPins.length > 0 && ` ${channelPins.length}`}
+            </button>
+            {showPins && <PinsPanel onClose={() => setShowPins(false)} />}
+          </div>
+          <button
+            onClick={() => setShowMentions(true)}
+            className="text-text-muted hover:text-text-primary font-semibold"
+            title="Mentions"
+          >
+            @
+          </button>
+          <button
+            onClick={() => setShowSearch(true)}
+            className="text-text-muted hover:text-text-primary"
+            title="Search messages"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M17 11a6 6 0 11-12 0 6 6 0 0112 0z" />
+            </svg>
+          </button>
+        </div>
       </div>
 
+      {showUnreadBar && unreadSince?.channelId === activeChannelId && (
+        <div className="flex items-center gap-3 bg-accent-primary text-white text-sm px-4 py-1">
+          <span>
+            {unreadSince.count} new message{unreadSince.count === 1 ? "" : "s"} since{" "}
+            {new Date(unreadSince.lastReadAt).toLocaleString()}
+          </span>
+          <button onClick={jumpToFirstUnread} className="ml-auto font-semibold hover:underline">
+            Jump to first unread
+          </button>
+          <button onClick={() => setShowUnreadBar(false)} className="hover:underline" title="Dismiss">
+            ✕
+          </button>
+        </div>
+      )}
+
+      {jumpError && (
+        <div className="flex items-center gap-3 bg-background-secondary text-red-400 text-sm px-4 py-1">
+          <span>{jumpError}</span>
+          <button onClick={() => setJumpError("")} className="ml-auto hover:underline" title="Dismiss">
+            ✕
+          </button>
+        </div>
+      )}
+
+      {showSearch && <SearchPanel onClose={() => setShowSearch(false)} />}
+      {showMentions && <MentionsPanel onClose={() => setShowMentions(false)} />}
+
+      {historyMessage && (
+        <EditHistory message={historyMessage} onClose={() => setHistoryMessageId(null)} />
+      )}
+
+      {/* Key change warning - blocks the channel until reviewed */}
+      {changedMembers.length > 0 && (
+        <div className="flex-1 flex items-center justify-center p-4">
+          <div className="bg-background-secondary rounded-lg p-6 max-w-md">
+            <h3 className="text-lg font-bold text-red-400 mb-2">Security keys changed</h3>
+            <p className="text-text-secondary text-sm mb-4">
+              The keys of these members no longer match the ones you first saw. Review and
+              accept each change before continuing. Until then, they won't receive new keys.
+            </p>
+            <div className="space-y-2">
+              {changedMembers.map((member) => (
+                <div key={member.id} className="flex items-center justify-between bg-background-tertiary rounded px-3 py-2">
+                  <span className="text-text-primary">{member.displayName}</span>
+                  <button
+                    onClick={() => setReviewMember(member)}
+                    className="text-sm text-accent-primary hover:underline"
+                  >
+                    Review
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {reviewMember && (
+        <SafetyNumber member={reviewMember} onClose={() => setReviewMember(null)} />
+      )}
+
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4">
+      <div className={`flex-1 overflow-y-auto p-4 ${changedMembers.length > 0 ? "hidden" : ""}`}>
         {channelMessages.length === 0 ? (
           <div className="text-center text-text-muted py-8">
             <div className="text-4xl mb-4">#</div>
@@ -97,48 +417,171 @@ export function MessageList() {
         ) : (
           channelMessages.map((message, index) => {
             const sender = getMember(message.senderId);
+
+            if (message.notice) {
+              const { retentionSeconds } = message.notice;
+              return (
+                <p key={message.id} className="text-center text-text-muted text-sm my-2">
+                  ⏱ {sender?.displayName || "Someone"}{" "}
+                  {retentionSeconds
+                    ? `set messages to disappear after ${formatRetention(retentionSeconds)}`
+                    : "turned off disappearing messages"}
+                </p>
+              );
+            }
+
             const prevMessage = channelMessages[index - 1];
             const showHeader =
               !prevMessage ||
+              !!prevMessage.notice ||
               prevMessage.senderId !== message.senderId ||
               new Date(message.createdAt).getTime() -
                 new Date(prevMessage.createdAt).getTime() >
                 5 * 60 * 1000;
 
+            const canEdit =
+              message.senderId === user?.id &&
+              !message.deletedAt &&
+              message.decrypted?.status === "verified" &&
+              !!message.decrypted.content;
+            const canDelete = !message.deletedAt && (message.senderId === user?.id || isModerator);
+            const isEditing = editing?.messageId === message.id && !message.deletedAt;
+            const isPinned = channelPins.some((p) => p.messageId === message.id);
+            const mentionsMe =
+              !!user && message.senderId !== user.id && !message.deletedAt && isMentioned(message, user.id);
+
             return (
-              <div
-                key={message.id}
-                className={`flex gap-4 hover:bg-background-primary/30 px-2 py-0.5 rounded ${
-                  showHeader ? "mt-4" : ""
-                }`}
-              >
-                {showHeader ? (
-                  <div className="w-10 h-10 rounded-full bg-accent-primary flex-shrink-0 flex items-center justify-center text-white font-medium">
-                    {sender?.displayName?.charAt(0).toUpperCase() || "?"}
-                  </div>
-                ) : (
-                  <div className="w-10 flex-shrink-0" />
-                )}
-                <div className="flex-1 min-w-0">
-                  {showHeader && (
-                    <div className="flex items-baseline gap-2">
-                      <span className="font-medium text-text-primary hover:underline cursor-pointer">
-                        {sender?.displayName || "Unknown"}
-                      </span>
-                      <span className="text-xs text-text-muted">
-                        {formatTime(message.createdAt)}
-                      </span>
+              <Fragment key={message.id}>
+                {index === firstUnreadIndex && <NewMessagesDivider />}
+                <div
+                  id={`message-${message.id}`}
+                  className={`group relative flex gap-4 hover:bg-background-primary/30 px-2 py-0.5 rounded ${
+                    showHeader ? "mt-4" : ""
+                  } ${message.id === highlightedMessageId ? "bg-accent-primary/10" : ""} ${
+                    mentionsMe ? "bg-yellow-500/10 border-l-2 border-yellow-500" : ""
+                  }`}
+                >
+                  {!message.deletedAt && !isEditing && (
+                    <div className="absolute right-2 -top-3 hidden group-hover:flex bg-background-secondary rounded shadow">
+                      <button
+                        onClick={() => setPickerMessageId(pickerMessageId === message.id ? null : message.id)}
+                        className="px-2 py-1 text-xs text-text-muted hover:text-text-primary"
+                      >
+                        React
+                      </button>
+                      <button
+                        onClick={() => setReplyingTo(message.id)}
+                        className="px-2 py-1 text-xs text-text-muted hover:text-text-primary"
+                      >
+                        Reply
+                      </button>
+                      <button
+                        onClick={() => openThread(message.id)}
+                        className="px-2 py-1 text-xs text-text-muted hover:text-text-primary"
+                      >
+                        Thread
+                      </button>
+                      {isModerator && (
+                        <button
+                          onClick={() => handleTogglePin(message.id, isPinned)}
+                          className="px-2 py-1 text-xs text-text-muted hover:text-text-primary"
+                        >
+                          {isPinned ? "Unpin" : "Pin"}
+                        </button>
+                      )}
+                      {canEdit && (
+                        <button
+                          onClick={() => startEditing(message.id, message.decrypted!.content!.text)}
+                          className="px-2 py-1 text-xs text-text-muted hover:text-text-primary"
+                        >
+                          Edit
+                        </button>
+                      )}
+                      {canDelete && (
+                        <button
+                          onClick={() => handleDelete(message.id)}
+                          className="px-2 py-1 text-xs text-text-muted hover:text-red-400"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {pickerMessageId === message.id && !message.deletedAt && (
+                    <ReactionPicker messageId={message.id} onClose={() => setPickerMessageId(null)} />
+                  )}
+                  {showHeader ? (
+                    <div className="w-10 h-10 rounded-full bg-accent-primary flex-shrink-0 flex items-center justify-center text-white font-medium">
+                      {sender?.displayName?.charAt(0).toUpperCase() || "?"}
                     </div>
+                  ) : (
+                    <div className="w-10 flex-shrink-0" />
                   )}
-                  <p className="text-text-primary break-words">
-                    {message.plaintext || message.ciphertext}
-                  </p>
+                  <div className="flex-1 min-w-0">
+                    {showHeader && (
+                      <div className="flex items-baseline gap-2">
+                        <span className="font-medium text-text-primary hover:underline cursor-pointer">
+                          {sender?.displayName || "Unknown"}
+                        </span>
+                        <span className="text-xs text-text-muted">
+                          {formatTime(message.createdAt)}
+                        </span>
+                      </div>
+                    )}
+                    {isPinned && <p className="text-xs text-text-muted">📌 Pinned</p>}
+                    {message.replyToId && <ReplyQuote messageId={message.replyToId} />}
+                    {message.deletedAt ? (
+                      <p className="text-text-muted italic">[Message deleted]</p>
+                    ) : isEditing ? (
+                      <form onSubmit={(e) => handleEditSubmit(e, message)} className="my-1">
+                        <input
+                          type="text"
+                          value={editing.text}
+                          onChange={(e) => setEditing({ messageId: message.id, text: e.target.value })}
+                          onKeyDown={(e) => e.key === "Escape" && setEditing(null)}
+                          className="w-full bg-background-tertiary text-text-primary rounded px-3 py-2 outline-none focus:ring-2 focus:ring-accent-primary"
+                          autoFocus
+                        />
+                        <p className="text-xs text-text-muted mt-1">
+                          {editError ? (
+                            <span className="text-red-400">Not saved: {editError}</span>
+                          ) : (
+                            "Escape to cancel, Enter to save"
+                          )}
+                        </p>
+                      </form>
+                    ) : (
+                      <MessageBody decrypted={message.decrypted}>
+                        {message.editedAt && (
+                          <button
+                            onClick={() => setHistoryMessageId(message.id)}
+                            className="text-xs text-text-muted hover:underline ml-1"
+                            title="Show edit history"
+                          >
+                            (edited)
+                          </button>
+                        )}
+                      </MessageBody>
+                    )}
+                    {!message.deletedAt && (
+                      <ReactionPills messageId={message.id} reactions={message.reactions ?? []} />
+                    )}
+                    {message.thread && message.thread.replyCount > 0 && (
+                      <ThreadPreview
+                        thread={message.thread}
+                        senderName={getMember(message.thread.lastReply?.senderId ?? "")?.displayName}
+                        onOpen={() => openThread(message.id)}
+                      />
+                    )}
+                  </div>
                 </div>
-              </div>
+              </Fragment>
             );
           })
         )}
 
+        {activeChannelId && <FailedMessages channelId={activeChannelId} />}
+
         {/* Typing indicator */}
         {typingNames.length > 0 && (
           <div className="text-text-muted text-sm px-2 py-2">
@@ -156,3 +599,120 @@ export function MessageList() {
     </div>
   );
 }
+
+/**
+ * Decrypt a page of channel messages and verify their senders, along with thread previews
+ */
+async function decryptPage(messages: Awaited<ReturnType<typeof api.messages.list>>["messages"]) {
+  return await Promise.all(
+    messages.map(async (m) => ({
+      ...m,
+      decrypted: await decryptChannelMessage(m),
+      thread: m.thread && await decryptThread(m.channelId, m.thread),
+    }))
+  );
+}
+
+/**
+ * Where the messages that arrived since we last read the channel start
+ */
+function NewMessagesDivider() {
+  return (
+    <div className="flex items-center gap-2 my-2 text-xs font-semibold text-red-400">
+      <div className="flex-1 h-px bg-red-400" />
+      New messages
+      <div className="flex-1 h-px bg-red-400" />
+    </div>
+  );
+}
+
+/**
+ * Reply count and last reply of a thread, under its root message
+ */
+function ThreadPreview({ thread, senderName, onOpen }: {
+  thread: ThreadInfo;
+  senderName?: string;
+  onOpen: () => void;
+}) {
+  const { lastReply } = thread;
+  return (
+    <button
+      onClick={onOpen}
+      className="flex items-baseline gap-2 mt-1 text-sm max-w-full text-left hover:underline"
+    >
+      <span className="text-accent-primary font-medium flex-shrink-0">
+        {thread.replyCount} {thread.replyCount === 1 ? "reply" : "replies"}
+      </span>
+      {lastReply && (
+        <span className="text-text-muted truncate">
+          {senderName || "Unknown"}: {messagePreview(lastReply.decrypted)}
+        </span>
+      )}
+      {thread.archivedAt && <span className="text-xs text-text-muted flex-shrink-0">Archived</span>}
+    </button>
+  );
+}
+
+// Children, e.g. an "(edited)" marker, follow the text
+export function MessageBody({ decrypted, children }: { decrypted?: DecryptedMessage; children?: ReactNode }) {
+  const [revealed, setRevealed] = useState(false);
+  const communityMembers = useChatStore((state) =>
+    state.activeCommunityId ? state.members[state.activeCommunityId] : undefined
+  );
+
+  if (!decrypted || decrypted.status === "failed") {
+    return <p className="text-text-muted italic">[Unable to decrypt message]</p>;
+  }
+
+  if (decrypted.status === "pending") {
+    return (
+      <p className="text-text-muted italic" title="Asked the sender's device to share its key with this device">
+        Waiting for the sender's key...
+      </p>
+    );
+  }
+
+  // Forged messages have no content; unsigned ones from before signatures can be shown on request
+  if (decrypted.status === "unverified" && (!decrypted.content || !revealed)) {
+    return (
+      <p className="text-yellow-500 text-sm">
+        ⚠ Unverified sender - this message may not be from who it claims.{" "}
+        {decrypted.content && (
+          <button onClick={() => setRevealed(true)} className="underline hover:text-yellow-400">
+            Show anyway
+          </button>
+        )}
+      </p>
+    );
+  }
+
+  if (!decrypted.content) {
+    return <p className="text-text-muted italic">[This message type isn't supported yet]</p>;
+  }
+
+  const { text, attachments } = decrypted.content;
+
+  return (
+    <div className={decrypted.status === "unverified" ? "opacity-70" : ""}>
+      {text ? (
+        <p className="text-text-primary break-words">
+          {splitMentions(text, (communityMembers ?? []).map((m) => m.displayName)).map((part, i) =>
+            part.isMention ? (
+              <span key={i} className="bg-accent-primary/20 text-accent-primary rounded px-0.5">
+                {part.text}
+              </span>
+            ) : (
+              part.text
+            )
+          )}
+          {children}
+        </p>
+      ) : (
+        children
+      )}
+      {attachments?.map((attachment) => (
+        <AttachmentView key={attachment.id} attachment={attachment} />
+      ))}
+    </div>
+  );
+}
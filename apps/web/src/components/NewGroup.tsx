@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { useChatStore, listKnownUsers } from "../stores/chat";
+import { useAuthStore } from "../stores/auth";
+import { api } from "../lib/api";
+
+// Including ourselves, as enforced by the server
+const MAX_GROUP_PARTICIPANTS = 10;
+
+export function NewGroup({ onClose }: { onClose: () => void }) {
+  const user = useAuthStore((state) => state.user);
+  const { members, conversations, addConversation, setActiveConversation } = useChatStore();
+  const [name, setName] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [error, setError] = useState("");
+
+  const knownUsers = listKnownUsers(members, conversations).filter((u) => u.id !== user?.id);
+
+  const toggle = (userId: string) => {
+    const next = new Set(selected);
+    if (next.has(userId)) {
+      next.delete(userId);
+    } else if (next.size < MAX_GROUP_PARTICIPANTS - 1) {
+      next.add(userId);
+    }
+    setSelected(next);
+  };
+
+  const handleCreate = async () => {
+    if (selected.size === 0) return;
+
+    setError("");
+    try {
+      const { conversation } = await api.dms.createGroup({
+        name: name.trim() || undefined,
+        userIds: [...selected],
+      });
+      addConversation(conversation);
+      setActiveConversation(conversation.id);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create group");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-background-secondary rounded-lg p-6 w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold text-text-primary mb-4">New Group Conversation</h2>
+        <input
+          type="text"
+          placeholder="Group name (optional)"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="w-full bg-background-tertiary text-text-primary rounded px-3 py-2 mb-4 outline-none focus:ring-2 focus:ring-accent-primary"
+          autoFocus
+        />
+
+        <p className="text-text-secondary text-sm mb-2">
+          Choose up to {MAX_GROUP_PARTICIPANTS - 1} people from your communities and conversations.
+        </p>
+        <div className="max-h-64 overflow-y-auto space-y-1 mb-4">
+          {knownUsers.length === 0 ? (
+            <p className="text-text-muted text-sm">Open a community to see its members here.</p>
+          ) : (
+            knownUsers.map((knownUser) => (
+              <label
+                key={knownUser.id}
+                className="flex items-center gap-3 px-2 py-1 rounded hover:bg-background-primary/50 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.has(knownUser.id)}
+                  onChange={() => toggle(knownUser.id)}
+                />
+                <span className="text-text-primary">{knownUser.displayName}</span>
+              </label>
+            ))
+          )}
+        </div>
+
+        {error && <p className="text-red-400 text-sm mb-2">{error}</p>}
+
+        <div className="flex gap-2 justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-text-secondary hover:underline">
+            Cancel
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={selected.size === 0}
+            className="px-4 py-2 bg-accent-primary hover:bg-accent-hover text-white rounded disabled:opacity-50"
+          >
+            Create
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { useChatStore } from "../stores/chat";
+import { useAuthStore } from "../stores/auth";
+import { api, Pin } from "../lib/api";
+import { decryptChannelMessage, DecryptedMessage } from "../lib/channelCrypto";
+import { messagePreview } from "./ReplyQuote";
+
+interface PinnedMessage extends Pin {
+  senderId: string;
+  createdAt: string;
+  decrypted: DecryptedMessage;
+}
+
+/**
+ * The pinned messages of the active channel, under the channel header.
+ * Clicking one jumps to it; moderators can unpin them.
+ */
+export function PinsPanel({ onClose }: { onClose: () => void }) {
+  const user = useAuthStore((state) => state.user);
+  const { communities, members, pins, activeCommunityId, activeChannelId, jumpToMessage } = useChatStore();
+  const [pinned, setPinned] = useState<PinnedMessage[] | null>(null);
+  const [error, setError] = useState("");
+
+  const communityMembers = activeCommunityId ? members[activeCommunityId] || [] : [];
+  // Only the owner moderates a community for now
+  const isModerator = communities.find((c) => c.id === activeCommunityId)?.createdBy === user?.id;
+  // Reload whenever a message is pinned or unpinned while the panel is open
+  const pinIds = activeChannelId ? (pins[activeChannelId] || []).map((p) => p.messageId).join(",") : "";
+
+  useEffect(() => {
+    if (!activeChannelId) return;
+
+    let cancelled = false;
+    const loadPins = async () => {
+      try {
+        const { pins } = await api.channels.listPins(activeChannelId);
+        const decrypted = await Promise.all(
+          pins.map(async ({ message, ...pin }) => ({
+            ...pin,
+            senderId: message.senderId,
+            createdAt: message.createdAt,
+            decrypted: await decryptChannelMessage(message),
+          }))
+        );
+        if (!cancelled) setPinned(decrypted);
+      } catch (err) {
+        console.error('Failed to load pinned messages:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load pinned messages");
+      }
+    };
+
+    loadPins();
+    return () => {
+      cancelled = true;
+    };
+  }, [activeChannelId, pinIds]);
+
+  const handleSelect = (pin: PinnedMessage) => {
+    if (!activeCommunityId || !activeChannelId) return;
+
+    jumpToMessage(activeCommunityId, activeChannelId, pin.messageId, pin.createdAt);
+    onClose();
+  };
+
+  // Everyone watching the channel, us included, is told through message:unpinned
+  const handleUnpin = async (messageId: string) => {
+    if (!activeChannelId) return;
+
+    setError("");
+    try {
+      await api.channels.unpin(activeChannelId, messageId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to unpin message");
+    }
+  };
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-96 bg-background-secondary rounded-lg shadow-lg z-40">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-background-tertiary">
+        <h3 className="font-semibold text-text-primary">Pinned messages</h3>
+        <button onClick={onClose} className="text-text-muted hover:text-text-primary">
+          ✕
+        </button>
+      </div>
+
+      {error && <p className="text-red-400 text-sm px-4 pt-2">{error}</p>}
+
+      <div className="max-h-96 overflow-y-auto p-2 space-y-1">
+        {pinned === null ? (
+          <p className="text-text-muted text-sm text-center py-4">Loading...</p>
+        ) : pinned.length === 0 ? (
+          <p className="text-text-muted text-sm text-center py-4">
+            No pinned messages yet.{isModerator && " Pin important messages to keep them here."}
+          </p>
+        ) : (
+          pinned.map((pin) => (
+            <div key={pin.messageId} className="group flex items-start gap-2 px-2 py-2 rounded hover:bg-background-primary/50">
+              <button onClick={() => handleSelect(pin)} className="flex-1 min-w-0 text-left">
+                <div className="flex items-baseline gap-2 text-sm">
+                  <span className="font-medium text-text-primary">
+                    {communityMembers.find((m) => m.id === pin.senderId)?.displayName || "Unknown"}
+                  </span>
+                  <span className="text-xs text-text-muted ml-auto">
+                    {new Date(pin.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                <p className="text-text-secondary text-sm break-words">{messagePreview(pin.decrypted)}</p>
+              </button>
+              {isModerator && (
+                <button
+                  onClick={() => handleUnpin(pin.messageId)}
+                  className="text-xs text-text-muted hover:text-red-400 hidden group-hover:block"
+                >
+                  Unpin
+                </button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { useChatStore } from "../stores/chat";
+import { useAuthStore } from "../stores/auth";
+import { api, Reaction } from "../lib/api";
+import { wsClient } from "../lib/websocket";
+
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🎉"];
+
+type CustomEmoji = { id: string; name: string; fileUrl: string };
+
+function toReaction(emoji: string | CustomEmoji) {
+  return typeof emoji === "string" ? { emoji } : { emojiId: emoji.id };
+}
+
+function EmojiImage({ emoji }: { emoji: CustomEmoji }) {
+  return <img src={emoji.fileUrl} alt={`:${emoji.name}:`} className="w-4 h-4 inline-block object-contain" />;
+}
+
+/**
+ * The reactions to a message. Clicking one adds ours, or takes it back.
+ */
+export function ReactionPills({ messageId, reactions }: { messageId: string; reactions: Reaction[] }) {
+  const user = useAuthStore((state) => state.user);
+  const { members, activeCommunityId } = useChatStore();
+  const communityMembers = activeCommunityId ? members[activeCommunityId] || [] : [];
+
+  if (reactions.length === 0) return null;
+
+  const handleToggle = (reaction: Reaction) => {
+    const emoji = toReaction(reaction.customEmoji ?? reaction.emoji!);
+    if (user && reaction.userIds.includes(user.id)) {
+      wsClient.removeReaction(messageId, emoji);
+    } else {
+      wsClient.addReaction(messageId, emoji);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {reactions.map((reaction) => {
+        const reacted = !!user && reaction.userIds.includes(user.id);
+        const names = reaction.userIds.map(
+          (id) => communityMembers.find((m) => m.id === id)?.displayName || "Unknown"
+        );
+        const label = reaction.customEmoji ? `:${reaction.customEmoji.name}:` : reaction.emoji;
+
+        return (
+          <button
+            key={reaction.customEmoji?.id ?? reaction.emoji}
+            onClick={() => handleToggle(reaction)}
+            title={`${names.join(", ")} reacted with ${label}`}
+            className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-sm border ${
+              reacted
+                ? "bg-accent-primary/20 border-accent-primary text-text-primary"
+                : "bg-background-secondary border-transparent text-text-secondary hover:border-text-muted"
+            }`}
+          >
+            {reaction.customEmoji ? <EmojiImage emoji={reaction.customEmoji} /> : reaction.emoji}
+            <span className="text-xs">{reaction.count}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * A few common emojis and the community's custom ones to react with
+ */
+export function ReactionPicker({ messageId, onClose }: { messageId: string; onClose: () => void }) {
+  const activeCommunityId = useChatStore((state) => state.activeCommunityId);
+  const [customEmojis, setCustomEmojis] = useState<CustomEmoji[]>([]);
+
+  useEffect(() => {
+    if (!activeCommunityId) return;
+
+    let cancelled = false;
+    api.emojis.list(activeCommunityId)
+      .then(({ emojis }) => {
+        if (!cancelled) setCustomEmojis(emojis);
+      })
+      .catch((err) => {
+        console.error('Failed to load emojis:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeCommunityId]);
+
+  const handlePick = (emoji: string | CustomEmoji) => {
+    wsClient.addReaction(messageId, toReaction(emoji));
+    onClose();
+  };
+
+  return (
+    <div className="absolute right-2 top-4 z-10 bg-background-secondary rounded shadow-lg p-2 w-56 flex flex-wrap gap-1">
+      {QUICK_REACTIONS.map((emoji) => (
+        <button
+          key={emoji}
+          onClick={() => handlePick(emoji)}
+          className="w-8 h-8 rounded hover:bg-background-primary/50 text-lg"
+        >
+          {emoji}
+        </button>
+      ))}
+      {customEmojis.map((emoji) => (
+        <button
+          key={emoji.id}
+          onClick={() => handlePick(emoji)}
+          title={`:${emoji.name}:`}
+          className="w-8 h-8 rounded hover:bg-background-primary/50 flex items-center justify-center"
+        >
+          <img src={emoji.fileUrl} alt={`:${emoji.name}:`} className="w-6 h-6 object-contain" />
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { useChatStore } from "../stores/chat";
+import { api, ApiError } from "../lib/api";
+import { decryptChannelMessage, DecryptedMessage } from "../lib/channelCrypto";
+
+interface QuotedMessage {
+  id: string;
+  channelId: string;
+  senderId: string;
+  createdAt: string;
+  decrypted?: DecryptedMessage;
+  deletedAt?: string | null;
+}
+
+// Quoted messages older than the loaded page, fetched once each
+const fetchedMessages = new Map<string, Promise<QuotedMessage | null>>();
+
+function fetchQuotedMessage(messageId: string): Promise<QuotedMessage | null> {
+  let quoted = fetchedMessages.get(messageId);
+
+  if (!quoted) {
+    quoted = (async () => {
+      try {
+        const { message } = await api.messages.get(messageId);
+        return { ...message, decrypted: await decryptChannelMessage(message) };
+      } catch (err) {
+        // Gone for good, e.g. expired; other failures can be retried
+        if (err instanceof ApiError && err.status === 404) return null;
+        fetchedMessages.delete(messageId);
+        throw err;
+      }
+    })();
+    fetchedMessages.set(messageId, quoted);
+  }
+
+  return quoted;
+}
+
+/**
+ * A message being replied to, from the active channel if it is loaded and
+ * fetched otherwise. Undefined while loading, null if it no longer exists.
+ */
+export function useQuotedMessage(messageId: string): QuotedMessage | null | undefined {
+  const loaded = useChatStore((state) =>
+    state.activeChannelId ? state.messages[state.activeChannelId]?.find((m) => m.id === messageId) : undefined
+  );
+  const [fetched, setFetched] = useState<QuotedMessage | null | undefined>(undefined);
+  const isLoaded = !!loaded;
+
+  useEffect(() => {
+    if (isLoaded) return;
+
+    let cancelled = false;
+    fetchQuotedMessage(messageId)
+      .then((quoted) => {
+        if (!cancelled) setFetched(quoted);
+      })
+      .catch((err) => {
+        console.error('Failed to load quoted message:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [messageId, isLoaded]);
+
+  return loaded ?? fetched;
+}
+
+/**
+ * One line standing in for a message's content, e.g. in a quote or preview
+ */
+export function messagePreview(decrypted?: DecryptedMessage): string {
+  if (!decrypted || decrypted.status === "failed") return "[Unable to decrypt message]";
+  if (decrypted.status === "pending") return "Waiting for this message...";
+
+  return decrypted.content?.text || (decrypted.content?.attachments?.length ? "Attachment" : "");
+}
+
+/**
+ * The message a reply refers to, shown above it. Clicking it jumps to the original.
+ */
+export function ReplyQuote({ messageId }: { messageId: string }) {
+  const { members, activeCommunityId, jumpToMessage } = useChatStore();
+  const quoted = useQuotedMessage(messageId);
+
+  const className = "flex items-center gap-1 text-xs text-text-muted max-w-full";
+
+  if (quoted === undefined) {
+    return <p className={className}>↩ ...</p>;
+  }
+
+  if (quoted === null || quoted.deletedAt) {
+    return (
+      <p className={`${className} italic`}>
+        ↩ {quoted ? "Original message deleted" : "Original message unavailable"}
+      </p>
+    );
+  }
+
+  const sender = activeCommunityId
+    ? members[activeCommunityId]?.find((m) => m.id === quoted.senderId)
+    : undefined;
+
+  return (
+    <button
+      onClick={() => activeCommunityId && jumpToMessage(activeCommunityId, quoted.channelId, quoted.id, quoted.createdAt)}
+      className={`${className} text-left hover:text-text-primary`}
+    >
+      ↩ <span className="font-medium flex-shrink-0">{sender?.displayName || "Unknown"}</span>
+      <span className="truncate">{messagePreview(quoted.decrypted)}</span>
+    </button>
+  );
+}
@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { useAuthStore } from "../stores/auth";
+import { useChatStore } from "../stores/chat";
+import { useTrustStore } from "../stores/trust";
+import { acceptKeyChange, getSafetyNumber, setVerified } from "../lib/trust";
+import { redistributeSenderKeys } from "../lib/channelCrypto";
+
+export function SafetyNumber({
+  member,
+  onClose,
+}: {
+  member: { id: string; displayName: string };
+  onClose: () => void;
+}) {
+  const user = useAuthStore((state) => state.user);
+  const { channels, members, conversations, activeCommunityId, activeConversationId } = useChatStore();
+  const trustState = useTrustStore((state) => state.states[member.id] ?? "unverified");
+  const [safetyNumber, setSafetyNumber] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    setSafetyNumber(null);
+    getSafetyNumber(user.id, member.id)
+      .then(setSafetyNumber)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to compute safety number"));
+  }, [user, member.id, trustState]);
+
+  const handleAccept = async () => {
+    setBusy(true);
+    setError("");
+    try {
+      await acceptKeyChange(member.id);
+
+      // Distribution to this member was paused, so share this community's keys again
+      if (activeCommunityId) {
+        await redistributeSenderKeys(
+          channels[activeCommunityId] || [],
+          members[activeCommunityId] || []
+        );
+      }
+
+      // Likewise for the open group conversation
+      const conversation = conversations.find((c) => c.id === activeConversationId);
+      if (conversation?.isGroup) {
+        await redistributeSenderKeys([conversation], conversation.participants, "conversation");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to accept new keys");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleVerify = async (verified: boolean) => {
+    setError("");
+    try {
+      await setVerified(member.id, verified);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update verification");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-background-secondary rounded-lg p-6 w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold text-text-primary mb-2">
+          Safety number with {member.displayName}
+        </h2>
+
+        {trustState === "changed" && (
+          <div className="bg-red-500/10 border border-red-500/40 rounded p-3 mb-4 text-sm text-text-secondary">
+            <p className="text-red-400 font-medium mb-1">
+              {member.id === user?.id ? "Your" : `${member.displayName}'s`} security keys have changed
+            </p>
+            <p>
+              This happens when a device is added or reinstalled, but it could also mean someone
+              is trying to intercept messages. No keys will be shared with them until you accept
+              the change. Compare the new safety number below before accepting.
+            </p>
+          </div>
+        )}
+
+        <p className="text-text-secondary text-sm mb-3">
+          Compare these numbers with {member.displayName} in person or over another trusted
+          channel. If they match, your conversation is end-to-end encrypted to the right devices.
+        </p>
+
+        <div className="bg-background-tertiary rounded p-4 mb-4 font-mono text-lg text-text-primary text-center leading-relaxed">
+          {safetyNumber ?? "Computing..."}
+        </div>
+
+        {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          {trustState === "changed" ? (
+            <button
+              onClick={handleAccept}
+              disabled={busy}
+              className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded disabled:opacity-50"
+            >
+              {busy ? "Accepting..." : "Accept new keys"}
+            </button>
+          ) : trustState === "verified" ? (
+            <button
+              onClick={() => handleVerify(false)}
+              className="px-4 py-2 text-text-secondary hover:underline"
+            >
+              Clear verification
+            </button>
+          ) : (
+            <button
+              onClick={() => handleVerify(true)}
+              disabled={!safetyNumber}
+              className="px-4 py-2 bg-accent-primary hover:bg-accent-hover text-white rounded disabled:opacity-50"
+            >
+              Mark as verified
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-text-secondary hover:underline"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import { useChatStore } from "../stores/chat";
+import { searchMessages, SearchResult } from "../lib/search";
+
+const SEARCH_DELAY_MS = 200;
+
+// Start of a day picked in a date input, in local time
+function startOfDay(value: string, addDays = 0): Date {
+  const date = new Date(`${value}T00:00`);
+  date.setDate(date.getDate() + addDays);
+  return date;
+}
+
+export function SearchPanel({ onClose }: { onClose: () => void }) {
+  const { activeCommunityId, channels, members, jumpToMessage, openThread } = useChatStore();
+  const [query, setQuery] = useState("");
+  const [channelId, setChannelId] = useState("");
+  const [senderId, setSenderId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const communityChannels = activeCommunityId ? channels[activeCommunityId] || [] : [];
+  const communityMembers = activeCommunityId ? members[activeCommunityId] || [] : [];
+  const channelIds = communityChannels.map((c) => c.id).join(",");
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = window.setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const found = await searchMessages(query, {
+          channelIds: channelId ? [channelId] : channelIds.split(","),
+          senderId: senderId || undefined,
+          after: from ? startOfDay(from) : undefined,
+          before: to ? startOfDay(to, 1) : undefined,
+        });
+        if (!cancelled) setResults(found);
+      } catch (err) {
+        console.error('Failed to search messages:', err);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, channelId, senderId, from, to, channelIds]);
+
+  const handleSelect = (result: SearchResult) => {
+    if (!activeCommunityId) return;
+
+    // A reply is shown in its thread, next to the thread's root
+    if (result.threadId) {
+      jumpToMessage(activeCommunityId, result.channelId, result.threadId);
+      openThread(result.threadId);
+    } else {
+      jumpToMessage(activeCommunityId, result.channelId, result.id, result.createdAt);
+    }
+    onClose();
+  };
+
+  const selectClassName =
+    "bg-background-tertiary text-text-primary rounded px-2 py-1 text-sm outline-none focus:ring-2 focus:ring-accent-primary";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-start justify-center pt-24 z-50" onClick={onClose}>
+      <div className="bg-background-secondary rounded-lg p-6 w-full max-w-2xl" onClick={(e) => e.stopPropagation()}>
+        <input
+          type="text"
+          placeholder="Search messages"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="w-full bg-background-tertiary text-text-primary rounded px-3 py-2 mb-3 outline-none focus:ring-2 focus:ring-accent-primary"
+          autoFocus
+        />
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          <select value={channelId} onChange={(e) => setChannelId(e.target.value)} className={selectClassName}>
+            <option value="">All channels</option>
+            {communityChannels.map((channel) => (
+              <option key={channel.id} value={channel.id}>
+                #{channel.name}
+              </option>
+            ))}
+          </select>
+          <select value={senderId} onChange={(e) => setSenderId(e.target.value)} className={selectClassName}>
+            <option value="">Anyone</option>
+            {communityMembers.map((member) => (
+              <option key={member.id} value={member.id}>
+                {member.displayName}
+              </option>
+            ))}
+          </select>
+          <label className="text-text-muted text-sm flex items-center gap-1">
+            From
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={selectClassName} />
+          </label>
+          <label className="text-text-muted text-sm flex items-center gap-1">
+            To
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={selectClassName} />
+          </label>
+        </div>
+
+        <div className="max-h-96 overflow-y-auto space-y-1">
+          {results.map((result) => (
+            <button
+              key={result.id}
+              onClick={() => handleSelect(result)}
+              className="w-full text-left px-3 py-2 rounded hover:bg-background-primary/50"
+            >
+              <div className="flex items-baseline gap-2 text-sm">
+                <span className="font-medium text-text-primary">
+                  {communityMembers.find((m) => m.id === result.senderId)?.displayName || "Unknown"}
+                </span>
+                <span className="text-text-muted">
+                  #{communityChannels.find((c) => c.id === result.channelId)?.name}
+                  {result.threadId && " · in thread"}
+                </span>
+                <span className="text-xs text-text-muted ml-auto">
+                  {new Date(result.createdAt).toLocaleString()}
+                </span>
+              </div>
+              <p className="text-text-secondary text-sm truncate">{result.text}</p>
+            </button>
+          ))}
+
+          {query.trim() && !isSearching && results.length === 0 && (
+            <p className="text-text-muted text-sm text-center py-4">
+              No messages found. Older messages become searchable once this device has indexed them.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
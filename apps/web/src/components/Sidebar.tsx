@@ -1,13 +1,26 @@
 import { useState } from "react";
-import { useChatStore } from "../stores/chat";
+import { useChatStore, getConversationName } from "../stores/chat";
 import { useAuthStore } from "../stores/auth";
 import { api } from "../lib/api";
+import { NewGroup } from "./NewGroup";
 
 export function Sidebar() {
   const user = useAuthStore((state) => state.user);
-  const { communities, activeCommunityId, setActiveCommunity, setActiveChannel, addCommunity } = useChatStore();
+  const {
+    communities,
+    conversations,
+    unreadConversations,
+    readStates,
+    activeCommunityId,
+    activeConversationId,
+    setActiveCommunity,
+    setActiveChannel,
+    setActiveConversation,
+    addCommunity,
+  } = useChatStore();
   const [showCreate, setShowCreate] = useState(false);
   const [showJoin, setShowJoin] = useState(false);
+  const [showNewGroup, setShowNewGroup] = useState(false);
   const [newName, setNewName] = useState("");
   const [inviteCode, setInviteCode] = useState("");
 
@@ -16,7 +29,6 @@ export function Sidebar() {
 
     const { community } = await api.communities.create({
       name: newName.trim(),
-      userId: user.id,
     });
 
     addCommunity(community);
@@ -29,7 +41,7 @@ export function Sidebar() {
     if (!user || !inviteCode.trim()) return;
 
     try {
-      const { community } = await api.communities.join(inviteCode.trim(), user.id);
+      const { community } = await api.communities.join(inviteCode.trim());
       addCommunity(community);
       setInviteCode("");
       setShowJoin(false);
@@ -41,28 +53,86 @@ export function Sidebar() {
 
   return (
     <div className="w-[72px] bg-background-tertiary flex flex-col items-center py-3 gap-2">
+      {/* Direct messages */}
+      {conversations.map((conversation) => {
+        const others = conversation.participants.filter((p) => p.id !== user?.id);
+        const name = getConversationName(conversation, user?.id);
+        const avatarUrl = conversation.isGroup ? undefined : others[0]?.avatarUrl;
+        const unread = unreadConversations[conversation.id] || 0;
+
+        return (
+          <button
+            key={conversation.id}
+            onClick={() => setActiveConversation(conversation.id)}
+            className={`relative w-12 h-12 rounded-full flex items-center justify-center text-white font-semibold transition-all ${
+              activeConversationId === conversation.id
+                ? "bg-accent-primary rounded-2xl"
+                : "bg-background-primary hover:bg-accent-primary hover:rounded-2xl"
+            }`}
+            title={name}
+          >
+            {avatarUrl ? (
+              <img src={avatarUrl} alt="" className="w-full h-full rounded-full object-cover" />
+            ) : (
+              name.charAt(0).toUpperCase()
+            )}
+            {unread > 0 && (
+              <span className="absolute -bottom-1 -right-1 min-w-[20px] h-5 px-1 rounded-full bg-red-500 border-2 border-background-tertiary text-xs leading-4 text-white">
+                {unread > 99 ? "99+" : unread}
+              </span>
+            )}
+          </button>
+        );
+      })}
+
+      {/* New group conversation */}
+      <button
+        onClick={() => setShowNewGroup(true)}
+        className="w-12 h-12 rounded-full bg-background-primary hover:bg-accent-primary hover:rounded-2xl flex items-center justify-center text-text-muted hover:text-white transition-all text-xl"
+        title="New Group Conversation"
+      >
+        @
+      </button>
+
+      <div className="w-8 h-[2px] bg-background-primary rounded-full my-1" />
+
       {/* Communities */}
-      {communities.map((community) => (
-        <button
-          key={community.id}
-          onClick={() => {
-            setActiveCommunity(community.id);
-            setActiveChannel(null);
-          }}
-          className={`w-12 h-12 rounded-full flex items-center justify-center text-white font-semibold transition-all ${
-            activeCommunityId === community.id
-              ? "bg-accent-primary rounded-2xl"
-              : "bg-background-primary hover:bg-accent-primary hover:rounded-2xl"
-          }`}
-          title={community.name}
-        >
-          {community.iconUrl ? (
-            <img src={community.iconUrl} alt="" className="w-full h-full rounded-full object-cover" />
-          ) : (
-            community.name.charAt(0).toUpperCase()
-          )}
-        </button>
-      ))}
+      {communities.map((community) => {
+        const communityReadStates = Object.values(readStates).filter((r) => r.communityId === community.id);
+        const unread = communityReadStates.some((r) => r.unreadCount > 0);
+        const mentions = communityReadStates.reduce((sum, r) => sum + r.mentionCount, 0);
+
+        return (
+          <button
+            key={community.id}
+            onClick={() => {
+              setActiveCommunity(community.id);
+              setActiveChannel(null);
+            }}
+            className={`relative w-12 h-12 rounded-full flex items-center justify-center text-white font-semibold transition-all ${
+              activeCommunityId === community.id
+                ? "bg-accent-primary rounded-2xl"
+                : "bg-background-primary hover:bg-accent-primary hover:rounded-2xl"
+            }`}
+            title={community.name}
+          >
+            {/* Unread messages in any channel */}
+            {unread && activeCommunityId !== community.id && (
+              <span className="absolute -left-3 w-1 h-2 rounded-r-full bg-white" />
+            )}
+            {community.iconUrl ? (
+              <img src={community.iconUrl} alt="" className="w-full h-full rounded-full object-cover" />
+            ) : (
+              community.name.charAt(0).toUpperCase()
+            )}
+            {mentions > 0 && (
+              <span className="absolute -bottom-1 -right-1 min-w-[20px] h-5 px-1 rounded-full bg-red-500 border-2 border-background-tertiary text-xs leading-4 text-white">
+                {mentions > 99 ? "99+" : mentions}
+              </span>
+            )}
+          </button>
+        );
+      })}
 
       {/* Divider */}
       <div className="w-8 h-[2px] bg-background-primary rounded-full my-1" />
@@ -85,6 +155,8 @@ export function Sidebar() {
         ↗
       </button>
 
+      {showNewGroup && <NewGroup onClose={() => setShowNewGroup(false)} />}
+
       {/* Create modal */}
       {showCreate && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={() => setShowCreate(false)}>
@@ -0,0 +1,155 @@
+import { useEffect, useRef, useState } from "react";
+import { useChatStore } from "../stores/chat";
+import { api } from "../lib/api";
+import { decryptChannelMessage } from "../lib/channelCrypto";
+import { decryptThread } from "../lib/threads";
+import { indexMessages } from "../lib/search";
+import { MessageBody } from "./MessageList";
+import { ReactionPills } from "./Reactions";
+import { MessageInput } from "./MessageInput";
+import { FailedMessages } from "./FailedMessages";
+
+type Message = ReturnType<typeof useChatStore.getState>["threadMessages"][number];
+
+async function decryptReplies(replies: Awaited<ReturnType<typeof api.messages.listThread>>["messages"]) {
+  const decrypted = await Promise.all(
+    replies.map(async (m) => ({ ...m, decrypted: await decryptChannelMessage(m) }))
+  );
+
+  indexMessages(decrypted).catch((err) => {
+    console.error('Failed to index messages:', err);
+  });
+  return decrypted;
+}
+
+/**
+ * A thread of the active channel, next to it: the root message, its replies
+ * and a box to reply in
+ */
+export function ThreadPanel({ threadId }: { threadId: string }) {
+  const { messages, members, activeChannelId, activeCommunityId, threadMessages, setThreadMessages, openThread } =
+    useChatStore();
+  const [loadedRoot, setLoadedRoot] = useState<Message | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const communityMembers = activeCommunityId ? members[activeCommunityId] || [] : [];
+
+  // The root as shown in the channel keeps up with edits and new replies
+  const root = (activeChannelId && messages[activeChannelId]?.find((m) => m.id === threadId)) || loadedRoot;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadedRoot(null);
+    setError("");
+
+    (async () => {
+      try {
+        const page = await api.messages.listThread(threadId);
+        const loaded = {
+          ...page.root,
+          decrypted: await decryptChannelMessage(page.root),
+          thread: page.root.thread && await decryptThread(page.root.channelId, page.root.thread),
+        };
+        const replies = await decryptReplies(page.messages);
+        if (cancelled) return;
+
+        setLoadedRoot(loaded);
+        setThreadMessages(replies);
+        setNextCursor(page.nextCursor);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load thread");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [threadId, setThreadMessages]);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [threadMessages.length]);
+
+  const handleLoadEarlier = async () => {
+    if (!nextCursor) return;
+
+    try {
+      const page = await api.messages.listThread(threadId, nextCursor);
+      const older = await decryptReplies(page.messages);
+
+      // Replies may have arrived while loading
+      setThreadMessages([...older, ...useChatStore.getState().threadMessages]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load replies");
+    }
+  };
+
+  const renderMessage = (message: Message) => (
+    <div key={message.id} className="px-4 py-2 hover:bg-background-primary/30">
+      <div className="flex items-baseline gap-2">
+        <span className="font-medium text-text-primary">
+          {communityMembers.find((m) => m.id === message.senderId)?.displayName || "Unknown"}
+        </span>
+        <span className="text-xs text-text-muted">{new Date(message.createdAt).toLocaleString()}</span>
+      </div>
+      {message.deletedAt ? (
+        <p className="text-text-muted italic">[Message deleted]</p>
+      ) : (
+        <>
+          <MessageBody decrypted={message.decrypted} />
+          <ReactionPills messageId={message.id} reactions={message.reactions ?? []} />
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <aside className="w-96 flex flex-col bg-background-secondary border-l border-background-tertiary">
+      <div className="h-12 px-4 flex items-center border-b border-background-tertiary">
+        <h2 className="font-semibold text-text-primary">Thread</h2>
+        <button
+          onClick={() => openThread(null)}
+          className="ml-auto text-text-muted hover:text-text-primary"
+          title="Close thread"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-2">
+        {error && <p className="text-red-400 text-sm px-4 mb-2">{error}</p>}
+
+        {root && renderMessage(root)}
+
+        <div className="flex items-center gap-2 px-4 my-2 text-xs text-text-muted">
+          <span>
+            {threadMessages.length} {threadMessages.length === 1 ? "reply" : "replies"}
+            {nextCursor && " shown"}
+          </span>
+          <div className="flex-1 h-px bg-background-tertiary" />
+        </div>
+
+        {root?.thread?.archivedAt && (
+          <p className="text-xs text-text-muted px-4 mb-2">
+            This thread was archived after a while without replies. Replying reopens it.
+          </p>
+        )}
+
+        {nextCursor && (
+          <button onClick={handleLoadEarlier} className="text-sm text-accent-primary hover:underline px-4 mb-2">
+            Load earlier replies
+          </button>
+        )}
+
+        {threadMessages.map(renderMessage)}
+        {root && <FailedMessages channelId={root.channelId} threadId={threadId} />}
+        <div ref={endRef} />
+      </div>
+
+      <MessageInput threadId={threadId} />
+    </aside>
+  );
+}
@@ -0,0 +1,294 @@
+import { useEffect, useState } from "react";
+import { api } from "../lib/api";
+import {
+  createKeyBackup,
+  refreshKeyBackup,
+  changeBackupPassphrase,
+  getKeyBackupStatus,
+} from "../lib/backup";
+
+interface Device {
+  id: string;
+  name: string;
+  lastSeenAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+export function UserSettings({ onClose }: { onClose: () => void }) {
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [linkCode, setLinkCode] = useState<{ code: string; expiresAt: string } | null>(null);
+  const [backup, setBackup] = useState<{ updatedAt: string } | null>(null);
+  const [backupForm, setBackupForm] = useState<"create" | "change" | null>(null);
+  const [currentPassphrase, setCurrentPassphrase] = useState("");
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [backupError, setBackupError] = useState("");
+  const [backupBusy, setBackupBusy] = useState(false);
+
+  const loadDevices = () => {
+    api.devices.list().then(({ devices }) => setDevices(devices));
+  };
+
+  const loadBackup = () => {
+    getKeyBackupStatus().then(setBackup);
+  };
+
+  useEffect(loadDevices, []);
+  useEffect(loadBackup, []);
+
+  const handleRename = async (deviceId: string) => {
+    if (!editName.trim()) return;
+
+    await api.devices.rename(deviceId, editName.trim());
+    setEditingId(null);
+    loadDevices();
+  };
+
+  const handleRevoke = async (device: Device) => {
+    if (!confirm(`Revoke "${device.name}"? It will be signed out and lose access to new messages.`)) {
+      return;
+    }
+
+    await api.devices.revoke(device.id);
+    loadDevices();
+  };
+
+  const handleCreateLinkCode = async () => {
+    setLinkCode(await api.devices.createLinkCode());
+  };
+
+  const closeBackupForm = () => {
+    setBackupForm(null);
+    setCurrentPassphrase("");
+    setPassphrase("");
+    setConfirmPassphrase("");
+    setBackupError("");
+  };
+
+  const handleBackupSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBackupError("");
+
+    if (passphrase !== confirmPassphrase) {
+      setBackupError("Passphrases don't match");
+      return;
+    }
+
+    setBackupBusy(true);
+    try {
+      if (backupForm === "change") {
+        await changeBackupPassphrase(currentPassphrase, passphrase);
+      } else {
+        await createKeyBackup(passphrase);
+      }
+      closeBackupForm();
+      loadBackup();
+    } catch (err) {
+      setBackupError(err instanceof Error ? err.message : "Backup failed");
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const handleBackupNow = async () => {
+    setBackupError("");
+    setBackupBusy(true);
+    try {
+      // This device may not hold the backup key (e.g. it was linked after the backup was made)
+      if (!(await refreshKeyBackup())) {
+        setBackupError("This device can't update the backup. Enter your passphrase to change it first.");
+        return;
+      }
+      loadBackup();
+    } catch (err) {
+      setBackupError(err instanceof Error ? err.message : "Backup failed");
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-background-secondary rounded-lg p-6 w-full max-w-lg" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold text-text-primary mb-4">Settings</h2>
+
+        {/* Devices */}
+        <h3 className="text-xs font-semibold text-text-muted uppercase mb-2">Devices</h3>
+        <div className="space-y-2 mb-4">
+          {devices.map((device) => (
+            <div key={device.id} className="flex items-center gap-2 bg-background-tertiary rounded px-3 py-2">
+              <div className="flex-1 min-w-0">
+                {editingId === device.id ? (
+                  <input
+                    type="text"
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleRename(device.id)}
+                    className="w-full bg-background-secondary text-text-primary rounded px-2 py-1 outline-none"
+                    autoFocus
+                  />
+                ) : (
+                  <div className="text-text-primary truncate">
+                    {device.name}
+                    {device.current && (
+                      <span className="ml-2 text-xs text-green-500">This device</span>
+                    )}
+                  </div>
+                )}
+                <div className="text-xs text-text-muted">
+                  Last active {new Date(device.lastSeenAt).toLocaleString()}
+                </div>
+              </div>
+
+              {editingId === device.id ? (
+                <button
+                  onClick={() => handleRename(device.id)}
+                  className="text-sm text-accent-primary hover:underline"
+                >
+                  Save
+                </button>
+              ) : (
+                <button
+                  onClick={() => {
+                    setEditingId(device.id);
+                    setEditName(device.name);
+                  }}
+                  className="text-sm text-text-secondary hover:underline"
+                >
+                  Rename
+                </button>
+              )}
+
+              {!device.current && (
+                <button
+                  onClick={() => handleRevoke(device)}
+                  className="text-sm text-red-400 hover:underline"
+                >
+                  Revoke
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {linkCode ? (
+          <div className="bg-background-tertiary rounded px-3 py-2 mb-4">
+            <p className="text-text-secondary text-sm mb-1">
+              On the new device, choose "Link device" at login and enter:
+            </p>
+            <code className="text-text-primary font-mono text-lg">{linkCode.code}</code>
+            <p className="text-xs text-text-muted mt-1">
+              Expires at {new Date(linkCode.expiresAt).toLocaleTimeString()}
+            </p>
+          </div>
+        ) : (
+          <button
+            onClick={handleCreateLinkCode}
+            className="px-4 py-2 bg-accent-primary hover:bg-accent-hover text-white rounded mb-4"
+          >
+            Link a new device
+          </button>
+        )}
+
+        {/* Key backup */}
+        <h3 className="text-xs font-semibold text-text-muted uppercase mb-2">Key backup</h3>
+        <p className="text-text-secondary text-sm mb-2">
+          {backup
+            ? `Your keys are backed up, encrypted with your passphrase. Last updated ${new Date(backup.updatedAt).toLocaleString()}.`
+            : "Your keys aren't backed up. If you lose all your devices, you won't be able to read your messages."}
+        </p>
+
+        {backupForm ? (
+          <form onSubmit={handleBackupSubmit} className="space-y-2 mb-4">
+            {backupForm === "change" && (
+              <input
+                type="password"
+                placeholder="Current passphrase"
+                value={currentPassphrase}
+                onChange={(e) => setCurrentPassphrase(e.target.value)}
+                className="w-full bg-background-tertiary text-text-primary rounded px-3 py-2 outline-none focus:ring-2 focus:ring-accent-primary"
+                required
+              />
+            )}
+            <input
+              type="password"
+              placeholder={backupForm === "change" ? "New passphrase" : "Passphrase (12+ characters)"}
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className="w-full bg-background-tertiary text-text-primary rounded px-3 py-2 outline-none focus:ring-2 focus:ring-accent-primary"
+              required
+            />
+            <input
+              type="password"
+              placeholder="Confirm passphrase"
+              value={confirmPassphrase}
+              onChange={(e) => setConfirmPassphrase(e.target.value)}
+              className="w-full bg-background-tertiary text-text-primary rounded px-3 py-2 outline-none focus:ring-2 focus:ring-accent-primary"
+              required
+            />
+            {backupError && <p className="text-red-400 text-sm">{backupError}</p>}
+            <p className="text-xs text-text-muted">
+              The passphrase can't be recovered. Without it, the backup can't be restored.
+            </p>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={backupBusy}
+                className="px-4 py-2 bg-accent-primary hover:bg-accent-hover text-white rounded disabled:opacity-50"
+              >
+                {backupBusy ? "Encrypting..." : backupForm === "change" ? "Change passphrase" : "Create backup"}
+              </button>
+              <button
+                type="button"
+                onClick={closeBackupForm}
+                className="px-4 py-2 text-text-secondary hover:underline"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="mb-4">
+            {backupError && <p className="text-red-400 text-sm mb-2">{backupError}</p>}
+            {backup ? (
+              <div className="flex gap-2">
+                <button
+                  onClick={handleBackupNow}
+                  disabled={backupBusy}
+                  className="px-4 py-2 bg-accent-primary hover:bg-accent-hover text-white rounded disabled:opacity-50"
+                >
+                  {backupBusy ? "Backing up..." : "Back up now"}
+                </button>
+                <button
+                  onClick={() => setBackupForm("change")}
+                  className="px-4 py-2 text-text-secondary hover:underline"
+                >
+                  Change passphrase
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setBackupForm("create")}
+                className="px-4 py-2 bg-accent-primary hover:bg-accent-hover text-white rounded"
+              >
+                Set up key backup
+              </button>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-text-secondary hover:underline"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
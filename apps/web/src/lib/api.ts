@@ -1,97 +1,448 @@
+import { useAuthStore } from "../stores/auth";
+
 const API_BASE = import.meta.env.VITE_API_URL || "/api";
 
-async function request<T>(
+// Refresh access tokens this long before they actually expire
+const TOKEN_REFRESH_MARGIN_MS = 30 * 1000;
+
+interface Session {
+  accessToken: string;
+  accessTokenExpiresAt: string;
+  refreshToken: string;
+}
+
+interface AuthUser {
+  id: string;
+  email: string;
+  displayName: string;
+}
+
+interface AuthDevice {
+  id: string;
+  name: string;
+}
+
+// Public keys of a new device, sent on register and device link
+interface DeviceKeysUpload {
+  deviceName: string;
+  signingKeyPublic: string;
+  identityKeyPublic: string;
+  signedPreKeyPublic: string;
+  signedPreKeySignature: string;
+  preKeys: { keyId: string; publicKey: string }[];
+}
+
+// A channel; retentionSeconds is set when its messages disappear
+interface Channel {
+  id: string;
+  communityId: string;
+  name: string;
+  epoch: number;
+  retentionSeconds: number | null;
+}
+
+// Plaintext notice posted into a channel by the server, e.g. a timer change
+export type MessageNotice =
+  | { type: "retention_changed"; retentionSeconds: number | null };
+
+// Everyone who reacted to a message with one emoji: Unicode, or a community's custom emoji
+export interface Reaction {
+  emoji: string | null;
+  customEmoji: { id: string; name: string; fileUrl: string } | null;
+  count: number;
+  userIds: string[];
+}
+
+// How far we've read a channel, and what arrived from others since. Unread
+// counts cover the channel itself; mention counts include its threads.
+export interface ChannelReadState {
+  channelId: string;
+  communityId: string;
+  lastReadMessageId: string | null;
+  lastReadAt: string | null; // Null until we've read something in the channel
+  unreadCount: number;
+  mentionCount: number;
+}
+
+// A message pinned in its channel by a moderator
+export interface Pin {
+  messageId: string;
+  pinnedBy: string;
+  pinnedAt: string;
+}
+
+// Replies to a channel message, shown under it
+export interface ThreadSummary {
+  replyCount: number;
+  lastReply: {
+    id: string;
+    senderId: string;
+    ciphertext: string | null;
+    epoch: number;
+    expiresAt: string | null;
+    editedAt: string | null;
+    createdAt: string;
+  } | null;
+  archivedAt: string | null; // Set after a while without replies
+}
+
+// A channel message or thread reply as listed by the server
+interface ChannelMessage {
+  id: string;
+  channelId: string;
+  senderId: string;
+  ciphertext: string | null; // Null for notices
+  epoch: number;
+  notice: MessageNotice | null;
+  replyToId: string | null;
+  threadId: string | null; // Root message of the thread this is a reply in
+  mentionedUserIds: string[] | null;
+  mentionsEveryone: boolean;
+  expiresAt: string | null;
+  editedAt: string | null;
+  deletedAt: string | null; // Tombstones have neither ciphertext nor notice
+  reactions: Reaction[];
+  createdAt: string;
+}
+
+// A direct message conversation with its participants
+interface DmConversation {
+  id: string;
+  isGroup: boolean;
+  name: string | null;
+  epoch: number; // Groups only, like channel epochs
+  createdBy: string;
+  createdAt: string;
+  participants: { id: string; displayName: string; avatarUrl?: string }[];
+}
+
+// A failed API request, with the response status and body
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public body: Record<string, unknown>
+  ) {
+    super(message);
+  }
+}
+
+// In-flight refresh, shared so concurrent requests only rotate the token once
+let refreshPromise: Promise<Session | null> | null = null;
+
+async function refreshSession(): Promise<Session | null> {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const { session, logout, setSession } = useAuthStore.getState();
+      if (!session) return null;
+
+      const response = await fetch(`${API_BASE}/auth/refresh`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken: session.refreshToken }),
+      });
+
+      // Refresh token expired or revoked - the user has to log in again
+      if (response.status === 401 || response.status === 403) {
+        logout();
+        return null;
+      }
+
+      // The server is failing; keep the session so a later attempt can succeed
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: "Failed to refresh session" }));
+        throw new ApiError(error.error || "Failed to refresh session", response.status, error);
+      }
+
+      const { session: next } = await response.json() as { session: Session };
+      setSession(next);
+      return next;
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+
+  return refreshPromise;
+}
+
+/**
+ * Get a valid access token, refreshing the session first if the current
+ * token is missing or about to expire
+ */
+export async function getAccessToken(): Promise<string | null> {
+  const { session } = useAuthStore.getState();
+  if (!session) return null;
+
+  const expiresAt = new Date(session.accessTokenExpiresAt).getTime();
+  if (expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+    return session.accessToken;
+  }
+
+  const refreshed = await refreshSession();
+  return refreshed?.accessToken ?? null;
+}
+
+/**
+ * Get a new access token even if the current one hasn't expired, e.g. after
+ * the server rejected it
+ */
+export async function refreshAccessToken(): Promise<string | null> {
+  const refreshed = await refreshSession();
+  return refreshed?.accessToken ?? null;
+}
+
+/**
+ * Make an authenticated request, returning the successful response
+ */
+async function send(
   path: string,
-  options: RequestInit = {}
-): Promise<T> {
+  options: RequestInit = {},
+  retry = true
+): Promise<Response> {
+  const token = await getAccessToken();
+
   const response = await fetch(`${API_BASE}${path}`, {
     ...options,
     headers: {
-      "Content-Type": "application/json",
+      // Fastify rejects an empty body sent as JSON, so only label requests that have one
+      ...(options.body ? { "Content-Type": "application/json" } : {}),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
       ...options.headers,
     },
   });
 
+  // Token rejected (e.g. server restarted with a new secret) - refresh once and retry
+  if (response.status === 401 && token && retry) {
+    const refreshed = await refreshSession();
+    if (refreshed) {
+      return send(path, options, false);
+    }
+  }
+
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: "Request failed" }));
-    throw new Error(error.error || "Request failed");
+    throw new ApiError(error.error || "Request failed", response.status, error);
   }
 
-  return response.json();
+  return response;
+}
+
+async function request<T>(path: string, options: RequestInit = {}): Promise<T> {
+  return (await send(path, options)).json();
 }
 
 // Auth
 export const api = {
   auth: {
-    register: (data: {
+    register: (data: DeviceKeysUpload & {
       email: string;
       displayName: string;
-      identityKeyPublic: string;
-      signedPreKeyPublic: string;
-      signedPreKeySignature: string;
-      preKeys: { keyId: string; publicKey: string }[];
-    }) => request<{ user: { id: string; email: string; displayName: string } }>("/auth/register", {
+    }) => request<{ user: AuthUser; device: AuthDevice; session: Session }>("/auth/register", {
+      method: "POST",
+      body: JSON.stringify(data),
+    }),
+
+    linkDevice: (data: DeviceKeysUpload & {
+      email: string;
+      code: string;
+    }) => request<{ user: AuthUser; device: AuthDevice; session: Session }>("/auth/devices/link", {
       method: "POST",
       body: JSON.stringify(data),
     }),
 
-    login: (email: string) =>
-      request<{ user: { id: string; email: string; displayName: string } }>("/auth/login", {
+    challenge: (email: string, deviceId?: string) =>
+      request<{ challengeId: string; nonce: string; userId: string }>("/auth/challenge", {
+        method: "POST",
+        body: JSON.stringify({ email, deviceId }),
+      }),
+
+    login: (challengeId: string, signature: string) =>
+      request<{ user: AuthUser; device: AuthDevice; session: Session }>("/auth/login", {
+        method: "POST",
+        body: JSON.stringify({ challengeId, signature }),
+      }),
+
+    logout: () =>
+      request<{ success: boolean }>("/auth/logout", {
+        method: "POST",
+      }),
+
+    fetchBackup: (email: string) =>
+      request<{ backup: { encryptedData: string; wrappedKey: string; updatedAt: string } }>("/auth/backup", {
         method: "POST",
         body: JSON.stringify({ email }),
       }),
 
+    getUserDevices: (userId: string) =>
+      request<{
+        devices: {
+          deviceId: string;
+          signingKey: string;
+          identityKey: string;
+          signedPreKey: { keyId: number; publicKey: string; signature: string };
+        }[];
+      }>(`/auth/users/${userId}/devices`),
+
     getUserKeys: (userId: string) =>
       request<{
-        identityKey: string;
-        signedPreKey: { publicKey: string; signature: string };
-        preKey: { keyId: string; publicKey: string } | null;
+        userId: string;
+        devices: {
+          deviceId: string;
+          signingKey: string;
+          identityKey: string;
+          signedPreKey: { keyId: number; publicKey: string; signature: string };
+          preKey: { keyId: string; publicKey: string } | null;
+        }[];
       }>(`/auth/users/${userId}/keys`),
   },
 
+  devices: {
+    list: () =>
+      request<{
+        devices: { id: string; name: string; lastSeenAt: string; createdAt: string; current: boolean }[];
+      }>("/devices"),
+
+    rename: (deviceId: string, name: string) =>
+      request<{ device: AuthDevice }>(`/devices/${deviceId}`, {
+        method: "PATCH",
+        body: JSON.stringify({ name }),
+      }),
+
+    revoke: (deviceId: string) =>
+      request<{ success: boolean }>(`/devices/${deviceId}`, {
+        method: "DELETE",
+      }),
+
+    createLinkCode: () =>
+      request<{ code: string; expiresAt: string }>("/devices/link-codes", {
+        method: "POST",
+      }),
+
+    getPreKeyStatus: () =>
+      request<{ count: number; signedPreKeyId: number }>("/devices/prekeys"),
+
+    uploadPreKeys: (preKeys: { keyId: string; publicKey: string }[]) =>
+      request<{ count: number }>("/devices/prekeys", {
+        method: "POST",
+        body: JSON.stringify({ preKeys }),
+      }),
+
+    updateSignedPreKey: (signedPreKey: { keyId: number; publicKey: string; signature: string }) =>
+      request<{ success: boolean }>("/devices/signed-prekey", {
+        method: "PUT",
+        body: JSON.stringify(signedPreKey),
+      }),
+  },
+
+  backups: {
+    get: () =>
+      request<{ backup: { encryptedData: string; wrappedKey: string; updatedAt: string } }>("/backups"),
+
+    put: (data: { encryptedData: string; wrappedKey: string }) =>
+      request<{ updatedAt: string }>("/backups", {
+        method: "PUT",
+        body: JSON.stringify(data),
+      }),
+
+    putKey: (wrappedKey: string) =>
+      request<{ updatedAt: string }>("/backups/key", {
+        method: "PUT",
+        body: JSON.stringify({ wrappedKey }),
+      }),
+
+    delete: () =>
+      request<{ success: boolean }>("/backups", {
+        method: "DELETE",
+      }),
+  },
+
   communities: {
-    create: (data: { name: string; userId: string }) =>
-      request<{ community: { id: string; name: string; inviteCode: string } }>("/communities", {
+    create: (data: { name: string }) =>
+      request<{ community: { id: string; name: string; inviteCode: string; createdBy: string } }>("/communities", {
         method: "POST",
         body: JSON.stringify(data),
       }),
 
-    list: (userId: string) =>
-      request<{ communities: { id: string; name: string; inviteCode: string }[] }>(
-        `/communities/user/${userId}`
-      ),
+    list: () =>
+      request<{ communities: { id: string; name: string; inviteCode: string; createdBy: string }[] }>("/communities"),
 
     get: (communityId: string) =>
       request<{
-        community: { id: string; name: string; inviteCode: string };
-        channels: { id: string; communityId: string; name: string }[];
+        community: { id: string; name: string; inviteCode: string; createdBy: string };
+        channels: Channel[];
         members: { id: string; displayName: string; avatarUrl?: string }[];
       }>(`/communities/${communityId}`),
 
-    join: (inviteCode: string, userId: string) =>
-      request<{ community: { id: string; name: string; inviteCode: string } }>("/communities/join", {
+    join: (inviteCode: string) =>
+      request<{ community: { id: string; name: string; inviteCode: string; createdBy: string } }>("/communities/join", {
+        method: "POST",
+        body: JSON.stringify({ inviteCode }),
+      }),
+
+    leave: (communityId: string) =>
+      request<{ success: boolean }>(`/communities/${communityId}/leave`, {
         method: "POST",
-        body: JSON.stringify({ inviteCode, userId }),
+      }),
+
+    removeMember: (communityId: string, userId: string) =>
+      request<{ success: boolean }>(`/communities/${communityId}/members/${userId}`, {
+        method: "DELETE",
       }),
   },
 
   channels: {
     create: (data: { communityId: string; name: string }) =>
-      request<{ channel: { id: string; communityId: string; name: string } }>("/channels", {
+      request<{ channel: Channel }>("/channels", {
         method: "POST",
         body: JSON.stringify(data),
       }),
 
-    getSenderKeys: (channelId: string, userId: string) =>
-      request<{ senderKeys: { userId: string; distributionId: string; encryptedKey: string }[] }>(
-        `/channels/${channelId}/sender-keys/${userId}`
+    // Read positions and counts of all our channels
+    listReadStates: () =>
+      request<{ readStates: ChannelReadState[] }>("/channels/read-states"),
+
+    setRetention: (channelId: string, retentionSeconds: number | null) =>
+      request<{ channel: Channel }>(`/channels/${channelId}/retention`, {
+        method: "PUT",
+        body: JSON.stringify({ retentionSeconds }),
+      }),
+
+    getSenderKeys: (channelId: string) =>
+      request<{
+        senderKeys: {
+          userId: string;
+          deviceId: string;
+          distributionId: string;
+          epoch: number;
+          encryptedKey: string;
+          sharedByUserId: string | null; // Set when encrypted by a device other than the owner
+          sharedByDeviceId: string | null;
+        }[];
+      }>(
+        `/channels/${channelId}/sender-keys`
       ),
 
+    // Most recently pinned first, with the messages themselves
+    listPins: (channelId: string) =>
+      request<{ pins: (Pin & { message: Omit<ChannelMessage, "reactions"> })[] }>(`/channels/${channelId}/pins`),
+
+    // Moderators only
+    pin: (channelId: string, messageId: string) =>
+      request<{ pin: Pin }>(`/channels/${channelId}/pins/${messageId}`, {
+        method: "PUT",
+      }),
+
+    unpin: (channelId: string, messageId: string) =>
+      request<{ success: boolean }>(`/channels/${channelId}/pins/${messageId}`, {
+        method: "DELETE",
+      }),
+
     distributeSenderKey: (data: {
       channelId: string;
-      userId: string;
       distributionId: string;
-      encryptedKeys: { forUserId: string; encryptedKey: string }[];
+      epoch: number;
+      expectedDistributionId: string | null;
+      encryptedKeys: { forUserId: string; forDeviceId: string; encryptedKey: string }[];
     }) =>
       request<{ success: boolean }>("/channels/sender-keys", {
         method: "POST",
@@ -102,9 +453,138 @@ export const api = {
   messages: {
     list: (channelId: string, cursor?: string) =>
       request<{
-        messages: { id: string; channelId: string; senderId: string; ciphertext: string; createdAt: string }[];
+        messages: (ChannelMessage & { thread: ThreadSummary | null })[];
         nextCursor: string | null;
       }>(`/messages/channel/${channelId}${cursor ? `?cursor=${cursor}` : ""}`),
+
+    get: (messageId: string) =>
+      request<{ message: Omit<ChannelMessage, "reactions"> }>(`/messages/${messageId}`),
+
+    // Messages mentioning us in any of our communities, newest first
+    listMentions: (cursor?: string) =>
+      request<{
+        messages: (Omit<ChannelMessage, "reactions"> & { communityId: string })[];
+        nextCursor: string | null;
+      }>(`/messages/mentions${cursor ? `?cursor=${cursor}` : ""}`),
+
+    // A thread's root message and its replies, newest page first like a channel
+    listThread: (threadId: string, cursor?: string) =>
+      request<{
+        root: ChannelMessage & { thread: ThreadSummary | null };
+        messages: ChannelMessage[];
+        nextCursor: string | null;
+      }>(`/messages/thread/${threadId}${cursor ? `?cursor=${cursor}` : ""}`),
+
+    delete: (messageId: string) =>
+      request<{ success: boolean }>(`/messages/${messageId}`, {
+        method: "DELETE",
+      }),
+
+    // Moderators only: everything a member sent to the community in the last withinSeconds
+    deleteRecent: (communityId: string, userId: string, withinSeconds: number) =>
+      request<{ deleted: number }>("/messages/bulk-delete", {
+        method: "POST",
+        body: JSON.stringify({ communityId, userId, withinSeconds }),
+      }),
+
+    // Earlier versions of an edited message, oldest first
+    listEdits: (messageId: string) =>
+      request<{
+        edits: {
+          id: string;
+          ciphertext: string;
+          epoch: number;
+          editedAt: string | null; // Null for the original version
+          createdAt: string; // When this version was replaced
+        }[];
+      }>(`/messages/${messageId}/edits`),
+  },
+
+  dms: {
+    list: () =>
+      request<{ conversations: DmConversation[] }>("/dms"),
+
+    open: (userId: string) =>
+      request<{ conversation: DmConversation }>("/dms", {
+        method: "POST",
+        body: JSON.stringify({ userId }),
+      }),
+
+    listMessages: (conversationId: string, cursor?: string) =>
+      request<{
+        messages: {
+          id: string;
+          conversationId: string;
+          senderId: string;
+          senderDeviceId: string;
+          ciphertext: string | null; // This device's copy; none for messages it sent
+          epoch: number;
+          createdAt: string;
+        }[];
+        nextCursor: string | null;
+      }>(`/dms/${conversationId}/messages${cursor ? `?cursor=${cursor}` : ""}`),
+
+    createGroup: (data: { name?: string; userIds: string[] }) =>
+      request<{ conversation: DmConversation }>("/dms/groups", {
+        method: "POST",
+        body: JSON.stringify(data),
+      }),
+
+    addParticipant: (conversationId: string, userId: string) =>
+      request<{ conversation: DmConversation }>(`/dms/${conversationId}/participants`, {
+        method: "POST",
+        body: JSON.stringify({ userId }),
+      }),
+
+    removeParticipant: (conversationId: string, userId: string) =>
+      request<{ success: boolean }>(`/dms/${conversationId}/participants/${userId}`, {
+        method: "DELETE",
+      }),
+
+    leave: (conversationId: string) =>
+      request<{ success: boolean }>(`/dms/${conversationId}/leave`, {
+        method: "POST",
+      }),
+
+    getSenderKeys: (conversationId: string) =>
+      request<{
+        senderKeys: {
+          userId: string;
+          deviceId: string;
+          distributionId: string;
+          epoch: number;
+          encryptedKey: string;
+          sharedByUserId: string | null; // Set when encrypted by a device other than the owner
+          sharedByDeviceId: string | null;
+        }[];
+      }>(
+        `/dms/${conversationId}/sender-keys`
+      ),
+
+    distributeSenderKey: (data: {
+      conversationId: string;
+      distributionId: string;
+      epoch: number;
+      expectedDistributionId: string | null;
+      encryptedKeys: { forUserId: string; forDeviceId: string; encryptedKey: string }[];
+    }) =>
+      request<{ success: boolean }>("/dms/sender-keys", {
+        method: "POST",
+        body: JSON.stringify(data),
+      }),
+  },
+
+  attachments: {
+    // The blob is already encrypted; the server only stores it
+    upload: (blob: Blob) =>
+      request<{ attachment: { id: string; size: number } }>("/attachments", {
+        method: "POST",
+        body: blob,
+        headers: { "Content-Type": "application/octet-stream" },
+      }),
+
+    download: async (attachmentId: string) =>
+      (await send(`/attachments/${attachmentId}`)).arrayBuffer(),
   },
 
   emojis: {
@@ -118,7 +598,6 @@ export const api = {
       name: string;
       fileUrl: string;
       animated: boolean;
-      uploadedBy: string;
     }) =>
       request<{ emoji: { id: string; name: string; fileUrl: string; animated: boolean } }>("/emojis", {
         method: "POST",
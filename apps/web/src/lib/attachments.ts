@@ -0,0 +1,127 @@
+/**
+ * Encrypted Attachments
+ *
+ * Every file is encrypted with its own random AES-GCM key before it is
+ * uploaded, so the server only stores an opaque blob. The blob id, key and
+ * SHA-256 digest of the blob travel inside the encrypted message, together
+ * with the file's name, type and size. Downloads are checked against the
+ * digest before they are decrypted. The blob ids are also listed in plaintext
+ * next to the message, so the server can limit downloads to the message's
+ * readers and delete the blobs with the message.
+ */
+
+import { api } from './api';
+import { arrayBufferToBase64, base64ToArrayBuffer } from './crypto';
+
+// Must stay below the server's limit, which also counts the IV and tag
+export const MAX_ATTACHMENT_SIZE = 50 * 1024 * 1024 - 1024;
+
+// Reference to an uploaded attachment, carried in message content
+export interface AttachmentPointer {
+  id: string; // Blob id on the server
+  key: string; // Base64 AES-256-GCM key
+  digest: string; // Base64 SHA-256 of the encrypted blob
+  name: string;
+  mimeType: string;
+  size: number; // Bytes of the file before encryption
+}
+
+// Decrypted attachments as object URLs, so each is downloaded once
+const objectUrls = new Map<string, Promise<string>>();
+
+/**
+ * Encrypt a file with a fresh key and upload it
+ */
+export async function uploadAttachment(file: Blob, name: string): Promise<AttachmentPointer> {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`${name} is larger than ${Math.floor(MAX_ATTACHMENT_SIZE / (1024 * 1024))} MB`);
+  }
+
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, await file.arrayBuffer());
+
+  // Blob layout: iv (12 bytes) + ciphertext
+  const blob = new Uint8Array(iv.length + ciphertext.byteLength);
+  blob.set(iv, 0);
+  blob.set(new Uint8Array(ciphertext), iv.length);
+
+  const { attachment } = await api.attachments.upload(new Blob([blob]));
+
+  return {
+    id: attachment.id,
+    key: arrayBufferToBase64(await crypto.subtle.exportKey('raw', key)),
+    digest: arrayBufferToBase64(await crypto.subtle.digest('SHA-256', blob)),
+    name,
+    mimeType: file.type || 'application/octet-stream',
+    size: file.size,
+  };
+}
+
+/**
+ * Download, check and decrypt an attachment
+ */
+async function downloadAttachment(pointer: AttachmentPointer): Promise<Blob> {
+  const blob = new Uint8Array(await api.attachments.download(pointer.id));
+
+  const digest = arrayBufferToBase64(await crypto.subtle.digest('SHA-256', blob));
+  if (digest !== pointer.digest) {
+    throw new Error('Attachment does not match its digest');
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base64ToArrayBuffer(pointer.key),
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['decrypt']
+  );
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: blob.slice(0, 12) },
+    key,
+    blob.slice(12)
+  );
+
+  return new Blob([plaintext], { type: pointer.mimeType });
+}
+
+/**
+ * Get a decrypted attachment as an object URL for previews and downloads
+ */
+export function getAttachmentUrl(pointer: AttachmentPointer): Promise<string> {
+  let url = objectUrls.get(pointer.id);
+  if (!url) {
+    url = downloadAttachment(pointer).then((blob) => URL.createObjectURL(blob));
+    // Let a failed download be tried again
+    url.catch(() => objectUrls.delete(pointer.id));
+    objectUrls.set(pointer.id, url);
+  }
+  return url;
+}
+
+/**
+ * Drop the decrypted copy of an attachment, e.g. once its message has disappeared
+ */
+export function releaseAttachment(pointer: AttachmentPointer): void {
+  const url = objectUrls.get(pointer.id);
+  if (!url) return;
+
+  objectUrls.delete(pointer.id);
+  url.then((objectUrl) => URL.revokeObjectURL(objectUrl)).catch(() => {});
+}
+
+/**
+ * Check the shape of an attachment pointer from decrypted message content
+ */
+export function isAttachmentPointer(value: unknown): value is AttachmentPointer {
+  const pointer = value as AttachmentPointer;
+  return (
+    typeof pointer === 'object' && pointer !== null &&
+    typeof pointer.id === 'string' &&
+    typeof pointer.key === 'string' &&
+    typeof pointer.digest === 'string' &&
+    typeof pointer.name === 'string' &&
+    typeof pointer.mimeType === 'string' &&
+    typeof pointer.size === 'number'
+  );
+}
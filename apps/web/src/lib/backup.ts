@@ -0,0 +1,208 @@
+/**
+ * Encrypted Key Backup
+ *
+ * A backup is the local key store serialized to JSON and encrypted with a
+ * random backup key. The backup key is itself encrypted ("wrapped") with a
+ * key derived from the user's passphrase, so changing the passphrase only
+ * re-wraps the backup key. The server stores both parts as opaque strings.
+ */
+
+import { api } from './api';
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  deriveKeyFromPassphrase,
+  encryptMessage,
+  decryptMessage,
+  exportAesKey,
+  importAesKey,
+} from './crypto';
+import {
+  exportKeyStore,
+  importKeyStore,
+  getSetting,
+  setSetting,
+  KeyStoreSnapshot,
+} from './keyStore';
+
+const BACKUP_VERSION = 1;
+const PBKDF2_ITERATIONS = 600_000;
+const MIN_PASSPHRASE_LENGTH = 12;
+
+// Local copy of the backup key, so backups can be refreshed without the passphrase
+const BACKUP_KEY_SETTING = 'backupKey';
+
+// Wait for bursts of key changes to settle before uploading
+const BACKUP_DEBOUNCE_MS = 5000;
+
+interface WrappedBackupKey {
+  version: number;
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;
+  key: string; // Backup key encrypted with the passphrase-derived key
+}
+
+interface BackupContents {
+  version: number;
+  createdAt: string;
+  keys: KeyStoreSnapshot;
+}
+
+let backupTimer: number | null = null;
+
+/**
+ * Encrypt the backup key with a passphrase
+ */
+async function wrapBackupKey(backupKey: CryptoKey, passphrase: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const passphraseKey = await deriveKeyFromPassphrase(passphrase, salt, PBKDF2_ITERATIONS);
+
+  const wrapped: WrappedBackupKey = {
+    version: BACKUP_VERSION,
+    kdf: 'PBKDF2-SHA256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: arrayBufferToBase64(salt.buffer),
+    key: await encryptMessage(await exportAesKey(backupKey), passphraseKey),
+  };
+
+  return JSON.stringify(wrapped);
+}
+
+/**
+ * Decrypt the backup key with a passphrase
+ */
+async function unwrapBackupKey(wrappedKey: string, passphrase: string): Promise<CryptoKey> {
+  const wrapped: WrappedBackupKey = JSON.parse(wrappedKey);
+  if (wrapped.kdf !== 'PBKDF2-SHA256') {
+    throw new Error(`Unsupported backup key derivation: ${wrapped.kdf}`);
+  }
+
+  const salt = new Uint8Array(base64ToArrayBuffer(wrapped.salt));
+  const passphraseKey = await deriveKeyFromPassphrase(passphrase, salt, wrapped.iterations);
+
+  try {
+    return await importAesKey(await decryptMessage(wrapped.key, passphraseKey));
+  } catch {
+    // AES-GCM authentication fails when the passphrase is wrong
+    throw new Error('Incorrect backup passphrase');
+  }
+}
+
+/**
+ * Encrypt the current key store with the backup key
+ */
+async function encryptKeyStore(backupKey: CryptoKey): Promise<string> {
+  const contents: BackupContents = {
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    keys: await exportKeyStore(),
+  };
+
+  return await encryptMessage(JSON.stringify(contents), backupKey);
+}
+
+/**
+ * Create (or replace) the key backup, protected by a new passphrase
+ */
+export async function createKeyBackup(passphrase: string): Promise<void> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const backupKey = await crypto.subtle.generateKey(
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+
+  await api.backups.put({
+    encryptedData: await encryptKeyStore(backupKey),
+    wrappedKey: await wrapBackupKey(backupKey, passphrase),
+  });
+
+  await setSetting(BACKUP_KEY_SETTING, await exportAesKey(backupKey));
+}
+
+/**
+ * Re-upload the backup with the current keys, using the locally stored
+ * backup key. Returns false if this device has no backup key.
+ */
+export async function refreshKeyBackup(): Promise<boolean> {
+  const keyBase64 = await getSetting(BACKUP_KEY_SETTING);
+  if (!keyBase64) return false;
+
+  const backupKey = await importAesKey(keyBase64);
+  const { backup } = await api.backups.get();
+
+  await api.backups.put({
+    encryptedData: await encryptKeyStore(backupKey),
+    wrappedKey: backup.wrappedKey,
+  });
+
+  return true;
+}
+
+/**
+ * Refresh the backup shortly, coalescing bursts of key changes into one upload
+ */
+export function scheduleKeyBackup(): void {
+  if (backupTimer) {
+    clearTimeout(backupTimer);
+  }
+
+  backupTimer = window.setTimeout(() => {
+    backupTimer = null;
+    refreshKeyBackup().catch((err) => {
+      console.error('Failed to refresh key backup:', err);
+    });
+  }, BACKUP_DEBOUNCE_MS);
+}
+
+/**
+ * Restore the local key store from the account's backup.
+ * Used on a device without keys, before logging in.
+ */
+export async function restoreKeyBackup(email: string, passphrase: string): Promise<void> {
+  const { backup } = await api.auth.fetchBackup(email);
+
+  const backupKey = await unwrapBackupKey(backup.wrappedKey, passphrase);
+  const contents: BackupContents = JSON.parse(await decryptMessage(backup.encryptedData, backupKey));
+
+  if (contents.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of Vibe Chat');
+  }
+
+  await importKeyStore(contents.keys);
+  await setSetting(BACKUP_KEY_SETTING, await exportAesKey(backupKey));
+}
+
+/**
+ * Change the backup passphrase without re-encrypting the backup itself
+ */
+export async function changeBackupPassphrase(
+  currentPassphrase: string,
+  newPassphrase: string
+): Promise<void> {
+  if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const { backup } = await api.backups.get();
+  const backupKey = await unwrapBackupKey(backup.wrappedKey, currentPassphrase);
+
+  await api.backups.putKey(await wrapBackupKey(backupKey, newPassphrase));
+  await setSetting(BACKUP_KEY_SETTING, await exportAesKey(backupKey));
+}
+
+/**
+ * When the account's backup was last updated, or null if it has none
+ */
+export async function getKeyBackupStatus(): Promise<{ updatedAt: string } | null> {
+  try {
+    const { backup } = await api.backups.get();
+    return { updatedAt: backup.updatedAt };
+  } catch {
+    return null;
+  }
+}
@@ -1,201 +1,821 @@
 /**
  * Channel Encryption Service
  *
- * Manages channel keys for E2E encrypted group messaging.
- * Each channel has a shared symmetric key that is distributed
- * to members encrypted with their public keys.
+ * Sender keys for E2E encrypted group messaging. Each device has its own
+ * sending chain per channel, identified by a distribution id. The chain key
+ * is shared with every device of every member, encrypted with that device's
+ * public key. Every message advances the chain with an HKDF ratchet and
+ * carries its iteration, so a leaked chain key can't decrypt earlier messages.
+ *
+ * Chains belong to a channel epoch. The server starts a new epoch whenever the
+ * community's membership changes, and the next message we send starts a new
+ * chain shared only with the current members. Chains of older epochs are kept
+ * so their history still decrypts.
+ *
+ * Anyone holding a chain can encrypt with it, so every message is also signed
+ * by the sending device's signing key, and the ciphertext is bound to its
+ * channel and sender. Messages that fail the check are reported as
+ * unverified instead of being shown, and so are messages in the unsigned
+ * formats from before signatures: anyone holding a chain, or the server for
+ * the old static channel keys, could produce those.
+ *
+ * A device that was not around when a chain was shared (e.g. one linked
+ * later) asks for it over the WebSocket, from the iteration of the first
+ * message it can't read. Any device holding the chain, its owner or another
+ * member's, can answer: it encrypts the chain state from that iteration, or
+ * the earliest one it still has keys for, to the requester's pinned identity
+ * key.
+ *
+ * Group conversations use the same chains, with the conversation in place of
+ * the channel and its participants as members.
  */
 
-import { api } from './api';
+import { api, ApiError } from './api';
 import {
-  generateChannelKey,
-  exportAesKey,
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  generateChainKey,
+  advanceChain,
+  importAesKey,
   encryptMessage,
   decryptMessage,
-  encryptChannelKeyForRecipient,
-  decryptChannelKey,
-  importPrivateKey,
+  encryptForRecipient,
+  decryptFromSender,
+  signData,
+  verifyData,
 } from './crypto';
 import {
-  getChannelKey,
-  storeChannelKey,
-  hasChannelKey,
   getIdentityKeys,
-  storeUserKey,
-  getUserKey,
+  getIdentityPrivateKey,
+  getSigningPrivateKey,
+  getOutboundSenderKey,
+  storeOutboundSenderKey,
+  getInboundSenderKey,
+  storeInboundSenderKey,
+  getCachedMessage,
+  cacheDecryptedMessage,
+  StoredOutboundSenderKey,
+  StoredInboundSenderKey,
 } from './keyStore';
+import { getDevicePublicKeys, getTrustedDevices } from './trust';
+import { withLock } from './locks';
+import { AttachmentPointer, isAttachmentPointer } from './attachments';
+import { wsClient } from './websocket';
+
+const ENVELOPE_VERSION = 3;
+
+// Binary envelope layout, base64 encoded:
+//   version (1) | distribution id (16) | epoch (4) | iteration (4) | timestamp (8)
+//   | iv + AES-GCM ciphertext | signature (64)
+// Integers are big endian and the timestamp is in ms. The header followed by
+// the channel id and sender id is the AES-GCM additional data, and the sending
+// device signs the additional data followed by the ciphertext.
+const HEADER_LENGTH = 33;
+const SIGNATURE_LENGTH = 64; // ECDSA P-256, r || s
+
+// How often a missing chain may be requested from the devices holding it
+const KEY_REQUEST_INTERVAL_MS = 30 * 1000;
+
+// How far ahead of the chain a message may be, and how many skipped message
+// keys are kept per chain for messages that arrive out of order
+const MAX_SKIP = 1000;
+const MAX_SKIPPED_KEYS = 2000;
+
+// Decrypted message content. Other content types can be added alongside text;
+// clients that don't know a type show the message as unsupported. Text may be
+// empty when a message only carries attachments.
+export type MessageContent =
+  | { type: 'text'; text: string; attachments?: AttachmentPointer[] };
+
+export interface DecryptedMessage {
+  // verified: signed by the sender's device. unverified: the signature didn't
+  // check out, or the message is in an unsigned format from before signatures,
+  // so it isn't shown. pending: waiting for the sender to share its chain with
+  // this device. failed: not decryptable.
+  status: 'verified' | 'unverified' | 'pending' | 'failed';
+  content: MessageContent | null; // null if not decryptable, forged or of an unknown type
+}
+
+interface SenderKeyEnvelope {
+  distributionId: string; // Sending chain
+  epoch: number; // Channel epoch of the sending chain
+  iteration: number; // Iteration of the chain this message was encrypted at
+  header: Uint8Array<ArrayBuffer>;
+  ciphertext: Uint8Array<ArrayBuffer>; // iv + AES-GCM ciphertext
+  signature: string; // Base64 sender signature
+}
+
+type KeyUnavailableReason = 'not_found' | 'stale_epoch' | 'offline';
+
+// What a chain is shared in: a channel, or a group conversation
+export type SenderKeyScope = 'channel' | 'conversation';
+
+// Chain state as shared with another device. Holders other than the owner
+// also pass on the keys they kept for skipped iterations.
+interface SharedChainState {
+  chainKey: string;
+  iteration: number;
+  epoch: number;
+  skipped?: Record<number, string>;
+}
+
+// The server doesn't have a chain we need for this device. `iteration` is the
+// first one we need, when reading a message.
+class SenderKeyMissingError extends Error {
+  constructor(public distributionId: string, public iteration?: number) {
+    super('Sender key not shared with this device');
+  }
+}
+
+// Missing chains: when each was last requested and from which iteration, and
+// why the server couldn't forward a request
+const keyRequests = new Map<string, { time: number; iteration: number }>();
+const unavailableKeys = new Map<string, KeyUnavailableReason>();
+
+// Chain state is read, advanced and written back, so operations on the same
+// chain must not interleave
+function withChainLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  return withLock(`chain:${key}`, fn);
+}
 
 /**
- * Get or create a channel key for sending messages
- * Returns the key and whether it was newly created
+ * How the server identifies a scope in requests about its chains
  */
-export async function ensureChannelKey(
-  channelId: string,
-  members: { id: string; displayName: string }[],
-  currentUserId: string
-): Promise<{ key: CryptoKey; isNew: boolean }> {
-  // Check if we already have the channel key locally
-  const existingKey = await getChannelKey(channelId);
-  if (existingKey) {
-    return { key: existingKey, isNew: false };
+function scopeIds(scope: SenderKeyScope, id: string) {
+  return scope === 'channel' ? { channelId: id } : { conversationId: id };
+}
+
+function concatBytes(...parts: Uint8Array<ArrayBuffer>[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
   }
+  return result;
+}
 
-  // Try to fetch channel key from server (someone else may have distributed one)
-  const identityKeys = await getIdentityKeys();
-  if (!identityKeys) {
-    throw new Error('No identity keys found. Please log in again.');
+function uuidToBytes(uuid: string): Uint8Array<ArrayBuffer> {
+  const hex = uuid.replace(/-/g, '');
+  if (!/^[0-9a-f]{32}$/i.test(hex)) {
+    throw new Error('Invalid distribution id');
   }
+  return new Uint8Array(hex.match(/../g)!.map((byte) => parseInt(byte, 16)));
+}
 
-  try {
-    const { senderKeys } = await api.channels.getSenderKeys(channelId, currentUserId);
-
-    if (senderKeys.length > 0) {
-      // We have a sender key from another user - decrypt it
-      const senderKey = senderKeys[0]; // Take the first available
-
-      // Get the sender's public key
-      let senderPublicKey = await getUserKey(senderKey.userId);
-
-      if (!senderPublicKey) {
-        // Fetch sender's public key from server
-        const userKeys = await api.auth.getUserKeys(senderKey.userId);
-        senderPublicKey = {
-          userId: senderKey.userId,
-          identityKeyPublic: userKeys.identityKey,
-          signedPreKeyPublic: userKeys.signedPreKey.publicKey,
-        };
-        await storeUserKey(
-          senderKey.userId,
-          userKeys.identityKey,
-          userKeys.signedPreKey.publicKey
-        );
-      }
+function bytesToUuid(bytes: Uint8Array<ArrayBuffer>): string {
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
 
-      // Decrypt the channel key
-      const privateKey = await importPrivateKey(identityKeys.identityKeyPair.privateKey);
-      const channelKey = await decryptChannelKey(
-        senderKey.encryptedKey,
-        privateKey,
-        senderPublicKey.identityKeyPublic
-      );
+function encodeHeader(
+  distributionId: string,
+  epoch: number,
+  iteration: number,
+  timestamp: number
+): Uint8Array<ArrayBuffer> {
+  const header = new Uint8Array(HEADER_LENGTH);
+  const view = new DataView(header.buffer);
+  header[0] = ENVELOPE_VERSION;
+  header.set(uuidToBytes(distributionId), 1);
+  view.setUint32(17, epoch);
+  view.setUint32(21, iteration);
+  view.setBigUint64(25, BigInt(timestamp));
+  return header;
+}
 
-      // Store locally
-      const keyBase64 = await exportAesKey(channelKey);
-      await storeChannelKey(channelId, keyBase64);
+/**
+ * The data a message's ciphertext is bound to: its header, channel and sender.
+ * Both ids are fixed-length UUIDs, so plain concatenation is unambiguous.
+ */
+function envelopeContext(
+  header: Uint8Array<ArrayBuffer>,
+  channelId: string,
+  senderId: string
+): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  return concatBytes(header, encoder.encode(channelId), encoder.encode(senderId));
+}
 
-      return { key: channelKey, isNew: false };
+/**
+ * The chain state shared with receivers. They start from this state; earlier
+ * messages stay unreadable to them, except those with skipped keys.
+ */
+function senderKeyPayload(state: SharedChainState): string {
+  return JSON.stringify({
+    chainKey: state.chainKey,
+    iteration: state.iteration,
+    epoch: state.epoch,
+    ...(state.skipped && Object.keys(state.skipped).length > 0 && { skipped: state.skipped }),
+  });
+}
+
+/**
+ * The state of a chain we hold for a device that reads it from `iteration`
+ * on. A chain behind that iteration is ratcheted forward to it, so the device
+ * gets no keys of earlier messages; if we already moved past it, the device
+ * gets our state along with the keys we kept for skipped iterations from
+ * there, i.e. the earliest state we still have.
+ */
+async function chainStateFrom(
+  senderKey: Pick<StoredInboundSenderKey, 'chainKey' | 'iteration' | 'epoch' | 'skipped'>,
+  iteration: number
+): Promise<SharedChainState> {
+  if (iteration >= senderKey.iteration) {
+    const target = Math.min(iteration, senderKey.iteration + MAX_SKIP);
+    let chainKey = senderKey.chainKey;
+    for (let i = senderKey.iteration; i < target; i++) {
+      chainKey = (await advanceChain(chainKey)).chainKey;
     }
-  } catch (err) {
-    console.log('No existing channel key found, will create new one');
+    return { chainKey, iteration: target, epoch: senderKey.epoch };
   }
 
-  // No key exists - we need to create and distribute one
-  const channelKey = await generateChannelKey();
-  const keyBase64 = await exportAesKey(channelKey);
-
-  // Store locally first
-  await storeChannelKey(channelId, keyBase64);
-
-  // Distribute to all members
-  await distributeChannelKey(channelId, channelKey, members, currentUserId);
+  const skipped: Record<number, string> = {};
+  for (const [i, messageKey] of Object.entries(senderKey.skipped)) {
+    if (Number(i) >= iteration) skipped[Number(i)] = messageKey;
+  }
+  return { chainKey: senderKey.chainKey, iteration: senderKey.iteration, epoch: senderKey.epoch, skipped };
+}
 
-  return { key: channelKey, isNew: true };
+function isSkippedKeys(value: unknown): value is Record<number, string> {
+  return typeof value === 'object' && value !== null && Object.entries(value).every(
+    ([i, messageKey]) => Number.isInteger(Number(i)) && Number(i) >= 0 && typeof messageKey === 'string'
+  );
 }
 
 /**
- * Distribute a channel key to all members
+ * Share our sending chain for a channel with every device of every member.
+ * `expectedDistributionId` is the chain this device has registered for the
+ * epoch (null for a new chain); the server rejects the distribution with 409
+ * if a different chain got there first.
  */
-async function distributeChannelKey(
-  channelId: string,
-  channelKey: CryptoKey,
+async function distributeSenderKey(
+  senderKey: StoredOutboundSenderKey,
   members: { id: string }[],
-  currentUserId: string
+  expectedDistributionId: string | null,
+  scope: SenderKeyScope
 ): Promise<void> {
-  const identityKeys = await getIdentityKeys();
-  if (!identityKeys) {
+  const privateKey = await getIdentityPrivateKey();
+  if (!privateKey) {
     throw new Error('No identity keys found');
   }
 
-  const privateKey = await importPrivateKey(identityKeys.identityKeyPair.privateKey);
-  const encryptedKeys: { forUserId: string; encryptedKey: string }[] = [];
+  const payload = senderKeyPayload(senderKey);
+  const encryptedKeys: { forUserId: string; forDeviceId: string; encryptedKey: string }[] = [];
 
   for (const member of members) {
+    // Always fetch the current device list so new devices get the key
+    // and revoked ones don't. Verification failures abort the distribution.
+    const { state, devices } = await getTrustedDevices(member.id);
+
+    // Pause distribution to members whose keys changed until the change is accepted
+    if (state === 'changed') {
+      console.warn(`Not sharing sender key with ${member.id}: their keys have changed`);
+      continue;
+    }
+
     try {
-      // Get or fetch member's public key
-      let memberKey = await getUserKey(member.id);
-
-      if (!memberKey) {
-        const userKeys = await api.auth.getUserKeys(member.id);
-        memberKey = {
-          userId: member.id,
-          identityKeyPublic: userKeys.identityKey,
-          signedPreKeyPublic: userKeys.signedPreKey.publicKey,
-        };
-        await storeUserKey(member.id, userKeys.identityKey, userKeys.signedPreKey.publicKey);
+      for (const device of devices) {
+        encryptedKeys.push({
+          forUserId: member.id,
+          forDeviceId: device.deviceId,
+          encryptedKey: await encryptForRecipient(payload, privateKey, device.identityKey),
+        });
       }
-
-      // Encrypt channel key for this member
-      const encryptedKey = await encryptChannelKeyForRecipient(
-        channelKey,
-        privateKey,
-        memberKey.identityKeyPublic
-      );
-
-      encryptedKeys.push({
-        forUserId: member.id,
-        encryptedKey,
-      });
     } catch (err) {
       console.error(`Failed to encrypt key for member ${member.id}:`, err);
     }
   }
 
-  // Send to server
-  if (encryptedKeys.length > 0) {
-    await api.channels.distributeSenderKey({
-      channelId,
-      userId: currentUserId,
-      distributionId: crypto.randomUUID(),
-      encryptedKeys,
+  // Send to server (replaces our previous distribution for this channel epoch)
+  if (encryptedKeys.length === 0) return;
+
+  const distribution = {
+    distributionId: senderKey.distributionId,
+    epoch: senderKey.epoch,
+    expectedDistributionId,
+    encryptedKeys,
+  };
+
+  if (scope === 'channel') {
+    await api.channels.distributeSenderKey({ channelId: senderKey.channelId, ...distribution });
+  } else {
+    await api.dms.distributeSenderKey({ conversationId: senderKey.channelId, ...distribution });
+  }
+}
+
+/**
+ * Start a new sending chain for a channel epoch and share it with the members
+ */
+async function createSenderKey(
+  channelId: string,
+  epoch: number,
+  members: { id: string }[],
+  scope: SenderKeyScope
+): Promise<StoredOutboundSenderKey> {
+  const identity = await getIdentityKeys();
+  if (!identity) {
+    throw new Error('No identity keys found. Please log in again.');
+  }
+
+  const senderKey: StoredOutboundSenderKey = {
+    channelId,
+    epoch,
+    distributionId: crypto.randomUUID(),
+    chainKey: generateChainKey(),
+    iteration: 0,
+  };
+
+  try {
+    await distributeSenderKey(senderKey, members, null, scope);
+  } catch (err) {
+    // Another instance of this device registered a chain for the epoch first
+    if (err instanceof ApiError && err.status === 409 && typeof err.body.distributionId === 'string') {
+      return await adoptSenderKey(channelId, epoch, err.body.distributionId, scope);
+    }
+    throw err;
+  }
+
+  // Keep a receiving copy so we can read our own messages when they come back
+  await storeInboundSenderKey({
+    distributionId: senderKey.distributionId,
+    channelId,
+    epoch,
+    senderUserId: identity.userId,
+    senderDeviceId: identity.deviceId,
+    chainKey: senderKey.chainKey,
+    iteration: senderKey.iteration,
+    skipped: {},
+  });
+  await storeOutboundSenderKey(senderKey);
+
+  return senderKey;
+}
+
+/**
+ * Take over the chain another instance of this device registered for a
+ * channel epoch first: from the key store if another tab made it, otherwise
+ * from the copy that was shared with this device.
+ */
+async function adoptSenderKey(
+  channelId: string,
+  epoch: number,
+  distributionId: string,
+  scope: SenderKeyScope
+): Promise<StoredOutboundSenderKey> {
+  const stored = await getOutboundSenderKey(channelId);
+  if (stored?.distributionId === distributionId) return stored;
+
+  const identity = await getIdentityKeys();
+  const inbound = await getInboundSenderKey(distributionId)
+    ?? await fetchInboundSenderKey(channelId, distributionId, scope);
+
+  if (inbound.senderDeviceId !== identity?.deviceId || inbound.epoch !== epoch) {
+    throw new Error('Sender key does not belong to this device');
+  }
+
+  const senderKey: StoredOutboundSenderKey = {
+    channelId,
+    epoch,
+    distributionId,
+    chainKey: inbound.chainKey,
+    iteration: inbound.iteration,
+  };
+
+  await storeInboundSenderKey(inbound);
+  await storeOutboundSenderKey(senderKey);
+
+  return senderKey;
+}
+
+/**
+ * Share the sending chains we hold with every member again, e.g. after a
+ * member's key change was accepted
+ */
+export async function redistributeSenderKeys(
+  channels: { id: string; epoch: number }[],
+  members: { id: string }[],
+  scope: SenderKeyScope = 'channel'
+): Promise<void> {
+  for (const channel of channels) {
+    await withChainLock(`out:${channel.id}`, async () => {
+      // A chain from an older epoch is replaced on the next message instead
+      const senderKey = await getOutboundSenderKey(channel.id);
+      if (senderKey?.epoch === channel.epoch) {
+        await distributeSenderKey(senderKey, members, senderKey.distributionId, scope);
+      }
     });
   }
 }
 
 /**
- * Encrypt a message for a channel
+ * Encrypt and sign a message for a channel with the next key of our sending
+ * chain, starting a new chain if the channel has moved to a new epoch
  */
 export async function encryptChannelMessage(
-  channelId: string,
-  plaintext: string,
+  channel: { id: string; epoch: number },
+  content: MessageContent,
   members: { id: string; displayName: string }[],
-  currentUserId: string
+  scope: SenderKeyScope = 'channel'
 ): Promise<string> {
-  const { key } = await ensureChannelKey(channelId, members, currentUserId);
-  return await encryptMessage(plaintext, key);
+  const identity = await getIdentityKeys();
+  const signingKey = await getSigningPrivateKey();
+  if (!identity || !signingKey) {
+    throw new Error('No identity keys found. Please log in again.');
+  }
+
+  return await withChainLock(`out:${channel.id}`, async () => {
+    const current = await getOutboundSenderKey(channel.id);
+    const senderKey = current?.epoch === channel.epoch
+      ? current
+      : await createSenderKey(channel.id, channel.epoch, members, scope);
+
+    // Advance the chain before using the key, so a message key is never used twice
+    const { messageKey, chainKey } = await advanceChain(senderKey.chainKey);
+    await storeOutboundSenderKey({ ...senderKey, chainKey, iteration: senderKey.iteration + 1 });
+
+    const header = encodeHeader(senderKey.distributionId, senderKey.epoch, senderKey.iteration, Date.now());
+    const context = envelopeContext(header, channel.id, identity.userId);
+
+    const ciphertext = new Uint8Array(base64ToArrayBuffer(
+      await encryptMessage(JSON.stringify(content), await importAesKey(messageKey), context)
+    ));
+    const signature = new Uint8Array(base64ToArrayBuffer(
+      await signData(concatBytes(context, ciphertext), signingKey)
+    ));
+
+    return arrayBufferToBase64(concatBytes(header, ciphertext, signature).buffer);
+  });
 }
 
 /**
- * Decrypt a message from a channel
+ * Fetch and decrypt a sending chain that was shared with this device, by its
+ * owner or by another device holding it. `iteration` is the first one we need.
  */
-export async function decryptChannelMessage(
+async function fetchInboundSenderKey(
   channelId: string,
-  ciphertext: string,
-  members: { id: string; displayName: string }[],
-  currentUserId: string
-): Promise<string> {
-  try {
-    const { key } = await ensureChannelKey(channelId, members, currentUserId);
-    return await decryptMessage(ciphertext, key);
-  } catch (err) {
-    // If decryption fails, return placeholder
-    console.error('Failed to decrypt message:', err);
-    return '[Unable to decrypt message]';
+  distributionId: string,
+  scope: SenderKeyScope,
+  iteration?: number
+): Promise<StoredInboundSenderKey> {
+  const { senderKeys } = scope === 'channel'
+    ? await api.channels.getSenderKeys(channelId)
+    : await api.dms.getSenderKeys(channelId);
+  const senderKey = senderKeys.find((k) => k.distributionId === distributionId);
+  if (!senderKey) {
+    throw new SenderKeyMissingError(distributionId, iteration);
+  }
+
+  const privateKey = await getIdentityPrivateKey();
+  if (!privateKey) {
+    throw new Error('No identity keys found');
+  }
+
+  // Encrypted by whichever device shared it
+  const { identityKey: sharerPublicKey } = await getDevicePublicKeys(
+    senderKey.sharedByUserId ?? senderKey.userId,
+    senderKey.sharedByDeviceId ?? senderKey.deviceId
+  );
+  const state = JSON.parse(await decryptFromSender(senderKey.encryptedKey, privateKey, sharerPublicKey));
+  const { epoch = 0, skipped = {} } = state;
+
+  // The epoch inside the encrypted payload is the sharer's; the server's label must agree
+  if (epoch !== senderKey.epoch) {
+    throw new Error('Sender key epoch does not match');
+  }
+  if (!isSkippedKeys(skipped)) {
+    throw new Error('Invalid skipped message keys');
+  }
+
+  return {
+    distributionId,
+    channelId,
+    epoch,
+    senderUserId: senderKey.userId,
+    senderDeviceId: senderKey.deviceId,
+    chainKey: state.chainKey,
+    iteration: state.iteration,
+    skipped,
+  };
+}
+
+/**
+ * Get the message key for an iteration of a receiving chain. Returns the key
+ * and the chain state to store once the message has been decrypted with it.
+ */
+async function takeMessageKey(
+  senderKey: StoredInboundSenderKey,
+  iteration: number
+): Promise<{ messageKey: string; next: StoredInboundSenderKey }> {
+  const skipped = { ...senderKey.skipped };
+
+  // A message from before the chain's position: only readable if its key was skipped
+  if (iteration < senderKey.iteration) {
+    const messageKey = skipped[iteration];
+    if (!messageKey) {
+      throw new Error('Message key already used or expired');
+    }
+    delete skipped[iteration];
+    return { messageKey, next: { ...senderKey, skipped } };
+  }
+
+  if (iteration - senderKey.iteration > MAX_SKIP) {
+    throw new Error('Message is too far ahead of the sender chain');
+  }
+
+  // Ratchet forward, keeping the keys of skipped messages
+  let chainKey = senderKey.chainKey;
+  for (let i = senderKey.iteration; i < iteration; i++) {
+    const step = await advanceChain(chainKey);
+    skipped[i] = step.messageKey;
+    chainKey = step.chainKey;
+  }
+
+  const step = await advanceChain(chainKey);
+
+  // Forget the oldest skipped keys beyond the bound
+  const skippedIterations = Object.keys(skipped).map(Number).sort((a, b) => a - b);
+  for (const i of skippedIterations.slice(0, Math.max(0, skippedIterations.length - MAX_SKIPPED_KEYS))) {
+    delete skipped[i];
+  }
+
+  return {
+    messageKey: step.messageKey,
+    next: { ...senderKey, chainKey: step.chainKey, iteration: iteration + 1, skipped },
+  };
+}
+
+/**
+ * Decrypt a sender key envelope, checking its signature first. Returns the
+ * plaintext as JSON message content, or null if the signature is invalid.
+ */
+async function decryptEnvelope(
+  channelId: string,
+  senderId: string,
+  envelope: SenderKeyEnvelope,
+  scope: SenderKeyScope
+): Promise<string | null> {
+  return await withChainLock(envelope.distributionId, async () => {
+    const senderKey = await getInboundSenderKey(envelope.distributionId)
+      ?? await fetchInboundSenderKey(channelId, envelope.distributionId, scope, envelope.iteration);
+
+    if (
+      senderKey.channelId !== channelId ||
+      senderKey.senderUserId !== senderId ||
+      senderKey.epoch !== envelope.epoch
+    ) {
+      throw new Error('Sender key does not belong to this message');
+    }
+
+    const context = envelopeContext(envelope.header, channelId, senderId);
+
+    // Check the signature before using up the message key, so a forgery can't
+    // make the real message at this iteration undecryptable
+    const { signingKey } = await getDevicePublicKeys(senderKey.senderUserId, senderKey.senderDeviceId);
+    const valid = await verifyData(signingKey, concatBytes(context, envelope.ciphertext), envelope.signature);
+    if (!valid) {
+      console.warn(`Invalid signature on a message from ${senderId}`);
+      return null;
+    }
+
+    const { messageKey, next } = await takeMessageKey(senderKey, envelope.iteration);
+    const plaintext = await decryptMessage(
+      arrayBufferToBase64(envelope.ciphertext.buffer),
+      await importAesKey(messageKey),
+      context
+    );
+
+    // Only advance the stored chain once the message has proven authentic
+    await storeInboundSenderKey(next);
+
+    return plaintext;
+  });
+}
+
+/**
+ * Parse a signed sender key envelope, or return null for the unsigned formats
+ * from before signatures: JSON envelopes, and the bare iv + ciphertext of
+ * messages encrypted with a static channel key
+ */
+function parseEnvelope(ciphertext: string): SenderKeyEnvelope | null {
+  if (ciphertext.startsWith('{')) return null;
+
+  const bytes = new Uint8Array(base64ToArrayBuffer(ciphertext));
+  if (bytes[0] !== ENVELOPE_VERSION) return null;
+
+  if (bytes.length < HEADER_LENGTH + SIGNATURE_LENGTH) {
+    throw new Error('Message envelope is truncated');
   }
+
+  const view = new DataView(bytes.buffer);
+  return {
+    distributionId: bytesToUuid(bytes.slice(1, 17)),
+    epoch: view.getUint32(17),
+    iteration: view.getUint32(21),
+    header: bytes.slice(0, HEADER_LENGTH),
+    ciphertext: bytes.slice(HEADER_LENGTH, -SIGNATURE_LENGTH),
+    signature: arrayBufferToBase64(bytes.slice(-SIGNATURE_LENGTH).buffer),
+  };
 }
 
 /**
- * Check if we can encrypt/decrypt in a channel (have the key)
+ * Parse decrypted JSON message content, or return null for unknown content types
  */
-export async function canEncryptInChannel(channelId: string): Promise<boolean> {
-  return await hasChannelKey(channelId);
+export function parseContent(plaintext: string): MessageContent | null {
+  const content = JSON.parse(plaintext);
+  if (content?.type !== 'text' || typeof content.text !== 'string') {
+    return null;
+  }
+
+  if (content.attachments === undefined) {
+    return { type: 'text', text: content.text };
+  }
+
+  if (!Array.isArray(content.attachments) || !content.attachments.every(isAttachmentPointer)) {
+    return null;
+  }
+
+  const attachments = content.attachments.map((a: AttachmentPointer) => ({
+    id: a.id,
+    key: a.key,
+    digest: a.digest,
+    name: a.name,
+    mimeType: a.mimeType,
+    size: a.size,
+  }));
+  return { type: 'text', text: content.text, attachments };
+}
+
+/**
+ * Ask the devices holding a chain to share it with this device from an
+ * iteration on, at most once per interval unless an earlier iteration is needed
+ */
+function requestSenderKey(channelId: string, distributionId: string, iteration: number, scope: SenderKeyScope) {
+  const lastRequest = keyRequests.get(distributionId);
+  if (lastRequest && Date.now() - lastRequest.time < KEY_REQUEST_INTERVAL_MS && lastRequest.iteration <= iteration) {
+    return;
+  }
+
+  keyRequests.set(distributionId, { time: Date.now(), iteration });
+  wsClient.send({ type: 'key:request', payload: { ...scopeIds(scope, channelId), distributionId, iteration } });
+}
+
+/**
+ * Record that the server couldn't pass on our request for a chain
+ */
+export function markSenderKeyUnavailable(distributionId: string, reason: KeyUnavailableReason) {
+  unavailableKeys.set(distributionId, reason);
+}
+
+/**
+ * Record that a chain was shared with this device after we asked for it
+ */
+export function markSenderKeyShared(distributionId: string) {
+  keyRequests.delete(distributionId);
+  unavailableKeys.delete(distributionId);
+}
+
+/**
+ * The state of a chain of the channel's current epoch that we hold, from an
+ * iteration on: from our receiving copy, or our sending chain if we have no
+ * copy of our own. Null if we don't hold it.
+ */
+async function heldChainState(
+  distributionId: string,
+  channel: { id: string; epoch: number },
+  iteration: number | undefined
+): Promise<SharedChainState | null> {
+  const inbound = await withChainLock(distributionId, () => getInboundSenderKey(distributionId));
+  if (inbound) {
+    if (inbound.channelId !== channel.id || inbound.epoch !== channel.epoch) return null;
+    return await chainStateFrom(inbound, iteration ?? inbound.iteration);
+  }
+
+  const outbound = await withChainLock(`out:${channel.id}`, () => getOutboundSenderKey(channel.id));
+  if (outbound?.distributionId !== distributionId || outbound.epoch !== channel.epoch) return null;
+  return await chainStateFrom({ ...outbound, skipped: {} }, iteration ?? outbound.iteration);
+}
+
+/**
+ * Answer another device's request for a chain we hold, ours or another
+ * member's: only for a chain of the channel's current epoch, and only to a
+ * trusted device of a member
+ */
+export async function shareSenderKey(
+  request: {
+    distributionId: string;
+    iteration?: number;
+    requesterUserId: string;
+    requesterDeviceId: string;
+  },
+  channel: { id: string; epoch: number },
+  members: { id: string }[],
+  scope: SenderKeyScope = 'channel'
+): Promise<void> {
+  if (!members.some((m) => m.id === request.requesterUserId)) return;
+  if (request.iteration !== undefined && !(Number.isInteger(request.iteration) && request.iteration >= 0)) return;
+
+  const chainState = await heldChainState(request.distributionId, channel, request.iteration);
+  if (!chainState) return;
+
+  const privateKey = await getIdentityPrivateKey();
+  if (!privateKey) {
+    throw new Error('No identity keys found');
+  }
+
+  // A device we haven't pinned yet shows up as a key change and waits for review
+  const { state, devices } = await getTrustedDevices(request.requesterUserId);
+  const device = devices.find((d) => d.deviceId === request.requesterDeviceId);
+  if (state === 'changed' || !device) {
+    console.warn(`Not sharing sender key with device ${request.requesterDeviceId}: not trusted`);
+    return;
+  }
+
+  wsClient.send({
+    type: 'key:share',
+    payload: {
+      ...scopeIds(scope, channel.id),
+      distributionId: request.distributionId,
+      iteration: request.iteration,
+      forUserId: request.requesterUserId,
+      forDeviceId: device.deviceId,
+      encryptedKey: await encryptForRecipient(senderKeyPayload(chainState), privateKey, device.identityKey),
+    },
+  });
+}
+
+/**
+ * Decrypt a message from a channel and verify its sender
+ */
+export async function decryptChannelMessage(
+  message: {
+    id: string;
+    channelId: string;
+    senderId: string;
+    ciphertext: string | null; // Null for channel notices, which aren't encrypted
+    epoch?: number;
+    expiresAt?: string | null;
+    editedAt?: string | null; // Set for an edited version of the message
+  },
+  scope: SenderKeyScope = 'channel'
+): Promise<DecryptedMessage> {
+  if (message.ciphertext === null) {
+    return { status: 'failed', content: null };
+  }
+
+  // Every version of an edited message is cached on its own
+  const cacheId = message.editedAt ? `${message.id}@${message.editedAt}` : message.id;
+
+  try {
+    // Message keys are single use, so anything decrypted before comes from the cache
+    const cached = await getCachedMessage(cacheId);
+    if (cached) {
+      // Entries cached before signatures were decrypted while nothing was
+      // signed yet. Later unverified entries came from unsigned formats that
+      // may have been forged, so they aren't shown.
+      if (cached.verified === undefined) {
+        return { status: 'unverified', content: { type: 'text', text: cached.plaintext } };
+      }
+      return cached.verified
+        ? { status: 'verified', content: parseContent(cached.plaintext) }
+        : { status: 'unverified', content: null };
+    }
+
+    const envelope = parseEnvelope(message.ciphertext);
+    if (!envelope) {
+      return { status: 'unverified', content: null };
+    }
+
+    if (message.epoch !== undefined && message.epoch !== envelope.epoch) {
+      throw new Error('Message epoch does not match its envelope');
+    }
+    const plaintext = await decryptEnvelope(message.channelId, message.senderId, envelope, scope);
+
+    // Forged messages aren't cached, so they are checked again whenever they are loaded
+    if (plaintext === null) {
+      return { status: 'unverified', content: null };
+    }
+
+    await cacheDecryptedMessage({
+      id: cacheId,
+      channelId: message.channelId,
+      plaintext,
+      verified: true,
+      expiresAt: message.expiresAt ?? undefined,
+    });
+
+    return { status: 'verified', content: parseContent(plaintext) };
+  } catch (err) {
+    // Wait for a device holding the chain to share it, unless none can
+    if (err instanceof SenderKeyMissingError) {
+      const reason = unavailableKeys.get(err.distributionId);
+      if (reason !== 'not_found' && reason !== 'stale_epoch') {
+        requestSenderKey(message.channelId, err.distributionId, err.iteration ?? 0, scope);
+        return { status: 'pending', content: null };
+      }
+    }
+
+    console.error('Failed to decrypt message:', err);
+    return { status: 'failed', content: null };
+  }
 }
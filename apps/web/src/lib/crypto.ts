@@ -2,7 +2,8 @@
  * E2E Encryption module using Web Crypto API
  *
  * Uses ECDH P-256 for key exchange and AES-GCM for message encryption.
- * Each channel has a shared symmetric key derived from member key exchanges.
+ * Channel messages use per-device sender chains ratcheted with HKDF; direct
+ * messages use X3DH and the Double Ratchet (see ratchet.ts).
  */
 
 // Utility functions for encoding/decoding
@@ -31,6 +32,7 @@ export interface KeyPairData {
 }
 
 export interface IdentityKeys {
+  signingKeyPair: KeyPairData; // ECDSA, signs the signed pre-key and login challenges
   identityKeyPair: KeyPairData;
   signedPreKeyPair: KeyPairData;
   signedPreKeySignature: string;
@@ -109,16 +111,61 @@ export async function deriveSharedKey(
 }
 
 /**
- * Generate a random channel key (for group encryption)
+ * Generate a random sender chain key (base64, 32 bytes)
  */
-export async function generateChannelKey(): Promise<CryptoKey> {
-  return await crypto.subtle.generateKey(
-    { name: 'AES-GCM', length: 256 },
-    true,
-    ['encrypt', 'decrypt']
+export function generateChainKey(): string {
+  return arrayBufferToBase64(crypto.getRandomValues(new Uint8Array(32)).buffer);
+}
+
+/**
+ * Compute the raw ECDH shared secret (32 bytes) between our key and theirs
+ */
+export async function computeSharedSecret(
+  privateKey: CryptoKey,
+  publicKeyBase64: string
+): Promise<ArrayBuffer> {
+  return await crypto.subtle.deriveBits(
+    { name: 'ECDH', public: await importPublicKey(publicKeyBase64) },
+    privateKey,
+    256
+  );
+}
+
+/**
+ * Derive key material with HKDF-SHA256
+ */
+export async function hkdf(
+  inputKeyMaterial: BufferSource,
+  salt: BufferSource,
+  info: string,
+  bits: number
+): Promise<ArrayBuffer> {
+  const baseKey = await crypto.subtle.importKey('raw', inputKeyMaterial, 'HKDF', false, ['deriveBits']);
+  return await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(info) },
+    baseKey,
+    bits
   );
 }
 
+/**
+ * Advance a sender chain by one step with HKDF-SHA256.
+ * Returns the message key for the current step and the next chain key;
+ * the current chain key must be discarded afterwards. Other kinds of chains
+ * pass their own info string.
+ */
+export async function advanceChain(chainKeyBase64: string, info = 'vibechat-sender-chain'): Promise<{
+  messageKey: string;
+  chainKey: string;
+}> {
+  const derived = await hkdf(base64ToArrayBuffer(chainKeyBase64), new Uint8Array(32), info, 512);
+
+  return {
+    messageKey: arrayBufferToBase64(derived.slice(0, 32)),
+    chainKey: arrayBufferToBase64(derived.slice(32)),
+  };
+}
+
 /**
  * Export an AES key to base64 for transmission
  */
@@ -142,12 +189,38 @@ export async function importAesKey(keyBase64: string): Promise<CryptoKey> {
 }
 
 /**
- * Encrypt a message with AES-GCM
+ * Derive an AES-GCM key from a passphrase with PBKDF2-SHA256
+ */
+export async function deriveKeyFromPassphrase(
+  passphrase: string,
+  salt: BufferSource,
+  iterations: number
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt a message with AES-GCM, optionally authenticating additional data
  * Returns base64 encoded: iv (12 bytes) + ciphertext
  */
 export async function encryptMessage(
   message: string,
-  key: CryptoKey
+  key: CryptoKey,
+  additionalData?: BufferSource
 ): Promise<string> {
   const encoder = new TextEncoder();
   const data = encoder.encode(message);
@@ -157,7 +230,7 @@ export async function encryptMessage(
 
   // Encrypt
   const ciphertext = await crypto.subtle.encrypt(
-    { name: 'AES-GCM', iv },
+    { name: 'AES-GCM', iv, ...(additionalData && { additionalData }) },
     key,
     data
   );
@@ -171,12 +244,13 @@ export async function encryptMessage(
 }
 
 /**
- * Decrypt a message with AES-GCM
+ * Decrypt a message with AES-GCM, optionally authenticating additional data
  * Expects base64 encoded: iv (12 bytes) + ciphertext
  */
 export async function decryptMessage(
   ciphertextBase64: string,
-  key: CryptoKey
+  key: CryptoKey,
+  additionalData?: BufferSource
 ): Promise<string> {
   const combined = new Uint8Array(base64ToArrayBuffer(ciphertextBase64));
 
@@ -186,7 +260,7 @@ export async function decryptMessage(
 
   // Decrypt
   const decrypted = await crypto.subtle.decrypt(
-    { name: 'AES-GCM', iv },
+    { name: 'AES-GCM', iv, ...(additionalData && { additionalData }) },
     key,
     ciphertext
   );
@@ -206,10 +280,24 @@ export async function generateSigningKeyPair(): Promise<CryptoKeyPair> {
   );
 }
 
+/**
+ * Import an ECDSA signing private key from JWK string
+ */
+export async function importSigningPrivateKey(privateKeyJwk: string): Promise<CryptoKey> {
+  const jwk = JSON.parse(privateKeyJwk);
+  return await crypto.subtle.importKey(
+    'jwk',
+    jwk,
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign']
+  );
+}
+
 /**
  * Sign data with private key
  */
-export async function signData(data: ArrayBuffer, privateKey: CryptoKey): Promise<string> {
+export async function signData(data: BufferSource, privateKey: CryptoKey): Promise<string> {
   const signature = await crypto.subtle.sign(
     { name: 'ECDSA', hash: 'SHA-256' },
     privateKey,
@@ -219,37 +307,61 @@ export async function signData(data: ArrayBuffer, privateKey: CryptoKey): Promis
 }
 
 /**
- * Generate all identity keys for a new user
+ * Verify a signature made with signData against a base64 SPKI signing public key
  */
-export async function generateIdentityKeys(): Promise<{
-  keys: IdentityKeys;
-  publicBundle: {
-    identityKeyPublic: string;
-    signedPreKeyPublic: string;
-    signedPreKeySignature: string;
-    preKeys: Array<{ keyId: string; publicKey: string }>;
-  };
-}> {
-  // Generate identity key pair
-  const identityKeyPair = await generateKeyPair();
-  const identityPublic = await exportPublicKey(identityKeyPair.publicKey);
-  const identityPrivate = await exportPrivateKey(identityKeyPair.privateKey);
+export async function verifyData(
+  signingKeyPublic: string,
+  data: BufferSource,
+  signature: string
+): Promise<boolean> {
+  try {
+    const publicKey = await crypto.subtle.importKey(
+      'spki',
+      base64ToArrayBuffer(signingKeyPublic),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+
+    return await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      publicKey,
+      base64ToArrayBuffer(signature),
+      data
+    );
+  } catch {
+    // Malformed key or signature
+    return false;
+  }
+}
 
-  // Generate signed pre-key pair
-  const signedPreKeyPair = await generateKeyPair();
-  const signedPreKeyPublic = await exportPublicKey(signedPreKeyPair.publicKey);
-  const signedPreKeyPrivate = await exportPrivateKey(signedPreKeyPair.privateKey);
+/**
+ * Sign a login challenge issued by the server.
+ * Must match loginChallengeMessage() on the server.
+ */
+export async function signLoginChallenge(
+  challengeId: string,
+  nonce: string,
+  signingPrivateKey: CryptoKey
+): Promise<string> {
+  const message = new TextEncoder().encode(`vibechat-login:${challengeId}:${nonce}`);
+  return await signData(message.buffer, signingPrivateKey);
+}
 
-  // Sign the pre-key with identity key (we use ECDSA for signing)
-  const signingKeyPair = await generateSigningKeyPair();
-  const preKeyData = base64ToArrayBuffer(signedPreKeyPublic);
-  const signature = await signData(preKeyData, signingKeyPair.privateKey);
+// One-time prekeys uploaded when a device is created (topped up later by prekeys.ts)
+const INITIAL_PREKEY_COUNT = 100;
 
-  // Generate one-time pre-keys
+/**
+ * Generate a batch of one-time pre-keys with consecutive ids
+ */
+export async function generatePreKeys(startId: number, count: number): Promise<{
+  preKeyPairs: Array<{ keyId: number; keyPair: KeyPairData }>;
+  preKeysPublic: Array<{ keyId: string; publicKey: string }>;
+}> {
   const preKeyPairs: Array<{ keyId: number; keyPair: KeyPairData }> = [];
   const preKeysPublic: Array<{ keyId: string; publicKey: string }> = [];
 
-  for (let i = 0; i < 10; i++) {
+  for (let i = startId; i < startId + count; i++) {
     const preKeyPair = await generateKeyPair();
     const publicKey = await exportPublicKey(preKeyPair.publicKey);
     const privateKey = await exportPrivateKey(preKeyPair.privateKey);
@@ -265,27 +377,114 @@ export async function generateIdentityKeys(): Promise<{
     });
   }
 
+  return { preKeyPairs, preKeysPublic };
+}
+
+/**
+ * Build the message a device's signing key signs to vouch for its signed pre-key.
+ * Covers the identity key too, binding the pre-key to that identity.
+ * Must match signedPreKeyMessage() on the server.
+ */
+function signedPreKeyMessage(identityKeyPublic: string, signedPreKeyPublic: string): ArrayBuffer {
+  const prefix = new TextEncoder().encode('vibechat-signed-prekey:');
+  const identityKey = new Uint8Array(base64ToArrayBuffer(identityKeyPublic));
+  const signedPreKey = new Uint8Array(base64ToArrayBuffer(signedPreKeyPublic));
+
+  const message = new Uint8Array(prefix.length + identityKey.length + signedPreKey.length);
+  message.set(prefix, 0);
+  message.set(identityKey, prefix.length);
+  message.set(signedPreKey, prefix.length + identityKey.length);
+
+  return message.buffer;
+}
+
+/**
+ * Generate a signed pre-key pair, signed by the device's signing key
+ */
+export async function generateSignedPreKey(
+  signingPrivateKey: CryptoKey,
+  identityKeyPublic: string
+): Promise<{ keyPair: KeyPairData; signature: string }> {
+  const signedPreKeyPair = await generateKeyPair();
+  const publicKey = await exportPublicKey(signedPreKeyPair.publicKey);
+  const privateKey = await exportPrivateKey(signedPreKeyPair.privateKey);
+
+  const signature = await signData(
+    signedPreKeyMessage(identityKeyPublic, publicKey),
+    signingPrivateKey
+  );
+
+  return { keyPair: { publicKey, privateKey }, signature };
+}
+
+/**
+ * Check that a signed pre-key was signed by the given device signing key
+ */
+export async function verifySignedPreKey(
+  signingKeyPublic: string,
+  identityKeyPublic: string,
+  signedPreKeyPublic: string,
+  signature: string
+): Promise<boolean> {
+  return await verifyData(
+    signingKeyPublic,
+    signedPreKeyMessage(identityKeyPublic, signedPreKeyPublic),
+    signature
+  );
+}
+
+/**
+ * Generate all identity keys for a new user
+ */
+export async function generateIdentityKeys(): Promise<{
+  keys: IdentityKeys;
+  publicBundle: {
+    signingKeyPublic: string;
+    identityKeyPublic: string;
+    signedPreKeyPublic: string;
+    signedPreKeySignature: string;
+    preKeys: Array<{ keyId: string; publicKey: string }>;
+  };
+}> {
+  // Generate long-term signing key pair (signs the signed pre-key and login challenges)
+  const signingKeyPair = await generateSigningKeyPair();
+  const signingPublic = await exportPublicKey(signingKeyPair.publicKey);
+  const signingPrivate = await exportPrivateKey(signingKeyPair.privateKey);
+
+  // Generate identity key pair
+  const identityKeyPair = await generateKeyPair();
+  const identityPublic = await exportPublicKey(identityKeyPair.publicKey);
+  const identityPrivate = await exportPrivateKey(identityKeyPair.privateKey);
+
+  // Generate signed pre-key pair
+  const signedPreKey = await generateSignedPreKey(signingKeyPair.privateKey, identityPublic);
+
+  // Generate one-time pre-keys
+  const { preKeyPairs, preKeysPublic } = await generatePreKeys(0, INITIAL_PREKEY_COUNT);
+
   return {
     keys: {
+      signingKeyPair: { publicKey: signingPublic, privateKey: signingPrivate },
       identityKeyPair: { publicKey: identityPublic, privateKey: identityPrivate },
-      signedPreKeyPair: { publicKey: signedPreKeyPublic, privateKey: signedPreKeyPrivate },
-      signedPreKeySignature: signature,
+      signedPreKeyPair: signedPreKey.keyPair,
+      signedPreKeySignature: signedPreKey.signature,
       preKeyPairs,
     },
     publicBundle: {
+      signingKeyPublic: signingPublic,
       identityKeyPublic: identityPublic,
-      signedPreKeyPublic: signedPreKeyPublic,
-      signedPreKeySignature: signature,
+      signedPreKeyPublic: signedPreKey.keyPair.publicKey,
+      signedPreKeySignature: signedPreKey.signature,
       preKeys: preKeysPublic,
     },
   };
 }
 
 /**
- * Encrypt a channel key for a recipient using their public key
+ * Encrypt data for a recipient device using ECDH between our identity key and theirs
  */
-export async function encryptChannelKeyForRecipient(
-  channelKey: CryptoKey,
+export async function encryptForRecipient(
+  plaintext: string,
   senderPrivateKey: CryptoKey,
   recipientPublicKeyBase64: string
 ): Promise<string> {
@@ -295,26 +494,22 @@ export async function encryptChannelKeyForRecipient(
   // Derive shared secret
   const sharedKey = await deriveSharedKey(senderPrivateKey, recipientPublicKey);
 
-  // Export and encrypt the channel key
-  const channelKeyRaw = await exportAesKey(channelKey);
-  return await encryptMessage(channelKeyRaw, sharedKey);
+  return await encryptMessage(plaintext, sharedKey);
 }
 
 /**
- * Decrypt a channel key received from a sender
+ * Decrypt data encrypted for us by a sender device
  */
-export async function decryptChannelKey(
-  encryptedChannelKey: string,
+export async function decryptFromSender(
+  ciphertext: string,
   recipientPrivateKey: CryptoKey,
   senderPublicKeyBase64: string
-): Promise<CryptoKey> {
+): Promise<string> {
   // Import sender's public key
   const senderPublicKey = await importPublicKey(senderPublicKeyBase64);
 
   // Derive shared secret
   const sharedKey = await deriveSharedKey(recipientPrivateKey, senderPublicKey);
 
-  // Decrypt the channel key
-  const channelKeyBase64 = await decryptMessage(encryptedChannelKey, sharedKey);
-  return await importAesKey(channelKeyBase64);
+  return await decryptMessage(ciphertext, sharedKey);
 }
@@ -0,0 +1,27 @@
+/**
+ * Helpers for describing this browser as a device
+ */
+
+/**
+ * Suggest a human-readable name for this device, e.g. "Firefox on Linux"
+ */
+export function defaultDeviceName(): string {
+  const ua = navigator.userAgent;
+
+  const browser =
+    /Edg\//.test(ua) ? 'Edge' :
+    /Firefox\//.test(ua) ? 'Firefox' :
+    /Chrome\//.test(ua) ? 'Chrome' :
+    /Safari\//.test(ua) ? 'Safari' :
+    'Browser';
+
+  const os =
+    /Android/.test(ua) ? 'Android' :
+    /iPhone|iPad/.test(ua) ? 'iOS' :
+    /Mac OS X/.test(ua) ? 'macOS' :
+    /Windows/.test(ua) ? 'Windows' :
+    /Linux/.test(ua) ? 'Linux' :
+    'Unknown OS';
+
+  return `${browser} on ${os}`;
+}
@@ -0,0 +1,338 @@
+/**
+ * Direct Message Encryption
+ *
+ * Every pair of devices shares a Double Ratchet session (see ratchet.ts),
+ * started with X3DH from the other device's prekey bundle. A direct message
+ * is encrypted once for every device of the other participants and for our
+ * own other devices, and the server hands each device only its copy. Until
+ * the other device replies, messages carry the X3DH values it needs to set
+ * up the session from its prekeys.
+ *
+ * Devices are only encrypted to while their keys match the pinned ones, like
+ * channel sender keys. Since the sending device has no copy of its own
+ * message, it keeps the plaintext in the message cache.
+ *
+ * Group conversations don't use sessions: their messages are encrypted once
+ * with the sender's chain, like channel messages (see channelCrypto.ts).
+ */
+
+import { api } from './api';
+import { verifySignedPreKey } from './crypto';
+import {
+  getIdentityKeys,
+  getSignedPreKeys,
+  getPreKey,
+  deletePreKey,
+  getSession,
+  storeSession,
+  getCachedMessage,
+  cacheDecryptedMessage,
+  StoredSession,
+} from './keyStore';
+import {
+  initiateSession,
+  acceptSession,
+  ratchetEncrypt,
+  ratchetDecrypt,
+  PreKeyBundle,
+  PreKeyHeader,
+  RatchetHeader,
+  RatchetState,
+} from './ratchet';
+import { getDevicePublicKeys, getTrustedDevices } from './trust';
+import { withLock } from './locks';
+import { decryptChannelMessage, parseContent, DecryptedMessage, MessageContent } from './channelCrypto';
+
+const ENVELOPE_VERSION = 1;
+
+// Sessions kept per device, including the current one
+const MAX_SESSION_STATES = 5;
+
+interface DirectEnvelope {
+  version: number;
+  preKey: PreKeyHeader | null; // Set until the other device has replied
+  header: RatchetHeader;
+  ciphertext: string; // Base64 iv + AES-GCM ciphertext
+}
+
+type TrustedDevice = Awaited<ReturnType<typeof getTrustedDevices>>['devices'][number];
+
+export interface DirectMessagePayload {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  senderDeviceId: string;
+  ciphertext: string | null; // This device's copy, or the group message
+  epoch?: number; // Group epoch of the sender's chain
+}
+
+// A session's state is read, advanced and written back
+function withSessionLock<T>(deviceId: string, fn: () => Promise<T>): Promise<T> {
+  return withLock(`session:${deviceId}`, fn);
+}
+
+function encodeEnvelope(envelope: DirectEnvelope): string {
+  return btoa(JSON.stringify(envelope));
+}
+
+function parseEnvelope(ciphertext: string): DirectEnvelope {
+  const envelope = JSON.parse(atob(ciphertext));
+  if (envelope?.version !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported direct message version: ${envelope?.version}`);
+  }
+  return envelope;
+}
+
+/**
+ * Fetch the prekey bundles of a user's devices, keeping those that match the
+ * given trusted devices. Fetching claims one of each device's one-time prekeys.
+ */
+async function fetchBundles(
+  userId: string,
+  trustedDevices: TrustedDevice[]
+): Promise<Map<string, PreKeyBundle>> {
+  const { devices } = await api.auth.getUserKeys(userId);
+  const bundles = new Map<string, PreKeyBundle>();
+
+  for (const device of devices) {
+    const trusted = trustedDevices.find((d) => d.deviceId === device.deviceId);
+    if (!trusted || trusted.identityKey !== device.identityKey || trusted.signingKey !== device.signingKey) {
+      continue;
+    }
+
+    const valid = await verifySignedPreKey(
+      trusted.signingKey,
+      device.identityKey,
+      device.signedPreKey.publicKey,
+      device.signedPreKey.signature
+    );
+    if (valid) {
+      bundles.set(device.deviceId, device);
+    }
+  }
+
+  return bundles;
+}
+
+/**
+ * Encrypt a message for every other device in a conversation. Throws if a
+ * participant's keys have changed or a device's session can't be set up.
+ */
+export async function encryptDirectMessage(
+  participants: { id: string; displayName: string }[],
+  content: MessageContent
+): Promise<{ deviceId: string; ciphertext: string }[]> {
+  const identity = await getIdentityKeys();
+  if (!identity) throw new Error('No identity keys found');
+
+  const plaintext = JSON.stringify(content);
+  const ciphertexts: { deviceId: string; ciphertext: string }[] = [];
+
+  // Participants include ourselves, for our other devices
+  for (const participant of participants) {
+    const { state, devices } = await getTrustedDevices(participant.id);
+    if (state === 'changed') {
+      throw new Error(
+        `${participant.id === identity.userId ? 'Your' : `${participant.displayName}'s`} security keys ` +
+        'have changed. Review the change before sending.'
+      );
+    }
+
+    // Bundles are only fetched if a device has no session yet
+    let bundles: Map<string, PreKeyBundle> | null = null;
+
+    for (const device of devices) {
+      if (device.deviceId === identity.deviceId) continue;
+
+      const ciphertext = await withSessionLock(device.deviceId, async () => {
+        let session = await getSession(device.deviceId);
+
+        if (!session || session.identityKey !== device.identityKey) {
+          bundles ??= await fetchBundles(participant.id, devices);
+          const bundle = bundles.get(device.deviceId);
+          if (!bundle) {
+            throw new Error(`No valid prekey bundle for device ${device.deviceId}`);
+          }
+
+          session = {
+            deviceId: device.deviceId,
+            userId: participant.id,
+            identityKey: device.identityKey,
+            states: [await initiateSession(identity.identityKeyPair, bundle)],
+          };
+        }
+
+        const [current, ...previous] = session.states;
+        const encrypted = await ratchetEncrypt(current, plaintext);
+        await storeSession({ ...session, states: [encrypted.state, ...previous] });
+
+        return encodeEnvelope({
+          version: ENVELOPE_VERSION,
+          preKey: current.pendingPreKey,
+          header: encrypted.header,
+          ciphertext: encrypted.ciphertext,
+        });
+      });
+
+      ciphertexts.push({ deviceId: device.deviceId, ciphertext });
+    }
+  }
+
+  return ciphertexts;
+}
+
+/**
+ * Decrypt an envelope from a device with one of our sessions with it, or a
+ * new session it started. Returns the plaintext and the sessions to store.
+ */
+async function decryptEnvelope(
+  senderId: string,
+  senderDeviceId: string,
+  envelope: DirectEnvelope
+): Promise<{ plaintext: string; session: StoredSession; usedPreKeyId: string | null }> {
+  const { identityKey } = await getDevicePublicKeys(senderId, senderDeviceId);
+
+  const stored = await getSession(senderDeviceId);
+  const states = stored?.identityKey === identityKey ? stored.states : [];
+  const toSession = (current: RatchetState, others: RatchetState[]): StoredSession => ({
+    deviceId: senderDeviceId,
+    userId: senderId,
+    identityKey,
+    // The session that last decrypted a message is the one we reply with
+    states: [current, ...others].slice(0, MAX_SESSION_STATES),
+  });
+
+  for (const [index, state] of states.entries()) {
+    // A message with X3DH values belongs to the session they started
+    if (envelope.preKey && envelope.preKey.ephemeralKey !== state.baseKey) continue;
+
+    try {
+      const decrypted = await ratchetDecrypt(state, envelope.header, envelope.ciphertext);
+      return {
+        plaintext: decrypted.plaintext,
+        session: toSession(decrypted.state, states.filter((_, i) => i !== index)),
+        usedPreKeyId: null,
+      };
+    } catch {
+      // Not this session - try the next one
+    }
+  }
+
+  if (!envelope.preKey) {
+    throw new Error('No session with this device can decrypt the message');
+  }
+
+  // A new session started by the sender
+  const identity = await getIdentityKeys();
+  if (!identity) throw new Error('No identity keys found');
+
+  const { signedPreKeyId, preKeyId, ephemeralKey } = envelope.preKey;
+  const signedPreKey = (await getSignedPreKeys()).find((key) => key.keyId === signedPreKeyId);
+  if (!signedPreKey) {
+    throw new Error(`Signed prekey ${signedPreKeyId} is no longer available`);
+  }
+
+  const preKey = preKeyId !== null ? await getPreKey(preKeyId) : null;
+  if (preKeyId !== null && !preKey) {
+    throw new Error(`One-time prekey ${preKeyId} has already been used`);
+  }
+
+  const state = await acceptSession(
+    identity.identityKeyPair,
+    { publicKey: signedPreKey.publicKey, privateKey: signedPreKey.privateKey },
+    preKey,
+    identityKey,
+    ephemeralKey
+  );
+  const decrypted = await ratchetDecrypt(state, envelope.header, envelope.ciphertext);
+
+  return {
+    plaintext: decrypted.plaintext,
+    session: toSession(decrypted.state, states),
+    usedPreKeyId: preKeyId,
+  };
+}
+
+/**
+ * Decrypt a direct message, or return it from the cache. Message keys are
+ * used up on decryption, so each message only decrypts once.
+ */
+export async function decryptDirectMessage(
+  message: DirectMessagePayload,
+  conversation: { isGroup: boolean }
+): Promise<DecryptedMessage> {
+  if (conversation.isGroup) {
+    if (!message.ciphertext) return { status: 'failed', content: null };
+
+    return await decryptChannelMessage(
+      {
+        id: message.id,
+        channelId: message.conversationId,
+        senderId: message.senderId,
+        ciphertext: message.ciphertext,
+        epoch: message.epoch,
+      },
+      'conversation'
+    );
+  }
+
+  const cached = await getCachedMessage(message.id);
+  if (cached) {
+    return { status: 'verified', content: parseContent(cached.plaintext) };
+  }
+
+  // Sent by this device before its copy was cached (or the cache was cleared)
+  if (!message.ciphertext) {
+    return { status: 'failed', content: null };
+  }
+  const ciphertext = message.ciphertext;
+
+  try {
+    const plaintext = await withSessionLock(message.senderDeviceId, async () => {
+      // Decrypted while we waited for the lock, e.g. by another tab
+      const decryptedMeanwhile = await getCachedMessage(message.id);
+      if (decryptedMeanwhile) return decryptedMeanwhile.plaintext;
+
+      const { plaintext, session, usedPreKeyId } = await decryptEnvelope(
+        message.senderId,
+        message.senderDeviceId,
+        parseEnvelope(ciphertext)
+      );
+
+      // Cache first: once the session moves on, the message can't be decrypted again
+      await cacheDecryptedMessage({
+        id: message.id,
+        channelId: message.conversationId,
+        plaintext,
+        verified: true,
+      });
+      await storeSession(session);
+      if (usedPreKeyId !== null) {
+        await deletePreKey(usedPreKeyId);
+      }
+
+      return plaintext;
+    });
+
+    return { status: 'verified', content: parseContent(plaintext) };
+  } catch (err) {
+    console.error('Failed to decrypt direct message:', err);
+    return { status: 'failed', content: null };
+  }
+}
+
+/**
+ * Keep the plaintext of a message this device sent, which has no copy for it
+ */
+export async function cacheSentDirectMessage(
+  messageId: string,
+  conversationId: string,
+  content: MessageContent
+): Promise<void> {
+  await cacheDecryptedMessage({
+    id: messageId,
+    channelId: conversationId,
+    plaintext: JSON.stringify(content),
+    verified: true,
+  });
+}
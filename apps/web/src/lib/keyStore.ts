@@ -3,17 +3,32 @@
  */
 
 import Dexie, { Table } from 'dexie';
-import { IdentityKeys, KeyPairData, importPrivateKey, importAesKey } from './crypto';
+import {
+  IdentityKeys,
+  KeyPairData,
+  importPrivateKey,
+  importSigningPrivateKey,
+  encryptMessage,
+  decryptMessage,
+} from './crypto';
+import type { RatchetState } from './ratchet';
 
-// Stored identity keys for the local user
+// Stored identity keys for this device
 interface StoredIdentity {
-  id: string; // Always "local" - we only store one identity
+  id: string; // Always "local" - this browser is a single device
   userId: string;
+  deviceId: string;
+  // Missing on identities created before challenge-response login
+  signingKeyPublic?: string;
+  signingKeyPrivate?: string;
   identityKeyPublic: string;
   identityKeyPrivate: string;
+  // Current signed pre-key (older ones are kept in signedPreKeys)
+  signedPreKeyId?: number; // Missing means 0
   signedPreKeyPublic: string;
   signedPreKeyPrivate: string;
   signedPreKeySignature: string;
+  nextPreKeyId?: number; // Id for the next one-time pre-key generated
 }
 
 // Stored one-time pre-keys
@@ -24,24 +39,135 @@ interface StoredPreKey {
   used: boolean;
 }
 
-// Stored channel encryption keys
+// Signed pre-keys, kept for a grace period after rotation
+interface StoredSignedPreKey {
+  keyId: number;
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  createdAt: number;
+}
+
+// Static channel keys from before sender chains (only used to read old messages)
 interface StoredChannelKey {
   channelId: string;
   keyBase64: string;
 }
 
-// Known user public keys (for encryption)
-interface StoredUserKey {
+// Our own sending chain for a channel. Only the chain of the channel's
+// current epoch is kept; a new epoch starts a new chain.
+export interface StoredOutboundSenderKey {
+  channelId: string; // Channel, or group conversation
+  epoch: number;
+  distributionId: string;
+  chainKey: string; // Chain key for the next message
+  iteration: number; // Iteration of the next message
+}
+
+// A sending chain of some device (including our own) that we can decrypt
+export interface StoredInboundSenderKey {
+  distributionId: string;
+  channelId: string; // Channel, or group conversation
+  epoch: number; // Chains of older epochs are kept to read their history
+  senderUserId: string;
+  senderDeviceId: string;
+  chainKey: string; // Chain key for `iteration`
+  iteration: number; // Next iteration we haven't derived a key for
+  skipped: Record<number, string>; // Message keys of skipped iterations, awaiting late messages
+}
+
+// Double Ratchet sessions with another device, newest first. The first is
+// used to send; earlier ones are kept for messages still on their way, e.g.
+// when both devices started a session at the same time.
+export interface StoredSession {
+  deviceId: string; // The other device
   userId: string;
+  identityKey: string; // The other device's identity key the sessions were set up with
+  states: RatchetState[];
+}
+
+// Decrypted messages. Message keys are deleted once used, so history can't
+// be decrypted a second time.
+export interface StoredMessagePlaintext {
+  id: string; // Message id; "<id>@<editedAt>" for edited versions
+  channelId: string; // Channel, or direct message conversation
+  plaintext: string; // JSON message content; plain text in entries cached before content types
+  verified?: boolean; // Sender signature checked; missing on entries cached before signatures
+  expiresAt?: string; // Disappearing messages: dropped from the cache after this
+}
+
+// A decrypted message as cached, with the plaintext encrypted under the local
+// encryption key. Entries cached before that have it in the clear until read.
+interface StoredCachedMessage extends Omit<StoredMessagePlaintext, 'plaintext'> {
+  content?: string; // Base64 iv + AES-GCM ciphertext of the plaintext
+  plaintext?: string;
+}
+
+// Pinned public keys of known devices (trust on first use)
+export interface StoredDeviceKey {
+  deviceId: string;
+  userId: string;
+  signingKeyPublic?: string; // Missing on entries cached before signed pre-keys were verified
   identityKeyPublic: string;
   signedPreKeyPublic: string;
 }
 
+// Trust state of a user whose device keys we have pinned
+export interface StoredContact {
+  userId: string;
+  verified: boolean; // Safety number compared out of band
+  keyChanged: boolean; // Devices changed since pinning; blocks key distribution until accepted
+  pendingDevices?: StoredDeviceKey[]; // The changed device keys, awaiting acceptance
+}
+
+// Keys for decrypted messages kept on this device, in the message cache and
+// the search index. Both are non-extractable.
+export interface StoredSearchKeys {
+  id: string; // Always "local"
+  encryptionKey: CryptoKey; // AES-GCM key for the stored message text
+  tokenKey: CryptoKey; // HMAC key that blinds the indexed words
+}
+
+// A searchable channel message. Only metadata the server already has is stored in the clear.
+export interface StoredSearchEntry {
+  id: string; // Message id
+  channelId: string;
+  threadId?: string; // Root of the thread a reply is in
+  senderId: string;
+  createdAt: string;
+  tokens: string[]; // Blinded words and word prefixes
+  content: string; // Base64 iv + AES-GCM ciphertext of the indexed text
+  expiresAt?: string; // Disappearing messages: dropped from the index after this
+}
+
+// How far the search index backfill has walked a channel's history
+export interface StoredSearchProgress {
+  channelId: string;
+  indexedUntil: string | null; // Every message up to this createdAt has been walked
+  walk: { from: string; cursor: string } | null; // Unfinished walk down from `from`, continuing at `cursor`
+}
+
+// Local key/value settings (not included in backups)
+interface StoredSetting {
+  key: string;
+  value: string;
+}
+
 class KeyStoreDatabase extends Dexie {
   identity!: Table<StoredIdentity>;
   preKeys!: Table<StoredPreKey>;
+  signedPreKeys!: Table<StoredSignedPreKey>;
   channelKeys!: Table<StoredChannelKey>;
-  userKeys!: Table<StoredUserKey>;
+  outboundSenderKeys!: Table<StoredOutboundSenderKey>;
+  inboundSenderKeys!: Table<StoredInboundSenderKey>;
+  sessions!: Table<StoredSession>;
+  messageCache!: Table<StoredCachedMessage>;
+  deviceKeys!: Table<StoredDeviceKey>;
+  contacts!: Table<StoredContact>;
+  settings!: Table<StoredSetting>;
+  searchKeys!: Table<StoredSearchKeys>;
+  searchIndex!: Table<StoredSearchEntry>;
+  searchProgress!: Table<StoredSearchProgress>;
 
   constructor() {
     super('vibechat-keystore');
@@ -52,38 +178,219 @@ class KeyStoreDatabase extends Dexie {
       channelKeys: 'channelId',
       userKeys: 'userId',
     });
+
+    // Keys are per device rather than per user
+    this.version(2).stores({
+      userKeys: null,
+      deviceKeys: 'deviceId, userId',
+    });
+
+    this.version(3).stores({
+      settings: 'key',
+    });
+
+    this.version(4).stores({
+      signedPreKeys: 'keyId',
+    }).upgrade(async (tx) => {
+      // Start the history with the current signed pre-key
+      const identity: StoredIdentity | undefined = await tx.table('identity').get('local');
+      if (identity) {
+        await tx.table('signedPreKeys').put({
+          keyId: identity.signedPreKeyId ?? 0,
+          publicKey: identity.signedPreKeyPublic,
+          privateKey: identity.signedPreKeyPrivate,
+          signature: identity.signedPreKeySignature,
+          createdAt: Date.now(),
+        });
+      }
+    });
+
+    this.version(5).stores({
+      contacts: 'userId',
+    });
+
+    // Per-device sender chains replace static channel keys
+    this.version(6).stores({
+      outboundSenderKeys: 'channelId',
+      inboundSenderKeys: 'distributionId, channelId',
+      messageCache: 'id, channelId',
+    });
+
+    // Sender chains belong to a channel epoch; chains from before epochs are epoch 0
+    this.version(7).stores({
+      inboundSenderKeys: 'distributionId, channelId, [channelId+epoch]',
+    }).upgrade(async (tx) => {
+      await tx.table('outboundSenderKeys').toCollection().modify((key) => {
+        key.epoch ??= 0;
+      });
+      await tx.table('inboundSenderKeys').toCollection().modify((key) => {
+        key.epoch ??= 0;
+      });
+    });
+
+    this.version(8).stores({
+      sessions: 'deviceId, userId',
+    });
+
+    this.version(9).stores({
+      searchKeys: 'id',
+      searchIndex: 'id, channelId, *tokens',
+      searchProgress: 'channelId',
+    });
+
+    this.version(10).stores({
+      messageCache: 'id, channelId, expiresAt',
+      searchIndex: 'id, channelId, *tokens, expiresAt',
+    });
+
+    // Thread replies are indexed too: walk every channel's history again
+    this.version(11).stores({}).upgrade(async (tx) => {
+      await tx.table('searchProgress').clear();
+    });
   }
 }
 
 const db = new KeyStoreDatabase();
 
+// Tables that make up a key backup. Sender chains and sessions are left out:
+// restoring an old chain or ratchet state would undo forward secrecy, and
+// both are set up again when needed.
+const BACKED_UP_TABLES = ['identity', 'preKeys', 'signedPreKeys', 'channelKeys', 'deviceKeys', 'contacts'] as const;
+
+export type KeyStoreSnapshot = Record<(typeof BACKED_UP_TABLES)[number], unknown[]>;
+
 /**
  * Store identity keys after registration
  */
 export async function storeIdentityKeys(
   userId: string,
+  deviceId: string,
   keys: IdentityKeys
 ): Promise<void> {
   // Store main identity
   await db.identity.put({
     id: 'local',
     userId,
+    deviceId,
+    signingKeyPublic: keys.signingKeyPair.publicKey,
+    signingKeyPrivate: keys.signingKeyPair.privateKey,
     identityKeyPublic: keys.identityKeyPair.publicKey,
     identityKeyPrivate: keys.identityKeyPair.privateKey,
+    signedPreKeyId: 0,
     signedPreKeyPublic: keys.signedPreKeyPair.publicKey,
     signedPreKeyPrivate: keys.signedPreKeyPair.privateKey,
     signedPreKeySignature: keys.signedPreKeySignature,
+    nextPreKeyId: keys.preKeyPairs.length,
+  });
+
+  await db.signedPreKeys.put({
+    keyId: 0,
+    publicKey: keys.signedPreKeyPair.publicKey,
+    privateKey: keys.signedPreKeyPair.privateKey,
+    signature: keys.signedPreKeySignature,
+    createdAt: Date.now(),
   });
 
-  // Store pre-keys
-  for (const preKey of keys.preKeyPairs) {
-    await db.preKeys.put({
-      id: String(preKey.keyId),
-      publicKey: preKey.keyPair.publicKey,
-      privateKey: preKey.keyPair.privateKey,
-      used: false,
+  await storePreKeys(keys.preKeyPairs);
+}
+
+/**
+ * Store one-time pre-keys
+ */
+export async function storePreKeys(
+  preKeyPairs: Array<{ keyId: number; keyPair: KeyPairData }>
+): Promise<void> {
+  await db.preKeys.bulkPut(preKeyPairs.map((preKey) => ({
+    id: String(preKey.keyId),
+    publicKey: preKey.keyPair.publicKey,
+    privateKey: preKey.keyPair.privateKey,
+    used: false,
+  })));
+}
+
+/**
+ * Get a one-time pre-key by id
+ */
+export async function getPreKey(keyId: string): Promise<KeyPairData | null> {
+  const preKey = await db.preKeys.get(keyId);
+  return preKey ? { publicKey: preKey.publicKey, privateKey: preKey.privateKey } : null;
+}
+
+/**
+ * Delete a one-time pre-key once a session has been set up with it
+ */
+export async function deletePreKey(keyId: string): Promise<void> {
+  await db.preKeys.delete(keyId);
+}
+
+/**
+ * Reserve a range of ids for new one-time pre-keys. Returns the first id.
+ */
+export async function reservePreKeyIds(count: number): Promise<number> {
+  return await db.transaction('rw', db.identity, db.preKeys, async () => {
+    const identity = await db.identity.get('local');
+    if (!identity) throw new Error('No identity keys found');
+
+    // Identities from before the counter existed: continue after the highest stored id
+    let startId = identity.nextPreKeyId;
+    if (startId === undefined) {
+      const ids = (await db.preKeys.toCollection().primaryKeys()).map(Number);
+      startId = ids.length > 0 ? Math.max(...ids) + 1 : 0;
+    }
+
+    await db.identity.update('local', { nextPreKeyId: startId + count });
+    return startId;
+  });
+}
+
+/**
+ * Make a new signed pre-key current, keeping the old one in the history
+ */
+export async function storeSignedPreKey(
+  keyId: number,
+  keyPair: KeyPairData,
+  signature: string
+): Promise<void> {
+  await db.transaction('rw', db.identity, db.signedPreKeys, async () => {
+    await db.signedPreKeys.put({
+      keyId,
+      publicKey: keyPair.publicKey,
+      privateKey: keyPair.privateKey,
+      signature,
+      createdAt: Date.now(),
     });
-  }
+
+    await db.identity.update('local', {
+      signedPreKeyId: keyId,
+      signedPreKeyPublic: keyPair.publicKey,
+      signedPreKeyPrivate: keyPair.privateKey,
+      signedPreKeySignature: signature,
+    });
+  });
+}
+
+/**
+ * Get every signed pre-key still kept locally, oldest first
+ */
+export async function getSignedPreKeys(): Promise<StoredSignedPreKey[]> {
+  return await db.signedPreKeys.orderBy('keyId').toArray();
+}
+
+/**
+ * Get the id of the current signed pre-key
+ */
+export async function getSignedPreKeyId(): Promise<number | null> {
+  const identity = await db.identity.get('local');
+  if (!identity) return null;
+
+  return identity.signedPreKeyId ?? 0;
+}
+
+/**
+ * Delete signed pre-keys whose grace period has ended
+ */
+export async function deleteSignedPreKeys(keyIds: number[]): Promise<void> {
+  await db.signedPreKeys.bulkDelete(keyIds);
 }
 
 /**
@@ -91,6 +398,8 @@ export async function storeIdentityKeys(
  */
 export async function getIdentityKeys(): Promise<{
   userId: string;
+  deviceId: string;
+  signingKeyPublic: string | null;
   identityKeyPair: KeyPairData;
   signedPreKeyPair: KeyPairData;
 } | null> {
@@ -99,6 +408,8 @@ export async function getIdentityKeys(): Promise<{
 
   return {
     userId: identity.userId,
+    deviceId: identity.deviceId,
+    signingKeyPublic: identity.signingKeyPublic ?? null,
     identityKeyPair: {
       publicKey: identity.identityKeyPublic,
       privateKey: identity.identityKeyPrivate,
@@ -110,6 +421,14 @@ export async function getIdentityKeys(): Promise<{
   };
 }
 
+/**
+ * Record the server-assigned device id for an identity created before
+ * multi-device accounts
+ */
+export async function setLocalDeviceId(deviceId: string): Promise<void> {
+  await db.identity.update('local', { deviceId });
+}
+
 /**
  * Get the identity private key for decryption
  */
@@ -121,53 +440,167 @@ export async function getIdentityPrivateKey(): Promise<CryptoKey | null> {
 }
 
 /**
- * Store a channel encryption key
+ * Get the signing private key used to answer login challenges
  */
-export async function storeChannelKey(
-  channelId: string,
-  keyBase64: string
-): Promise<void> {
-  await db.channelKeys.put({ channelId, keyBase64 });
+export async function getSigningPrivateKey(): Promise<CryptoKey | null> {
+  const identity = await db.identity.get('local');
+  if (!identity?.signingKeyPrivate) return null;
+
+  return await importSigningPrivateKey(identity.signingKeyPrivate);
 }
 
 /**
- * Get a channel encryption key
+ * Get our sending chain for a channel
  */
-export async function getChannelKey(channelId: string): Promise<CryptoKey | null> {
-  const stored = await db.channelKeys.get(channelId);
-  if (!stored) return null;
+export async function getOutboundSenderKey(channelId: string): Promise<StoredOutboundSenderKey | null> {
+  return await db.outboundSenderKeys.get(channelId) ?? null;
+}
 
-  return await importAesKey(stored.keyBase64);
+/**
+ * Store our sending chain for a channel
+ */
+export async function storeOutboundSenderKey(senderKey: StoredOutboundSenderKey): Promise<void> {
+  await db.outboundSenderKeys.put(senderKey);
 }
 
 /**
- * Check if we have a key for a channel
+ * Get a receiving chain by distribution id
  */
-export async function hasChannelKey(channelId: string): Promise<boolean> {
-  const stored = await db.channelKeys.get(channelId);
-  return stored !== null;
+export async function getInboundSenderKey(distributionId: string): Promise<StoredInboundSenderKey | null> {
+  return await db.inboundSenderKeys.get(distributionId) ?? null;
 }
 
 /**
- * Store another user's public key
+ * Store a receiving chain
  */
-export async function storeUserKey(
+export async function storeInboundSenderKey(senderKey: StoredInboundSenderKey): Promise<void> {
+  await db.inboundSenderKeys.put(senderKey);
+}
+
+/**
+ * Get our sessions with a device
+ */
+export async function getSession(deviceId: string): Promise<StoredSession | null> {
+  return await db.sessions.get(deviceId) ?? null;
+}
+
+/**
+ * Store our sessions with a device
+ */
+export async function storeSession(session: StoredSession): Promise<void> {
+  await db.sessions.put(session);
+}
+
+/**
+ * Get a message we have decrypted before. An entry cached in the clear is
+ * encrypted on the way.
+ */
+export async function getCachedMessage(messageId: string): Promise<StoredMessagePlaintext | null> {
+  const cached = await db.messageCache.get(messageId);
+  if (!cached) return null;
+
+  const { content, plaintext, ...message } = cached;
+  if (content !== undefined) {
+    const { encryptionKey } = await getLocalKeys();
+    return { ...message, plaintext: await decryptMessage(content, encryptionKey) };
+  }
+
+  if (plaintext === undefined) return null;
+  await cacheDecryptedMessage({ ...message, plaintext });
+  return { ...message, plaintext };
+}
+
+/**
+ * Remember the decrypted content of a message and whether its sender was
+ * verified, encrypted with the local encryption key
+ */
+export async function cacheDecryptedMessage(message: StoredMessagePlaintext): Promise<void> {
+  const { plaintext, ...rest } = message;
+  const { encryptionKey } = await getLocalKeys();
+  await db.messageCache.put({ ...rest, content: await encryptMessage(plaintext, encryptionKey) });
+}
+
+/**
+ * Encrypt the message cache entries from before it was encrypted
+ */
+export async function encryptCachedPlaintexts(): Promise<void> {
+  const legacy = await db.messageCache.filter((entry) => entry.plaintext !== undefined).toArray();
+
+  for (const { plaintext, ...message } of legacy) {
+    await cacheDecryptedMessage({ ...message, plaintext: plaintext! });
+  }
+}
+
+/**
+ * Forget the plaintext of messages: their cache entries, including edited
+ * versions, and search index entries
+ */
+export async function deleteMessagePlaintexts(messageIds: string[]): Promise<void> {
+  await db.transaction('rw', db.messageCache, db.searchIndex, async () => {
+    await db.messageCache.where('id').startsWithAnyOf(messageIds).delete();
+    await db.searchIndex.bulkDelete(messageIds);
+  });
+}
+
+/**
+ * Forget the plaintext of every disappearing message that has expired
+ */
+export async function deleteExpiredMessagePlaintexts(): Promise<void> {
+  const now = new Date().toISOString();
+
+  await db.transaction('rw', db.messageCache, db.searchIndex, async () => {
+    await db.messageCache.where('expiresAt').belowOrEqual(now).delete();
+    await db.searchIndex.where('expiresAt').belowOrEqual(now).delete();
+  });
+}
+
+/**
+ * Get a device's public key
+ */
+export async function getDeviceKey(deviceId: string): Promise<StoredDeviceKey | null> {
+  return await db.deviceKeys.get(deviceId) ?? null;
+}
+
+/**
+ * Get the pinned keys of all of a user's devices
+ */
+export async function getUserDeviceKeys(userId: string): Promise<StoredDeviceKey[]> {
+  return await db.deviceKeys.where('userId').equals(userId).toArray();
+}
+
+/**
+ * Replace the pinned keys of a user's devices
+ */
+export async function replaceUserDeviceKeys(
   userId: string,
-  identityKeyPublic: string,
-  signedPreKeyPublic: string
+  deviceKeys: StoredDeviceKey[]
 ): Promise<void> {
-  await db.userKeys.put({
-    userId,
-    identityKeyPublic,
-    signedPreKeyPublic,
+  await db.transaction('rw', db.deviceKeys, async () => {
+    await db.deviceKeys.where('userId').equals(userId).delete();
+    await db.deviceKeys.bulkPut(deviceKeys);
   });
 }
 
 /**
- * Get a user's public key
+ * Get a user's trust state
+ */
+export async function getContact(userId: string): Promise<StoredContact | null> {
+  return await db.contacts.get(userId) ?? null;
+}
+
+/**
+ * Get the trust state of several users
+ */
+export async function getContacts(userIds: string[]): Promise<StoredContact[]> {
+  const contacts = await db.contacts.bulkGet(userIds);
+  return contacts.filter((contact): contact is StoredContact => !!contact);
+}
+
+/**
+ * Store a user's trust state
  */
-export async function getUserKey(userId: string): Promise<StoredUserKey | null> {
-  return await db.userKeys.get(userId) ?? null;
+export async function storeContact(contact: StoredContact): Promise<void> {
+  await db.contacts.put(contact);
 }
 
 /**
@@ -176,8 +609,129 @@ export async function getUserKey(userId: string): Promise<StoredUserKey | null>
 export async function clearAllKeys(): Promise<void> {
   await db.identity.clear();
   await db.preKeys.clear();
+  await db.signedPreKeys.clear();
   await db.channelKeys.clear();
-  await db.userKeys.clear();
+  await db.outboundSenderKeys.clear();
+  await db.inboundSenderKeys.clear();
+  await db.sessions.clear();
+  await db.messageCache.clear();
+  await db.deviceKeys.clear();
+  await db.contacts.clear();
+  await db.settings.clear();
+  await db.searchKeys.clear();
+  localKeysPromise = null;
+  await db.searchIndex.clear();
+  await db.searchProgress.clear();
+}
+
+/**
+ * Read every backed-up table, for building a key backup
+ */
+export async function exportKeyStore(): Promise<KeyStoreSnapshot> {
+  const snapshot = {} as KeyStoreSnapshot;
+  for (const name of BACKED_UP_TABLES) {
+    snapshot[name] = await db.table(name).toArray();
+  }
+  return snapshot;
+}
+
+/**
+ * Replace the local keys with the contents of a key backup
+ */
+export async function importKeyStore(snapshot: KeyStoreSnapshot): Promise<void> {
+  await db.transaction('rw', BACKED_UP_TABLES.map((name) => db.table(name)), async () => {
+    for (const name of BACKED_UP_TABLES) {
+      await db.table(name).clear();
+      await db.table(name).bulkPut(snapshot[name] ?? []);
+    }
+  });
+}
+
+/**
+ * Get a local setting
+ */
+export async function getSetting(key: string): Promise<string | null> {
+  return (await db.settings.get(key))?.value ?? null;
+}
+
+/**
+ * Store a local setting
+ */
+export async function setSetting(key: string, value: string): Promise<void> {
+  await db.settings.put({ key, value });
+}
+
+/**
+ * Store the local keys, unless another tab got there first. Returns the keys in use.
+ */
+async function storeLocalKeys(keys: StoredSearchKeys): Promise<StoredSearchKeys> {
+  return await db.transaction('rw', db.searchKeys, async () => {
+    const existing = await db.searchKeys.get('local');
+    if (existing) return existing;
+
+    await db.searchKeys.put(keys);
+    return keys;
+  });
+}
+
+let localKeysPromise: Promise<StoredSearchKeys> | null = null;
+
+/**
+ * Get the keys for decrypted messages kept on this device, creating them the
+ * first time
+ */
+export function getLocalKeys(): Promise<StoredSearchKeys> {
+  localKeysPromise ??= (async () => {
+    const existing = await db.searchKeys.get('local');
+    if (existing) return existing;
+
+    return await storeLocalKeys({
+      id: 'local',
+      encryptionKey: await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']),
+      tokenKey: await crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign']),
+    });
+  })();
+
+  // Let a failure be retried
+  localKeysPromise.catch(() => {
+    localKeysPromise = null;
+  });
+  return localKeysPromise;
+}
+
+/**
+ * Add or replace messages in the search index
+ */
+export async function storeSearchEntries(entries: StoredSearchEntry[]): Promise<void> {
+  await db.searchIndex.bulkPut(entries);
+}
+
+/**
+ * Get the indexed messages of some channels that contain every one of the given tokens
+ */
+export async function findSearchEntries(tokens: string[], channelIds: string[]): Promise<StoredSearchEntry[]> {
+  if (tokens.length === 0) return [];
+
+  const channels = new Set(channelIds);
+  return await db.searchIndex
+    .where('tokens')
+    .equals(tokens[0])
+    .filter((entry) => channels.has(entry.channelId) && tokens.every((token) => entry.tokens.includes(token)))
+    .toArray();
+}
+
+/**
+ * Get how far the search index backfill got in a channel
+ */
+export async function getSearchProgress(channelId: string): Promise<StoredSearchProgress | null> {
+  return await db.searchProgress.get(channelId) ?? null;
+}
+
+/**
+ * Record how far the search index backfill got in a channel
+ */
+export async function storeSearchProgress(progress: StoredSearchProgress): Promise<void> {
+  await db.searchProgress.put(progress);
 }
 
 /**
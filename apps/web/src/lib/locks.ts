@@ -0,0 +1,28 @@
+/**
+ * Locks
+ *
+ * Key material such as sender chains and ratchet sessions is read, advanced
+ * and written back. Work on the same state must not interleave, also across
+ * tabs, which share the key store.
+ */
+
+// Fallback for browsers without the Web Locks API (single tab only)
+const locks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run fn while holding the named lock
+ */
+export function withLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  if (navigator.locks) {
+    // The lock is held until fn settles, and request() resolves with its result
+    return navigator.locks.request(`vibechat-${name}`, fn) as unknown as Promise<T>;
+  }
+
+  const previous = locks.get(name) ?? Promise.resolve();
+  const result = previous.catch(() => {}).then(fn);
+  locks.set(name, result);
+  result.finally(() => {
+    if (locks.get(name) === result) locks.delete(name);
+  }).catch(() => {});
+  return result;
+}
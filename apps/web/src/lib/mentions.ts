@@ -0,0 +1,85 @@
+/**
+ * Mentions
+ *
+ * Mentions are written into the message text as "@Display Name", "@here" or
+ * "@everyone". The text is encrypted, so whoever it mentions is also listed in
+ * plaintext next to the ciphertext: the server uses that list to notify them.
+ */
+
+// Who a message mentions, as sent to the server
+export interface Mentions {
+  userIds: string[];
+  everyone: boolean;
+  here: boolean; // Members who are online
+}
+
+export const MENTION_KEYWORDS = ['here', 'everyone'] as const;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// "@name" not followed by more of a word, so "@Al" doesn't match "@Alice"
+function mentionPattern(names: string[], flags = 'u'): RegExp {
+  const alternatives = names
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  return new RegExp(`@(${alternatives})(?![\\p{L}\\p{N}_])`, flags);
+}
+
+/**
+ * Everyone a message's text mentions, or undefined if nobody
+ */
+export function findMentions(
+  text: string,
+  members: { id: string; displayName: string }[],
+  selfId: string
+): Mentions | undefined {
+  const userIds = members
+    .filter((m) => m.id !== selfId && mentionPattern([m.displayName]).test(text))
+    .map((m) => m.id);
+  const everyone = mentionPattern(['everyone']).test(text);
+  const here = mentionPattern(['here']).test(text);
+
+  return userIds.length > 0 || everyone || here ? { userIds, everyone, here } : undefined;
+}
+
+/**
+ * The mention being typed just before the caret, e.g. "@al", if any
+ */
+export function mentionQueryAt(text: string, caret: number): { start: number; query: string } | null {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+
+  return { start: match.index + match[1].length, query: match[2] };
+}
+
+/**
+ * Split text into plain parts and mentions of the given names or keywords, for highlighting
+ */
+export function splitMentions(text: string, names: string[]): { text: string; isMention: boolean }[] {
+  const pattern = mentionPattern([...names, ...MENTION_KEYWORDS], 'gu');
+  const parts: { text: string; isMention: boolean }[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    if (match.index! > last) parts.push({ text: text.slice(last, match.index), isMention: false });
+    parts.push({ text: match[0], isMention: true });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), isMention: false });
+
+  return parts;
+}
+
+/**
+ * Whether a message mentions a user, going by the sender's plaintext hints
+ */
+export function isMentioned(
+  message: { mentionedUserIds?: string[] | null; mentionsEveryone?: boolean },
+  userId: string
+): boolean {
+  return !!message.mentionsEveryone || !!message.mentionedUserIds?.includes(userId);
+}
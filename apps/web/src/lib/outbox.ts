@@ -0,0 +1,411 @@
+/**
+ * Outbox
+ *
+ * Channel and direct messages wait here until the server acknowledges them.
+ * Each carries a client message id, so a message resent after a lost
+ * acknowledgement is only stored once. If the server rejects a message because
+ * the channel has moved to a new key epoch, it is encrypted again for that
+ * epoch and resent; a direct message is encrypted again when the
+ * participants' devices have changed, or a group conversation's epoch.
+ * Edits of channel messages wait here too, one per message.
+ *
+ * A message the server refuses for any other reason, or that keeps being
+ * rejected, is no longer sent. It is shown as failed until the user retries
+ * or discards it.
+ */
+
+import { wsClient } from './websocket';
+import { encryptChannelMessage, MessageContent } from './channelCrypto';
+import { encryptDirectMessage, cacheSentDirectMessage } from './dmCrypto';
+import { useChatStore } from '../stores/chat';
+import type { Mentions } from './mentions';
+
+// A message rejected this many times is given up on
+const MAX_REENCRYPTIONS = 3;
+
+interface PendingMessage {
+  clientMessageId: string;
+  communityId: string;
+  channelId: string;
+  content: MessageContent;
+  replyToId?: string;
+  threadId?: string;
+  mentions?: Mentions;
+  epoch: number;
+  ciphertext: string;
+  reencryptions: number;
+}
+
+// One-to-one messages have a ciphertext per device, group messages a single
+// one from the sender's chain for the conversation's epoch
+type DirectCiphertext =
+  | { ciphertexts: { deviceId: string; ciphertext: string }[] }
+  | { ciphertext: string; epoch: number };
+
+interface PendingDirectMessage {
+  clientMessageId: string;
+  conversationId: string;
+  content: MessageContent;
+  encrypted: DirectCiphertext;
+  reencryptions: number;
+}
+
+// A new version of one of our channel messages
+interface PendingEdit {
+  messageId: string;
+  communityId: string;
+  channelId: string;
+  content: MessageContent;
+  epoch: number;
+  ciphertext: string;
+  reencryptions: number;
+}
+
+const pending = new Map<string, PendingMessage>();
+const pendingDirect = new Map<string, PendingDirectMessage>();
+const pendingEdits = new Map<string, PendingEdit>(); // messageId -> latest edit
+const failed = new Map<string, PendingMessage>();
+const failedDirect = new Map<string, PendingDirectMessage>();
+
+function getCommunityMembers(communityId: string) {
+  return useChatStore.getState().members[communityId] || [];
+}
+
+function getConversation(conversationId: string) {
+  const conversation = useChatStore.getState().conversations.find((c) => c.id === conversationId);
+  if (!conversation) throw new Error('Conversation not found');
+  return conversation;
+}
+
+async function encryptForConversation(conversationId: string, content: MessageContent): Promise<DirectCiphertext> {
+  const conversation = getConversation(conversationId);
+
+  if (conversation.isGroup) {
+    const ciphertext = await encryptChannelMessage(
+      conversation,
+      content,
+      conversation.participants,
+      'conversation'
+    );
+    return { ciphertext, epoch: conversation.epoch };
+  }
+
+  return { ciphertexts: await encryptDirectMessage(conversation.participants, content) };
+}
+
+// The server learns which uploads a message carries, so it can let the
+// message's readers download them and delete them with the message
+function attachmentIds(content: MessageContent): string[] | undefined {
+  return content.attachments?.map((a) => a.id);
+}
+
+function transmitDirect(message: PendingDirectMessage) {
+  if ('ciphertexts' in message.encrypted) {
+    wsClient.sendDirectMessage(
+      message.conversationId,
+      message.clientMessageId,
+      message.encrypted.ciphertexts,
+      attachmentIds(message.content)
+    );
+  } else {
+    wsClient.sendGroupMessage(
+      message.conversationId,
+      message.clientMessageId,
+      message.encrypted.ciphertext,
+      message.encrypted.epoch,
+      attachmentIds(message.content)
+    );
+  }
+}
+
+function transmit(message: PendingMessage) {
+  wsClient.sendMessage(
+    message.channelId,
+    message.ciphertext,
+    message.epoch,
+    message.clientMessageId,
+    message.replyToId,
+    message.threadId,
+    message.mentions,
+    attachmentIds(message.content)
+  );
+}
+
+/**
+ * Encrypt a message for a channel, or one of its threads, and send it along
+ * with whoever it mentions. Throws if it can't be encrypted; once this
+ * returns, delivery is retried by the outbox.
+ */
+export async function sendChannelMessage(
+  communityId: string,
+  channel: { id: string; epoch: number },
+  content: MessageContent,
+  { replyToId, threadId, mentions }: { replyToId?: string; threadId?: string; mentions?: Mentions } = {}
+): Promise<void> {
+  const ciphertext = await encryptChannelMessage(channel, content, getCommunityMembers(communityId));
+
+  const message: PendingMessage = {
+    clientMessageId: crypto.randomUUID(),
+    communityId,
+    channelId: channel.id,
+    content,
+    replyToId,
+    threadId,
+    mentions,
+    epoch: channel.epoch,
+    ciphertext,
+    reencryptions: 0,
+  };
+
+  pending.set(message.clientMessageId, message);
+  transmit(message);
+}
+
+/**
+ * The server stored a message we sent
+ */
+export function acknowledgeMessage(clientMessageId: string) {
+  pending.delete(clientMessageId);
+}
+
+/**
+ * The server rejected a message from an old epoch: encrypt it again for the
+ * current epoch. The community's members should be reloaded first, so the new
+ * sending chain is shared with the right people.
+ */
+export async function reencryptMessage(clientMessageId: string, epoch: number): Promise<void> {
+  const message = pending.get(clientMessageId);
+  if (!message) return;
+
+  if (message.reencryptions >= MAX_REENCRYPTIONS) {
+    console.error(`Giving up on message ${clientMessageId}: rejected ${message.reencryptions} times`);
+    failMessage(clientMessageId, 'Rejected too many times');
+    return;
+  }
+
+  try {
+    message.ciphertext = await encryptChannelMessage(
+      { id: message.channelId, epoch },
+      message.content,
+      getCommunityMembers(message.communityId)
+    );
+    message.epoch = epoch;
+    message.reencryptions++;
+    transmit(message);
+  } catch (err) {
+    console.error(`Failed to re-encrypt message ${clientMessageId}:`, err);
+    failMessage(clientMessageId, 'Could not be encrypted');
+  }
+}
+
+/**
+ * Encrypt a new version of one of our channel messages and send it. Throws
+ * if it can't be encrypted; a later edit of the same message replaces this one.
+ */
+export async function editChannelMessage(
+  communityId: string,
+  channel: { id: string; epoch: number },
+  messageId: string,
+  content: MessageContent
+): Promise<void> {
+  const ciphertext = await encryptChannelMessage(channel, content, getCommunityMembers(communityId));
+
+  const edit: PendingEdit = {
+    messageId,
+    communityId,
+    channelId: channel.id,
+    content,
+    epoch: channel.epoch,
+    ciphertext,
+    reencryptions: 0,
+  };
+
+  pendingEdits.set(messageId, edit);
+  wsClient.editMessage(messageId, ciphertext, edit.epoch);
+}
+
+/**
+ * The server stored a new version of a message. Only the edit we sent last
+ * is settled by it.
+ */
+export function acknowledgeEdit(messageId: string, ciphertext: string) {
+  if (pendingEdits.get(messageId)?.ciphertext === ciphertext) {
+    pendingEdits.delete(messageId);
+  }
+}
+
+/**
+ * Stop sending edits of messages that were deleted
+ */
+export function discardEdits(messageIds: string[]) {
+  for (const messageId of messageIds) {
+    pendingEdits.delete(messageId);
+  }
+}
+
+/**
+ * The server rejected an edit from an old epoch: encrypt it again for the
+ * current epoch, like a new message
+ */
+export async function reencryptEdit(messageId: string, epoch: number): Promise<void> {
+  const edit = pendingEdits.get(messageId);
+  if (!edit) return;
+
+  if (edit.reencryptions >= MAX_REENCRYPTIONS) {
+    console.error(`Giving up on edit of message ${messageId}: rejected ${edit.reencryptions} times`);
+    pendingEdits.delete(messageId);
+    return;
+  }
+
+  try {
+    edit.ciphertext = await encryptChannelMessage(
+      { id: edit.channelId, epoch },
+      edit.content,
+      getCommunityMembers(edit.communityId)
+    );
+    edit.epoch = epoch;
+    edit.reencryptions++;
+    wsClient.editMessage(messageId, edit.ciphertext, epoch);
+  } catch (err) {
+    console.error(`Failed to re-encrypt edit of message ${messageId}:`, err);
+    pendingEdits.delete(messageId);
+  }
+}
+
+/**
+ * Encrypt a direct message for every other device in a conversation, or with
+ * our chain for a group conversation, and send it. Throws if it can't be
+ * encrypted; once this returns, delivery is retried by the outbox.
+ */
+export async function sendDirectMessage(conversationId: string, content: MessageContent): Promise<void> {
+  const message: PendingDirectMessage = {
+    clientMessageId: crypto.randomUUID(),
+    conversationId,
+    content,
+    encrypted: await encryptForConversation(conversationId, content),
+    reencryptions: 0,
+  };
+
+  pendingDirect.set(message.clientMessageId, message);
+  transmitDirect(message);
+}
+
+/**
+ * The server stored a direct message we sent. This device has no copy of its
+ * own, so the content is cached under the stored message's id.
+ */
+export async function acknowledgeDirectMessage(clientMessageId: string, messageId: string): Promise<void> {
+  const message = pendingDirect.get(clientMessageId);
+  if (!message) return;
+
+  pendingDirect.delete(clientMessageId);
+  await cacheSentDirectMessage(messageId, message.conversationId, message.content);
+}
+
+/**
+ * The server rejected a direct message because a participant added or removed
+ * a device, or the group conversation moved to a new epoch: encrypt it again.
+ * For a new epoch, the conversations should be reloaded first.
+ */
+export async function reencryptDirectMessage(clientMessageId: string): Promise<void> {
+  const message = pendingDirect.get(clientMessageId);
+  if (!message) return;
+
+  if (message.reencryptions >= MAX_REENCRYPTIONS) {
+    console.error(`Giving up on direct message ${clientMessageId}: rejected ${message.reencryptions} times`);
+    failMessage(clientMessageId, 'Rejected too many times');
+    return;
+  }
+
+  try {
+    message.encrypted = await encryptForConversation(message.conversationId, message.content);
+    message.reencryptions++;
+    transmitDirect(message);
+  } catch (err) {
+    console.error(`Failed to re-encrypt direct message ${clientMessageId}:`, err);
+    failMessage(clientMessageId, 'Could not be encrypted');
+  }
+}
+
+/**
+ * The server refused a channel or direct message for good, e.g. because we
+ * are no longer a member: stop sending it and show it as failed
+ */
+export function failMessage(clientMessageId: string, error: string) {
+  const message = pending.get(clientMessageId);
+  const direct = pendingDirect.get(clientMessageId);
+  const content = message?.content ?? direct?.content;
+  if (!content) return;
+
+  if (message) {
+    pending.delete(clientMessageId);
+    failed.set(clientMessageId, message);
+  } else {
+    pendingDirect.delete(clientMessageId);
+    failedDirect.set(clientMessageId, direct!);
+  }
+
+  useChatStore.getState().addFailedMessage({
+    clientMessageId,
+    channelId: message?.channelId ?? direct!.conversationId,
+    threadId: message?.threadId ?? null,
+    text: content.text || content.attachments?.map((a) => a.name).join(', ') || '',
+    error,
+  });
+}
+
+/**
+ * Send a failed message again, encrypted anew for the channel's current
+ * epoch or the conversation's current devices. Throws if it can't be
+ * encrypted; it then stays failed.
+ */
+export async function retryMessage(clientMessageId: string): Promise<void> {
+  const message = failed.get(clientMessageId);
+  if (message) {
+    const channel = useChatStore.getState().channels[message.communityId]?.find((c) => c.id === message.channelId);
+    if (!channel) throw new Error('Channel not found');
+
+    message.ciphertext = await encryptChannelMessage(channel, message.content, getCommunityMembers(message.communityId));
+    message.epoch = channel.epoch;
+    message.reencryptions = 0;
+
+    discardMessage(clientMessageId);
+    pending.set(clientMessageId, message);
+    transmit(message);
+    return;
+  }
+
+  const direct = failedDirect.get(clientMessageId);
+  if (!direct) return;
+
+  direct.encrypted = await encryptForConversation(direct.conversationId, direct.content);
+  direct.reencryptions = 0;
+
+  discardMessage(clientMessageId);
+  pendingDirect.set(clientMessageId, direct);
+  transmitDirect(direct);
+}
+
+/**
+ * Forget a failed message
+ */
+export function discardMessage(clientMessageId: string) {
+  failed.delete(clientMessageId);
+  failedDirect.delete(clientMessageId);
+  useChatStore.getState().removeFailedMessage(clientMessageId);
+}
+
+/**
+ * Send every unacknowledged message again, e.g. after reconnecting
+ */
+export function flushOutbox() {
+  for (const message of pending.values()) {
+    transmit(message);
+  }
+  for (const message of pendingDirect.values()) {
+    transmitDirect(message);
+  }
+  for (const edit of pendingEdits.values()) {
+    wsClient.editMessage(edit.messageId, edit.ciphertext, edit.epoch);
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Pre-key Maintenance
+ *
+ * Keeps this device's one-time pre-keys stocked on the server and rotates
+ * its signed pre-key on a schedule. Replaced signed pre-keys are kept for a
+ * grace period so sessions started against them can still be completed.
+ */
+
+import { api } from './api';
+import { generatePreKeys, generateSignedPreKey, verifySignedPreKey } from './crypto';
+import {
+  getIdentityKeys,
+  getSigningPrivateKey,
+  storePreKeys,
+  reservePreKeyIds,
+  storeSignedPreKey,
+  getSignedPreKeys,
+  getSignedPreKeyId,
+  deleteSignedPreKeys,
+} from './keyStore';
+import { scheduleKeyBackup } from './backup';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Top up to PREKEY_TARGET once fewer than PREKEY_MIN remain on the server
+const PREKEY_TARGET = 100;
+const PREKEY_MIN = 25;
+
+const SIGNED_PREKEY_MAX_AGE_MS = 7 * DAY_MS;
+const SIGNED_PREKEY_GRACE_MS = 14 * DAY_MS;
+
+let maintenance: Promise<void> | null = null;
+
+/**
+ * Replenish one-time pre-keys and rotate the signed pre-key if needed.
+ * Concurrent calls share a single run.
+ */
+export function maintainPreKeys(): Promise<void> {
+  if (!maintenance) {
+    maintenance = (async () => {
+      try {
+        const status = await api.devices.getPreKeyStatus();
+        await replenishPreKeys(status.count);
+        await rotateSignedPreKey(status.signedPreKeyId);
+      } finally {
+        maintenance = null;
+      }
+    })();
+  }
+
+  return maintenance;
+}
+
+/**
+ * Generate and upload one-time pre-keys if the server is running low
+ */
+async function replenishPreKeys(remaining: number): Promise<void> {
+  if (remaining >= PREKEY_MIN) return;
+
+  const count = PREKEY_TARGET - remaining;
+  const startId = await reservePreKeyIds(count);
+  const { preKeyPairs, preKeysPublic } = await generatePreKeys(startId, count);
+
+  // Keep the private keys before publishing, so a claimed pre-key is never missing locally
+  await storePreKeys(preKeyPairs);
+  await api.devices.uploadPreKeys(preKeysPublic);
+
+  scheduleKeyBackup();
+}
+
+/**
+ * Replace the signed pre-key once it is too old, and forget replaced
+ * signed pre-keys after their grace period
+ */
+async function rotateSignedPreKey(serverSignedPreKeyId: number): Promise<void> {
+  const identity = await getIdentityKeys();
+  const signingKey = await getSigningPrivateKey();
+  const currentId = await getSignedPreKeyId();
+  if (!identity?.signingKeyPublic || !signingKey || currentId === null) return;
+
+  const now = Date.now();
+  const history = await getSignedPreKeys();
+  const current = history.find((key) => key.keyId === currentId);
+
+  // Keys created before signed pre-keys were signed by the device's signing key
+  // can't be verified by anyone, so replace them straight away
+  const verifiable = !!current && await verifySignedPreKey(
+    identity.signingKeyPublic,
+    identity.identityKeyPair.publicKey,
+    current.publicKey,
+    current.signature
+  );
+
+  // Rotate when the key is too old (or its age is unknown, e.g. restored from an old backup)
+  if (!current || !verifiable || now - current.createdAt >= SIGNED_PREKEY_MAX_AGE_MS) {
+    const keyId = Math.max(currentId, ...history.map((key) => key.keyId)) + 1;
+    const { keyPair, signature } = await generateSignedPreKey(signingKey, identity.identityKeyPair.publicKey);
+
+    await storeSignedPreKey(keyId, keyPair, signature);
+    await api.devices.updateSignedPreKey({ keyId, publicKey: keyPair.publicKey, signature });
+
+    scheduleKeyBackup();
+  } else if (serverSignedPreKeyId !== currentId) {
+    // A previous rotation was stored locally but never reached the server
+    await api.devices.updateSignedPreKey({
+      keyId: current.keyId,
+      publicKey: current.publicKey,
+      signature: current.signature,
+    });
+  }
+
+  // A key's grace period starts when its successor was created
+  const keys = await getSignedPreKeys();
+  const expired = keys.filter((_, i) =>
+    i + 1 < keys.length && now - keys[i + 1].createdAt > SIGNED_PREKEY_GRACE_MS
+  );
+
+  if (expired.length > 0) {
+    await deleteSignedPreKeys(expired.map((key) => key.keyId));
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * X3DH and Double Ratchet
+ *
+ * Sessions between two devices for direct messages, following Signal's X3DH
+ * and Double Ratchet specifications on the P-256 keys used everywhere else.
+ * X3DH derives a shared secret from the other device's prekey bundle without
+ * it being online. The Double Ratchet then derives a new key for every
+ * message, and a new DH ratchet step each time the conversation changes
+ * direction, so a compromised session state reveals neither earlier messages
+ * nor, once the other device replies, later ones.
+ *
+ * These functions only compute new session states; dmCrypto.ts stores them.
+ */
+
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  KeyPairData,
+  generateKeyPair,
+  exportPublicKey,
+  exportPrivateKey,
+  importPrivateKey,
+  importAesKey,
+  computeSharedSecret,
+  hkdf,
+  advanceChain,
+  encryptMessage,
+  decryptMessage,
+} from './crypto';
+
+// Prepended to the X3DH key material (the specification's F for P-256)
+const X3DH_PADDING = new Uint8Array(32).fill(0xff);
+
+// How far ahead of a receiving chain a message may be, and how many skipped
+// message keys a session keeps for messages that arrive out of order
+const MAX_SKIP = 1000;
+const MAX_SKIPPED_KEYS = 2000;
+
+// Sent in the clear with every message
+export interface RatchetHeader {
+  ratchetKey: string; // Sender's current ratchet public key
+  previousCount: number; // Messages in the sender's previous sending chain
+  count: number; // Index of this message in the current sending chain
+}
+
+// X3DH values sent by the device that started a session, until it gets a
+// reply, so the other device can set up the session from its prekeys
+export interface PreKeyHeader {
+  ephemeralKey: string;
+  signedPreKeyId: number;
+  preKeyId: string | null; // One-time prekey used, if the bundle had one
+}
+
+export interface RatchetState {
+  baseKey: string; // Ephemeral key of the X3DH that started the session
+  associatedData: string; // Base64 identity key of the initiator, then of the responder
+  rootKey: string;
+  sendingRatchetKey: KeyPairData;
+  receivingRatchetKey: string | null;
+  sendingChainKey: string | null; // The responder can't send until it has received
+  receivingChainKey: string | null;
+  sendCount: number;
+  receiveCount: number;
+  previousSendCount: number;
+  skipped: Record<string, string>; // "<ratchet key>:<count>" -> message key
+  pendingPreKey: PreKeyHeader | null;
+}
+
+export interface PreKeyBundle {
+  identityKey: string;
+  signedPreKey: { keyId: number; publicKey: string };
+  preKey: { keyId: string; publicKey: string } | null;
+}
+
+function concatBytes(...parts: Uint8Array<ArrayBuffer>[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+async function newKeyPair(): Promise<KeyPairData> {
+  const keyPair = await generateKeyPair();
+  return {
+    publicKey: await exportPublicKey(keyPair.publicKey),
+    privateKey: await exportPrivateKey(keyPair.privateKey),
+  };
+}
+
+async function dh(privateKeyJwk: string, publicKey: string): Promise<Uint8Array<ArrayBuffer>> {
+  return new Uint8Array(await computeSharedSecret(await importPrivateKey(privateKeyJwk), publicKey));
+}
+
+/**
+ * The X3DH shared secret from the DH outputs, in specification order
+ */
+async function x3dhSecret(dhOutputs: Uint8Array<ArrayBuffer>[]): Promise<string> {
+  const secret = await hkdf(
+    concatBytes(X3DH_PADDING, ...dhOutputs),
+    new Uint8Array(32),
+    'vibechat-x3dh',
+    256
+  );
+  return arrayBufferToBase64(secret);
+}
+
+/**
+ * Root key step: mix a new DH output into the root key, giving the next root
+ * key and a new chain key
+ */
+async function kdfRoot(
+  rootKey: string,
+  dhOutput: Uint8Array<ArrayBuffer>
+): Promise<{ rootKey: string; chainKey: string }> {
+  const derived = await hkdf(dhOutput, base64ToArrayBuffer(rootKey), 'vibechat-ratchet-root', 512);
+  return {
+    rootKey: arrayBufferToBase64(derived.slice(0, 32)),
+    chainKey: arrayBufferToBase64(derived.slice(32)),
+  };
+}
+
+function kdfChain(chainKey: string) {
+  return advanceChain(chainKey, 'vibechat-ratchet-chain');
+}
+
+function associatedData(initiatorIdentityKey: string, responderIdentityKey: string): string {
+  return arrayBufferToBase64(concatBytes(
+    new Uint8Array(base64ToArrayBuffer(initiatorIdentityKey)),
+    new Uint8Array(base64ToArrayBuffer(responderIdentityKey))
+  ).buffer);
+}
+
+/**
+ * The AES-GCM additional data of a message: the session's associated data
+ * followed by the message header
+ */
+function messageAad(state: RatchetState, header: RatchetHeader): Uint8Array<ArrayBuffer> {
+  return concatBytes(
+    new Uint8Array(base64ToArrayBuffer(state.associatedData)),
+    new TextEncoder().encode(JSON.stringify([header.ratchetKey, header.previousCount, header.count]))
+  );
+}
+
+/**
+ * Start a session with a device from its prekey bundle. The bundle must
+ * already be checked against the device's pinned keys.
+ */
+export async function initiateSession(
+  identityKeyPair: KeyPairData,
+  bundle: PreKeyBundle
+): Promise<RatchetState> {
+  const ephemeral = await newKeyPair();
+  const signedPreKey = bundle.signedPreKey.publicKey;
+
+  const rootKey = await x3dhSecret([
+    await dh(identityKeyPair.privateKey, signedPreKey),
+    await dh(ephemeral.privateKey, bundle.identityKey),
+    await dh(ephemeral.privateKey, signedPreKey),
+    ...(bundle.preKey ? [await dh(ephemeral.privateKey, bundle.preKey.publicKey)] : []),
+  ]);
+
+  // The responder's signed prekey is its first ratchet key
+  const sendingRatchetKey = await newKeyPair();
+  const sending = await kdfRoot(rootKey, await dh(sendingRatchetKey.privateKey, signedPreKey));
+
+  return {
+    baseKey: ephemeral.publicKey,
+    associatedData: associatedData(identityKeyPair.publicKey, bundle.identityKey),
+    rootKey: sending.rootKey,
+    sendingRatchetKey,
+    receivingRatchetKey: signedPreKey,
+    sendingChainKey: sending.chainKey,
+    receivingChainKey: null,
+    sendCount: 0,
+    receiveCount: 0,
+    previousSendCount: 0,
+    skipped: {},
+    pendingPreKey: {
+      ephemeralKey: ephemeral.publicKey,
+      signedPreKeyId: bundle.signedPreKey.keyId,
+      preKeyId: bundle.preKey?.keyId ?? null,
+    },
+  };
+}
+
+/**
+ * Set up the session another device started with our prekeys. Decrypt its
+ * message with the returned state to complete the first ratchet step.
+ */
+export async function acceptSession(
+  identityKeyPair: KeyPairData,
+  signedPreKeyPair: KeyPairData,
+  preKeyPair: KeyPairData | null,
+  initiatorIdentityKey: string,
+  ephemeralKey: string
+): Promise<RatchetState> {
+  const rootKey = await x3dhSecret([
+    await dh(signedPreKeyPair.privateKey, initiatorIdentityKey),
+    await dh(identityKeyPair.privateKey, ephemeralKey),
+    await dh(signedPreKeyPair.privateKey, ephemeralKey),
+    ...(preKeyPair ? [await dh(preKeyPair.privateKey, ephemeralKey)] : []),
+  ]);
+
+  return {
+    baseKey: ephemeralKey,
+    associatedData: associatedData(initiatorIdentityKey, identityKeyPair.publicKey),
+    rootKey,
+    sendingRatchetKey: signedPreKeyPair,
+    receivingRatchetKey: null,
+    sendingChainKey: null,
+    receivingChainKey: null,
+    sendCount: 0,
+    receiveCount: 0,
+    previousSendCount: 0,
+    skipped: {},
+    pendingPreKey: null,
+  };
+}
+
+/**
+ * Encrypt a message, returning the advanced state to store in place of the old one
+ */
+export async function ratchetEncrypt(
+  state: RatchetState,
+  plaintext: string
+): Promise<{ state: RatchetState; header: RatchetHeader; ciphertext: string }> {
+  if (!state.sendingChainKey) {
+    throw new Error('The session has no sending chain yet');
+  }
+
+  const { messageKey, chainKey } = await kdfChain(state.sendingChainKey);
+  const header: RatchetHeader = {
+    ratchetKey: state.sendingRatchetKey.publicKey,
+    previousCount: state.previousSendCount,
+    count: state.sendCount,
+  };
+
+  const ciphertext = await encryptMessage(plaintext, await importAesKey(messageKey), messageAad(state, header));
+
+  return {
+    state: { ...state, sendingChainKey: chainKey, sendCount: state.sendCount + 1 },
+    header,
+    ciphertext,
+  };
+}
+
+/**
+ * Derive and keep the keys of receiving chain messages we haven't seen, up to `until`
+ */
+async function skipMessageKeys(state: RatchetState, until: number): Promise<void> {
+  if (!state.receivingChainKey || !state.receivingRatchetKey) return;
+
+  if (until - state.receiveCount > MAX_SKIP) {
+    throw new Error('Message is too far ahead of the receiving chain');
+  }
+
+  while (state.receiveCount < until) {
+    const { messageKey, chainKey } = await kdfChain(state.receivingChainKey);
+    state.skipped[`${state.receivingRatchetKey}:${state.receiveCount}`] = messageKey;
+    state.receivingChainKey = chainKey;
+    state.receiveCount++;
+  }
+}
+
+/**
+ * The other device has a new ratchet key: derive a new receiving chain from
+ * it, then a new ratchet key and sending chain of our own
+ */
+async function dhRatchetStep(state: RatchetState, ratchetKey: string): Promise<void> {
+  state.previousSendCount = state.sendCount;
+  state.sendCount = 0;
+  state.receiveCount = 0;
+  state.receivingRatchetKey = ratchetKey;
+
+  const receiving = await kdfRoot(state.rootKey, await dh(state.sendingRatchetKey.privateKey, ratchetKey));
+  state.receivingChainKey = receiving.chainKey;
+
+  state.sendingRatchetKey = await newKeyPair();
+  const sending = await kdfRoot(receiving.rootKey, await dh(state.sendingRatchetKey.privateKey, ratchetKey));
+  state.rootKey = sending.rootKey;
+  state.sendingChainKey = sending.chainKey;
+}
+
+/**
+ * Decrypt a message, returning the advanced state to store in place of the
+ * old one. Throws if the message doesn't belong to this session; the given
+ * state is never modified, so a failed attempt changes nothing.
+ */
+export async function ratchetDecrypt(
+  current: RatchetState,
+  header: RatchetHeader,
+  ciphertext: string
+): Promise<{ state: RatchetState; plaintext: string }> {
+  const state: RatchetState = { ...current, skipped: { ...current.skipped } };
+  const skippedId = `${header.ratchetKey}:${header.count}`;
+  let messageKey = state.skipped[skippedId];
+
+  if (messageKey) {
+    delete state.skipped[skippedId];
+  } else {
+    if (header.ratchetKey !== state.receivingRatchetKey) {
+      await skipMessageKeys(state, header.previousCount);
+      await dhRatchetStep(state, header.ratchetKey);
+    }
+
+    await skipMessageKeys(state, header.count);
+    const next = await kdfChain(state.receivingChainKey!);
+    messageKey = next.messageKey;
+    state.receivingChainKey = next.chainKey;
+    state.receiveCount++;
+  }
+
+  const plaintext = await decryptMessage(ciphertext, await importAesKey(messageKey), messageAad(state, header));
+
+  // The other device has the session now, so stop sending the X3DH values
+  state.pendingPreKey = null;
+
+  // Forget the oldest skipped keys beyond the limit
+  const skippedIds = Object.keys(state.skipped);
+  for (const id of skippedIds.slice(0, Math.max(0, skippedIds.length - MAX_SKIPPED_KEYS))) {
+    delete state.skipped[id];
+  }
+
+  return { state, plaintext };
+}
@@ -0,0 +1,264 @@
+/**
+ * Local Message Search
+ *
+ * The server only has ciphertext, so channel messages are searched on this
+ * device. Decrypted messages are added to an index in the key store as they
+ * are shown or received, and a backfill walks older history in the background.
+ *
+ * Thread replies are indexed too, and found results open their thread.
+ *
+ * The index is encrypted at rest: every word (and word prefix) is stored as an
+ * HMAC under a local key, and the text for showing results is encrypted with
+ * AES-GCM, like the message cache. Both keys are non-extractable and never
+ * leave this browser.
+ */
+
+import { api } from './api';
+import { arrayBufferToBase64, encryptMessage, decryptMessage } from './crypto';
+import { decryptChannelMessage, DecryptedMessage } from './channelCrypto';
+import {
+  getLocalKeys,
+  storeSearchEntries,
+  findSearchEntries,
+  getSearchProgress,
+  storeSearchProgress,
+  StoredSearchEntry,
+} from './keyStore';
+import { withLock } from './locks';
+
+// Shortest prefix indexed for a word; shorter queries only match whole words
+const MIN_PREFIX_LENGTH = 3;
+
+// Longer words are indexed by their first characters only
+const MAX_TOKEN_LENGTH = 32;
+
+const MAX_RESULTS = 50;
+
+export interface SearchableMessage {
+  id: string;
+  channelId: string;
+  threadId?: string | null;
+  senderId: string;
+  createdAt: string;
+  expiresAt?: string | null;
+  decrypted?: DecryptedMessage;
+}
+
+export interface SearchFilters {
+  channelIds: string[]; // Channels to search in
+  senderId?: string;
+  after?: Date;
+  before?: Date;
+}
+
+export interface SearchResult {
+  id: string;
+  channelId: string;
+  threadId: string | null; // Root of the thread a reply is in
+  senderId: string;
+  createdAt: string;
+  text: string;
+}
+
+/**
+ * Split text into lowercase words, ignoring accents
+ */
+function tokenize(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .match(/[\p{L}\p{N}]+/gu);
+  return words ?? [];
+}
+
+async function blindToken(key: CryptoKey, token: string): Promise<string> {
+  const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(token));
+  // Candidates are checked against the decrypted text, so a short MAC is enough
+  return arrayBufferToBase64(mac.slice(0, 12));
+}
+
+/**
+ * The text of a message that can be searched: its text and attachment names
+ */
+function searchableText(decrypted?: DecryptedMessage): string | null {
+  // Unverified messages may be forged, so they are never indexed
+  if (decrypted?.status !== 'verified' || !decrypted.content) return null;
+
+  const { text, attachments } = decrypted.content;
+  return [text, ...(attachments ?? []).map((a) => a.name)].filter(Boolean).join('\n') || null;
+}
+
+/**
+ * Add decrypted channel messages to the search index. Messages that couldn't
+ * be decrypted or verified are skipped.
+ */
+export async function indexMessages(messages: SearchableMessage[]): Promise<void> {
+  const keys = await getLocalKeys();
+  const entries: StoredSearchEntry[] = [];
+
+  for (const message of messages) {
+    const text = searchableText(message.decrypted);
+    if (!text) continue;
+
+    const tokens = new Set<string>();
+    for (const word of tokenize(text)) {
+      const token = word.slice(0, MAX_TOKEN_LENGTH);
+      tokens.add(token);
+      for (let length = MIN_PREFIX_LENGTH; length < token.length; length++) {
+        tokens.add(token.slice(0, length));
+      }
+    }
+
+    entries.push({
+      id: message.id,
+      channelId: message.channelId,
+      threadId: message.threadId ?? undefined,
+      senderId: message.senderId,
+      createdAt: message.createdAt,
+      tokens: await Promise.all([...tokens].map((token) => blindToken(keys.tokenKey, token))),
+      content: await encryptMessage(text, keys.encryptionKey),
+      expiresAt: message.expiresAt ?? undefined,
+    });
+  }
+
+  if (entries.length > 0) {
+    await storeSearchEntries(entries);
+  }
+}
+
+/**
+ * Search the indexed messages of some channels, newest first. Every word of
+ * the query has to appear in a message, as a word or the start of one.
+ */
+export async function searchMessages(query: string, filters: SearchFilters): Promise<SearchResult[]> {
+  const terms = [...new Set(tokenize(query).map((term) => term.slice(0, MAX_TOKEN_LENGTH)))];
+  if (terms.length === 0) return [];
+
+  const keys = await getLocalKeys();
+  const tokens = await Promise.all(terms.map((term) => blindToken(keys.tokenKey, term)));
+
+  const candidates = (await findSearchEntries(tokens, filters.channelIds))
+    .filter((entry) =>
+      (!filters.senderId || entry.senderId === filters.senderId) &&
+      (!filters.after || new Date(entry.createdAt) >= filters.after) &&
+      (!filters.before || new Date(entry.createdAt) < filters.before)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const results: SearchResult[] = [];
+  for (const entry of candidates) {
+    if (results.length >= MAX_RESULTS) break;
+
+    const text = await decryptMessage(entry.content, keys.encryptionKey);
+
+    // Rule out words that only share a truncated MAC
+    const words = tokenize(text);
+    if (!terms.every((term) => words.some((word) => word.startsWith(term)))) continue;
+
+    results.push({
+      id: entry.id,
+      channelId: entry.channelId,
+      threadId: entry.threadId ?? null,
+      senderId: entry.senderId,
+      createdAt: entry.createdAt,
+      text,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Index the replies of a thread sent after `after` (all of them if null),
+ * walking down from the newest
+ */
+async function backfillThread(threadId: string, after: string | null): Promise<void> {
+  let cursor: string | undefined;
+
+  for (;;) {
+    const page = await api.messages.listThread(threadId, cursor);
+    const unwalked = after ? page.messages.filter((m) => m.createdAt > after) : page.messages;
+
+    const decrypted = await Promise.all(
+      unwalked.map(async (m) => ({ ...m, decrypted: await decryptChannelMessage(m) }))
+    );
+    await indexMessages(decrypted);
+
+    if (!page.nextCursor || unwalked.length < page.messages.length) return;
+    cursor = page.nextCursor;
+  }
+}
+
+/**
+ * Walk a channel's history from the newest message down, indexing every page
+ * along with the replies in its threads, until reaching what earlier walks
+ * covered. An interrupted walk is resumed where it stopped; messages sent
+ * meanwhile are picked up by the next one. Replies sent while away to threads
+ * further back are indexed when their thread is opened.
+ */
+async function backfillChannel(channelId: string): Promise<void> {
+  const progress = await getSearchProgress(channelId);
+  const indexedUntil = progress?.indexedUntil ?? null;
+  let from = progress?.walk?.from ?? null;
+  let cursor = progress?.walk?.cursor;
+
+  for (;;) {
+    const page = await api.messages.list(channelId, cursor);
+    from ??= page.messages[page.messages.length - 1]?.createdAt ?? null;
+
+    const unwalked = indexedUntil
+      ? page.messages.filter((m) => m.createdAt > indexedUntil)
+      : page.messages;
+
+    const decrypted = await Promise.all(
+      unwalked.map(async (m) => ({ ...m, decrypted: await decryptChannelMessage(m) }))
+    );
+    await indexMessages(decrypted);
+
+    // Every reply of a new thread, and the new replies of one walked before
+    for (const message of page.messages) {
+      const lastReply = message.thread?.lastReply;
+      if (!lastReply || (indexedUntil && lastReply.createdAt <= indexedUntil)) continue;
+
+      const rootWalked = indexedUntil !== null && message.createdAt <= indexedUntil;
+      await backfillThread(message.id, rootWalked ? indexedUntil : null);
+    }
+
+    if (!page.nextCursor || unwalked.length < page.messages.length) {
+      await storeSearchProgress({ channelId, indexedUntil: from ?? indexedUntil, walk: null });
+      return;
+    }
+
+    cursor = page.nextCursor;
+    await storeSearchProgress({ channelId, indexedUntil, walk: { from: from!, cursor } });
+  }
+}
+
+// Channels waiting for a backfill, worked through one at a time
+const backfillQueue: string[] = [];
+let isBackfilling = false;
+
+/**
+ * Index the history of channels in the background
+ */
+export function backfillSearchIndex(channelIds: string[]): void {
+  for (const channelId of channelIds) {
+    if (!backfillQueue.includes(channelId)) backfillQueue.push(channelId);
+  }
+  if (isBackfilling) return;
+
+  isBackfilling = true;
+  (async () => {
+    while (backfillQueue.length > 0) {
+      const channelId = backfillQueue.shift()!;
+      try {
+        // Another tab may be walking the same channel
+        await withLock(`search-backfill-${channelId}`, () => backfillChannel(channelId));
+      } catch (err) {
+        console.error('Failed to backfill search index:', err);
+      }
+    }
+    isBackfilling = false;
+  })();
+}
@@ -0,0 +1,29 @@
+import type { ThreadSummary } from './api';
+import { decryptChannelMessage, DecryptedMessage } from './channelCrypto';
+
+// A thread as shown under its root message, with the last reply decrypted for a preview
+export interface ThreadInfo {
+  replyCount: number;
+  lastReply: { id: string; senderId: string; createdAt: string; decrypted: DecryptedMessage } | null;
+  archivedAt: string | null;
+}
+
+/**
+ * Decrypt the last reply of a thread in a channel for its preview
+ */
+export async function decryptThread(channelId: string, thread: ThreadSummary): Promise<ThreadInfo> {
+  const { lastReply } = thread;
+
+  return {
+    replyCount: thread.replyCount,
+    lastReply: lastReply
+      ? {
+          id: lastReply.id,
+          senderId: lastReply.senderId,
+          createdAt: lastReply.createdAt,
+          decrypted: await decryptChannelMessage({ ...lastReply, channelId }),
+        }
+      : null,
+    archivedAt: thread.archivedAt,
+  };
+}
@@ -0,0 +1,227 @@
+/**
+ * Contact Trust
+ *
+ * Pins each user's device keys the first time we see them (trust on first
+ * use). If the server later hands back different keys - a new device, or new
+ * keys for a known one - the user is marked as changed and nothing is
+ * encrypted to them until the change is accepted. Safety numbers let two
+ * users confirm out of band that they see the same keys.
+ */
+
+import { api } from './api';
+import { base64ToArrayBuffer, verifySignedPreKey } from './crypto';
+import {
+  getContact,
+  getContacts,
+  getDeviceKey,
+  storeContact,
+  getUserDeviceKeys,
+  replaceUserDeviceKeys,
+  StoredContact,
+  StoredDeviceKey,
+} from './keyStore';
+import { useTrustStore, TrustState } from '../stores/trust';
+
+const SAFETY_NUMBER_VERSION = 0;
+const SAFETY_NUMBER_ITERATIONS = 5200;
+
+type UserDevice = Awaited<ReturnType<typeof api.auth.getUserDevices>>['devices'][number];
+
+function trustStateOf(contact: StoredContact | null): TrustState {
+  if (contact?.keyChanged) return 'changed';
+  return contact?.verified ? 'verified' : 'unverified';
+}
+
+async function saveContact(contact: StoredContact): Promise<void> {
+  await storeContact(contact);
+  useTrustStore.getState().setTrustState(contact.userId, trustStateOf(contact));
+}
+
+/**
+ * Fetch a user's active devices, verify each signed pre-key and compare the
+ * keys against the pinned ones.
+ *
+ * Throws if a signed pre-key fails verification. If the devices have changed
+ * since they were pinned, returns state 'changed' and leaves the pins as they
+ * were - callers must not encrypt to the returned devices.
+ */
+export async function getTrustedDevices(
+  userId: string
+): Promise<{ state: TrustState; devices: UserDevice[] }> {
+  const { devices } = await api.auth.getUserDevices(userId);
+
+  for (const device of devices) {
+    const valid = await verifySignedPreKey(
+      device.signingKey,
+      device.identityKey,
+      device.signedPreKey.publicKey,
+      device.signedPreKey.signature
+    );
+
+    if (!valid) {
+      throw new Error(
+        `The keys of device ${device.deviceId} (user ${userId}) failed signature verification. ` +
+        'Refusing to encrypt to it.'
+      );
+    }
+  }
+
+  const fetched: StoredDeviceKey[] = devices.map((device) => ({
+    deviceId: device.deviceId,
+    userId,
+    signingKeyPublic: device.signingKey,
+    identityKeyPublic: device.identityKey,
+    signedPreKeyPublic: device.signedPreKey.publicKey,
+  }));
+
+  const contact = await getContact(userId);
+  // Entries without a signing key were cached before pinning existed
+  const pinned = (await getUserDeviceKeys(userId)).filter((key) => key.signingKeyPublic);
+
+  // First contact: trust what we see
+  if (!contact) {
+    await replaceUserDeviceKeys(userId, fetched);
+    await saveContact({ userId, verified: false, keyChanged: false });
+    return { state: 'unverified', devices };
+  }
+
+  const pinnedById = new Map(pinned.map((key) => [key.deviceId, key]));
+  const changed = fetched.some((key) => {
+    const pin = pinnedById.get(key.deviceId);
+    return !pin ||
+      pin.signingKeyPublic !== key.signingKeyPublic ||
+      pin.identityKeyPublic !== key.identityKeyPublic;
+  });
+
+  if (contact.keyChanged || changed) {
+    await saveContact({ ...contact, verified: false, keyChanged: true, pendingDevices: fetched });
+    return { state: 'changed', devices };
+  }
+
+  // Same devices (or some were removed) - refresh the pins, e.g. for rotated signed pre-keys
+  await replaceUserDeviceKeys(userId, fetched);
+  useTrustStore.getState().setTrustState(userId, trustStateOf(contact));
+  return { state: trustStateOf(contact), devices };
+}
+
+/**
+ * Get a device's public keys, fetching the owner's devices if they are not pinned
+ */
+export async function getDevicePublicKeys(
+  userId: string,
+  deviceId: string
+): Promise<{ identityKey: string; signingKey: string }> {
+  // Entries without a signing key were cached before pinning existed
+  const pinned = await getDeviceKey(deviceId);
+  if (pinned?.signingKeyPublic) {
+    return { identityKey: pinned.identityKeyPublic, signingKey: pinned.signingKeyPublic };
+  }
+
+  const { state, devices } = await getTrustedDevices(userId);
+  if (state === 'changed') {
+    throw new Error(`The keys of user ${userId} have changed. Review the change before trusting their messages.`);
+  }
+
+  const device = devices.find((d) => d.deviceId === deviceId);
+  if (!device) {
+    throw new Error(`Device ${deviceId} not found`);
+  }
+  return { identityKey: device.identityKey, signingKey: device.signingKey };
+}
+
+/**
+ * Accept a user's changed device keys, pinning them as the new trusted set
+ */
+export async function acceptKeyChange(userId: string): Promise<void> {
+  const contact = await getContact(userId);
+  if (!contact?.keyChanged || !contact.pendingDevices) return;
+
+  await replaceUserDeviceKeys(userId, contact.pendingDevices);
+  await saveContact({ userId, verified: false, keyChanged: false });
+}
+
+/**
+ * Mark a user as verified (safety numbers compared) or unverified
+ */
+export async function setVerified(userId: string, verified: boolean): Promise<void> {
+  const contact = await getContact(userId);
+  if (!contact || contact.keyChanged) {
+    throw new Error('Accept the new keys before verifying this user');
+  }
+
+  await saveContact({ ...contact, verified });
+}
+
+/**
+ * Load the stored trust state of some users into the trust store
+ */
+export async function loadTrustStates(userIds: string[]): Promise<void> {
+  const contacts = await getContacts(userIds);
+  const states: Record<string, TrustState> = {};
+  for (const contact of contacts) {
+    states[contact.userId] = trustStateOf(contact);
+  }
+  useTrustStore.getState().setTrustStates(states);
+}
+
+/**
+ * Fingerprint of one user's device signing keys: 30 digits
+ */
+async function fingerprint(userId: string, signingKeys: string[]): Promise<string> {
+  const encoder = new TextEncoder();
+  const parts = [
+    new Uint8Array([0, SAFETY_NUMBER_VERSION]),
+    ...[...signingKeys].sort().map((key) => new Uint8Array(base64ToArrayBuffer(key))),
+    encoder.encode(userId),
+  ];
+
+  const input = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    input.set(part, offset);
+    offset += part.length;
+  }
+
+  // Iterated hashing makes it expensive to search for keys with a matching fingerprint
+  let hash = input;
+  for (let i = 0; i < SAFETY_NUMBER_ITERATIONS; i++) {
+    const next = new Uint8Array(hash.length + input.length);
+    next.set(hash, 0);
+    next.set(input, hash.length);
+    hash = new Uint8Array(await crypto.subtle.digest('SHA-512', next));
+  }
+
+  // Six 5-digit chunks from the first 30 bytes
+  let digits = '';
+  for (let i = 0; i < 30; i += 5) {
+    const chunk = hash.slice(i, i + 5).reduce((value, byte) => value * 256 + byte, 0);
+    digits += String(chunk % 100000).padStart(5, '0');
+  }
+  return digits;
+}
+
+/**
+ * Compute the safety number between the local user and another user, from
+ * the keys we would encrypt to (the pending keys if they have changed).
+ * Both sides see the same 60 digits if neither is being impersonated.
+ */
+export async function getSafetyNumber(localUserId: string, userId: string): Promise<string> {
+  const signingKeysOf = async (id: string) => {
+    const contact = await getContact(id);
+    const keys = contact?.keyChanged && contact.pendingDevices
+      ? contact.pendingDevices
+      : await getUserDeviceKeys(id);
+    return keys.map((key) => key.signingKeyPublic).filter((key): key is string => !!key);
+  };
+
+  // Check both sides against the server's current keys, pinning them on first use
+  for (const id of [localUserId, userId]) {
+    await getTrustedDevices(id);
+  }
+
+  const fingerprints = await Promise.all(
+    [localUserId, userId].sort().map(async (id) => fingerprint(id, await signingKeysOf(id)))
+  );
+
+  return fingerprints.join('').match(/.{5}/g)!.join(' ');
+}
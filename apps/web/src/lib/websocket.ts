@@ -1,3 +1,10 @@
+import { getAccessToken, refreshAccessToken } from "./api";
+import { useAuthStore } from "../stores/auth";
+import type { Mentions } from "./mentions";
+
+// Close code the server uses when this device or session has been revoked
+const DEVICE_REVOKED_CODE = 4001;
+
 type MessageHandler = (message: WsMessage) => void;
 
 interface WsMessage {
@@ -10,11 +17,34 @@ class WebSocketClient {
   private handlers: Map<string, Set<MessageHandler>> = new Map();
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
-  private userId: string | null = null;
+  private shouldReconnect = false;
+  // Set when a connection closed before opening, which is how browsers report
+  // a rejected upgrade: the token may have been revoked or the secret changed
+  private tokenRejected = false;
   private joinedChannels: Set<string> = new Set();
+  private joinedThreads: Set<string> = new Set();
+
+  async connect() {
+    this.shouldReconnect = true;
+
+    // Fetch a fresh access token on every (re)connect so an expired one is renewed
+    let token: string | null;
+    try {
+      token = this.tokenRejected ? await refreshAccessToken() : await getAccessToken();
+    } catch (err) {
+      // The server is unreachable; the session is kept and we try again later
+      console.error("WebSocket not connected:", err);
+      this.attemptReconnect();
+      return;
+    }
 
-  connect(userId: string) {
-    this.userId = userId;
+    if (!token) {
+      console.error("WebSocket not connected: no valid session");
+      return;
+    }
+
+    // connect() may have been cancelled by disconnect() while the token was refreshing
+    if (!this.shouldReconnect) return;
 
     // Use environment variable if available, otherwise fall back to window.location
     const wsUrl = import.meta.env.VITE_WS_URL || (() => {
@@ -22,19 +52,24 @@ class WebSocketClient {
       return `${protocol}//${window.location.host}/ws`;
     })();
 
-    this.ws = new WebSocket(wsUrl);
+    this.ws = new WebSocket(`${wsUrl}?token=${encodeURIComponent(token)}`);
+    let opened = false;
 
     this.ws.onopen = () => {
       console.log("WebSocket connected");
+      opened = true;
+      this.tokenRejected = false;
       this.reconnectAttempts = 0;
 
-      // Authenticate
-      this.send({ type: "auth", payload: { userId } });
-
       // Rejoin channels
       for (const channelId of this.joinedChannels) {
         this.send({ type: "channel:join", payload: { channelId } });
       }
+      for (const threadId of this.joinedThreads) {
+        this.send({ type: "thread:join", payload: { threadId } });
+      }
+
+      this.emit("connection:open", { type: "connection:open", payload: {} });
     };
 
     this.ws.onmessage = (event) => {
@@ -46,8 +81,16 @@ class WebSocketClient {
       }
     };
 
-    this.ws.onclose = () => {
+    this.ws.onclose = (event) => {
       console.log("WebSocket disconnected");
+
+      if (event.code === DEVICE_REVOKED_CODE) {
+        this.shouldReconnect = false;
+        useAuthStore.getState().logout();
+        return;
+      }
+
+      this.tokenRejected = !opened;
       this.attemptReconnect();
     };
 
@@ -57,6 +100,8 @@ class WebSocketClient {
   }
 
   private attemptReconnect() {
+    if (!this.shouldReconnect) return;
+
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
       console.error("Max reconnect attempts reached");
       return;
@@ -68,18 +113,20 @@ class WebSocketClient {
     console.log(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
 
     setTimeout(() => {
-      if (this.userId) {
-        this.connect(this.userId);
+      if (this.shouldReconnect) {
+        this.connect();
       }
     }, delay);
   }
 
   disconnect() {
+    this.shouldReconnect = false;
     if (this.ws) {
       this.ws.close();
       this.ws = null;
     }
     this.joinedChannels.clear();
+    this.joinedThreads.clear();
   }
 
   send(message: WsMessage) {
@@ -98,10 +145,82 @@ class WebSocketClient {
     this.send({ type: "channel:leave", payload: { channelId } });
   }
 
-  sendMessage(channelId: string, ciphertext: string, replyToId?: string) {
+  // Our other devices and tabs are told, so they stop counting the channel as unread
+  markChannelRead(channelId: string, messageId: string) {
+    this.send({ type: "channel:read", payload: { channelId, messageId } });
+  }
+
+  // Replies posted in a thread only reach the thread's watchers
+  joinThread(threadId: string) {
+    this.joinedThreads.add(threadId);
+    this.send({ type: "thread:join", payload: { threadId } });
+  }
+
+  leaveThread(threadId: string) {
+    this.joinedThreads.delete(threadId);
+    this.send({ type: "thread:leave", payload: { threadId } });
+  }
+
+  sendMessage(
+    channelId: string,
+    ciphertext: string,
+    epoch: number,
+    clientMessageId: string,
+    replyToId?: string,
+    threadId?: string,
+    mentions?: Mentions,
+    attachmentIds?: string[]
+  ) {
     this.send({
       type: "message:send",
-      payload: { channelId, ciphertext, replyToId },
+      payload: { channelId, ciphertext, epoch, clientMessageId, replyToId, threadId, mentions, attachmentIds },
+    });
+  }
+
+  editMessage(messageId: string, ciphertext: string, epoch: number) {
+    this.send({
+      type: "message:edit",
+      payload: { messageId, ciphertext, epoch },
+    });
+  }
+
+  // A reaction is a Unicode emoji or the id of a community custom emoji
+  addReaction(messageId: string, reaction: { emoji: string } | { emojiId: string }) {
+    this.send({
+      type: "reaction:add",
+      payload: { messageId, ...reaction },
+    });
+  }
+
+  removeReaction(messageId: string, reaction: { emoji: string } | { emojiId: string }) {
+    this.send({
+      type: "reaction:remove",
+      payload: { messageId, ...reaction },
+    });
+  }
+
+  sendDirectMessage(
+    conversationId: string,
+    clientMessageId: string,
+    ciphertexts: { deviceId: string; ciphertext: string }[],
+    attachmentIds?: string[]
+  ) {
+    this.send({
+      type: "dm:send",
+      payload: { conversationId, clientMessageId, ciphertexts, attachmentIds },
+    });
+  }
+
+  sendGroupMessage(
+    conversationId: string,
+    clientMessageId: string,
+    ciphertext: string,
+    epoch: number,
+    attachmentIds?: string[]
+  ) {
+    this.send({
+      type: "dm:send",
+      payload: { conversationId, clientMessageId, ciphertext, epoch, attachmentIds },
     });
   }
 
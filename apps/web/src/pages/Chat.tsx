@@ -1,47 +1,123 @@
-import { useEffect, useRef } from "react";
+import { useEffect } from "react";
 import { useAuthStore } from "../stores/auth";
 import { useChatStore } from "../stores/chat";
-import { api } from "../lib/api";
+import { api, ChannelReadState, MessageNotice, Pin, Reaction, ThreadSummary } from "../lib/api";
 import { wsClient } from "../lib/websocket";
-import { decryptChannelMessage } from "../lib/channelCrypto";
+import {
+  decryptChannelMessage,
+  markSenderKeyShared,
+  markSenderKeyUnavailable,
+  shareSenderKey,
+} from "../lib/channelCrypto";
+import { decryptDirectMessage } from "../lib/dmCrypto";
+import {
+  acknowledgeMessage,
+  acknowledgeDirectMessage,
+  acknowledgeEdit,
+  discardEdits,
+  flushOutbox,
+  reencryptMessage,
+  reencryptDirectMessage,
+  reencryptEdit,
+  failMessage,
+} from "../lib/outbox";
+import { maintainPreKeys } from "../lib/prekeys";
+import { indexMessages, backfillSearchIndex } from "../lib/search";
+import { decryptThread } from "../lib/threads";
+import { releaseAttachment } from "../lib/attachments";
+import {
+  deleteMessagePlaintexts,
+  deleteExpiredMessagePlaintexts,
+  encryptCachedPlaintexts,
+} from "../lib/keyStore";
 import { Sidebar } from "../components/Sidebar";
 import { ChannelList } from "../components/ChannelList";
 import { MessageList } from "../components/MessageList";
 import { MessageInput } from "../components/MessageInput";
 import { MemberList } from "../components/MemberList";
+import { ThreadPanel } from "../components/ThreadPanel";
+import { DirectMessages } from "../components/DirectMessages";
+
+// How often disappearing messages are checked for expiry locally
+const EXPIRY_CHECK_INTERVAL_MS = 10 * 1000;
+
+/**
+ * Release the attachments of messages and delete every local copy of their plaintext
+ */
+function discardPlaintexts(channelId: string, messageIds: string[]) {
+  const removed = new Set(messageIds);
+  const { messages, threadMessages } = useChatStore.getState();
+
+  for (const message of [...(messages[channelId] || []), ...threadMessages]) {
+    if (removed.has(message.id)) {
+      message.decrypted?.content?.attachments?.forEach(releaseAttachment);
+    }
+  }
+
+  deleteMessagePlaintexts(messageIds).catch((err) => {
+    console.error('Failed to delete message plaintexts:', err);
+  });
+}
+
+/**
+ * Drop disappeared messages from the store and every local copy of their plaintext
+ */
+function forgetMessages(channelId: string, messageIds: string[]) {
+  discardPlaintexts(channelId, messageIds);
+  useChatStore.getState().removeMessages(channelId, messageIds);
+}
 
 export function Chat() {
   const user = useAuthStore((state) => state.user);
   const {
     activeCommunityId,
     activeChannelId,
-    members,
+    activeConversationId,
+    activeThreadId,
     setCommunities,
+    setConversations,
+    addConversation,
+    removeConversation,
+    addDmMessage,
+    updateDmMessage,
+    markConversationUnread,
+    removeCommunity,
     setChannels,
+    setChannelEpoch,
+    setChannelRetention,
     setMembers,
     addMessage,
+    updateMessage,
+    markMessagesDeleted,
+    addPin,
+    removePins,
+    setReadStates,
+    setReadState,
+    addUnread,
+    setThread,
+    addThreadMessage,
     addMemberIfMissing,
     setTypingUser,
   } = useChatStore();
 
-  // Ref to track current members for the WebSocket handler
-  const membersRef = useRef(members);
-  const activeCommunityRef = useRef(activeCommunityId);
-
-  useEffect(() => {
-    membersRef.current = members;
-    activeCommunityRef.current = activeCommunityId;
-  }, [members, activeCommunityId]);
-
   // Load communities on mount
   useEffect(() => {
     if (!user) return;
 
-    api.communities.list(user.id).then(({ communities }) => {
+    api.communities.list().then(({ communities }) => {
       setCommunities(communities);
     });
   }, [user, setCommunities]);
 
+  // Load direct message conversations on mount
+  useEffect(() => {
+    if (!user) return;
+
+    api.dms.list().then(({ conversations }) => {
+      setConversations(conversations);
+    });
+  }, [user, setConversations]);
+
   // Load community details when active community changes
   useEffect(() => {
     if (!activeCommunityId) return;
@@ -49,6 +125,9 @@ export function Chat() {
     api.communities.get(activeCommunityId).then(({ channels, members }) => {
       setChannels(activeCommunityId, channels);
       setMembers(activeCommunityId, members);
+
+      // Make the community's older messages searchable
+      backfillSearchIndex(channels.map((c) => c.id));
     });
   }, [activeCommunityId, setChannels, setMembers]);
 
@@ -56,7 +135,7 @@ export function Chat() {
   useEffect(() => {
     if (!user) return;
 
-    wsClient.connect(user.id);
+    wsClient.connect();
 
     // Handle incoming messages
     const handleNewMessage = async (msg: { payload: Record<string, unknown> }) => {
@@ -65,47 +144,68 @@ export function Chat() {
         channelId: string;
         senderId: string;
         senderDisplayName?: string;
-        ciphertext: string;
+        ciphertext: string | null;
+        epoch: number;
+        notice?: MessageNotice | null;
+        clientMessageId?: string;
         replyToId?: string;
+        threadId?: string;
+        mentionedUserIds?: string[];
+        mentionsEveryone?: boolean;
+        expiresAt?: string | null;
         createdAt: string;
       };
 
+      // Our own message coming back is the server's acknowledgement
+      if (payload.senderId === user?.id && payload.clientMessageId) {
+        acknowledgeMessage(payload.clientMessageId);
+      }
+
       // Add sender to members if we have their info and they're not already known
       if (payload.senderDisplayName) {
         addMemberIfMissing(payload.senderId, payload.senderDisplayName);
       }
 
-      // Get current community members for decryption
-      const currentCommunityId = activeCommunityRef.current;
-      const currentMembers = currentCommunityId
-        ? membersRef.current[currentCommunityId] || []
-        : [];
-
-      // Decrypt the message
-      let plaintext = payload.ciphertext;
-      try {
-        if (user) {
-          plaintext = await decryptChannelMessage(
-            payload.channelId,
-            payload.ciphertext,
-            currentMembers,
-            user.id
-          );
-        }
-      } catch (err) {
-        console.error('Failed to decrypt message:', err);
-        // Keep ciphertext as fallback
-      }
+      // Decrypt the message and verify its sender
+      const decrypted = await decryptChannelMessage(payload);
 
-      addMessage({
+      const message = {
         id: payload.id,
         channelId: payload.channelId,
         senderId: payload.senderId,
         ciphertext: payload.ciphertext,
-        plaintext,
+        epoch: payload.epoch,
+        decrypted,
+        notice: payload.notice,
         replyToId: payload.replyToId,
+        threadId: payload.threadId,
+        mentionedUserIds: payload.mentionedUserIds,
+        mentionsEveryone: payload.mentionsEveryone,
+        expiresAt: payload.expiresAt,
         createdAt: payload.createdAt,
+      };
+
+      indexMessages([message]).catch((err) => {
+        console.error('Failed to index message:', err);
       });
+
+      // Thread replies only arrive for the open thread; the channel gets thread:updated
+      if (message.threadId) {
+        if (useChatStore.getState().activeThreadId === message.threadId) {
+          addThreadMessage(message);
+        }
+        return;
+      }
+
+      addMessage(message);
+
+      // Channels we looked at earlier are still joined, so their messages arrive here too
+      if (message.senderId !== user?.id) {
+        const channel = Object.values(useChatStore.getState().channels)
+          .flat()
+          .find((c) => c.id === message.channelId);
+        if (channel) addUnread(channel.communityId, channel.id, { messages: 1, mentions: 0 });
+      }
     };
 
     // Handle typing indicators
@@ -118,15 +218,504 @@ export function Chat() {
       setTypingUser(channelId, userId, isTyping);
     };
 
+    // Reload a community's members together with its channels' epochs
+    const reloadCommunity = async (communityId: string) => {
+      try {
+        const { channels, members } = await api.communities.get(communityId);
+        setChannels(communityId, channels);
+        setMembers(communityId, members);
+      } catch (err) {
+        console.error('Failed to reload community:', err);
+      }
+    };
+
+    // Membership changed: pick up the new epochs and members, so the next
+    // message starts a chain shared with the right people
+    const handleMembersChanged = async (msg: { payload: Record<string, unknown> }) => {
+      const { communityId } = msg.payload as { communityId: string };
+      if (useChatStore.getState().channels[communityId]) {
+        await reloadCommunity(communityId);
+      }
+    };
+
+    // A message was edited: show and index its new version
+    const handleMessageUpdated = async (msg: { payload: Record<string, unknown> }) => {
+      const payload = msg.payload as {
+        id: string;
+        channelId: string;
+        senderId: string;
+        ciphertext: string;
+        epoch: number;
+        threadId?: string;
+        expiresAt: string | null;
+        editedAt: string;
+        createdAt: string;
+      };
+
+      if (payload.senderId === user?.id) {
+        acknowledgeEdit(payload.id, payload.ciphertext);
+      }
+
+      const decrypted = await decryptChannelMessage(payload);
+      updateMessage(payload.channelId, payload.id, {
+        ciphertext: payload.ciphertext,
+        epoch: payload.epoch,
+        editedAt: payload.editedAt,
+        decrypted,
+      });
+
+      indexMessages([{ ...payload, decrypted }]).catch((err) => {
+        console.error('Failed to index message:', err);
+      });
+    };
+
+    // The server rejected an edit from an old epoch - catch up and send it again
+    const handleEditRejected = async (msg: { payload: Record<string, unknown> }) => {
+      const { messageId, communityId, epoch } = msg.payload as {
+        messageId: string;
+        communityId: string;
+        epoch: number;
+      };
+
+      await reloadCommunity(communityId);
+      await reencryptEdit(messageId, epoch);
+    };
+
+    const handleMessagesExpired = (msg: { payload: Record<string, unknown> }) => {
+      const { channelId, messageIds } = msg.payload as { channelId: string; messageIds: string[] };
+      forgetMessages(channelId, messageIds);
+    };
+
+    // Deleted messages become tombstones; edits still waiting for them are dropped
+    const handleMessagesDeleted = (msg: { payload: Record<string, unknown> }) => {
+      const { channelId, messageIds } = msg.payload as { channelId: string; messageIds: string[] };
+
+      discardPlaintexts(channelId, messageIds);
+      discardEdits(messageIds);
+      markMessagesDeleted(channelId, messageIds);
+    };
+
+    // A thread got a new reply or was archived: refresh the preview under its root
+    const handleThreadUpdated = async (msg: { payload: Record<string, unknown> }) => {
+      const { channelId, threadId, thread } = msg.payload as {
+        channelId: string;
+        threadId: string;
+        thread?: ThreadSummary;
+      };
+      const decrypted = thread ? await decryptThread(channelId, thread) : null;
+      setThread(channelId, threadId, decrypted);
+
+      // The new reply itself only reaches whoever has the thread open
+      if (decrypted?.lastReply) {
+        indexMessages([{ ...decrypted.lastReply, channelId, threadId, expiresAt: thread?.lastReply?.expiresAt }])
+          .catch((err) => {
+            console.error('Failed to index message:', err);
+          });
+      }
+    };
+
+    const handleReactionUpdate = (msg: { payload: Record<string, unknown> }) => {
+      const { channelId, messageId, reactions } = msg.payload as {
+        channelId: string;
+        messageId: string;
+        reactions: Reaction[];
+      };
+      updateMessage(channelId, messageId, { reactions });
+    };
+
+    // Counted for the channel unless it is open
+    const handleMention = (msg: { payload: Record<string, unknown> }) => {
+      const { communityId, channelId } = msg.payload as { communityId: string; channelId: string };
+      addUnread(communityId, channelId, { messages: 0, mentions: 1 });
+    };
+
+    // A message in a channel this connection hasn't joined
+    const handleChannelActivity = (msg: { payload: Record<string, unknown> }) => {
+      const { communityId, channelId } = msg.payload as { communityId: string; channelId: string };
+      addUnread(communityId, channelId, { messages: 1, mentions: 0 });
+    };
+
+    // We read a channel here, on another device or in another tab
+    const handleChannelRead = (msg: { payload: Record<string, unknown> }) => {
+      setReadState(msg.payload as unknown as ChannelReadState);
+    };
+
+    // Counts are reloaded on every (re)connect, since activity may have been missed
+    const loadReadStates = () => {
+      api.channels.listReadStates()
+        .then(({ readStates }) => setReadStates(readStates))
+        .catch((err) => {
+          console.error('Failed to load read states:', err);
+        });
+    };
+
+    const handlePinned = (msg: { payload: Record<string, unknown> }) => {
+      const { channelId, pin } = msg.payload as { channelId: string; pin: Pin };
+      addPin(channelId, pin);
+    };
+
+    const handleUnpinned = (msg: { payload: Record<string, unknown> }) => {
+      const { channelId, messageId } = msg.payload as { channelId: string; messageId: string };
+      removePins(channelId, [messageId]);
+    };
+
+    const handleChannelUpdated = (msg: { payload: Record<string, unknown> }) => {
+      const { communityId, channelId, retentionSeconds } = msg.payload as {
+        communityId: string;
+        channelId: string;
+        retentionSeconds: number | null;
+      };
+      setChannelRetention(communityId, channelId, retentionSeconds);
+    };
+
+    // The server rejected a message from an old epoch - catch up and send it again
+    const handleMessageRejected = async (msg: { payload: Record<string, unknown> }) => {
+      const { clientMessageId, communityId, channelId, epoch } = msg.payload as {
+        clientMessageId?: string;
+        communityId: string;
+        channelId: string;
+        epoch: number;
+      };
+
+      await reloadCommunity(communityId);
+      setChannelEpoch(communityId, channelId, epoch);
+
+      if (clientMessageId) {
+        await reencryptMessage(clientMessageId, epoch);
+      }
+    };
+
+    // Another device wants a sending chain we hold
+    const handleKeyRequest = async (msg: { payload: Record<string, unknown> }) => {
+      const request = msg.payload as {
+        channelId?: string;
+        conversationId?: string;
+        distributionId: string;
+        iteration?: number;
+        requesterUserId: string;
+        requesterDeviceId: string;
+      };
+
+      const { channels, members, conversations } = useChatStore.getState();
+
+      if (request.conversationId) {
+        const conversation = conversations.find((c) => c.id === request.conversationId && c.isGroup);
+        if (!conversation) return;
+
+        try {
+          await shareSenderKey(request, conversation, conversation.participants, "conversation");
+        } catch (err) {
+          console.error('Failed to share sender key:', err);
+        }
+        return;
+      }
+
+      const communityId = Object.keys(channels).find((id) =>
+        channels[id].some((c) => c.id === request.channelId)
+      );
+      if (!communityId) return;
+
+      try {
+        await shareSenderKey(
+          request,
+          channels[communityId].find((c) => c.id === request.channelId)!,
+          members[communityId] || []
+        );
+      } catch (err) {
+        console.error('Failed to share sender key:', err);
+      }
+    };
+
+    // Try the messages that were waiting for a chain again
+    const retryPendingMessages = async (scope: { channelId?: string; conversationId?: string }) => {
+      const { messages, dmMessages } = useChatStore.getState();
+
+      if (scope.conversationId) {
+        const conversationId = scope.conversationId;
+        const pending = (dmMessages[conversationId] || []).filter((m) => m.decrypted?.status === "pending");
+
+        for (const message of pending) {
+          updateDmMessage(conversationId, message.id, {
+            decrypted: await decryptDirectMessage(message, { isGroup: true }),
+          });
+        }
+        return;
+      }
+
+      const channelId = scope.channelId!;
+      const { threadMessages } = useChatStore.getState();
+      const pending = [...(messages[channelId] || []), ...threadMessages.filter((m) => m.channelId === channelId)]
+        .filter((m) => m.decrypted?.status === "pending");
+
+      const retried = [];
+      for (const message of pending) {
+        const decrypted = await decryptChannelMessage(message);
+        updateMessage(channelId, message.id, { decrypted });
+        retried.push({ ...message, decrypted });
+      }
+
+      indexMessages(retried).catch((err) => {
+        console.error('Failed to index messages:', err);
+      });
+    };
+
+    const handleKeyShared = (msg: { payload: Record<string, unknown> }) => {
+      const { channelId, conversationId, distributionId } = msg.payload as {
+        channelId?: string;
+        conversationId?: string;
+        distributionId: string;
+      };
+      markSenderKeyShared(distributionId);
+      retryPendingMessages({ channelId, conversationId });
+    };
+
+    const handleKeyUnavailable = (msg: { payload: Record<string, unknown> }) => {
+      const { channelId, conversationId, distributionId, reason } = msg.payload as {
+        channelId?: string;
+        conversationId?: string;
+        distributionId: string;
+        reason: "not_found" | "stale_epoch" | "offline";
+      };
+      markSenderKeyUnavailable(distributionId, reason);
+      retryPendingMessages({ channelId, conversationId });
+    };
+
+    const handleCommunityRemoved = (msg: { payload: Record<string, unknown> }) => {
+      const { communityId } = msg.payload as { communityId: string };
+      removeCommunity(communityId);
+    };
+
+    type DirectMessagePayload = {
+      id: string;
+      conversationId: string;
+      senderId: string;
+      senderDeviceId: string;
+      ciphertext?: string;
+      epoch?: number;
+      clientMessageId?: string;
+      createdAt: string;
+    };
+
+    const reloadConversations = async () => {
+      try {
+        const { conversations } = await api.dms.list();
+        setConversations(conversations);
+      } catch (err) {
+        console.error('Failed to load conversations:', err);
+      }
+    };
+
+    const addDirectMessage = async (payload: DirectMessagePayload) => {
+      // A conversation someone else started
+      if (!useChatStore.getState().conversations.some((c) => c.id === payload.conversationId)) {
+        await reloadConversations();
+      }
+
+      const conversation = useChatStore.getState().conversations.find((c) => c.id === payload.conversationId);
+      if (!conversation) return;
+
+      const message = { ...payload, ciphertext: payload.ciphertext ?? null };
+      addDmMessage({ ...message, decrypted: await decryptDirectMessage(message, conversation) });
+    };
+
+    // A direct message with this device's copy, or a group message
+    const handleDirectMessage = async (msg: { payload: Record<string, unknown> }) => {
+      const payload = msg.payload as DirectMessagePayload;
+      await addDirectMessage(payload);
+
+      if (payload.senderId !== user?.id) {
+        markConversationUnread(payload.conversationId);
+      }
+    };
+
+    // The server stored a direct message this device sent
+    const handleDirectMessageSent = async (msg: { payload: Record<string, unknown> }) => {
+      const payload = msg.payload as DirectMessagePayload;
+      if (payload.clientMessageId) {
+        await acknowledgeDirectMessage(payload.clientMessageId, payload.id);
+      }
+      await addDirectMessage(payload);
+    };
+
+    // A participant added or removed a device, or a group's participants
+    // changed - encrypt the message again
+    const handleDirectMessageRejected = async (msg: { payload: Record<string, unknown> }) => {
+      const { clientMessageId, reason } = msg.payload as {
+        clientMessageId?: string;
+        reason: "devices_changed" | "stale_epoch";
+      };
+
+      if (reason === "stale_epoch") {
+        await reloadConversations();
+      }
+      if (clientMessageId) {
+        await reencryptDirectMessage(clientMessageId);
+      }
+    };
+
+    // A group's participants changed: pick up the new epoch and participants,
+    // so the next message starts a chain shared with the right people
+    const handleParticipantsChanged = () => {
+      reloadConversations();
+    };
+
+    const handleConversationRemoved = (msg: { payload: Record<string, unknown> }) => {
+      const { conversationId } = msg.payload as { conversationId: string };
+      removeConversation(conversationId);
+    };
+
+    // The server refused a message we sent; resending it wouldn't help
+    const handleError = (msg: { payload: Record<string, unknown> }) => {
+      const { message, clientMessageId } = msg.payload as { message: string; clientMessageId?: string };
+      if (clientMessageId) {
+        failMessage(clientMessageId, message);
+      }
+    };
+
+    const handleConversationCreated = (msg: { payload: Record<string, unknown> }) => {
+      const { conversation } = msg.payload as {
+        conversation: Parameters<typeof addConversation>[0];
+      };
+      addConversation(conversation);
+    };
+
     wsClient.on("message:new", handleNewMessage);
     wsClient.on("typing:update", handleTypingUpdate);
+    wsClient.on("community:members", handleMembersChanged);
+    wsClient.on("message:rejected", handleMessageRejected);
+    wsClient.on("message:expired", handleMessagesExpired);
+    wsClient.on("message:deleted", handleMessagesDeleted);
+    wsClient.on("reaction:update", handleReactionUpdate);
+    wsClient.on("mention:new", handleMention);
+    wsClient.on("channel:activity", handleChannelActivity);
+    wsClient.on("channel:read", handleChannelRead);
+    wsClient.on("message:pinned", handlePinned);
+    wsClient.on("message:unpinned", handleUnpinned);
+    wsClient.on("thread:updated", handleThreadUpdated);
+    wsClient.on("message:updated", handleMessageUpdated);
+    wsClient.on("message:edit_rejected", handleEditRejected);
+    wsClient.on("channel:updated", handleChannelUpdated);
+    wsClient.on("community:removed", handleCommunityRemoved);
+    wsClient.on("connection:open", flushOutbox);
+    wsClient.on("connection:open", loadReadStates);
+    wsClient.on("key:request", handleKeyRequest);
+    wsClient.on("key:share", handleKeyShared);
+    wsClient.on("key:unavailable", handleKeyUnavailable);
+    wsClient.on("dm:new", handleDirectMessage);
+    wsClient.on("dm:sent", handleDirectMessageSent);
+    wsClient.on("dm:rejected", handleDirectMessageRejected);
+    wsClient.on("dm:conversation", handleConversationCreated);
+    wsClient.on("dm:participants", handleParticipantsChanged);
+    wsClient.on("dm:removed", handleConversationRemoved);
+    wsClient.on("error", handleError);
 
     return () => {
       wsClient.off("message:new", handleNewMessage);
       wsClient.off("typing:update", handleTypingUpdate);
+      wsClient.off("community:members", handleMembersChanged);
+      wsClient.off("message:rejected", handleMessageRejected);
+      wsClient.off("message:expired", handleMessagesExpired);
+      wsClient.off("message:deleted", handleMessagesDeleted);
+      wsClient.off("reaction:update", handleReactionUpdate);
+      wsClient.off("mention:new", handleMention);
+      wsClient.off("channel:activity", handleChannelActivity);
+      wsClient.off("channel:read", handleChannelRead);
+      wsClient.off("message:pinned", handlePinned);
+      wsClient.off("message:unpinned", handleUnpinned);
+      wsClient.off("thread:updated", handleThreadUpdated);
+      wsClient.off("message:updated", handleMessageUpdated);
+      wsClient.off("message:edit_rejected", handleEditRejected);
+      wsClient.off("channel:updated", handleChannelUpdated);
+      wsClient.off("community:removed", handleCommunityRemoved);
+      wsClient.off("connection:open", flushOutbox);
+      wsClient.off("connection:open", loadReadStates);
+      wsClient.off("key:request", handleKeyRequest);
+      wsClient.off("key:share", handleKeyShared);
+      wsClient.off("key:unavailable", handleKeyUnavailable);
+      wsClient.off("dm:new", handleDirectMessage);
+      wsClient.off("dm:sent", handleDirectMessageSent);
+      wsClient.off("dm:rejected", handleDirectMessageRejected);
+      wsClient.off("dm:conversation", handleConversationCreated);
+      wsClient.off("dm:participants", handleParticipantsChanged);
+      wsClient.off("dm:removed", handleConversationRemoved);
+      wsClient.off("error", handleError);
       wsClient.disconnect();
     };
-  }, [user, addMessage, setTypingUser]);
+  }, [
+    user,
+    addMessage,
+    updateMessage,
+    markMessagesDeleted,
+    addPin,
+    removePins,
+    setReadStates,
+    setReadState,
+    addUnread,
+    setThread,
+    addThreadMessage,
+    setTypingUser,
+    setChannels,
+    setChannelEpoch,
+    setChannelRetention,
+    setMembers,
+    removeCommunity,
+    setConversations,
+    addConversation,
+    removeConversation,
+    addDmMessage,
+    updateDmMessage,
+    markConversationUnread,
+  ]);
+
+  // Keep this device's prekeys stocked and its signed prekey fresh
+  useEffect(() => {
+    if (!user) return;
+
+    const runMaintenance = () => {
+      maintainPreKeys().catch((err) => {
+        console.error('Failed to maintain prekeys:', err);
+      });
+    };
+
+    runMaintenance();
+    wsClient.on("prekeys:low", runMaintenance);
+    const interval = setInterval(runMaintenance, 60 * 60 * 1000);
+
+    return () => {
+      wsClient.off("prekeys:low", runMaintenance);
+      clearInterval(interval);
+    };
+  }, [user]);
+
+  // Drop expired disappearing messages, also when the server's notice was missed
+  useEffect(() => {
+    if (!user) return;
+
+    const pruneExpired = () => {
+      const now = new Date().toISOString();
+
+      for (const [channelId, channelMessages] of Object.entries(useChatStore.getState().messages)) {
+        const expired = channelMessages.filter((m) => m.expiresAt && m.expiresAt <= now);
+        if (expired.length > 0) {
+          forgetMessages(channelId, expired.map((m) => m.id));
+        }
+      }
+
+      deleteExpiredMessagePlaintexts().catch((err) => {
+        console.error('Failed to delete expired messages:', err);
+      });
+    };
+
+    // Messages cached in the clear before the cache was encrypted
+    encryptCachedPlaintexts().catch((err) => {
+      console.error('Failed to encrypt cached messages:', err);
+    });
+
+    pruneExpired();
+    const interval = setInterval(pruneExpired, EXPIRY_CHECK_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [user]);
 
   // Join active channel
   useEffect(() => {
@@ -135,6 +724,14 @@ export function Chat() {
     }
   }, [activeChannelId]);
 
+  // Watch the open thread's replies
+  useEffect(() => {
+    if (!activeThreadId) return;
+
+    wsClient.joinThread(activeThreadId);
+    return () => wsClient.leaveThread(activeThreadId);
+  }, [activeThreadId]);
+
   return (
     <div className="h-screen flex bg-background-primary">
       {/* Community sidebar */}
@@ -145,11 +742,16 @@ export function Chat() {
 
       {/* Main chat area */}
       <div className="flex-1 flex flex-col">
-        {activeChannelId ? (
-          <>
-            <MessageList />
-            <MessageInput />
-          </>
+        {activeConversationId ? (
+          <DirectMessages />
+        ) : activeChannelId ? (
+          <div className="flex-1 flex min-h-0">
+            <div className="flex-1 flex flex-col min-w-0">
+              <MessageList />
+              <MessageInput />
+            </div>
+            {activeThreadId && <ThreadPanel threadId={activeThreadId} />}
+          </div>
         ) : (
           <div className="flex-1 flex items-center justify-center text-text-muted">
             Select a channel to start chatting
@@ -2,21 +2,65 @@ import { useState } from "react";
 import { Link } from "react-router-dom";
 import { useAuthStore } from "../stores/auth";
 import { api } from "../lib/api";
+import { generateIdentityKeys, signLoginChallenge } from "../lib/crypto";
+import {
+  clearAllKeys,
+  getIdentityKeys,
+  getSigningPrivateKey,
+  setLocalDeviceId,
+  storeIdentityKeys,
+} from "../lib/keyStore";
+import { defaultDeviceName } from "../lib/device";
+import { restoreKeyBackup } from "../lib/backup";
 
 export function Login() {
   const [email, setEmail] = useState("");
+  const [linkCode, setLinkCode] = useState("");
+  const [passphrase, setPassphrase] = useState("");
   const [error, setError] = useState("");
+  const [missingKeys, setMissingKeys] = useState(false);
   const [loading, setLoading] = useState(false);
   const setUser = useAuthStore((state) => state.setUser);
+  const setSession = useAuthStore((state) => state.setSession);
+
+  // Answer a login challenge with the local keys. Returns false if this device has none for the account.
+  const logIn = async (): Promise<boolean> => {
+    // Only a device holding this account's signing key can answer the challenge
+    const identity = await getIdentityKeys();
+    const signingKey = identity ? await getSigningPrivateKey() : null;
+
+    if (!identity || !signingKey) {
+      return false;
+    }
+
+    const challenge = await api.auth.challenge(email, identity.deviceId);
+
+    if (challenge.userId !== identity.userId) {
+      return false;
+    }
+
+    const signature = await signLoginChallenge(challenge.challengeId, challenge.nonce, signingKey);
+    const { user, device, session } = await api.auth.login(challenge.challengeId, signature);
+
+    if (!identity.deviceId) {
+      await setLocalDeviceId(device.id);
+    }
+
+    setSession(session);
+    setUser(user);
+    return true;
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
+    setMissingKeys(false);
     setLoading(true);
 
     try {
-      const { user } = await api.auth.login(email);
-      setUser(user);
+      if (!(await logIn())) {
+        setMissingKeys(true);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Login failed");
     } finally {
@@ -24,6 +68,55 @@ export function Login() {
     }
   };
 
+  // Add this browser as a new device using a code from an already signed-in device
+  const handleLinkDevice = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+
+    try {
+      const { keys, publicBundle } = await generateIdentityKeys();
+
+      const { user, device, session } = await api.auth.linkDevice({
+        email,
+        code: linkCode.trim(),
+        deviceName: defaultDeviceName(),
+        ...publicBundle,
+      });
+
+      // Store private keys locally in IndexedDB, replacing any other account's keys
+      await clearAllKeys();
+      await storeIdentityKeys(user.id, device.id, keys);
+
+      setSession(session);
+      setUser(user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to link device");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Restore this account's keys from its encrypted backup, then log in with them
+  const handleRestoreBackup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+
+    try {
+      await restoreKeyBackup(email, passphrase);
+      setPassphrase("");
+
+      if (!(await logIn())) {
+        setError("The backup doesn't contain keys for this account");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to restore backup");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background-tertiary flex items-center justify-center p-4">
       <div className="bg-background-secondary rounded-lg p-8 w-full max-w-md">
@@ -48,15 +141,77 @@ export function Login() {
             <p className="text-red-400 text-sm mb-4">{error}</p>
           )}
 
-          <button
-            type="submit"
-            disabled={loading}
-            className="w-full bg-accent-primary hover:bg-accent-hover text-white font-medium py-2 rounded transition-colors disabled:opacity-50"
-          >
-            {loading ? "Logging in..." : "Log In"}
-          </button>
+          {!missingKeys && (
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full bg-accent-primary hover:bg-accent-hover text-white font-medium py-2 rounded transition-colors disabled:opacity-50"
+            >
+              {loading ? "Logging in..." : "Log In"}
+            </button>
+          )}
         </form>
 
+        {missingKeys && (
+          <div className="bg-background-tertiary rounded p-3 text-sm text-text-secondary">
+            <p className="text-text-primary font-medium mb-1">
+              This device doesn't have the keys for this account
+            </p>
+            <p className="mb-3">
+              Your encryption keys never leave the devices they were created on. Link this
+              device from one where you're already signed in (Settings → Devices → Link a new
+              device), restore your keys from a key backup, or{" "}
+              <Link to="/register" className="text-accent-primary hover:underline">
+                register a new account
+              </Link>{" "}
+              on this device.
+            </p>
+
+            <form onSubmit={handleLinkDevice} className="flex gap-2">
+              <input
+                type="text"
+                placeholder="Link code"
+                value={linkCode}
+                onChange={(e) => setLinkCode(e.target.value)}
+                className="flex-1 bg-background-secondary text-text-primary rounded px-3 py-2 outline-none font-mono uppercase focus:ring-2 focus:ring-accent-primary"
+                required
+              />
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 bg-accent-primary hover:bg-accent-hover text-white rounded disabled:opacity-50"
+              >
+                {loading ? "Linking..." : "Link device"}
+              </button>
+            </form>
+
+            <form onSubmit={handleRestoreBackup} className="flex gap-2 mt-2">
+              <input
+                type="password"
+                placeholder="Backup passphrase"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                className="flex-1 bg-background-secondary text-text-primary rounded px-3 py-2 outline-none focus:ring-2 focus:ring-accent-primary"
+                required
+              />
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 bg-accent-primary hover:bg-accent-hover text-white rounded disabled:opacity-50"
+              >
+                {loading ? "Restoring..." : "Restore"}
+              </button>
+            </form>
+
+            <button
+              onClick={() => setMissingKeys(false)}
+              className="mt-3 text-text-muted hover:underline"
+            >
+              Back
+            </button>
+          </div>
+        )}
+
         <p className="text-text-secondary text-sm mt-4">
           Need an account?{" "}
           <Link to="/register" className="text-accent-primary hover:underline">
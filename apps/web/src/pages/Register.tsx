@@ -3,7 +3,8 @@ import { Link } from "react-router-dom";
 import { useAuthStore } from "../stores/auth";
 import { api } from "../lib/api";
 import { generateIdentityKeys } from "../lib/crypto";
-import { storeIdentityKeys } from "../lib/keyStore";
+import { clearAllKeys, storeIdentityKeys } from "../lib/keyStore";
+import { defaultDeviceName } from "../lib/device";
 
 export function Register() {
   const [email, setEmail] = useState("");
@@ -11,6 +12,7 @@ export function Register() {
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
   const setUser = useAuthStore((state) => state.setUser);
+  const setSession = useAuthStore((state) => state.setSession);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -21,15 +23,18 @@ export function Register() {
       // Generate real cryptographic keys using Web Crypto API
       const { keys, publicBundle } = await generateIdentityKeys();
 
-      const { user } = await api.auth.register({
+      const { user, device, session } = await api.auth.register({
         email,
         displayName,
+        deviceName: defaultDeviceName(),
         ...publicBundle,
       });
 
-      // Store private keys locally in IndexedDB
-      await storeIdentityKeys(user.id, keys);
+      // Store private keys locally in IndexedDB, replacing any other account's keys
+      await clearAllKeys();
+      await storeIdentityKeys(user.id, device.id, keys);
 
+      setSession(session);
       setUser(user);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Registration failed");
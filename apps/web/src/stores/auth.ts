@@ -7,9 +7,17 @@ interface User {
   displayName: string;
 }
 
+interface Session {
+  accessToken: string;
+  accessTokenExpiresAt: string;
+  refreshToken: string;
+}
+
 interface AuthState {
   user: User | null;
+  session: Session | null;
   setUser: (user: User | null) => void;
+  setSession: (session: Session | null) => void;
   logout: () => void;
 }
 
@@ -17,8 +25,10 @@ export const useAuthStore = create<AuthState>()(
   persist(
     (set) => ({
       user: null,
+      session: null,
       setUser: (user) => set({ user }),
-      logout: () => set({ user: null }),
+      setSession: (session) => set({ session }),
+      logout: () => set({ user: null, session: null }),
     }),
     {
       name: "vibe-chat-auth",
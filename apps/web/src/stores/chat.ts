@@ -1,25 +1,41 @@
 import { create } from "zustand";
+import type { DecryptedMessage } from "../lib/channelCrypto";
+import type { ChannelReadState, MessageNotice, Pin, Reaction } from "../lib/api";
+import type { ThreadInfo } from "../lib/threads";
 
 interface Community {
   id: string;
   name: string;
   iconUrl?: string;
   inviteCode: string;
+  createdBy: string;
 }
 
 interface Channel {
   id: string;
   communityId: string;
   name: string;
+  epoch: number; // Key epoch, bumped whenever the community's membership changes
+  retentionSeconds: number | null; // Disappearing messages timer, null when off
 }
 
 interface Message {
   id: string;
   channelId: string;
   senderId: string;
-  ciphertext: string;
-  plaintext?: string; // Decrypted content
-  replyToId?: string;
+  ciphertext: string | null; // Null for notices
+  epoch?: number;
+  decrypted?: DecryptedMessage;
+  notice?: MessageNotice | null;
+  replyToId?: string | null;
+  threadId?: string | null; // Root message of the thread this is a reply in
+  thread?: ThreadInfo | null;
+  mentionedUserIds?: string[] | null;
+  mentionsEveryone?: boolean; // Replies to this message, if it started a thread
+  expiresAt?: string | null;
+  editedAt?: string | null;
+  deletedAt?: string | null; // Set for tombstones, which have no content
+  reactions?: Reaction[];
   createdAt: string;
 }
 
@@ -29,26 +45,96 @@ interface Member {
   avatarUrl?: string;
 }
 
+interface DmConversation {
+  id: string;
+  isGroup: boolean;
+  name: string | null;
+  epoch: number; // Groups only: key epoch, bumped whenever the participants change
+  createdBy: string;
+  createdAt: string;
+  participants: Member[]; // Including ourselves
+}
+
+interface DirectMessage {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  senderDeviceId: string;
+  ciphertext: string | null; // This device's copy, or the group message
+  epoch?: number;
+  decrypted?: DecryptedMessage;
+  createdAt: string;
+}
+
+// A message the server refused, kept by the outbox until it is retried or discarded
+interface FailedMessage {
+  clientMessageId: string;
+  channelId: string; // Channel, or direct message conversation
+  threadId: string | null;
+  text: string;
+  error: string;
+}
+
 interface ChatState {
   communities: Community[];
   channels: Record<string, Channel[]>; // communityId -> channels
   messages: Record<string, Message[]>; // channelId -> messages
   members: Record<string, Member[]>; // communityId -> members
+  pins: Record<string, Pin[]>; // channelId -> pins, most recently pinned first
   activeCommunityId: string | null;
   activeChannelId: string | null;
+  highlightedMessageId: string | null; // Search result jumped to in the active channel
+  highlightedCreatedAt: string | null; // When it was sent, if known: paging back for it stops there
+  activeThreadId: string | null; // Thread open next to the active channel
+  threadMessages: Message[]; // Replies in the open thread
+  replyingToId: string | null; // Message of the active channel the next one replies to
   typingUsers: Record<string, string[]>; // channelId -> userIds
+  conversations: DmConversation[];
+  dmMessages: Record<string, DirectMessage[]>; // conversationId -> messages
+  activeConversationId: string | null; // Shown instead of a channel when set
+  unreadConversations: Record<string, number>; // conversationId -> messages received while not open
+  readStates: Record<string, ChannelReadState>; // channelId -> read position and counts since
+  failedMessages: FailedMessage[];
 
   setCommunities: (communities: Community[]) => void;
   addCommunity: (community: Community) => void;
+  removeCommunity: (communityId: string) => void;
   setChannels: (communityId: string, channels: Channel[]) => void;
   addChannel: (channel: Channel) => void;
+  setChannelEpoch: (communityId: string, channelId: string, epoch: number) => void;
+  setChannelRetention: (communityId: string, channelId: string, retentionSeconds: number | null) => void;
   setMembers: (communityId: string, members: Member[]) => void;
   addMemberIfMissing: (userId: string, displayName: string) => void;
   setMessages: (channelId: string, messages: Message[]) => void;
   addMessage: (message: Message) => void;
+  updateMessage: (channelId: string, messageId: string, update: Partial<Message>) => void;
+  removeMessages: (channelId: string, messageIds: string[]) => void;
+  markMessagesDeleted: (channelId: string, messageIds: string[]) => void;
+  setPins: (channelId: string, pins: Pin[]) => void;
+  addPin: (channelId: string, pin: Pin) => void;
+  removePins: (channelId: string, messageIds: string[]) => void;
+  setThread: (channelId: string, messageId: string, thread: ThreadInfo | null) => void;
+  openThread: (threadId: string | null) => void;
+  setThreadMessages: (messages: Message[]) => void;
+  addThreadMessage: (message: Message) => void;
+  setReplyingTo: (messageId: string | null) => void;
   setActiveCommunity: (communityId: string | null) => void;
   setActiveChannel: (channelId: string | null) => void;
+  jumpToMessage: (communityId: string, channelId: string, messageId: string, createdAt?: string) => void;
   setTypingUser: (channelId: string, userId: string, isTyping: boolean) => void;
+  setConversations: (conversations: DmConversation[]) => void;
+  addConversation: (conversation: DmConversation) => void;
+  removeConversation: (conversationId: string) => void;
+  setDmMessages: (conversationId: string, messages: DirectMessage[]) => void;
+  addDmMessage: (message: DirectMessage) => void;
+  updateDmMessage: (conversationId: string, messageId: string, update: Partial<DirectMessage>) => void;
+  markConversationUnread: (conversationId: string) => void;
+  setReadStates: (readStates: ChannelReadState[]) => void;
+  setReadState: (readState: ChannelReadState) => void;
+  addUnread: (communityId: string, channelId: string, unread: { messages: number; mentions: number }) => void;
+  setActiveConversation: (conversationId: string | null) => void;
+  addFailedMessage: (message: FailedMessage) => void;
+  removeFailedMessage: (clientMessageId: string) => void;
 }
 
 export const useChatStore = create<ChatState>((set) => ({
@@ -56,15 +142,42 @@ export const useChatStore = create<ChatState>((set) => ({
   channels: {},
   messages: {},
   members: {},
+  pins: {},
   activeCommunityId: null,
   activeChannelId: null,
+  highlightedMessageId: null,
+  highlightedCreatedAt: null,
+  activeThreadId: null,
+  threadMessages: [],
+  replyingToId: null,
   typingUsers: {},
+  conversations: [],
+  dmMessages: {},
+  activeConversationId: null,
+  unreadConversations: {},
+  readStates: {},
+  failedMessages: [],
 
   setCommunities: (communities) => set({ communities }),
 
   addCommunity: (community) =>
     set((state) => ({ communities: [...state.communities, community] })),
 
+  removeCommunity: (communityId) =>
+    set((state) => {
+      const { [communityId]: _channels, ...channels } = state.channels;
+      const { [communityId]: _members, ...members } = state.members;
+      const isActive = state.activeCommunityId === communityId;
+
+      return {
+        communities: state.communities.filter((c) => c.id !== communityId),
+        channels,
+        members,
+        activeCommunityId: isActive ? null : state.activeCommunityId,
+        activeChannelId: isActive ? null : state.activeChannelId,
+      };
+    }),
+
   setChannels: (communityId, channels) =>
     set((state) => ({
       channels: { ...state.channels, [communityId]: channels },
@@ -81,6 +194,36 @@ export const useChatStore = create<ChatState>((set) => ({
       },
     })),
 
+  setChannelEpoch: (communityId, channelId, epoch) =>
+    set((state) => {
+      const communityChannels = state.channels[communityId];
+      if (!communityChannels) return state;
+
+      return {
+        channels: {
+          ...state.channels,
+          [communityId]: communityChannels.map((c) =>
+            c.id === channelId ? { ...c, epoch: Math.max(c.epoch, epoch) } : c
+          ),
+        },
+      };
+    }),
+
+  setChannelRetention: (communityId, channelId, retentionSeconds) =>
+    set((state) => {
+      const communityChannels = state.channels[communityId];
+      if (!communityChannels) return state;
+
+      return {
+        channels: {
+          ...state.channels,
+          [communityId]: communityChannels.map((c) =>
+            c.id === channelId ? { ...c, retentionSeconds } : c
+          ),
+        },
+      };
+    }),
+
   setMembers: (communityId, members) =>
     set((state) => ({
       members: { ...state.members, [communityId]: members },
@@ -123,9 +266,138 @@ export const useChatStore = create<ChatState>((set) => ({
       };
     }),
 
-  setActiveCommunity: (communityId) => set({ activeCommunityId: communityId }),
+  // Updates, removals and deletions apply to the open thread's replies too.
+  // Removed and deleted messages are unpinned.
+  updateMessage: (channelId, messageId, update) =>
+    set((state) => ({
+      messages: {
+        ...state.messages,
+        [channelId]: (state.messages[channelId] || []).map((m) =>
+          m.id === messageId ? { ...m, ...update } : m
+        ),
+      },
+      threadMessages: state.threadMessages.map((m) =>
+        m.id === messageId ? { ...m, ...update } : m
+      ),
+    })),
+
+  removeMessages: (channelId, messageIds) =>
+    set((state) => {
+      const removed = new Set(messageIds);
+      return {
+        messages: {
+          ...state.messages,
+          [channelId]: (state.messages[channelId] || []).filter((m) => !removed.has(m.id)),
+        },
+        threadMessages: state.threadMessages.filter((m) => !removed.has(m.id)),
+        pins: {
+          ...state.pins,
+          [channelId]: (state.pins[channelId] || []).filter((p) => !removed.has(p.messageId)),
+        },
+      };
+    }),
+
+  // Deleted messages stay as tombstones so replies to them still make sense
+  markMessagesDeleted: (channelId, messageIds) =>
+    set((state) => {
+      const deleted = new Set(messageIds);
+      const deletedAt = new Date().toISOString();
+      const toTombstone = (m: Message): Message =>
+        deleted.has(m.id)
+          ? { ...m, ciphertext: null, decrypted: undefined, editedAt: null, deletedAt, reactions: [] }
+          : m;
+
+      return {
+        messages: {
+          ...state.messages,
+          [channelId]: (state.messages[channelId] || []).map(toTombstone),
+        },
+        threadMessages: state.threadMessages.map(toTombstone),
+        pins: {
+          ...state.pins,
+          [channelId]: (state.pins[channelId] || []).filter((p) => !deleted.has(p.messageId)),
+        },
+      };
+    }),
+
+  setPins: (channelId, pins) =>
+    set((state) => ({
+      pins: { ...state.pins, [channelId]: pins },
+    })),
+
+  addPin: (channelId, pin) =>
+    set((state) => {
+      const channelPins = state.pins[channelId] || [];
+      if (channelPins.some((p) => p.messageId === pin.messageId)) {
+        return state;
+      }
+      return {
+        pins: { ...state.pins, [channelId]: [pin, ...channelPins] },
+      };
+    }),
+
+  removePins: (channelId, messageIds) =>
+    set((state) => ({
+      pins: {
+        ...state.pins,
+        [channelId]: (state.pins[channelId] || []).filter((p) => !messageIds.includes(p.messageId)),
+      },
+    })),
 
-  setActiveChannel: (channelId) => set({ activeChannelId: channelId }),
+  setThread: (channelId, messageId, thread) =>
+    set((state) => ({
+      messages: {
+        ...state.messages,
+        [channelId]: (state.messages[channelId] || []).map((m) =>
+          m.id === messageId ? { ...m, thread } : m
+        ),
+      },
+    })),
+
+  openThread: (threadId) => set({ activeThreadId: threadId, threadMessages: [] }),
+
+  setThreadMessages: (messages) => set({ threadMessages: messages }),
+
+  addThreadMessage: (message) =>
+    set((state) => {
+      if (state.threadMessages.some((m) => m.id === message.id)) {
+        return state;
+      }
+      return { threadMessages: [...state.threadMessages, message] };
+    }),
+
+  setReplyingTo: (messageId) => set({ replyingToId: messageId }),
+
+  setActiveCommunity: (communityId) =>
+    set((state) => ({
+      activeCommunityId: communityId,
+      activeConversationId: communityId ? null : state.activeConversationId,
+      highlightedMessageId: null,
+      highlightedCreatedAt: null,
+      activeThreadId: null,
+      threadMessages: [],
+      replyingToId: null,
+    })),
+
+  setActiveChannel: (channelId) =>
+    set({
+      activeChannelId: channelId,
+      highlightedMessageId: null,
+      highlightedCreatedAt: null,
+      activeThreadId: null,
+      threadMessages: [],
+      replyingToId: null,
+    }),
+
+  jumpToMessage: (communityId, channelId, messageId, createdAt) =>
+    set((state) => ({
+      activeCommunityId: communityId,
+      activeChannelId: channelId,
+      activeConversationId: null,
+      highlightedMessageId: messageId,
+      highlightedCreatedAt: createdAt ?? null,
+      ...(channelId !== state.activeChannelId && { activeThreadId: null, threadMessages: [], replyingToId: null }),
+    })),
 
   setTypingUser: (channelId, userId, isTyping) =>
     set((state) => {
@@ -137,4 +409,157 @@ export const useChatStore = create<ChatState>((set) => ({
         typingUsers: { ...state.typingUsers, [channelId]: updated },
       };
     }),
+
+  setConversations: (conversations) => set({ conversations }),
+
+  addConversation: (conversation) =>
+    set((state) => ({
+      conversations: state.conversations.some((c) => c.id === conversation.id)
+        ? state.conversations
+        : [...state.conversations, conversation],
+    })),
+
+  removeConversation: (conversationId) =>
+    set((state) => {
+      const { [conversationId]: _messages, ...dmMessages } = state.dmMessages;
+      const { [conversationId]: _unread, ...unreadConversations } = state.unreadConversations;
+
+      return {
+        conversations: state.conversations.filter((c) => c.id !== conversationId),
+        dmMessages,
+        unreadConversations,
+        activeConversationId:
+          state.activeConversationId === conversationId ? null : state.activeConversationId,
+      };
+    }),
+
+  setDmMessages: (conversationId, messages) =>
+    set((state) => ({
+      dmMessages: { ...state.dmMessages, [conversationId]: messages },
+    })),
+
+  addDmMessage: (message) =>
+    set((state) => {
+      const conversationMessages = state.dmMessages[message.conversationId] || [];
+      if (conversationMessages.some((m) => m.id === message.id)) {
+        return state;
+      }
+      return {
+        dmMessages: {
+          ...state.dmMessages,
+          [message.conversationId]: [...conversationMessages, message],
+        },
+      };
+    }),
+
+  updateDmMessage: (conversationId, messageId, update) =>
+    set((state) => ({
+      dmMessages: {
+        ...state.dmMessages,
+        [conversationId]: (state.dmMessages[conversationId] || []).map((m) =>
+          m.id === messageId ? { ...m, ...update } : m
+        ),
+      },
+    })),
+
+  // Only counts conversations that aren't open
+  markConversationUnread: (conversationId) =>
+    set((state) => {
+      if (state.activeConversationId === conversationId) return state;
+
+      return {
+        unreadConversations: {
+          ...state.unreadConversations,
+          [conversationId]: (state.unreadConversations[conversationId] || 0) + 1,
+        },
+      };
+    }),
+
+  setReadStates: (readStates) =>
+    set({
+      readStates: Object.fromEntries(readStates.map((r) => [r.channelId, r])),
+    }),
+
+  setReadState: (readState) =>
+    set((state) => ({
+      readStates: { ...state.readStates, [readState.channelId]: readState },
+    })),
+
+  // Nothing counts for the channel being looked at; it is marked read instead
+  addUnread: (communityId, channelId, unread) =>
+    set((state) => {
+      if (state.activeChannelId === channelId && !state.activeConversationId) return state;
+
+      const current = state.readStates[channelId] ?? {
+        channelId,
+        communityId,
+        lastReadMessageId: null,
+        lastReadAt: null,
+        unreadCount: 0,
+        mentionCount: 0,
+      };
+
+      return {
+        readStates: {
+          ...state.readStates,
+          [channelId]: {
+            ...current,
+            unreadCount: current.unreadCount + unread.messages,
+            mentionCount: current.mentionCount + unread.mentions,
+          },
+        },
+      };
+    }),
+
+  // Opening a conversation leaves the community view
+  setActiveConversation: (conversationId) =>
+    set((state) => {
+      const unreadConversations = { ...state.unreadConversations };
+      if (conversationId) delete unreadConversations[conversationId];
+
+      return {
+        activeConversationId: conversationId,
+        activeCommunityId: conversationId ? null : state.activeCommunityId,
+        activeChannelId: conversationId ? null : state.activeChannelId,
+        highlightedMessageId: conversationId ? null : state.highlightedMessageId,
+        highlightedCreatedAt: conversationId ? null : state.highlightedCreatedAt,
+        activeThreadId: conversationId ? null : state.activeThreadId,
+        threadMessages: conversationId ? [] : state.threadMessages,
+        replyingToId: conversationId ? null : state.replyingToId,
+        unreadConversations,
+      };
+    }),
+
+  addFailedMessage: (message) =>
+    set((state) => ({
+      failedMessages: [...state.failedMessages.filter((m) => m.clientMessageId !== message.clientMessageId), message],
+    })),
+
+  removeFailedMessage: (clientMessageId) =>
+    set((state) => ({
+      failedMessages: state.failedMessages.filter((m) => m.clientMessageId !== clientMessageId),
+    })),
 }));
+
+/**
+ * The name to show for a conversation: its group name, or the other participants
+ */
+export function getConversationName(conversation: DmConversation, userId?: string): string {
+  if (conversation.name) return conversation.name;
+
+  const others = conversation.participants.filter((p) => p.id !== userId);
+  return others.map((p) => p.displayName).join(", ") || "Direct message";
+}
+
+/**
+ * Everyone from the loaded communities and conversations, e.g. to start a group conversation with
+ */
+export function listKnownUsers(members: Record<string, Member[]>, conversations: DmConversation[]): Member[] {
+  const users = new Map<string, Member>();
+
+  for (const member of [...Object.values(members).flat(), ...conversations.flatMap((c) => c.participants)]) {
+    if (!users.has(member.id)) users.set(member.id, member);
+  }
+
+  return [...users.values()].sort((a, b) => a.displayName.localeCompare(b.displayName));
+}
@@ -0,0 +1,22 @@
+import { create } from "zustand";
+
+// unverified: keys pinned on first use; verified: safety number compared;
+// changed: keys differ from the pinned ones and must be accepted
+export type TrustState = "unverified" | "verified" | "changed";
+
+interface TrustStoreState {
+  states: Record<string, TrustState>; // userId -> trust state
+
+  setTrustState: (userId: string, state: TrustState) => void;
+  setTrustStates: (states: Record<string, TrustState>) => void;
+}
+
+export const useTrustStore = create<TrustStoreState>((set) => ({
+  states: {},
+
+  setTrustState: (userId, trustState) =>
+    set((state) => ({ states: { ...state.states, [userId]: trustState } })),
+
+  setTrustStates: (states) =>
+    set((state) => ({ states: { ...state.states, ...states } })),
+}));
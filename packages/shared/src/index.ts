@@ -7,6 +7,14 @@ export interface User {
   avatarUrl?: string;
 }
 
+export interface Device {
+  id: string;
+  name: string;
+  lastSeenAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
 export interface Community {
   id: string;
   name: string;
@@ -20,15 +28,101 @@ export interface Channel {
   id: string;
   communityId: string;
   name: string;
+  epoch: number; // Key epoch, bumped whenever the community's membership changes
+  retentionSeconds: number | null; // Disappearing messages: new messages expire this long after sending
   createdAt: string;
 }
 
+// Plaintext notice the server posts into a channel on behalf of a member
+export type MessageNotice =
+  | { type: "retention_changed"; retentionSeconds: number | null };
+
 export interface Message {
   id: string;
   channelId: string;
   senderId: string;
-  ciphertext: string;
+  ciphertext: string | null; // Null for notices
+  epoch: number; // Channel epoch the message was encrypted in
+  notice?: MessageNotice | null;
+  clientMessageId?: string; // Sender-chosen id, echoed back as the acknowledgement
   replyToId?: string;
+  threadId?: string; // Root message of the thread this is a reply in
+  // Plaintext hints from the sender, since the server can't read the content
+  mentionedUserIds?: string[];
+  mentionsEveryone?: boolean;
+  expiresAt: string | null; // Hard-deleted by the server after this
+  editedAt?: string | null; // Set once the sender has replaced the ciphertext
+  deletedAt?: string | null; // Tombstone: the ciphertext was wiped, the row stays for replies
+  reactions?: Reaction[]; // Included when listing a channel's messages
+  thread?: ThreadSummary | null; // Included when listing a channel's messages
+  createdAt: string;
+}
+
+// Replies to a channel message. Threads are archived after a while without
+// replies, and reopened by the next one.
+export interface ThreadSummary {
+  replyCount: number;
+  lastReply: Pick<Message, "id" | "senderId" | "ciphertext" | "epoch" | "expiresAt" | "editedAt" | "createdAt"> | null;
+  archivedAt: string | null;
+}
+
+// Everyone who reacted to a message with one emoji, either Unicode or a community custom emoji
+export interface Reaction {
+  emoji: string | null;
+  customEmoji: Pick<Emoji, "id" | "name" | "fileUrl"> | null;
+  count: number;
+  userIds: string[];
+}
+
+// Who a new message mentions, sent in plaintext next to its ciphertext.
+// @here is resolved by the server to the members online at the time.
+export interface Mentions {
+  userIds?: string[];
+  everyone?: boolean;
+  here?: boolean;
+}
+
+// How far a user has read a channel, and what arrived from others since.
+// Unread counts cover the channel itself; mention counts include its threads.
+export interface ChannelReadState {
+  channelId: string;
+  communityId: string;
+  lastReadMessageId: string | null;
+  lastReadAt: string | null;
+  unreadCount: number;
+  mentionCount: number;
+}
+
+// A message pinned in its channel by a moderator
+export interface Pin {
+  messageId: string;
+  pinnedBy: string;
+  pinnedAt: string;
+}
+
+// Direct message conversation: one-to-one, or a group of up to 10 people
+// encrypted with sender keys like a channel
+export interface DmConversation {
+  id: string;
+  isGroup: boolean;
+  name: string | null;
+  epoch: number; // Groups only: key epoch, bumped whenever the participants change
+  createdBy: string;
+  createdAt: string;
+  participants: { id: string; displayName: string; avatarUrl?: string }[];
+}
+
+// A direct message as seen by one device: ciphertext is that device's copy
+// (a DirectMessageEnvelope), null for messages the device sent itself. Group
+// messages have a single sender key ciphertext, like channel messages.
+export interface DirectMessage {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  senderDeviceId: string;
+  ciphertext: string | null;
+  epoch: number; // Group epoch the message was encrypted in
+  clientMessageId?: string;
   createdAt: string;
 }
 
@@ -40,26 +134,190 @@ export interface Emoji {
   animated: boolean;
 }
 
+// Session tokens issued on register, login and refresh
+export interface SessionTokens {
+  accessToken: string;
+  accessTokenExpiresAt: string;
+  refreshToken: string;
+}
+
+// Where a sender chain is shared: a channel, or a group conversation
+export type SenderKeyScope = { channelId: string } | { conversationId: string };
+
 // WebSocket message types
+// (the socket is authenticated during the upgrade via ?token=<accessToken>)
 export type WsClientMessage =
-  | { type: "auth"; payload: { userId: string } }
   | { type: "channel:join"; payload: { channelId: string } }
   | { type: "channel:leave"; payload: { channelId: string } }
-  | { type: "message:send"; payload: { channelId: string; ciphertext: string; replyToId?: string } }
+  // Read the channel up to this message; positions never move back
+  | { type: "channel:read"; payload: { channelId: string; messageId: string } }
+  | {
+      type: "message:send";
+      payload: {
+        channelId: string;
+        ciphertext: string;
+        epoch: number;
+        clientMessageId: string; // Resends with the same id are stored once
+        replyToId?: string;
+        threadId?: string; // Post as a reply in this thread; replyToId defaults to it
+        mentions?: Mentions;
+        attachmentIds?: string[]; // Blob ids of the attachments, so members can download them
+      };
+    }
+  // Receive the replies posted in a thread
+  | { type: "thread:join"; payload: { threadId: string } }
+  | { type: "thread:leave"; payload: { threadId: string } }
+  // Replace the ciphertext of one of our own messages; the old one is kept as history
+  | { type: "message:edit"; payload: { messageId: string; ciphertext: string; epoch: number } }
+  // Reactions are idempotent: adding one twice or removing a missing one changes nothing
+  | { type: "reaction:add"; payload: { messageId: string } & ({ emoji: string } | { emojiId: string }) }
+  | { type: "reaction:remove"; payload: { messageId: string } & ({ emoji: string } | { emojiId: string }) }
   | { type: "typing:start"; payload: { channelId: string } }
-  | { type: "typing:stop"; payload: { channelId: string } };
+  | { type: "typing:stop"; payload: { channelId: string } }
+  // One ciphertext for every active device of the participants except the sending one
+  | {
+      type: "dm:send";
+      payload: {
+        conversationId: string;
+        clientMessageId: string;
+        ciphertexts: { deviceId: string; ciphertext: string }[];
+        attachmentIds?: string[];
+      };
+    }
+  // Group conversations: one ciphertext from the sender's chain for the current epoch
+  | {
+      type: "dm:send";
+      payload: {
+        conversationId: string;
+        clientMessageId: string;
+        ciphertext: string;
+        epoch: number;
+        attachmentIds?: string[];
+      };
+    }
+  // Ask the devices holding a sender chain this device doesn't have to share it,
+  // from the iteration of the earliest message it needs
+  | { type: "key:request"; payload: SenderKeyScope & { distributionId: string; iteration?: number } }
+  // Answer a key:request: encryptedKey is a SenderKeyDistribution encryptedKey for forDeviceId
+  | {
+      type: "key:share";
+      payload: SenderKeyScope & {
+        distributionId: string;
+        iteration?: number; // The iteration the answered request asked for
+        forUserId: string;
+        forDeviceId: string;
+        encryptedKey: string;
+      };
+    };
 
 export type WsServerMessage =
   | { type: "auth:success"; payload: Record<string, never> }
   | { type: "channel:joined"; payload: { channelId: string } }
+  | { type: "thread:joined"; payload: { threadId: string } }
   | { type: "message:new"; payload: Message }
+  // Expired messages were deleted; clients drop their plaintext too
+  | { type: "message:expired"; payload: { channelId: string; messageIds: string[] } }
+  | { type: "message:updated"; payload: Message }
+  // Deleted by their senders or a moderator; tombstones replace them
+  | { type: "message:deleted"; payload: { channelId: string; messageIds: string[] } }
+  // Sent to the channel instead of thread replies themselves
+  | { type: "thread:updated"; payload: { channelId: string; threadId: string; thread: ThreadSummary } }
+  // All reactions to a message after one changed
+  | { type: "reaction:update"; payload: { channelId: string; messageId: string; reactions: Reaction[] } }
+  // Sent to each mentioned member, whichever channel they have open
+  | {
+      type: "mention:new";
+      payload: { communityId: string; channelId: string; messageId: string; threadId: string | null };
+    }
+  | { type: "message:pinned"; payload: { channelId: string; pin: Pin } }
+  | { type: "message:unpinned"; payload: { channelId: string; messageId: string } }
+  | {
+      // The edit was encrypted for an old epoch; re-encrypt for `epoch` and resend
+      type: "message:edit_rejected";
+      payload: { messageId: string; communityId: string; reason: "stale_epoch"; epoch: number };
+    }
+  | {
+      type: "channel:updated";
+      payload: { communityId: string; channelId: string; retentionSeconds: number | null };
+    }
+  // Sent to every socket of the user after any of them marks a channel read
+  | { type: "channel:read"; payload: ChannelReadState }
+  // A message was posted in a channel this socket isn't watching
+  | { type: "channel:activity"; payload: { communityId: string; channelId: string; messageId: string } }
   | { type: "typing:update"; payload: { channelId: string; userId: string; isTyping: boolean } }
-  | { type: "error"; payload: { message: string } };
+  | { type: "prekeys:low"; payload: { count: number } }
+  | {
+      // The channel moved to a new epoch; re-encrypt for `epoch` and resend
+      type: "message:rejected";
+      payload: {
+        clientMessageId?: string;
+        communityId: string;
+        channelId: string;
+        reason: "stale_epoch";
+        epoch: number;
+      };
+    }
+  | {
+      type: "community:members";
+      payload: {
+        communityId: string;
+        userId: string;
+        type: "joined" | "left" | "removed" | "device_revoked";
+        channels: { channelId: string; epoch: number }[]; // New epochs after the change
+      };
+    }
+  | { type: "community:removed"; payload: { communityId: string } }
+  | {
+      // Forwarded to every online device holding the chain: its owner and those it was shared with
+      type: "key:request";
+      payload: SenderKeyScope & {
+        distributionId: string;
+        iteration?: number;
+        requesterUserId: string;
+        requesterDeviceId: string;
+      };
+    }
+  // The chain was shared with this device; fetch it from GET /channels/:channelId/sender-keys
+  // (or GET /dms/:conversationId/sender-keys)
+  | { type: "key:share"; payload: SenderKeyScope & { distributionId: string } }
+  | {
+      type: "key:unavailable";
+      payload: SenderKeyScope & { distributionId: string; reason: "not_found" | "stale_epoch" | "offline" };
+    }
+  | { type: "dm:new"; payload: DirectMessage & { ciphertext: string } }
+  // Acknowledgement to the sending device
+  | { type: "dm:sent"; payload: Omit<DirectMessage, "ciphertext"> }
+  // A participant's devices changed; re-encrypt for the current devices and resend
+  | { type: "dm:rejected"; payload: { clientMessageId?: string; conversationId: string; reason: "devices_changed" } }
+  // The group moved to a new epoch; re-encrypt for `epoch` and resend
+  | {
+      type: "dm:rejected";
+      payload: { clientMessageId?: string; conversationId: string; reason: "stale_epoch"; epoch: number };
+    }
+  | { type: "dm:conversation"; payload: { conversation: DmConversation } }
+  | {
+      type: "dm:participants";
+      payload: {
+        conversationId: string;
+        userId: string;
+        type: "joined" | "left" | "removed";
+        epoch: number; // New epoch after the change
+      };
+    }
+  | { type: "dm:removed"; payload: { conversationId: string } }
+  // clientMessageId is set when a message:send or dm:send was refused; it is not retried
+  | { type: "error"; payload: { message: string; clientMessageId?: string } };
 
 // Signal Protocol key types
+// One bundle per device - each device has its own identity keys.
+// signedPreKey.signature is made by signingKey over "vibechat-signed-prekey:" || identityKey || signedPreKey
+// and must be verified before encrypting to the device.
 export interface PreKeyBundle {
+  deviceId: string;
+  signingKey: string;
   identityKey: string;
   signedPreKey: {
+    keyId: number;
     publicKey: string;
     signature: string;
   };
@@ -69,9 +327,69 @@ export interface PreKeyBundle {
   } | null;
 }
 
+export interface UserKeyBundles {
+  userId: string;
+  devices: PreKeyBundle[];
+}
+
+// Channel message ciphertext: base64 of this binary envelope (integers big endian)
+//   version = 3 (1) | distributionId (16) | epoch (4) | iteration (4) | timestamp ms (8)
+//   | iv + AES-GCM ciphertext of the JSON MessageContent | signature (64)
+// The AES-GCM additional data is the header || channelId || senderId, and the
+// signature is the sending device's ECDSA P-256 signature over that data
+// followed by the ciphertext. Messages that start with "{" are JSON envelopes
+// from before signatures: version 1 { v, d, i, c } and version 2 { v, d, e, i, c }.
+export interface SenderKeyEnvelope {
+  version: 3;
+  distributionId: string;
+  epoch: number;
+  iteration: number;
+  timestamp: number;
+  ciphertext: string; // base64 iv + AES-GCM ciphertext
+  signature: string; // base64 r || s
+}
+
+// Direct message ciphertext: base64 of this JSON, encrypted with the Double
+// Ratchet session between the two devices. preKey carries the X3DH values
+// (ephemeral key and the responder's prekey ids) until the responder replies.
+// The AES-GCM additional data is both identity keys (initiator first)
+// followed by the JSON array [ratchetKey, previousCount, count].
+export interface DirectMessageEnvelope {
+  version: 1;
+  preKey: { ephemeralKey: string; signedPreKeyId: number; preKeyId: string | null } | null;
+  header: { ratchetKey: string; previousCount: number; count: number };
+  ciphertext: string; // base64 iv + AES-GCM ciphertext of the JSON MessageContent
+}
+
+// Uploaded attachment blob: iv (12) + AES-GCM ciphertext of the file, under
+// a key that only travels inside the message that references it
+export interface AttachmentPointer {
+  id: string;
+  key: string; // base64 AES-256-GCM key
+  digest: string; // base64 SHA-256 of the encrypted blob
+  name: string;
+  mimeType: string;
+  size: number; // Plaintext bytes
+}
+
+// Decrypted message content, tagged by type so new kinds can be added.
+// Text may be empty when the message only carries attachments.
+export type MessageContent =
+  | { type: "text"; text: string; attachments?: AttachmentPointer[] };
+
+// encryptedKey decrypts to JSON { chainKey, iteration, epoch, skipped? } - the chain state,
+// with the message keys kept for skipped iterations when shared by a holder
 export interface SenderKeyDistribution {
-  channelId: string;
+  channelId: string | null; // One of channelId and conversationId is set
+  conversationId: string | null;
   userId: string;
+  deviceId: string;
   distributionId: string;
+  epoch: number;
   encryptedKey: string;
+  forUserId: string;
+  forDeviceId: string;
+  // The device that encrypted encryptedKey, when a holder other than the owner shared it
+  sharedByUserId: string | null;
+  sharedByDeviceId: string | null;
 }